@@ -10,6 +10,16 @@ export function createApp() {
   // Basic middleware
   app.use(helmet())
   app.use(cors())
+  // Project bundles and task imports run well past the default 100kb
+  // body limit
+  app.use(
+    '/api/v1/projects/bundle',
+    express.json({ limit: `${ENV.BUNDLE_MAX_SIZE_MB}mb` }),
+  )
+  app.use(
+    '/api/v1/projects/:id/tasks/import',
+    express.json({ limit: `${ENV.TASK_IMPORT_MAX_SIZE_MB}mb` }),
+  )
   app.use(express.json())
   app.use(express.urlencoded({ extended: true }))
 
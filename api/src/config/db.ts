@@ -178,7 +178,8 @@ export async function withRetry<T>(
 }
 
 /**
- * Transaction wrapper with error handling
+ * Transaction wrapper with error handling. Long-running transactions can
+ * raise the default timeout through options.
  */
 export async function withTransaction<T>(
   callback: (
@@ -187,9 +188,10 @@ export async function withTransaction<T>(
       '$connect' | '$disconnect' | '$on' | '$transaction' | '$extends'
     >,
   ) => Promise<T>,
+  options?: { maxWait?: number; timeout?: number },
 ): Promise<T> {
   try {
-    return await prisma.$transaction(callback)
+    return await prisma.$transaction(callback, options)
   } catch (error) {
     const message = 'Transaction failed'
     console.error('❌ ' + message + ':', error)
@@ -173,6 +173,14 @@ export type Env = {
   RATE_LIMIT_MAX_REQUESTS: number
   SESSION_TIMEOUT_MINUTES: number
   PASSWORD_SALT_ROUNDS: number
+  RECURRENCE_INTERVAL_MINUTES: number
+  TRASH_RETENTION_DAYS: number
+  TRASH_PURGE_INTERVAL_MINUTES: number
+  BUNDLE_MAX_SIZE_MB: number
+  TASK_IMPORT_MAX_SIZE_MB: number
+  NOTE_REVISION_KEEP_ALL_DAYS: number
+  NOTE_REVISION_KEEP_DAILY_DAYS: number
+  NOTE_REVISION_PRUNE_INTERVAL_MINUTES: number
   ENCRYPTION_KEY?: string
   DEBUG: boolean
 }
@@ -193,6 +201,34 @@ function createEnvironmentConfig(): Env {
       RATE_LIMIT_MAX_REQUESTS: numericEnv('RATE_LIMIT_MAX_REQUESTS', 100, 1),
       SESSION_TIMEOUT_MINUTES: numericEnv('SESSION_TIMEOUT_MINUTES', 60, 1),
       PASSWORD_SALT_ROUNDS: numericEnv('PASSWORD_SALT_ROUNDS', 12, 8, 20),
+      RECURRENCE_INTERVAL_MINUTES: numericEnv(
+        'RECURRENCE_INTERVAL_MINUTES',
+        15,
+        1,
+      ),
+      TRASH_RETENTION_DAYS: numericEnv('TRASH_RETENTION_DAYS', 30, 1),
+      TRASH_PURGE_INTERVAL_MINUTES: numericEnv(
+        'TRASH_PURGE_INTERVAL_MINUTES',
+        60,
+        1,
+      ),
+      BUNDLE_MAX_SIZE_MB: numericEnv('BUNDLE_MAX_SIZE_MB', 20, 1),
+      TASK_IMPORT_MAX_SIZE_MB: numericEnv('TASK_IMPORT_MAX_SIZE_MB', 5, 1),
+      NOTE_REVISION_KEEP_ALL_DAYS: numericEnv(
+        'NOTE_REVISION_KEEP_ALL_DAYS',
+        30,
+        0,
+      ),
+      NOTE_REVISION_KEEP_DAILY_DAYS: numericEnv(
+        'NOTE_REVISION_KEEP_DAILY_DAYS',
+        0,
+        0,
+      ), // 0 keeps daily snapshots forever
+      NOTE_REVISION_PRUNE_INTERVAL_MINUTES: numericEnv(
+        'NOTE_REVISION_PRUNE_INTERVAL_MINUTES',
+        60,
+        1,
+      ),
       ENCRYPTION_KEY: process.env.ENCRYPTION_KEY?.trim(),
       DEBUG: booleanEnv('DEBUG', false),
     }
@@ -0,0 +1,270 @@
+import { Request, Response, NextFunction } from 'express'
+import { ZodError } from 'zod'
+import { exchangeRateService } from './exchangeRate.service'
+import {
+  createExchangeRateSchema,
+  updateExchangeRateSchema,
+  exchangeRateQuerySchema,
+  importExchangeRatesSchema,
+  ExchangeRateError,
+} from './exchangeRate.model'
+import {
+  createSuccessResponse,
+  createErrorResponse,
+} from '../../../utils/response'
+
+export class ExchangeRateController {
+  // GET /exchange-rates
+  async getExchangeRates(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const queryParams = exchangeRateQuerySchema.parse(req.query)
+      const exchangeRates =
+        await exchangeRateService.getExchangeRates(queryParams)
+
+      return createSuccessResponse(
+        res,
+        'Exchange rates retrieved successfully',
+        exchangeRates,
+      )
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(
+          res,
+          'Invalid query parameters',
+          err.issues,
+          400,
+        )
+      }
+      if (err instanceof ExchangeRateError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // GET /exchange-rates/:id
+  async getExchangeRateById(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const exchangeRateId = parseInt(req.params.id)
+      if (isNaN(exchangeRateId)) {
+        return createErrorResponse(
+          res,
+          'Invalid exchange rate ID',
+          undefined,
+          400,
+        )
+      }
+
+      const exchangeRate =
+        await exchangeRateService.getExchangeRateById(exchangeRateId)
+
+      return createSuccessResponse(
+        res,
+        'Exchange rate retrieved successfully',
+        exchangeRate,
+      )
+    } catch (err) {
+      if (err instanceof ExchangeRateError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // POST /exchange-rates
+  async createExchangeRate(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const validatedData = createExchangeRateSchema.parse(req.body)
+      const exchangeRate = await exchangeRateService.createExchangeRate(
+        validatedData,
+        userId,
+      )
+
+      console.info('Exchange rate created', {
+        exchangeRateId: exchangeRate.id,
+        baseCurrency: exchangeRate.baseCurrency,
+        quoteCurrency: exchangeRate.quoteCurrency,
+        userId,
+      })
+
+      return createSuccessResponse(
+        res,
+        'Exchange rate created successfully',
+        exchangeRate,
+        201,
+      )
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(res, 'Validation failed', err.issues, 400)
+      }
+      if (err instanceof ExchangeRateError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // POST /exchange-rates/import
+  async importExchangeRates(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const validatedData = importExchangeRatesSchema.parse(req.body)
+      const result = await exchangeRateService.importExchangeRates(
+        validatedData,
+        userId,
+      )
+
+      if (!result.dryRun) {
+        console.info('Exchange rates imported', {
+          created: result.created,
+          updated: result.updated,
+          failed: result.failed,
+          userId,
+        })
+      }
+
+      return createSuccessResponse(
+        res,
+        result.dryRun
+          ? 'Exchange rate import checked successfully'
+          : 'Exchange rates imported successfully',
+        result,
+      )
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(res, 'Validation failed', err.issues, 400)
+      }
+      if (err instanceof ExchangeRateError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // PUT /exchange-rates/:id
+  async updateExchangeRate(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const exchangeRateId = parseInt(req.params.id)
+      if (isNaN(exchangeRateId)) {
+        return createErrorResponse(
+          res,
+          'Invalid exchange rate ID',
+          undefined,
+          400,
+        )
+      }
+
+      const validatedData = updateExchangeRateSchema.parse(req.body)
+      const exchangeRate = await exchangeRateService.updateExchangeRate(
+        exchangeRateId,
+        validatedData,
+        userId,
+      )
+
+      return createSuccessResponse(
+        res,
+        'Exchange rate updated successfully',
+        exchangeRate,
+      )
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(res, 'Validation failed', err.issues, 400)
+      }
+      if (err instanceof ExchangeRateError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // DELETE /exchange-rates/:id
+  async deleteExchangeRate(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const exchangeRateId = parseInt(req.params.id)
+      if (isNaN(exchangeRateId)) {
+        return createErrorResponse(
+          res,
+          'Invalid exchange rate ID',
+          undefined,
+          400,
+        )
+      }
+
+      await exchangeRateService.deleteExchangeRate(exchangeRateId, userId)
+
+      console.info('Exchange rate deleted', { exchangeRateId, userId })
+
+      return createSuccessResponse(
+        res,
+        'Exchange rate deleted successfully',
+        null,
+      )
+    } catch (err) {
+      if (err instanceof ExchangeRateError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+}
+
+export const exchangeRateController = new ExchangeRateController()
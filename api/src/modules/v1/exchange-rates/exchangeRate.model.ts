@@ -0,0 +1,328 @@
+import { z } from 'zod'
+import { Prisma } from '@prisma/client'
+import { Decimal } from '@prisma/client/runtime/library'
+import prisma from '../../../config/db'
+
+// Most rows a single import may contain
+export const EXCHANGE_RATE_IMPORT_ROW_LIMIT = 1000
+
+// Columns an import reads, matched to the CSV header ignoring case
+export const EXCHANGE_RATE_IMPORT_FIELDS = [
+  'baseCurrency',
+  'quoteCurrency',
+  'rate',
+  'effectiveAt',
+] as const
+
+const isoDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+
+export const currencyCodeSchema = z
+  .string()
+  .trim()
+  .regex(/^[A-Za-z]{3}$/, 'Currency must be a 3-letter code')
+  .toUpperCase()
+
+// Validation schemas
+export const createExchangeRateSchema = z
+  .object({
+    baseCurrency: currencyCodeSchema,
+    quoteCurrency: currencyCodeSchema,
+    rate: z.number().positive(),
+    effectiveAt: isoDate,
+  })
+  .refine((data) => data.baseCurrency !== data.quoteCurrency, {
+    message: 'Base and quote currency must differ',
+    path: ['quoteCurrency'],
+  })
+
+export const updateExchangeRateSchema = z.object({
+  rate: z.number().positive().optional(),
+  effectiveAt: isoDate.optional(),
+})
+
+export const exchangeRateQuerySchema = z.object({
+  baseCurrency: currencyCodeSchema.optional(),
+  quoteCurrency: currencyCodeSchema.optional(),
+  // Only the rates of each pair in effect on this date
+  on: isoDate.optional(),
+  page: z.coerce.number().int().min(1).optional().default(1),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(20),
+})
+
+export const importExchangeRatesSchema = z.object({
+  csv: z.string().min(1, 'CSV is required'),
+  dryRun: z.boolean().optional().default(false),
+})
+
+// Types
+export type CreateExchangeRateInput = z.infer<typeof createExchangeRateSchema>
+export type UpdateExchangeRateInput = z.infer<typeof updateExchangeRateSchema>
+export type ExchangeRateQuery = z.infer<typeof exchangeRateQuerySchema>
+export type ImportExchangeRatesInput = z.infer<typeof importExchangeRatesSchema>
+export type ExchangeRateImportField =
+  (typeof EXCHANGE_RATE_IMPORT_FIELDS)[number]
+
+export interface ExchangeRateResponse {
+  id: number
+  baseCurrency: string
+  quoteCurrency: string
+  rate: Decimal
+  effectiveAt: Date
+  createdById: number | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface PaginatedExchangeRatesResponse {
+  exchangeRates: ExchangeRateResponse[]
+  pagination: {
+    page: number
+    limit: number
+    total: number
+    totalPages: number
+  }
+}
+
+export interface ExchangeRateImportRowError {
+  field: string
+  message: string
+}
+
+export interface ExchangeRateImportRowResult {
+  // Line in the file, counting the header as line 1
+  row: number
+  status: 'created' | 'updated' | 'failed'
+  errors?: ExchangeRateImportRowError[]
+}
+
+export interface ExchangeRateImportResponse {
+  dryRun: boolean
+  total: number
+  created: number
+  updated: number
+  failed: number
+  rows: ExchangeRateImportRowResult[]
+}
+
+// Custom error class
+export class ExchangeRateError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400,
+  ) {
+    super(message)
+    this.name = 'ExchangeRateError'
+  }
+}
+
+export function toEffectiveDate(date: string): Date {
+  return new Date(`${date}T00:00:00.000Z`)
+}
+
+// Identifies a pair's rate for a day, as the unique key does
+export function exchangeRateKey(data: {
+  baseCurrency: string
+  quoteCurrency: string
+  effectiveAt: Date
+}): string {
+  return `${data.baseCurrency}/${data.quoteCurrency}/${data.effectiveAt.toISOString()}`
+}
+
+function duplicateRateError(): ExchangeRateError {
+  return new ExchangeRateError(
+    'A rate for this currency pair and date already exists',
+    409,
+  )
+}
+
+// Database operations
+export const exchangeRateModel = {
+  async findMany(
+    query: ExchangeRateQuery,
+  ): Promise<PaginatedExchangeRatesResponse> {
+    const { page, limit } = query
+    const where: Prisma.ExchangeRateWhereInput = {
+      ...(query.baseCurrency && { baseCurrency: query.baseCurrency }),
+      ...(query.quoteCurrency && { quoteCurrency: query.quoteCurrency }),
+      ...(query.on && { effectiveAt: { lte: toEffectiveDate(query.on) } }),
+    }
+
+    try {
+      const [exchangeRates, total] = await Promise.all([
+        prisma.exchangeRate.findMany({
+          where,
+          // With `on`, the first rate of each pair is the one in effect
+          ...(query.on && {
+            distinct: ['baseCurrency', 'quoteCurrency'],
+          }),
+          orderBy: [
+            { baseCurrency: 'asc' },
+            { quoteCurrency: 'asc' },
+            { effectiveAt: 'desc' },
+          ],
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        query.on
+          ? prisma.exchangeRate
+              .groupBy({ by: ['baseCurrency', 'quoteCurrency'], where })
+              .then((pairs) => pairs.length)
+          : prisma.exchangeRate.count({ where }),
+      ])
+
+      return {
+        exchangeRates,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      }
+    } catch (error) {
+      console.error('Error fetching exchange rates:', error)
+      throw new ExchangeRateError('Failed to fetch exchange rates', 500)
+    }
+  },
+
+  async findById(id: number): Promise<ExchangeRateResponse | null> {
+    try {
+      return await prisma.exchangeRate.findUnique({ where: { id } })
+    } catch (error) {
+      console.error('Error fetching exchange rate:', error)
+      throw new ExchangeRateError('Failed to fetch exchange rate', 500)
+    }
+  },
+
+  // Every rate that converts to or from a currency, up to a date
+  async findForCurrency(
+    currency: string,
+    until: Date,
+  ): Promise<ExchangeRateResponse[]> {
+    try {
+      return await prisma.exchangeRate.findMany({
+        where: {
+          OR: [{ baseCurrency: currency }, { quoteCurrency: currency }],
+          effectiveAt: { lte: until },
+        },
+        orderBy: { effectiveAt: 'asc' },
+      })
+    } catch (error) {
+      console.error('Error fetching exchange rates:', error)
+      throw new ExchangeRateError('Failed to fetch exchange rates', 500)
+    }
+  },
+
+  // Keys of the given pair and date combinations that already have a rate
+  async findExistingKeys(
+    keys: { baseCurrency: string; quoteCurrency: string; effectiveAt: Date }[],
+  ): Promise<Set<string>> {
+    if (keys.length === 0) {
+      return new Set()
+    }
+
+    try {
+      const existing = await prisma.exchangeRate.findMany({
+        where: { OR: keys },
+        select: { baseCurrency: true, quoteCurrency: true, effectiveAt: true },
+      })
+      return new Set(existing.map(exchangeRateKey))
+    } catch (error) {
+      console.error('Error fetching exchange rates:', error)
+      throw new ExchangeRateError('Failed to fetch exchange rates', 500)
+    }
+  },
+
+  async create(
+    data: CreateExchangeRateInput,
+    userId: number,
+  ): Promise<ExchangeRateResponse> {
+    try {
+      return await prisma.exchangeRate.create({
+        data: {
+          baseCurrency: data.baseCurrency,
+          quoteCurrency: data.quoteCurrency,
+          rate: new Decimal(data.rate),
+          effectiveAt: toEffectiveDate(data.effectiveAt),
+          createdById: userId,
+        },
+      })
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw duplicateRateError()
+      }
+      console.error('Error creating exchange rate:', error)
+      throw new ExchangeRateError('Failed to create exchange rate', 500)
+    }
+  },
+
+  async update(
+    id: number,
+    data: UpdateExchangeRateInput,
+  ): Promise<ExchangeRateResponse> {
+    try {
+      return await prisma.exchangeRate.update({
+        where: { id },
+        data: {
+          ...(data.rate !== undefined && { rate: new Decimal(data.rate) }),
+          ...(data.effectiveAt && {
+            effectiveAt: toEffectiveDate(data.effectiveAt),
+          }),
+        },
+      })
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw duplicateRateError()
+      }
+      console.error('Error updating exchange rate:', error)
+      throw new ExchangeRateError('Failed to update exchange rate', 500)
+    }
+  },
+
+  async delete(id: number): Promise<void> {
+    try {
+      await prisma.exchangeRate.delete({ where: { id } })
+    } catch (error) {
+      console.error('Error deleting exchange rate:', error)
+      throw new ExchangeRateError('Failed to delete exchange rate', 500)
+    }
+  },
+
+  // Create rates, replacing any a pair already has for the same day
+  async upsertMany(
+    rates: CreateExchangeRateInput[],
+    userId: number,
+  ): Promise<void> {
+    try {
+      await prisma.$transaction(
+        rates.map((data) => {
+          const key = {
+            baseCurrency: data.baseCurrency,
+            quoteCurrency: data.quoteCurrency,
+            effectiveAt: toEffectiveDate(data.effectiveAt),
+          }
+          return prisma.exchangeRate.upsert({
+            where: { baseCurrency_quoteCurrency_effectiveAt: key },
+            create: {
+              ...key,
+              rate: new Decimal(data.rate),
+              createdById: userId,
+            },
+            update: { rate: new Decimal(data.rate) },
+          })
+        }),
+      )
+    } catch (error) {
+      console.error('Error importing exchange rates:', error)
+      throw new ExchangeRateError('Failed to import exchange rates', 500)
+    }
+  },
+}
@@ -0,0 +1,36 @@
+import { Router } from 'express'
+import { exchangeRateController } from './exchangeRate.controller'
+import { auth } from '../../../middlewares/auth'
+
+const router = Router()
+
+// Apply authentication to all routes
+router.use(auth)
+
+// Exchange rate routes
+router.get(
+  '/',
+  exchangeRateController.getExchangeRates.bind(exchangeRateController),
+)
+router.post(
+  '/',
+  exchangeRateController.createExchangeRate.bind(exchangeRateController),
+)
+router.post(
+  '/import',
+  exchangeRateController.importExchangeRates.bind(exchangeRateController),
+)
+router.get(
+  '/:id',
+  exchangeRateController.getExchangeRateById.bind(exchangeRateController),
+)
+router.put(
+  '/:id',
+  exchangeRateController.updateExchangeRate.bind(exchangeRateController),
+)
+router.delete(
+  '/:id',
+  exchangeRateController.deleteExchangeRate.bind(exchangeRateController),
+)
+
+export default router
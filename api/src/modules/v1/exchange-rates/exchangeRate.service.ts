@@ -0,0 +1,232 @@
+import {
+  exchangeRateModel,
+  exchangeRateKey,
+  createExchangeRateSchema,
+  toEffectiveDate,
+  CreateExchangeRateInput,
+  UpdateExchangeRateInput,
+  ExchangeRateQuery,
+  ImportExchangeRatesInput,
+  ExchangeRateError,
+  ExchangeRateImportField,
+  ExchangeRateImportRowError,
+  ExchangeRateImportRowResult,
+  ExchangeRateImportResponse,
+  ExchangeRateResponse,
+  PaginatedExchangeRatesResponse,
+  EXCHANGE_RATE_IMPORT_FIELDS,
+  EXCHANGE_RATE_IMPORT_ROW_LIMIT,
+} from './exchangeRate.model'
+import { parseCsv } from '../../../utils/csv'
+import { hasAdminRole } from '../../../utils/auth'
+
+export class ExchangeRateService {
+  // Get exchange rates with filtering and pagination
+  async getExchangeRates(
+    query: ExchangeRateQuery,
+  ): Promise<PaginatedExchangeRatesResponse> {
+    return await exchangeRateModel.findMany(query)
+  }
+
+  // Get exchange rate by ID
+  async getExchangeRateById(id: number): Promise<ExchangeRateResponse> {
+    const exchangeRate = await exchangeRateModel.findById(id)
+    if (!exchangeRate) {
+      throw new ExchangeRateError('Exchange rate not found', 404)
+    }
+
+    return exchangeRate
+  }
+
+  // Create an exchange rate
+  async createExchangeRate(
+    data: CreateExchangeRateInput,
+    requestingUserId: number,
+  ): Promise<ExchangeRateResponse> {
+    await this.assertAdmin(requestingUserId)
+
+    return await exchangeRateModel.create(data, requestingUserId)
+  }
+
+  // Update an exchange rate's value or effective date
+  async updateExchangeRate(
+    id: number,
+    data: UpdateExchangeRateInput,
+    requestingUserId: number,
+  ): Promise<ExchangeRateResponse> {
+    await this.assertAdmin(requestingUserId)
+    await this.getExchangeRateById(id)
+
+    return await exchangeRateModel.update(id, data)
+  }
+
+  // Delete an exchange rate
+  async deleteExchangeRate(
+    id: number,
+    requestingUserId: number,
+  ): Promise<void> {
+    await this.assertAdmin(requestingUserId)
+    await this.getExchangeRateById(id)
+
+    await exchangeRateModel.delete(id)
+  }
+
+  /**
+   * Add rates from CSV rows. Each row is validated and reported on its own;
+   * a row for a pair and date that already has a rate replaces it. Rows that
+   * pass are saved together. A dry run only reports.
+   */
+  async importExchangeRates(
+    data: ImportExchangeRatesInput,
+    requestingUserId: number,
+  ): Promise<ExchangeRateImportResponse> {
+    await this.assertAdmin(requestingUserId)
+
+    let rows: string[][]
+    try {
+      rows = parseCsv(data.csv)
+    } catch (error) {
+      throw new ExchangeRateError(
+        `Invalid CSV: ${(error as Error).message}`,
+        400,
+      )
+    }
+
+    const [header = [], ...records] = rows
+    if (records.length === 0) {
+      throw new ExchangeRateError('CSV has no rows to import', 400)
+    }
+    if (records.length > EXCHANGE_RATE_IMPORT_ROW_LIMIT) {
+      throw new ExchangeRateError(
+        `CSV has more than ${EXCHANGE_RATE_IMPORT_ROW_LIMIT} rows; split it up`,
+        400,
+      )
+    }
+
+    const columns = this.resolveColumns(header)
+    const parsed = records.map((record) => this.readRow(record, columns))
+    const existing = await exchangeRateModel.findExistingKeys(
+      parsed.flatMap(({ rate }) =>
+        rate
+          ? [
+              {
+                baseCurrency: rate.baseCurrency,
+                quoteCurrency: rate.quoteCurrency,
+                effectiveAt: toEffectiveDate(rate.effectiveAt),
+              },
+            ]
+          : [],
+      ),
+    )
+
+    const results: ExchangeRateImportRowResult[] = []
+    const accepted: CreateExchangeRateInput[] = []
+    // Row each pair and date was first seen on
+    const seen = new Map<string, number>()
+
+    parsed.forEach(({ rate, errors }, index) => {
+      const row = index + 2
+      if (!rate) {
+        results.push({ row, status: 'failed', errors })
+        return
+      }
+
+      const key = exchangeRateKey({
+        ...rate,
+        effectiveAt: toEffectiveDate(rate.effectiveAt),
+      })
+      const firstRow = seen.get(key)
+      if (firstRow !== undefined) {
+        results.push({
+          row,
+          status: 'failed',
+          errors: [
+            {
+              field: 'effectiveAt',
+              message: `Same currency pair and date as row ${firstRow}`,
+            },
+          ],
+        })
+        return
+      }
+
+      seen.set(key, row)
+      results.push({ row, status: existing.has(key) ? 'updated' : 'created' })
+      accepted.push(rate)
+    })
+
+    if (!data.dryRun && accepted.length > 0) {
+      await exchangeRateModel.upsertMany(accepted, requestingUserId)
+    }
+
+    const count = (status: ExchangeRateImportRowResult['status']) =>
+      results.filter((result) => result.status === status).length
+    return {
+      dryRun: data.dryRun,
+      total: records.length,
+      created: count('created'),
+      updated: count('updated'),
+      failed: count('failed'),
+      rows: results,
+    }
+  }
+
+  // Column index of each field, matched to the header ignoring case
+  private resolveColumns(
+    header: string[],
+  ): Record<ExchangeRateImportField, number> {
+    const headers = header.map((name) => name.trim().toLowerCase())
+    const columns: Partial<Record<ExchangeRateImportField, number>> = {}
+
+    for (const field of EXCHANGE_RATE_IMPORT_FIELDS) {
+      const index = headers.indexOf(field.toLowerCase())
+      if (index === -1) {
+        throw new ExchangeRateError(
+          `Column "${field}" not found in CSV header`,
+          400,
+        )
+      }
+      columns[field] = index
+    }
+
+    return columns as Record<ExchangeRateImportField, number>
+  }
+
+  // A row as exchange rate input
+  private readRow(
+    record: string[],
+    columns: Record<ExchangeRateImportField, number>,
+  ): {
+    rate?: CreateExchangeRateInput
+    errors: ExchangeRateImportRowError[]
+  } {
+    const value = (field: ExchangeRateImportField) =>
+      record[columns[field]]?.trim() ?? ''
+    const rate = value('rate')
+
+    const parsed = createExchangeRateSchema.safeParse({
+      baseCurrency: value('baseCurrency'),
+      quoteCurrency: value('quoteCurrency'),
+      rate: rate === '' || isNaN(Number(rate)) ? rate : Number(rate),
+      effectiveAt: value('effectiveAt'),
+    })
+    if (!parsed.success) {
+      return {
+        errors: parsed.error.issues.map((issue) => ({
+          field: issue.path.join('.') || 'row',
+          message: issue.message,
+        })),
+      }
+    }
+
+    return { rate: parsed.data, errors: [] }
+  }
+
+  private async assertAdmin(userId: number): Promise<void> {
+    if (!(await hasAdminRole(userId))) {
+      throw new ExchangeRateError('Only admins can manage exchange rates', 403)
+    }
+  }
+}
+
+export const exchangeRateService = new ExchangeRateService()
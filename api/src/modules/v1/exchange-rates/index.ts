@@ -0,0 +1,3 @@
+import router from './exchangeRate.routes'
+
+export default router
@@ -8,6 +8,12 @@ import settingRoutes from './settings/setting.routes'
 import passwordResetRoutes from './password-resets/passwordReset.routes'
 import projectRoutes from './projects'
 import taskRoutes from './tasks'
+import timeEntryRoutes from './time-entries'
+import notificationRoutes from './notifications'
+import tagRoutes from './tags'
+import invoiceRoutes from './invoices'
+import exchangeRateRoutes from './exchange-rates'
+import trashRoutes from './trash'
 
 const router = Router()
 
@@ -21,6 +27,12 @@ router.use('/settings', settingRoutes)
 router.use('/password-resets', passwordResetRoutes)
 router.use('/projects', projectRoutes)
 router.use('/tasks', taskRoutes)
+router.use('/time-entries', timeEntryRoutes)
+router.use('/notifications', notificationRoutes)
+router.use('/tags', tagRoutes)
+router.use('/invoices', invoiceRoutes)
+router.use('/exchange-rates', exchangeRateRoutes)
+router.use('/trash', trashRoutes)
 
 // Health check for v1 API
 router.get('/health', (req, res) => {
@@ -0,0 +1,3 @@
+import router from './invoice.routes'
+
+export default router
@@ -0,0 +1,246 @@
+import { Request, Response, NextFunction } from 'express'
+import { ZodError } from 'zod'
+import { invoiceService } from './invoice.service'
+import {
+  generateInvoiceSchema,
+  updateInvoiceSchema,
+  invoiceQuerySchema,
+  invoiceDocumentQuerySchema,
+  InvoiceError,
+} from './invoice.model'
+import {
+  createSuccessResponse,
+  createErrorResponse,
+} from '../../../utils/response'
+
+export class InvoiceController {
+  // POST /invoices
+  async generateInvoice(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const validatedData = generateInvoiceSchema.parse(req.body)
+      const invoice = await invoiceService.generateInvoice(
+        validatedData,
+        userId,
+      )
+
+      console.info('Invoice generated', {
+        invoiceId: invoice.id,
+        number: invoice.number,
+        projectId: invoice.projectId,
+        userId,
+      })
+
+      return createSuccessResponse(
+        res,
+        'Invoice generated successfully',
+        invoice,
+        201,
+      )
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(res, 'Validation failed', err.issues, 400)
+      }
+      if (err instanceof InvoiceError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // GET /invoices
+  async getInvoices(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const queryParams = invoiceQuerySchema.parse(req.query)
+      const invoices = await invoiceService.getInvoices(queryParams, userId)
+
+      return createSuccessResponse(
+        res,
+        'Invoices retrieved successfully',
+        invoices,
+      )
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(
+          res,
+          'Invalid query parameters',
+          err.issues,
+          400,
+        )
+      }
+      if (err instanceof InvoiceError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // GET /invoices/:id
+  async getInvoiceById(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const invoiceId = parseInt(req.params.id)
+      if (isNaN(invoiceId)) {
+        return createErrorResponse(res, 'Invalid invoice ID', undefined, 400)
+      }
+
+      const invoice = await invoiceService.getInvoiceById(invoiceId, userId)
+
+      return createSuccessResponse(
+        res,
+        'Invoice retrieved successfully',
+        invoice,
+      )
+    } catch (err) {
+      if (err instanceof InvoiceError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // GET /invoices/:id/document
+  async getInvoiceDocument(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const invoiceId = parseInt(req.params.id)
+      if (isNaN(invoiceId)) {
+        return createErrorResponse(res, 'Invalid invoice ID', undefined, 400)
+      }
+
+      const queryParams = invoiceDocumentQuerySchema.parse(req.query)
+      const document = await invoiceService.renderInvoice(
+        invoiceId,
+        queryParams,
+        userId,
+      )
+
+      res.setHeader('Content-Type', document.contentType)
+      res.setHeader(
+        'Content-Disposition',
+        `${queryParams.format === 'pdf' ? 'attachment' : 'inline'}; filename="${document.filename}"`,
+      )
+      return res.send(document.body)
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(
+          res,
+          'Invalid query parameters',
+          err.issues,
+          400,
+        )
+      }
+      if (err instanceof InvoiceError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // PUT /invoices/:id
+  async updateInvoice(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const invoiceId = parseInt(req.params.id)
+      if (isNaN(invoiceId)) {
+        return createErrorResponse(res, 'Invalid invoice ID', undefined, 400)
+      }
+
+      const validatedData = updateInvoiceSchema.parse(req.body)
+      const invoice = await invoiceService.updateInvoice(
+        invoiceId,
+        validatedData,
+        userId,
+      )
+
+      return createSuccessResponse(res, 'Invoice updated successfully', invoice)
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(res, 'Validation failed', err.issues, 400)
+      }
+      if (err instanceof InvoiceError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // DELETE /invoices/:id
+  async deleteInvoice(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const invoiceId = parseInt(req.params.id)
+      if (isNaN(invoiceId)) {
+        return createErrorResponse(res, 'Invalid invoice ID', undefined, 400)
+      }
+
+      await invoiceService.deleteInvoice(invoiceId, userId)
+
+      console.info('Invoice deleted', { invoiceId, userId })
+
+      return createSuccessResponse(res, 'Invoice deleted successfully', null)
+    } catch (err) {
+      if (err instanceof InvoiceError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+}
+
+export const invoiceController = new InvoiceController()
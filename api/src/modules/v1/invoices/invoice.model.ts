@@ -0,0 +1,410 @@
+import { z } from 'zod'
+import {
+  InvoiceSource,
+  InvoiceStatus,
+  Prisma,
+  TaskStatus,
+} from '@prisma/client'
+import { Decimal } from '@prisma/client/runtime/library'
+import prisma from '../../../config/db'
+
+const isoDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+
+// Validation schemas
+export const generateInvoiceSchema = z
+  .object({
+    projectId: z.number().int().positive(),
+    from: isoDate,
+    to: isoDate,
+    source: z.nativeEnum(InvoiceSource).optional().default(InvoiceSource.TASKS),
+    taxRate: z.number().min(0).max(100).optional(),
+    notes: z.string().max(2000, 'Notes too long').optional(),
+  })
+  .refine((data) => data.from <= data.to, {
+    message: 'from must not be after to',
+    path: ['to'],
+  })
+
+export const updateInvoiceSchema = z.object({
+  status: z.nativeEnum(InvoiceStatus).optional(),
+  taxRate: z.number().min(0).max(100).nullable().optional(),
+  notes: z.string().max(2000, 'Notes too long').nullable().optional(),
+})
+
+export const invoiceQuerySchema = z.object({
+  projectId: z.coerce.number().int().positive().optional(),
+  status: z.nativeEnum(InvoiceStatus).optional(),
+  userId: z.coerce.number().int().positive().optional(),
+  page: z.coerce.number().int().min(1).optional().default(1),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(20),
+})
+
+export const invoiceDocumentQuerySchema = z.object({
+  format: z.enum(['pdf', 'html']).optional().default('pdf'),
+})
+
+// Types
+export type GenerateInvoiceInput = z.infer<typeof generateInvoiceSchema>
+export type UpdateInvoiceInput = z.infer<typeof updateInvoiceSchema>
+export type InvoiceQuery = z.infer<typeof invoiceQuerySchema>
+export type InvoiceDocumentQuery = z.infer<typeof invoiceDocumentQuerySchema>
+
+export interface InvoiceItemData {
+  taskId: number
+  description: string
+  quantity: Decimal
+  unitPrice: Decimal
+  amount: Decimal
+}
+
+export interface InvoiceData {
+  userId: number
+  projectId: number
+  source: InvoiceSource
+  periodStart: Date
+  periodEnd: Date
+  currency: string
+  taxRate: number | null
+  notes: string | null
+  items: InvoiceItemData[]
+  // What the invoice bills, flagged so it is not invoiced again
+  taskIds: number[]
+  timeEntryIds: number[]
+}
+
+export interface InvoiceItemResponse {
+  id: number
+  invoiceId: number
+  taskId: number | null
+  description: string
+  quantity: Decimal
+  unitPrice: Decimal
+  amount: Decimal
+  createdAt: Date
+}
+
+export interface InvoiceResponse {
+  id: number
+  uuid: string
+  userId: number
+  projectId: number
+  sequence: number
+  number: string
+  status: InvoiceStatus
+  source: InvoiceSource
+  periodStart: Date
+  periodEnd: Date
+  currency: string
+  subtotal: Decimal
+  taxRate: Decimal | null
+  taxAmount: Decimal
+  total: Decimal
+  notes: string | null
+  sentAt: Date | null
+  paidAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+  items: InvoiceItemResponse[]
+  user: {
+    id: number
+    name: string
+    email: string
+  }
+  project: {
+    id: number
+    uuid: string
+    title: string
+  }
+}
+
+export interface PaginatedInvoicesResponse {
+  invoices: InvoiceResponse[]
+  pagination: {
+    page: number
+    limit: number
+    total: number
+    totalPages: number
+  }
+}
+
+// Custom error class
+export class InvoiceError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400,
+  ) {
+    super(message)
+    this.name = 'InvoiceError'
+  }
+}
+
+// Invoices move forward only; drafts are deleted rather than reverted to
+export const INVOICE_STATUS_TRANSITIONS: Record<
+  InvoiceStatus,
+  InvoiceStatus[]
+> = {
+  DRAFT: [InvoiceStatus.SENT],
+  SENT: [InvoiceStatus.PAID],
+  PAID: [],
+}
+
+export function formatInvoiceNumber(sequence: number): string {
+  return `INV-${String(sequence).padStart(4, '0')}`
+}
+
+// Tax on the subtotal at a percentage rate, rounded to cents
+export function calculateTotals(
+  subtotal: Decimal,
+  taxRate: Decimal | number | null,
+): { taxAmount: Decimal; total: Decimal } {
+  const taxAmount =
+    taxRate === null
+      ? new Decimal(0)
+      : subtotal
+          .times(taxRate)
+          .dividedBy(100)
+          .toDecimalPlaces(2, Decimal.ROUND_HALF_UP)
+
+  return { taxAmount, total: subtotal.plus(taxAmount) }
+}
+
+const invoiceInclude = {
+  items: { orderBy: { id: 'asc' } },
+  user: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  },
+  project: {
+    select: {
+      id: true,
+      uuid: true,
+      title: true,
+    },
+  },
+} satisfies Prisma.InvoiceInclude
+
+// Database operations
+export const invoiceModel = {
+  async findMany(
+    query: InvoiceQuery,
+    userId?: number,
+  ): Promise<PaginatedInvoicesResponse> {
+    const { page, limit } = query
+    const where: Prisma.InvoiceWhereInput = {
+      ...(userId && { userId }),
+      ...(query.projectId && { projectId: query.projectId }),
+      ...(query.status && { status: query.status }),
+    }
+
+    try {
+      const [invoices, total] = await Promise.all([
+        prisma.invoice.findMany({
+          where,
+          include: invoiceInclude,
+          orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.invoice.count({ where }),
+      ])
+
+      return {
+        invoices,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      }
+    } catch (error) {
+      console.error('Error fetching invoices:', error)
+      throw new InvoiceError('Failed to fetch invoices', 500)
+    }
+  },
+
+  async findById(id: number): Promise<InvoiceResponse | null> {
+    try {
+      return await prisma.invoice.findUnique({
+        where: { id },
+        include: invoiceInclude,
+      })
+    } catch (error) {
+      console.error('Error fetching invoice:', error)
+      throw new InvoiceError('Failed to fetch invoice', 500)
+    }
+  },
+
+  // DONE tasks finished in the period that nothing has billed yet
+  async findBillableTasks(
+    projectId: number,
+    periodStart: Date,
+    periodEnd: Date,
+  ) {
+    try {
+      return await prisma.task.findMany({
+        where: {
+          projectId,
+          status: TaskStatus.DONE,
+          deletedAt: null,
+          invoiceId: null,
+          timeEntries: { none: { invoiceId: { not: null } } },
+          OR: [
+            { endedAt: { gte: periodStart, lt: periodEnd } },
+            { endedAt: null, updatedAt: { gte: periodStart, lt: periodEnd } },
+          ],
+        },
+        select: {
+          id: true,
+          title: true,
+          timeSpent: true,
+          costInProjectCurrency: true,
+        },
+        orderBy: [{ endedAt: 'asc' }, { id: 'asc' }],
+      })
+    } catch (error) {
+      console.error('Error fetching billable tasks:', error)
+      throw new InvoiceError('Failed to fetch billable tasks', 500)
+    }
+  },
+
+  // Finished time entries started in the period, on tasks not billed whole
+  async findBillableTimeEntries(
+    projectId: number,
+    periodStart: Date,
+    periodEnd: Date,
+  ) {
+    try {
+      return await prisma.timeEntry.findMany({
+        where: {
+          invoiceId: null,
+          endedAt: { not: null },
+          startedAt: { gte: periodStart, lt: periodEnd },
+          task: { projectId, deletedAt: null, invoiceId: null },
+        },
+        select: {
+          id: true,
+          taskId: true,
+          durationMinutes: true,
+          task: { select: { title: true } },
+        },
+        orderBy: [{ startedAt: 'asc' }, { id: 'asc' }],
+      })
+    } catch (error) {
+      console.error('Error fetching billable time entries:', error)
+      throw new InvoiceError('Failed to fetch billable time entries', 500)
+    }
+  },
+
+  /**
+   * Create an invoice with the next number of its user and flag what it
+   * bills. Fails with a 409 when anything was invoiced in the meantime.
+   */
+  async create(data: InvoiceData): Promise<InvoiceResponse> {
+    const subtotal = data.items.reduce(
+      (sum, item) => sum.plus(item.amount),
+      new Decimal(0),
+    )
+    const { taxAmount, total } = calculateTotals(subtotal, data.taxRate)
+
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const last = await tx.invoice.aggregate({
+          where: { userId: data.userId },
+          _max: { sequence: true },
+        })
+        const sequence = (last._max.sequence ?? 0) + 1
+
+        const invoice = await tx.invoice.create({
+          data: {
+            userId: data.userId,
+            projectId: data.projectId,
+            sequence,
+            number: formatInvoiceNumber(sequence),
+            source: data.source,
+            periodStart: data.periodStart,
+            periodEnd: data.periodEnd,
+            currency: data.currency,
+            subtotal,
+            taxRate: data.taxRate,
+            taxAmount,
+            total,
+            notes: data.notes,
+            items: { create: data.items },
+          },
+        })
+
+        const [tasks, timeEntries] = await Promise.all([
+          tx.task.updateMany({
+            where: { id: { in: data.taskIds }, invoiceId: null },
+            data: { invoiceId: invoice.id },
+          }),
+          tx.timeEntry.updateMany({
+            where: { id: { in: data.timeEntryIds }, invoiceId: null },
+            data: { invoiceId: invoice.id },
+          }),
+        ])
+        if (
+          tasks.count !== data.taskIds.length ||
+          timeEntries.count !== data.timeEntryIds.length
+        ) {
+          throw new InvoiceError(
+            'Some of this work was invoiced in the meantime; generate the invoice again',
+            409,
+          )
+        }
+
+        return await tx.invoice.findUniqueOrThrow({
+          where: { id: invoice.id },
+          include: invoiceInclude,
+        })
+      })
+    } catch (error) {
+      if (error instanceof InvoiceError) {
+        throw error
+      }
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new InvoiceError(
+          'Another invoice was numbered at the same time; try again',
+          409,
+        )
+      }
+      console.error('Error creating invoice:', error)
+      throw new InvoiceError('Failed to create invoice', 500)
+    }
+  },
+
+  async update(
+    id: number,
+    data: Prisma.InvoiceUpdateInput,
+  ): Promise<InvoiceResponse> {
+    try {
+      return await prisma.invoice.update({
+        where: { id },
+        data,
+        include: invoiceInclude,
+      })
+    } catch (error) {
+      console.error('Error updating invoice:', error)
+      throw new InvoiceError('Failed to update invoice', 500)
+    }
+  },
+
+  // Tasks and time entries on the invoice become billable again
+  async delete(id: number): Promise<void> {
+    try {
+      await prisma.invoice.delete({ where: { id } })
+    } catch (error) {
+      console.error('Error deleting invoice:', error)
+      throw new InvoiceError('Failed to delete invoice', 500)
+    }
+  },
+}
@@ -0,0 +1,189 @@
+import { Decimal } from '@prisma/client/runtime/library'
+import { InvoiceResponse } from './invoice.model'
+import { renderPdf, PdfLine } from '../../../utils/pdf'
+
+const STYLES = `
+  body { font-family: Helvetica, Arial, sans-serif; color: #111827; margin: 40px; }
+  h1 { margin: 0 0 4px; }
+  table { width: 100%; border-collapse: collapse; margin-top: 24px; }
+  th, td { padding: 6px 8px; border-bottom: 1px solid #e5e7eb; text-align: left; }
+  .amount { text-align: right; font-variant-numeric: tabular-nums; }
+  .totals td { border-bottom: none; }
+  .muted { color: #6b7280; }
+`
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+function formatMoney(amount: Decimal, currency: string): string {
+  return `${currency} ${amount.toFixed(2)}`
+}
+
+// Heading, period and totals rows shared by both formats
+function summarize(invoice: InvoiceResponse) {
+  return {
+    title: `Invoice ${invoice.number}`,
+    details: [
+      `Project: ${invoice.project.title}`,
+      `Period: ${formatDate(invoice.periodStart)} to ${formatDate(invoice.periodEnd)}`,
+      `Issued by: ${invoice.user.name} <${invoice.user.email}>`,
+      `Date: ${formatDate(invoice.sentAt ?? invoice.createdAt)}`,
+      `Status: ${invoice.status}`,
+    ],
+    totals: [
+      ['Subtotal', formatMoney(invoice.subtotal, invoice.currency)],
+      ...(invoice.taxRate !== null
+        ? [
+            [
+              `Tax (${invoice.taxRate.toString()}%)`,
+              formatMoney(invoice.taxAmount, invoice.currency),
+            ],
+          ]
+        : []),
+      ['Total', formatMoney(invoice.total, invoice.currency)],
+    ],
+  }
+}
+
+/**
+ * Render an invoice as a standalone HTML page
+ */
+export function renderInvoiceHtml(invoice: InvoiceResponse): string {
+  const { title, details, totals } = summarize(invoice)
+
+  const rows = invoice.items
+    .map(
+      (item) => `
+      <tr>
+        <td>${escapeHtml(item.description)}</td>
+        <td class="amount">${item.quantity.toFixed(2)}</td>
+        <td class="amount">${formatMoney(item.unitPrice, invoice.currency)}</td>
+        <td class="amount">${formatMoney(item.amount, invoice.currency)}</td>
+      </tr>`,
+    )
+    .join('')
+
+  const totalRows = totals
+    .map(
+      ([label, value]) => `
+      <tr class="totals">
+        <td colspan="3" class="amount">${escapeHtml(label)}</td>
+        <td class="amount">${escapeHtml(value)}</td>
+      </tr>`,
+    )
+    .join('')
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)}</title>
+  <style>${STYLES}</style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  ${details.map((line) => `<div class="muted">${escapeHtml(line)}</div>`).join('\n  ')}
+  <table>
+    <thead>
+      <tr>
+        <th>Description</th>
+        <th class="amount">Quantity</th>
+        <th class="amount">Unit price</th>
+        <th class="amount">Amount</th>
+      </tr>
+    </thead>
+    <tbody>${rows}${totalRows}
+    </tbody>
+  </table>
+  ${invoice.notes ? `<p>${escapeHtml(invoice.notes)}</p>` : ''}
+</body>
+</html>
+`
+}
+
+// Column offsets from the left margin, in points
+const COLUMNS = {
+  description: 0,
+  quantity: 320,
+  unitPrice: 410,
+  amount: 495,
+}
+const DESCRIPTION_LENGTH = 55
+
+/**
+ * Render an invoice as a PDF document
+ */
+export function renderInvoicePdf(invoice: InvoiceResponse): Buffer {
+  const { title, details, totals } = summarize(invoice)
+
+  const lines: PdfLine[] = [
+    { cells: [{ text: title }], size: 18, bold: true },
+    ...details.map((text) => ({ cells: [{ text }] })),
+    {
+      cells: [
+        { text: 'Description', x: COLUMNS.description },
+        { text: 'Quantity', x: COLUMNS.quantity, align: 'right' },
+        { text: 'Unit price', x: COLUMNS.unitPrice, align: 'right' },
+        { text: 'Amount', x: COLUMNS.amount, align: 'right' },
+      ],
+      bold: true,
+      spaceBefore: 16,
+    },
+    ...invoice.items.map(
+      (item): PdfLine => ({
+        cells: [
+          {
+            text:
+              item.description.length > DESCRIPTION_LENGTH
+                ? `${item.description.slice(0, DESCRIPTION_LENGTH - 3)}...`
+                : item.description,
+            x: COLUMNS.description,
+          },
+          {
+            text: item.quantity.toFixed(2),
+            x: COLUMNS.quantity,
+            align: 'right',
+          },
+          {
+            text: item.unitPrice.toFixed(2),
+            x: COLUMNS.unitPrice,
+            align: 'right',
+          },
+          {
+            text: item.amount.toFixed(2),
+            x: COLUMNS.amount,
+            align: 'right',
+          },
+        ],
+      }),
+    ),
+    ...totals.map(
+      ([label, value], index): PdfLine => ({
+        cells: [
+          { text: label, x: COLUMNS.unitPrice, align: 'right' },
+          { text: value, x: COLUMNS.amount, align: 'right' },
+        ],
+        bold: index === totals.length - 1,
+        spaceBefore: index === 0 ? 12 : 0,
+      }),
+    ),
+    ...(invoice.notes
+      ? invoice.notes.split(/\r?\n/).map((text, index) => ({
+          cells: [{ text }],
+          spaceBefore: index === 0 ? 16 : 0,
+        }))
+      : []),
+  ]
+
+  return renderPdf(lines)
+}
@@ -0,0 +1,21 @@
+import { Router } from 'express'
+import { invoiceController } from './invoice.controller'
+import { auth } from '../../../middlewares/auth'
+
+const router = Router()
+
+// Apply authentication to all routes
+router.use(auth)
+
+// Invoice routes
+router.post('/', invoiceController.generateInvoice.bind(invoiceController))
+router.get('/', invoiceController.getInvoices.bind(invoiceController))
+router.get('/:id', invoiceController.getInvoiceById.bind(invoiceController))
+router.get(
+  '/:id/document',
+  invoiceController.getInvoiceDocument.bind(invoiceController),
+)
+router.put('/:id', invoiceController.updateInvoice.bind(invoiceController))
+router.delete('/:id', invoiceController.deleteInvoice.bind(invoiceController))
+
+export default router
@@ -0,0 +1,317 @@
+import { InvoiceSource, InvoiceStatus, Prisma } from '@prisma/client'
+import { Decimal } from '@prisma/client/runtime/library'
+import {
+  invoiceModel,
+  calculateTotals,
+  GenerateInvoiceInput,
+  UpdateInvoiceInput,
+  InvoiceQuery,
+  InvoiceDocumentQuery,
+  InvoiceError,
+  InvoiceItemData,
+  InvoiceResponse,
+  PaginatedInvoicesResponse,
+  INVOICE_STATUS_TRANSITIONS,
+} from './invoice.model'
+import { renderInvoiceHtml, renderInvoicePdf } from './invoice.render'
+import { projectModel, ProjectResponse } from '../projects/project.model'
+import { projectService } from '../projects/project.service'
+import {
+  calculateCost,
+  getHourlyRate,
+  minutesToHours,
+} from '../../../utils/billing'
+import { hasAdminRole } from '../../../utils/auth'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+interface BilledWork {
+  items: InvoiceItemData[]
+  taskIds: number[]
+  timeEntryIds: number[]
+}
+
+export interface InvoiceDocument {
+  filename: string
+  contentType: string
+  body: string | Buffer
+}
+
+export class InvoiceService {
+  // Bill a project's work over a date range on a new draft invoice
+  async generateInvoice(
+    data: GenerateInvoiceInput,
+    requestingUserId: number,
+  ): Promise<InvoiceResponse> {
+    const project = await projectModel.findById(
+      data.projectId,
+      requestingUserId,
+    )
+    if (!project) {
+      throw new InvoiceError('Project not found', 404)
+    }
+
+    // Billing a project is left to its owners
+    if (!(await projectService.canManageProject(project, requestingUserId))) {
+      throw new InvoiceError(
+        'Insufficient permissions to invoice this project',
+        403,
+      )
+    }
+
+    const periodStart = new Date(`${data.from}T00:00:00.000Z`)
+    const periodEnd = new Date(`${data.to}T00:00:00.000Z`)
+    const until = new Date(periodEnd.getTime() + DAY_MS)
+
+    const work =
+      data.source === InvoiceSource.TIME_ENTRIES
+        ? await this.billTimeEntries(project, periodStart, until)
+        : await this.billTasks(project, periodStart, until)
+
+    if (work.items.length === 0) {
+      throw new InvoiceError(
+        'Nothing to invoice for this project and period',
+        400,
+      )
+    }
+
+    return await invoiceModel.create({
+      userId: requestingUserId,
+      projectId: project.id,
+      source: data.source,
+      periodStart,
+      periodEnd,
+      currency: project.currency || 'SGD',
+      taxRate: data.taxRate ?? null,
+      notes: data.notes ?? null,
+      ...work,
+    })
+  }
+
+  // Get invoices with filtering and pagination
+  async getInvoices(
+    query: InvoiceQuery,
+    requestingUserId: number,
+  ): Promise<PaginatedInvoicesResponse> {
+    // Users only see the invoices they issued unless admin
+    const isAdmin = await hasAdminRole(requestingUserId)
+    const userId = isAdmin ? query.userId : requestingUserId
+
+    return await invoiceModel.findMany(query, userId)
+  }
+
+  // Get invoice by ID
+  async getInvoiceById(
+    id: number,
+    requestingUserId: number,
+  ): Promise<InvoiceResponse> {
+    return await this.findOwnInvoice(id, requestingUserId)
+  }
+
+  // Change an invoice's status, or its tax and notes while it is a draft
+  async updateInvoice(
+    id: number,
+    data: UpdateInvoiceInput,
+    requestingUserId: number,
+  ): Promise<InvoiceResponse> {
+    const invoice = await this.findOwnInvoice(id, requestingUserId)
+
+    const changesContent =
+      data.taxRate !== undefined || data.notes !== undefined
+    if (changesContent && invoice.status !== InvoiceStatus.DRAFT) {
+      throw new InvoiceError('Only draft invoices can be edited', 409)
+    }
+
+    const update: Prisma.InvoiceUpdateInput = {}
+
+    if (data.status && data.status !== invoice.status) {
+      if (!INVOICE_STATUS_TRANSITIONS[invoice.status].includes(data.status)) {
+        throw new InvoiceError(
+          `Invoice cannot move from ${invoice.status} to ${data.status}`,
+          409,
+        )
+      }
+
+      update.status = data.status
+      if (data.status === InvoiceStatus.SENT) {
+        update.sentAt = new Date()
+      }
+      if (data.status === InvoiceStatus.PAID) {
+        update.paidAt = new Date()
+      }
+    }
+
+    if (data.taxRate !== undefined) {
+      update.taxRate = data.taxRate
+      Object.assign(update, calculateTotals(invoice.subtotal, data.taxRate))
+    }
+    if (data.notes !== undefined) {
+      update.notes = data.notes
+    }
+
+    return await invoiceModel.update(id, update)
+  }
+
+  // Delete a draft; what it billed can be invoiced again
+  async deleteInvoice(id: number, requestingUserId: number): Promise<void> {
+    const invoice = await this.findOwnInvoice(id, requestingUserId)
+
+    if (invoice.status !== InvoiceStatus.DRAFT) {
+      throw new InvoiceError('Only draft invoices can be deleted', 409)
+    }
+
+    await invoiceModel.delete(id)
+  }
+
+  // Render an invoice for download
+  async renderInvoice(
+    id: number,
+    query: InvoiceDocumentQuery,
+    requestingUserId: number,
+  ): Promise<InvoiceDocument> {
+    const invoice = await this.findOwnInvoice(id, requestingUserId)
+    const filename = `${invoice.number}.${query.format}`
+
+    if (query.format === 'html') {
+      return {
+        filename,
+        contentType: 'text/html; charset=utf-8',
+        body: renderInvoiceHtml(invoice),
+      }
+    }
+
+    return {
+      filename,
+      contentType: 'application/pdf',
+      body: renderInvoicePdf(invoice),
+    }
+  }
+
+  /**
+   * One line per DONE task, at its recorded cost or its hours at the
+   * project's rate. Tasks with neither are left out.
+   */
+  private async billTasks(
+    project: ProjectResponse,
+    periodStart: Date,
+    until: Date,
+  ): Promise<BilledWork> {
+    const tasks = await invoiceModel.findBillableTasks(
+      project.id,
+      periodStart,
+      until,
+    )
+
+    const items: InvoiceItemData[] = []
+    for (const task of tasks) {
+      const hours =
+        task.timeSpent && !task.timeSpent.isZero() ? task.timeSpent : null
+      const amount =
+        task.costInProjectCurrency ??
+        (hours
+          ? calculateCost(hours, project.rate, project.billingCycle)
+          : null)
+      if (!amount || amount.isZero()) {
+        continue
+      }
+
+      items.push({
+        taskId: task.id,
+        description: task.title,
+        quantity: hours ?? new Decimal(1),
+        unitPrice: hours
+          ? amount.dividedBy(hours).toDecimalPlaces(2, Decimal.ROUND_HALF_UP)
+          : amount,
+        amount,
+      })
+    }
+
+    return {
+      items,
+      taskIds: items.map((item) => item.taskId),
+      timeEntryIds: [],
+    }
+  }
+
+  // One line per task with the hours of its time entries in the period
+  private async billTimeEntries(
+    project: ProjectResponse,
+    periodStart: Date,
+    until: Date,
+  ): Promise<BilledWork> {
+    const hourlyRate = getHourlyRate(project.rate, project.billingCycle)
+    if (!hourlyRate) {
+      throw new InvoiceError(
+        'Project has no hourly rate to bill time entries at',
+        400,
+      )
+    }
+
+    const entries = await invoiceModel.findBillableTimeEntries(
+      project.id,
+      periodStart,
+      until,
+    )
+
+    const byTask = new Map<number, { title: string; minutes: number }>()
+    for (const entry of entries) {
+      const line = byTask.get(entry.taskId) ?? {
+        title: entry.task.title,
+        minutes: 0,
+      }
+      line.minutes += entry.durationMinutes ?? 0
+      byTask.set(entry.taskId, line)
+    }
+
+    const items: InvoiceItemData[] = []
+    for (const [taskId, line] of byTask) {
+      const hours = minutesToHours(line.minutes)
+      if (hours.isZero()) {
+        continue
+      }
+
+      items.push({
+        taskId,
+        description: line.title,
+        quantity: hours,
+        unitPrice: hourlyRate.toDecimalPlaces(2, Decimal.ROUND_HALF_UP),
+        amount: calculateCost(
+          hours,
+          project.rate,
+          project.billingCycle,
+        ) as Decimal,
+      })
+    }
+
+    const billedTasks = new Set(items.map((item) => item.taskId))
+    return {
+      items,
+      taskIds: [],
+      timeEntryIds: entries
+        .filter((entry) => billedTasks.has(entry.taskId))
+        .map((entry) => entry.id),
+    }
+  }
+
+  // Issuer and admins can see and manage an invoice
+  private async findOwnInvoice(
+    id: number,
+    requestingUserId: number,
+  ): Promise<InvoiceResponse> {
+    const invoice = await invoiceModel.findById(id)
+    if (!invoice) {
+      throw new InvoiceError('Invoice not found', 404)
+    }
+
+    if (
+      invoice.userId !== requestingUserId &&
+      !(await hasAdminRole(requestingUserId))
+    ) {
+      throw new InvoiceError('Access denied', 403)
+    }
+
+    return invoice
+  }
+}
+
+export const invoiceService = new InvoiceService()
@@ -4,6 +4,7 @@ import {
   createNoteSchema,
   updateNoteSchema,
   noteQuerySchema,
+  NoteError,
 } from './note.model'
 import { ZodError } from 'zod'
 import {
@@ -98,6 +99,14 @@ export class NoteController {
       if (error instanceof ZodError) {
         return createErrorResponse(res, 'Invalid note data', error.issues, 400)
       }
+      if (error instanceof NoteError) {
+        return createErrorResponse(
+          res,
+          error.message,
+          undefined,
+          error.statusCode,
+        )
+      }
       next(error)
     }
   }
@@ -129,6 +138,14 @@ export class NoteController {
       if (error instanceof ZodError) {
         return createErrorResponse(res, 'Invalid note data', error.issues, 400)
       }
+      if (error instanceof NoteError) {
+        return createErrorResponse(
+          res,
+          error.message,
+          undefined,
+          error.statusCode,
+        )
+      }
       next(error)
     }
   }
@@ -1,5 +1,6 @@
 import { z } from 'zod'
 import { NoteStatus } from '@prisma/client'
+import { tagQueryFields } from '../tags/tag.model'
 
 // Validation schemas
 export const createNoteSchema = z.object({
@@ -28,9 +29,27 @@ export const noteQuerySchema = z.object({
   status: z.nativeEnum(NoteStatus).optional(),
   projectId: z.coerce.number().int().positive().optional(),
   search: z.string().optional(),
+  ...tagQueryFields,
 })
 
+// Notes with these statuses are visible to everyone on the note's project
+export const SHARED_NOTE_STATUSES: NoteStatus[] = [
+  NoteStatus.PUBLISHED,
+  NoteStatus.PUBLIC,
+]
+
 // Types
 export type CreateNoteData = z.infer<typeof createNoteSchema>
 export type UpdateNoteData = z.infer<typeof updateNoteSchema>
 export type NoteQuery = z.infer<typeof noteQuerySchema>
+
+// Custom error class
+export class NoteError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400,
+  ) {
+    super(message)
+    this.name = 'NoteError'
+  }
+}
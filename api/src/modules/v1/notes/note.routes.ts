@@ -1,5 +1,7 @@
 import { Router } from 'express'
 import { noteController } from './note.controller'
+import { noteRevisionController } from './noteRevision.controller'
+import { tagController } from '../tags/tag.controller'
 import { auth } from '../../../middlewares/auth'
 
 const router = Router()
@@ -14,5 +16,24 @@ router.get('/:uuid', noteController.getNoteByUuid.bind(noteController))
 router.put('/:uuid', noteController.updateNote.bind(noteController))
 router.delete('/:uuid', noteController.deleteNote.bind(noteController))
 router.post('/:uuid/restore', noteController.restoreNote.bind(noteController))
+router.put('/:uuid/tags', tagController.setNoteTags.bind(tagController))
+
+// Note revision routes
+router.get(
+  '/:uuid/revisions',
+  noteRevisionController.getRevisions.bind(noteRevisionController),
+)
+router.get(
+  '/:uuid/revisions/diff',
+  noteRevisionController.diffRevisions.bind(noteRevisionController),
+)
+router.get(
+  '/:uuid/revisions/:version',
+  noteRevisionController.getRevision.bind(noteRevisionController),
+)
+router.post(
+  '/:uuid/revisions/:version/revert',
+  noteRevisionController.revertToRevision.bind(noteRevisionController),
+)
 
 export default router
@@ -1,25 +1,48 @@
-import { PrismaClient } from '@prisma/client'
-import prisma from '../../../config/db'
-import { CreateNoteData, UpdateNoteData, NoteQuery } from './note.model'
+import { Prisma } from '@prisma/client'
+import prisma, { withTransaction } from '../../../config/db'
+import {
+  CreateNoteData,
+  UpdateNoteData,
+  NoteQuery,
+  NoteError,
+  SHARED_NOTE_STATUSES,
+} from './note.model'
+import { projectMemberWhere } from '../projects/project.model'
+import { taskService } from '../tasks/task.service'
+import { tagSummaryInclude, tagWhere } from '../tags/tag.model'
+import { noteRevisionModel, NOTE_REVISION_FIELDS } from './noteRevision.model'
 
 export class NoteService {
-  // Get all notes for a user with pagination and filtering
+  // Get the notes a user wrote, and notes shared on their projects, with
+  // pagination and filtering
   async getNotes(userId: number, query: NoteQuery) {
     const { page, limit, status, projectId, search } = query
     const skip = (page - 1) * limit
 
-    const where = {
-      userId,
+    const where: Prisma.NoteWhereInput = {
       deletedAt: null,
       ...(status && { status }),
       ...(projectId && { projectId }),
-      ...(search && {
-        OR: [
-          { title: { contains: search, mode: 'insensitive' as const } },
-          { description: { contains: search, mode: 'insensitive' as const } },
-          { body: { contains: search, mode: 'insensitive' as const } },
-        ],
-      }),
+      AND: [
+        this.visibleWhere(userId),
+        ...(search
+          ? [
+              {
+                OR: [
+                  { title: { contains: search, mode: 'insensitive' as const } },
+                  {
+                    description: {
+                      contains: search,
+                      mode: 'insensitive' as const,
+                    },
+                  },
+                  { body: { contains: search, mode: 'insensitive' as const } },
+                ],
+              },
+            ]
+          : []),
+        ...tagWhere(query, userId),
+      ],
     }
 
     const [notes, total] = await Promise.all([
@@ -35,6 +58,7 @@ export class NoteService {
           user: {
             select: { id: true, uuid: true, name: true, email: true },
           },
+          tags: tagSummaryInclude(userId),
         },
       }),
       prisma.note.count({ where }),
@@ -56,8 +80,8 @@ export class NoteService {
     return prisma.note.findFirst({
       where: {
         uuid,
-        userId,
         deletedAt: null,
+        ...this.visibleWhere(userId),
       },
       include: {
         project: {
@@ -66,12 +90,17 @@ export class NoteService {
         user: {
           select: { id: true, uuid: true, name: true, email: true },
         },
+        tags: tagSummaryInclude(userId),
       },
     })
   }
 
   // Create a new note
   async createNote(userId: number, data: CreateNoteData) {
+    if (data.projectId) {
+      await this.assertProjectAccess(data.projectId, userId)
+    }
+
     return prisma.note.create({
       data: {
         ...data,
@@ -84,35 +113,94 @@ export class NoteService {
         user: {
           select: { id: true, uuid: true, name: true, email: true },
         },
+        tags: tagSummaryInclude(userId),
       },
     })
   }
 
-  // Update a note
-  async updateNote(uuid: string, userId: number, data: UpdateNoteData) {
-    const note = await this.getNoteByUuid(uuid, userId)
+  /**
+   * Update a note, recording a revision when its title, description or
+   * body changes. A revert is recorded even when nothing changes.
+   */
+  async updateNote(
+    uuid: string,
+    userId: number,
+    data: UpdateNoteData,
+    revertedFromVersion?: number,
+  ) {
+    const note = await this.findOwnNote(uuid, userId)
     if (!note) return null
 
-    return prisma.note.update({
-      where: { id: note.id },
-      data: {
-        ...data,
-        updatedAt: new Date(),
-      },
-      include: {
-        project: {
-          select: { id: true, uuid: true, title: true },
+    if (data.projectId && data.projectId !== note.projectId) {
+      await this.assertProjectAccess(data.projectId, userId)
+    }
+
+    return withTransaction(async (tx) => {
+      // Concurrent edits of the note wait here, so each one gets the next
+      // revision number and compares against the content the last one left
+      await tx.$queryRaw`SELECT id FROM "Note" WHERE id = ${note.id} FOR UPDATE`
+      const current = await tx.note.findFirst({
+        where: { id: note.id, deletedAt: null },
+      })
+      if (!current) return null
+
+      const changedFields = NOTE_REVISION_FIELDS.filter(
+        (field) => data[field] !== undefined && data[field] !== current[field],
+      )
+      const recordRevision =
+        changedFields.length > 0 || revertedFromVersion !== undefined
+
+      // Notes last edited before revisions were recorded keep their
+      // earlier content as the first revision
+      if (
+        recordRevision &&
+        !(await tx.noteRevision.count({ where: { noteId: note.id } }))
+      ) {
+        await noteRevisionModel.record(tx, note.id, {
+          userId: current.userId,
+          title: current.title,
+          description: current.description,
+          body: current.body,
+          changedFields: [],
+          createdAt: current.updatedAt,
+        })
+      }
+
+      const updated = await tx.note.update({
+        where: { id: note.id },
+        data: {
+          ...data,
+          updatedAt: new Date(),
         },
-        user: {
-          select: { id: true, uuid: true, name: true, email: true },
+        include: {
+          project: {
+            select: { id: true, uuid: true, title: true },
+          },
+          user: {
+            select: { id: true, uuid: true, name: true, email: true },
+          },
+          tags: tagSummaryInclude(userId),
         },
-      },
+      })
+
+      if (recordRevision) {
+        await noteRevisionModel.record(tx, note.id, {
+          userId,
+          title: updated.title,
+          description: updated.description,
+          body: updated.body,
+          changedFields,
+          revertedFromVersion,
+        })
+      }
+
+      return updated
     })
   }
 
   // Soft delete a note
   async deleteNote(uuid: string, userId: number): Promise<boolean> {
-    const note = await this.getNoteByUuid(uuid, userId)
+    const note = await this.findOwnNote(uuid, userId)
     if (!note) return false
 
     await prisma.note.update({
@@ -145,6 +233,7 @@ export class NoteService {
         user: {
           select: { id: true, uuid: true, name: true, email: true },
         },
+        tags: tagSummaryInclude(userId),
       },
     })
   }
@@ -154,15 +243,46 @@ export class NoteService {
     return prisma.note.findMany({
       where: {
         projectId,
-        userId,
         deletedAt: null,
+        ...this.visibleWhere(userId),
       },
       orderBy: { updatedAt: 'desc' },
       include: {
         user: {
           select: { id: true, uuid: true, name: true, email: true },
         },
+        tags: tagSummaryInclude(userId),
       },
     })
   }
+
+  // Notes are edited only by their author
+  private async findOwnNote(uuid: string, userId: number) {
+    return prisma.note.findFirst({
+      where: { uuid, userId, deletedAt: null },
+    })
+  }
+
+  // A user's own notes, plus shared notes on projects they belong to
+  private visibleWhere(userId: number): Prisma.NoteWhereInput {
+    return {
+      OR: [
+        { userId },
+        {
+          status: { in: SHARED_NOTE_STATUSES },
+          project: { deletedAt: null, ...projectMemberWhere(userId) },
+        },
+      ],
+    }
+  }
+
+  // Notes can only be filed under projects the author edits
+  private async assertProjectAccess(
+    projectId: number,
+    userId: number,
+  ): Promise<void> {
+    if (!(await taskService.canEditProject(projectId, userId))) {
+      throw new NoteError('Project not found or access denied', 404)
+    }
+  }
 }
@@ -0,0 +1,193 @@
+import { Request, Response, NextFunction } from 'express'
+import { ZodError } from 'zod'
+import { NoteRevisionService } from './noteRevision.service'
+import { noteRevisionDiffQuerySchema } from './noteRevision.model'
+import { NoteError } from './note.model'
+import {
+  createSuccessResponse,
+  createErrorResponse,
+} from '../../../utils/response'
+
+export class NoteRevisionController {
+  private noteRevisionService: NoteRevisionService
+
+  constructor() {
+    this.noteRevisionService = new NoteRevisionService()
+  }
+
+  // GET /notes/:uuid/revisions - List a note's revisions
+  async getRevisions(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const revisions = await this.noteRevisionService.getRevisions(
+        req.params.uuid,
+        userId,
+      )
+
+      return createSuccessResponse(
+        res,
+        'Note revisions retrieved successfully',
+        revisions,
+      )
+    } catch (error) {
+      if (error instanceof NoteError) {
+        return createErrorResponse(
+          res,
+          error.message,
+          undefined,
+          error.statusCode,
+        )
+      }
+      next(error)
+    }
+  }
+
+  // GET /notes/:uuid/revisions/diff - Compare two revisions
+  async diffRevisions(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const query = noteRevisionDiffQuerySchema.parse(req.query)
+      const diff = await this.noteRevisionService.diffRevisions(
+        req.params.uuid,
+        query,
+        userId,
+      )
+
+      return createSuccessResponse(
+        res,
+        'Note revision diff retrieved successfully',
+        diff,
+      )
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return createErrorResponse(
+          res,
+          'Invalid query parameters',
+          error.issues,
+          400,
+        )
+      }
+      if (error instanceof NoteError) {
+        return createErrorResponse(
+          res,
+          error.message,
+          undefined,
+          error.statusCode,
+        )
+      }
+      next(error)
+    }
+  }
+
+  // GET /notes/:uuid/revisions/:version - Get a single revision
+  async getRevision(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const version = parseInt(req.params.version, 10)
+      if (isNaN(version)) {
+        return createErrorResponse(
+          res,
+          'Invalid revision version',
+          undefined,
+          400,
+        )
+      }
+
+      const revision = await this.noteRevisionService.getRevision(
+        req.params.uuid,
+        version,
+        userId,
+      )
+
+      return createSuccessResponse(
+        res,
+        'Note revision retrieved successfully',
+        revision,
+      )
+    } catch (error) {
+      if (error instanceof NoteError) {
+        return createErrorResponse(
+          res,
+          error.message,
+          undefined,
+          error.statusCode,
+        )
+      }
+      next(error)
+    }
+  }
+
+  // POST /notes/:uuid/revisions/:version/revert - Restore a revision
+  async revertToRevision(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const version = parseInt(req.params.version, 10)
+      if (isNaN(version)) {
+        return createErrorResponse(
+          res,
+          'Invalid revision version',
+          undefined,
+          400,
+        )
+      }
+
+      const note = await this.noteRevisionService.revertToRevision(
+        req.params.uuid,
+        version,
+        userId,
+      )
+
+      console.info('Note reverted', { noteId: note.id, version, userId })
+
+      return createSuccessResponse(res, 'Note reverted successfully', note)
+    } catch (error) {
+      if (error instanceof NoteError) {
+        return createErrorResponse(
+          res,
+          error.message,
+          undefined,
+          error.statusCode,
+        )
+      }
+      next(error)
+    }
+  }
+}
+
+export const noteRevisionController = new NoteRevisionController()
@@ -0,0 +1,159 @@
+import { z } from 'zod'
+import { Prisma } from '@prisma/client'
+import prisma from '../../../config/db'
+import { NoteError } from './note.model'
+import { DiffLine } from '../../../utils/lineDiff'
+import { RevisionStamp } from '../../../utils/revisionRetention'
+
+// The note content each revision keeps a copy of
+export const NOTE_REVISION_FIELDS = ['title', 'description', 'body'] as const
+
+// Validation schemas
+export const noteRevisionDiffQuerySchema = z.object({
+  from: z.coerce.number().int().positive(),
+  // Defaults to the latest revision
+  to: z.coerce.number().int().positive().optional(),
+})
+
+// Types
+export type NoteRevisionField = (typeof NOTE_REVISION_FIELDS)[number]
+export type NoteRevisionDiffQuery = z.infer<typeof noteRevisionDiffQuerySchema>
+
+export interface NoteRevisionSummary {
+  id: number
+  version: number
+  changedFields: string[]
+  revertedFromVersion: number | null
+  createdAt: Date
+  user: { id: number; uuid: string; name: string } | null
+}
+
+export interface NoteRevisionResponse extends NoteRevisionSummary {
+  noteId: number
+  title: string
+  description: string | null
+  body: string | null
+}
+
+export interface NoteRevisionDiffResponse {
+  from: number
+  to: number
+  fields: {
+    field: NoteRevisionField
+    changed: boolean
+    lines: DiffLine[]
+  }[]
+}
+
+export type RecordNoteRevisionData = Omit<
+  Prisma.NoteRevisionUncheckedCreateInput,
+  'id' | 'noteId' | 'version'
+>
+
+const revisionUserInclude = {
+  select: { id: true, uuid: true, name: true },
+}
+
+const revisionSummarySelect = {
+  id: true,
+  version: true,
+  changedFields: true,
+  revertedFromVersion: true,
+  createdAt: true,
+  user: revisionUserInclude,
+} satisfies Prisma.NoteRevisionSelect
+
+// Database operations
+export const noteRevisionModel = {
+  // Newest first, without the content
+  async findMany(noteId: number): Promise<NoteRevisionSummary[]> {
+    try {
+      return await prisma.noteRevision.findMany({
+        where: { noteId },
+        select: revisionSummarySelect,
+        orderBy: { version: 'desc' },
+      })
+    } catch (error) {
+      console.error('Error fetching note revisions:', error)
+      throw new NoteError('Failed to fetch note revisions', 500)
+    }
+  },
+
+  async findByVersion(
+    noteId: number,
+    version: number,
+  ): Promise<NoteRevisionResponse | null> {
+    try {
+      return await prisma.noteRevision.findUnique({
+        where: { noteId_version: { noteId, version } },
+        include: { user: revisionUserInclude },
+      })
+    } catch (error) {
+      console.error('Error fetching note revision:', error)
+      throw new NoteError('Failed to fetch note revision', 500)
+    }
+  },
+
+  async findLatest(noteId: number): Promise<NoteRevisionResponse | null> {
+    try {
+      return await prisma.noteRevision.findFirst({
+        where: { noteId },
+        include: { user: revisionUserInclude },
+        orderBy: { version: 'desc' },
+      })
+    } catch (error) {
+      console.error('Error fetching note revision:', error)
+      throw new NoteError('Failed to fetch note revision', 500)
+    }
+  },
+
+  /**
+   * Add a revision with the next version number. Runs inside the
+   * transaction that changes the note, which holds the note row's lock.
+   */
+  async record(
+    tx: Prisma.TransactionClient,
+    noteId: number,
+    data: RecordNoteRevisionData,
+  ) {
+    const latest = await tx.noteRevision.findFirst({
+      where: { noteId },
+      select: { version: true },
+      orderBy: { version: 'desc' },
+    })
+
+    return tx.noteRevision.create({
+      data: { ...data, noteId, version: (latest?.version ?? 0) + 1 },
+    })
+  },
+
+  // Every revision of the notes that have one older than the date
+  async findPruneCandidates(before: Date): Promise<RevisionStamp[]> {
+    try {
+      const revisions = await prisma.noteRevision.findMany({
+        where: { note: { revisions: { some: { createdAt: { lt: before } } } } },
+        select: { id: true, noteId: true, createdAt: true },
+      })
+      return revisions.map((revision) => ({
+        id: revision.id,
+        recordId: revision.noteId,
+        createdAt: revision.createdAt,
+      }))
+    } catch (error) {
+      console.error('Error fetching note revisions to prune:', error)
+      throw new NoteError('Failed to fetch note revisions', 500)
+    }
+  },
+
+  async deleteMany(ids: number[]): Promise<number> {
+    try {
+      const { count } = await prisma.noteRevision.deleteMany({
+        where: { id: { in: ids } },
+      })
+      return count
+    } catch (error) {
+      console.error('Error deleting note revisions:', error)
+      throw new NoteError('Failed to delete note revisions', 500)
+    }
+  },
+}
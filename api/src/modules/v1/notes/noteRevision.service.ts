@@ -0,0 +1,128 @@
+import { ENV } from '../../../config/env'
+import { NoteError } from './note.model'
+import { NoteService } from './note.service'
+import {
+  noteRevisionModel,
+  NOTE_REVISION_FIELDS,
+  NoteRevisionDiffQuery,
+  NoteRevisionDiffResponse,
+  NoteRevisionResponse,
+  NoteRevisionSummary,
+} from './noteRevision.model'
+import { diffLines } from '../../../utils/lineDiff'
+import { revisionsToPrune } from '../../../utils/revisionRetention'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export class NoteRevisionService {
+  private noteService: NoteService
+
+  constructor() {
+    this.noteService = new NoteService()
+  }
+
+  // Revisions of a note the user can see, newest first
+  async getRevisions(
+    uuid: string,
+    userId: number,
+  ): Promise<NoteRevisionSummary[]> {
+    const note = await this.findVisibleNote(uuid, userId)
+    return noteRevisionModel.findMany(note.id)
+  }
+
+  async getRevision(
+    uuid: string,
+    version: number,
+    userId: number,
+  ): Promise<NoteRevisionResponse> {
+    const note = await this.findVisibleNote(uuid, userId)
+    return this.findRevision(note.id, version)
+  }
+
+  // Line by line changes of each field between two revisions
+  async diffRevisions(
+    uuid: string,
+    query: NoteRevisionDiffQuery,
+    userId: number,
+  ): Promise<NoteRevisionDiffResponse> {
+    const note = await this.findVisibleNote(uuid, userId)
+    const [from, to] = await Promise.all([
+      this.findRevision(note.id, query.from),
+      query.to
+        ? this.findRevision(note.id, query.to)
+        : noteRevisionModel.findLatest(note.id),
+    ])
+    // The from revision exists, so there is a latest one
+    const target = to as NoteRevisionResponse
+
+    return {
+      from: from.version,
+      to: target.version,
+      fields: NOTE_REVISION_FIELDS.map((field) => ({
+        field,
+        changed: from[field] !== target[field],
+        lines: diffLines(from[field], target[field]),
+      })),
+    }
+  }
+
+  // Restore a revision's content; the revert is itself a new revision
+  async revertToRevision(uuid: string, version: number, userId: number) {
+    const note = await this.findVisibleNote(uuid, userId)
+    const revision = await this.findRevision(note.id, version)
+
+    const reverted = await this.noteService.updateNote(
+      uuid,
+      userId,
+      {
+        title: revision.title,
+        description: revision.description,
+        body: revision.body,
+      },
+      revision.version,
+    )
+    if (!reverted) {
+      throw new NoteError('Only the author can revert a note', 403)
+    }
+
+    return reverted
+  }
+
+  /**
+   * Thin out old revisions (run on a schedule): all are kept for
+   * NOTE_REVISION_KEEP_ALL_DAYS, then the last of each day
+   */
+  async prune(now: Date = new Date()): Promise<number> {
+    const policy = {
+      keepAllDays: ENV.NOTE_REVISION_KEEP_ALL_DAYS,
+      keepDailyDays: ENV.NOTE_REVISION_KEEP_DAILY_DAYS,
+    }
+    const candidates = await noteRevisionModel.findPruneCandidates(
+      new Date(now.getTime() - policy.keepAllDays * DAY_MS),
+    )
+
+    const ids = revisionsToPrune(candidates, policy, now)
+    return ids.length > 0 ? await noteRevisionModel.deleteMany(ids) : 0
+  }
+
+  private async findVisibleNote(uuid: string, userId: number) {
+    const note = await this.noteService.getNoteByUuid(uuid, userId)
+    if (!note) {
+      throw new NoteError('Note not found', 404)
+    }
+    return note
+  }
+
+  private async findRevision(
+    noteId: number,
+    version: number,
+  ): Promise<NoteRevisionResponse> {
+    const revision = await noteRevisionModel.findByVersion(noteId, version)
+    if (!revision) {
+      throw new NoteError('Revision not found', 404)
+    }
+    return revision
+  }
+}
+
+export const noteRevisionService = new NoteRevisionService()
@@ -0,0 +1,3 @@
+import router from './notification.routes'
+
+export default router
@@ -0,0 +1,120 @@
+import { Request, Response, NextFunction } from 'express'
+import { ZodError } from 'zod'
+import { notificationService } from './notification.service'
+import {
+  notificationQuerySchema,
+  NotificationError,
+} from './notification.model'
+import {
+  createSuccessResponse,
+  createErrorResponse,
+} from '../../../utils/response'
+
+export class NotificationController {
+  // Get notifications for the current user
+  async getNotifications(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const queryParams = notificationQuerySchema.parse(req.query)
+      const notifications = await notificationService.getNotifications(
+        queryParams,
+        userId,
+      )
+
+      return createSuccessResponse(
+        res,
+        'Notifications retrieved successfully',
+        notifications,
+      )
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(
+          res,
+          'Invalid query parameters',
+          err.issues,
+          400,
+        )
+      }
+      if (err instanceof NotificationError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // Mark a notification as read
+  async markAsRead(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const notificationId = parseInt(req.params.id)
+      if (isNaN(notificationId)) {
+        return createErrorResponse(
+          res,
+          'Invalid notification ID',
+          undefined,
+          400,
+        )
+      }
+
+      const notification = await notificationService.markAsRead(
+        notificationId,
+        userId,
+      )
+
+      return createSuccessResponse(
+        res,
+        'Notification marked as read',
+        notification,
+      )
+    } catch (err) {
+      if (err instanceof NotificationError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // Mark all notifications as read
+  async markAllAsRead(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const result = await notificationService.markAllAsRead(userId)
+
+      return createSuccessResponse(res, 'Notifications marked as read', result)
+    } catch (err) {
+      if (err instanceof NotificationError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+}
+
+export const notificationController = new NotificationController()
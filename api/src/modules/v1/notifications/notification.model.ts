@@ -0,0 +1,190 @@
+import { z } from 'zod'
+import { NotificationType, Prisma } from '@prisma/client'
+import prisma from '../../../config/db'
+import { NotificationSettings } from '../profiles/profile.model'
+
+// Validation schemas
+export const notificationQuerySchema = z.object({
+  unread: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional(),
+  page: z.coerce.number().int().min(1).optional().default(1),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(20),
+})
+
+// Types
+export type NotificationQuery = z.infer<typeof notificationQuerySchema>
+
+export type NotificationChannel = 'email' | 'push'
+
+// Keys of NotificationSettings.email / .push
+export type NotificationCategory = keyof NonNullable<
+  NotificationSettings['email']
+>
+
+export interface CreateNotificationInput {
+  userId: number
+  actorId?: number | null
+  type: NotificationType
+  modelType: string
+  modelId: string
+  message: string
+  channels: NotificationChannel[]
+}
+
+export interface NotificationResponse {
+  id: number
+  uuid: string
+  userId: number
+  actorId: number | null
+  type: NotificationType
+  modelType: string
+  modelId: string
+  message: string
+  channels: string[]
+  readAt: Date | null
+  createdAt: Date
+  actor?: {
+    id: number
+    name: string
+  } | null
+}
+
+export interface PaginatedNotificationsResponse {
+  notifications: NotificationResponse[]
+  unreadCount: number
+  pagination: {
+    page: number
+    limit: number
+    total: number
+    totalPages: number
+  }
+}
+
+export class NotificationError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400,
+  ) {
+    super(message)
+    this.name = 'NotificationError'
+  }
+}
+
+const notificationInclude = {
+  actor: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+} satisfies Prisma.NotificationInclude
+
+// Database operations
+export const notificationModel = {
+  async create(data: CreateNotificationInput): Promise<NotificationResponse> {
+    try {
+      return await prisma.notification.create({
+        data: {
+          userId: data.userId,
+          actorId: data.actorId ?? null,
+          type: data.type,
+          modelType: data.modelType,
+          modelId: data.modelId,
+          message: data.message,
+          channels: data.channels,
+        },
+        include: notificationInclude,
+      })
+    } catch (error) {
+      console.error('Error creating notification:', error)
+      throw new NotificationError('Failed to create notification', 500)
+    }
+  },
+
+  async findMany(
+    userId: number,
+    query: NotificationQuery,
+  ): Promise<PaginatedNotificationsResponse> {
+    try {
+      const skip = (query.page - 1) * query.limit
+      const where: Prisma.NotificationWhereInput = {
+        userId,
+        ...(query.unread && { readAt: null }),
+      }
+
+      const [notifications, total, unreadCount] = await Promise.all([
+        prisma.notification.findMany({
+          where,
+          include: notificationInclude,
+          orderBy: { createdAt: 'desc' },
+          skip,
+          take: query.limit,
+        }),
+        prisma.notification.count({ where }),
+        prisma.notification.count({ where: { userId, readAt: null } }),
+      ])
+
+      return {
+        notifications,
+        unreadCount,
+        pagination: {
+          page: query.page,
+          limit: query.limit,
+          total,
+          totalPages: Math.ceil(total / query.limit),
+        },
+      }
+    } catch (error) {
+      console.error('Error fetching notifications:', error)
+      throw new NotificationError('Failed to fetch notifications', 500)
+    }
+  },
+
+  async markRead(userId: number, id: number): Promise<NotificationResponse> {
+    const notification = await prisma.notification.findFirst({
+      where: { id, userId },
+    })
+    if (!notification) {
+      throw new NotificationError('Notification not found', 404)
+    }
+
+    try {
+      return await prisma.notification.update({
+        where: { id },
+        data: { readAt: notification.readAt ?? new Date() },
+        include: notificationInclude,
+      })
+    } catch (error) {
+      console.error('Error marking notification read:', error)
+      throw new NotificationError('Failed to update notification', 500)
+    }
+  },
+
+  async markAllRead(userId: number): Promise<number> {
+    try {
+      const result = await prisma.notification.updateMany({
+        where: { userId, readAt: null },
+        data: { readAt: new Date() },
+      })
+      return result.count
+    } catch (error) {
+      console.error('Error marking notifications read:', error)
+      throw new NotificationError('Failed to update notifications', 500)
+    }
+  },
+
+  async findSettings(userId: number): Promise<NotificationSettings | null> {
+    try {
+      const profile = await prisma.profile.findUnique({
+        where: { userId },
+        select: { notifications: true },
+      })
+      return (profile?.notifications as NotificationSettings | null) ?? null
+    } catch (error) {
+      console.error('Error fetching notification settings:', error)
+      throw new NotificationError('Failed to fetch notification settings', 500)
+    }
+  },
+}
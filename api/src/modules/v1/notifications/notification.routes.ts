@@ -0,0 +1,23 @@
+import { Router } from 'express'
+import { notificationController } from './notification.controller'
+import { auth } from '../../../middlewares/auth'
+
+const router = Router()
+
+// Apply authentication to all routes
+router.use(auth)
+
+router.get(
+  '/',
+  notificationController.getNotifications.bind(notificationController),
+)
+router.put(
+  '/read-all',
+  notificationController.markAllAsRead.bind(notificationController),
+)
+router.put(
+  '/:id/read',
+  notificationController.markAsRead.bind(notificationController),
+)
+
+export default router
@@ -0,0 +1,111 @@
+import { NotificationType } from '@prisma/client'
+import {
+  notificationModel,
+  NotificationQuery,
+  NotificationCategory,
+  NotificationChannel,
+  NotificationResponse,
+  PaginatedNotificationsResponse,
+} from './notification.model'
+import { NotificationSettings } from '../profiles/profile.model'
+
+// Used for users without a profile or without a stored toggle; mirrors
+// the defaults ProfileService gives new profiles
+const DEFAULT_CHANNELS: Record<
+  NotificationChannel,
+  Record<NotificationCategory, boolean>
+> = {
+  email: { projects: true, tasks: true, notes: true, mentions: true },
+  push: { projects: false, tasks: true, notes: false, mentions: true },
+}
+
+interface NotificationData {
+  userId: number
+  // Omitted for system events such as budget alerts
+  actorId?: number
+  modelType: string
+  modelId: string
+  message: string
+}
+
+export class NotificationService {
+  /**
+   * Record a mention for a user. Returns null without recording anything
+   * when the user has turned off mention notifications on every channel.
+   */
+  async notifyMention(
+    data: NotificationData,
+  ): Promise<NotificationResponse | null> {
+    return await this.notify(NotificationType.MENTION, 'mentions', data)
+  }
+
+  // Tell a user they were added to a project, if project notifications are on
+  async notifyProjectInvite(
+    data: NotificationData,
+  ): Promise<NotificationResponse | null> {
+    return await this.notify(NotificationType.PROJECT_INVITE, 'projects', data)
+  }
+
+  // Tell a project owner its budget crossed an alert threshold
+  async notifyBudgetThreshold(
+    data: NotificationData,
+  ): Promise<NotificationResponse | null> {
+    return await this.notify(
+      NotificationType.BUDGET_THRESHOLD,
+      'projects',
+      data,
+    )
+  }
+
+  // Get the requesting user's notifications
+  async getNotifications(
+    query: NotificationQuery,
+    requestingUserId: number,
+  ): Promise<PaginatedNotificationsResponse> {
+    return await notificationModel.findMany(requestingUserId, query)
+  }
+
+  // Mark one notification as read
+  async markAsRead(
+    id: number,
+    requestingUserId: number,
+  ): Promise<NotificationResponse> {
+    return await notificationModel.markRead(requestingUserId, id)
+  }
+
+  // Mark all notifications as read
+  async markAllAsRead(
+    requestingUserId: number,
+  ): Promise<{ updatedCount: number }> {
+    const updatedCount = await notificationModel.markAllRead(requestingUserId)
+    return { updatedCount }
+  }
+
+  private async notify(
+    type: NotificationType,
+    category: NotificationCategory,
+    data: NotificationData,
+  ): Promise<NotificationResponse | null> {
+    const channels = await this.getEnabledChannels(data.userId, category)
+    if (channels.length === 0) {
+      return null
+    }
+
+    return await notificationModel.create({ ...data, type, channels })
+  }
+
+  private async getEnabledChannels(
+    userId: number,
+    category: NotificationCategory,
+  ): Promise<NotificationChannel[]> {
+    const settings: NotificationSettings =
+      (await notificationModel.findSettings(userId)) ?? {}
+
+    return (Object.keys(DEFAULT_CHANNELS) as NotificationChannel[]).filter(
+      (channel) =>
+        settings[channel]?.[category] ?? DEFAULT_CHANNELS[channel][category],
+    )
+  }
+}
+
+export const notificationService = new NotificationService()
@@ -229,6 +229,41 @@ export class ProjectController {
     }
   }
 
+  // Restore a deleted project from the trash
+  async restoreProject(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const projectId = parseInt(req.params.id)
+      if (isNaN(projectId)) {
+        return createErrorResponse(res, 'Invalid project ID', undefined, 400)
+      }
+
+      const project = await projectService.restoreProject(projectId, userId)
+
+      console.info('Project restored', { projectId, userId })
+
+      return createSuccessResponse(
+        res,
+        'Project restored successfully',
+        project,
+      )
+    } catch (err) {
+      if (err instanceof ProjectError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
   // Get user projects
   async getUserProjects(req: Request, res: Response, next: NextFunction) {
     try {
@@ -1,6 +1,12 @@
 import { z } from 'zod'
-import { PrismaClient, ProjectStage, Prisma } from '@prisma/client'
+import { PrismaClient, ProjectStage, ProjectRole, Prisma } from '@prisma/client'
 import { Decimal } from '@prisma/client/runtime/library'
+import {
+  tagQueryFields,
+  tagSummaryInclude,
+  tagWhere,
+  TagSummary,
+} from '../tags/tag.model'
 
 const prisma = new PrismaClient()
 
@@ -24,6 +30,8 @@ export const updateProjectSchema = z.object({
     .optional(),
   description: z.string().optional(),
   stage: z.nativeEnum(ProjectStage).optional(),
+  // Recorded in the stage history when the stage changes
+  stageComment: z.string().trim().max(1000).optional(),
   beganAt: z.string().datetime().optional(),
   completedAt: z.string().datetime().optional(),
   billingCycle: z.string().optional(),
@@ -37,8 +45,18 @@ export const projectQuerySchema = z.object({
   stage: z.nativeEnum(ProjectStage).optional(),
   userId: z.coerce.number().int().positive().optional(),
   search: z.string().optional(),
-  sortBy: z.enum(['createdAt', 'updatedAt', 'title', 'stage']).optional(),
+  ...tagQueryFields,
+  sortBy: z
+    .enum(['createdAt', 'updatedAt', 'title', 'stage', 'health'])
+    .optional(),
   sortOrder: z.enum(['asc', 'desc']).optional(),
+  // Health score range, 0-100
+  minHealth: z.coerce.number().int().min(0).max(100).optional(),
+  maxHealth: z.coerce.number().int().min(0).max(100).optional(),
+  atRisk: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional(),
 })
 
 // Types
@@ -69,6 +87,21 @@ export interface ProjectResponse {
     tasks: number
     notes: number
   }
+  tags?: TagSummary[]
+  // Only when listing projects by health
+  health?: {
+    score: number
+    atRisk: boolean
+  }
+}
+
+export interface StageChangeOptions {
+  userId: number
+  /**
+   * Checks the gates of the stage being entered in the update's
+   * transaction, resolving to the stage approvals the change uses up
+   */
+  assertGates?: (tx: Prisma.TransactionClient) => Promise<number[]>
 }
 
 export interface PaginatedProjectsResponse {
@@ -92,6 +125,86 @@ export class ProjectError extends Error {
   }
 }
 
+// Each role can do everything the roles below it can
+const PROJECT_ROLE_RANK: Record<ProjectRole, number> = {
+  VIEWER: 1,
+  EDITOR: 2,
+  OWNER: 3,
+}
+
+export function hasProjectRole(
+  role: ProjectRole | null,
+  minimum: ProjectRole,
+): boolean {
+  return role !== null && PROJECT_ROLE_RANK[role] >= PROJECT_ROLE_RANK[minimum]
+}
+
+// Projects a user owns or is a member of
+export function projectMemberWhere(userId: number): Prisma.ProjectWhereInput {
+  return { OR: [{ userId }, { members: { some: { userId } } }] }
+}
+
+// Projects a user owns or is an owner member of, matching canManageProject
+export function projectOwnerWhere(userId: number): Prisma.ProjectWhereInput {
+  return {
+    OR: [
+      { userId },
+      { members: { some: { userId, role: ProjectRole.OWNER } } },
+    ],
+  }
+}
+
+// Included wherever a project is returned, with the viewer's tags
+function projectInclude(viewerId: number) {
+  return {
+    user: {
+      select: {
+        id: true,
+        name: true,
+        email: true,
+      },
+    },
+    _count: {
+      select: {
+        tasks: true,
+        notes: true,
+      },
+    },
+    tags: tagSummaryInclude(viewerId),
+  } satisfies Prisma.ProjectInclude
+}
+
+function projectListWhere(
+  query: ProjectQuery,
+  viewerId: number,
+  userId?: number,
+): Prisma.ProjectWhereInput {
+  return {
+    deletedAt: null,
+    ...(query.stage && { stage: query.stage }),
+    ...(query.search && {
+      OR: [
+        { title: { contains: query.search, mode: 'insensitive' } },
+        { description: { contains: query.search, mode: 'insensitive' } },
+      ],
+    }),
+    AND: [
+      ...(userId ? [projectMemberWhere(userId)] : []),
+      ...tagWhere(query, viewerId),
+    ],
+  }
+}
+
+// Health is scored after the query, so projects sorted by it are ordered by
+// creation date here
+function projectListOrderBy(
+  query: ProjectQuery,
+): Prisma.ProjectOrderByWithRelationInput {
+  const sortBy =
+    query.sortBy && query.sortBy !== 'health' ? query.sortBy : 'createdAt'
+  return { [sortBy]: query.sortOrder || 'desc' }
+}
+
 // Database operations
 export const projectModel = {
   async create(
@@ -105,22 +218,11 @@ export const projectModel = {
           userId,
           beganAt: data.beganAt ? new Date(data.beganAt) : null,
           completedAt: data.completedAt ? new Date(data.completedAt) : null,
-        },
-        include: {
-          user: {
-            select: {
-              id: true,
-              name: true,
-              email: true,
-            },
-          },
-          _count: {
-            select: {
-              tasks: true,
-              notes: true,
-            },
+          stageTransitions: {
+            create: { toStage: data.stage ?? ProjectStage.PLANNING, userId },
           },
         },
+        include: projectInclude(userId),
       })
 
       return project
@@ -134,52 +236,26 @@ export const projectModel = {
     }
   },
 
+  // Lists projects of the user, or of everyone without one
   async findMany(
     query: ProjectQuery,
+    viewerId: number,
     userId?: number,
   ): Promise<PaginatedProjectsResponse> {
     const page = query.page || 1
     const limit = query.limit || 20
     const skip = (page - 1) * limit
 
-    const where: Prisma.ProjectWhereInput = {
-      deletedAt: null,
-      ...(userId && { userId }),
-      ...(query.stage && { stage: query.stage }),
-      ...(query.search && {
-        OR: [
-          { title: { contains: query.search, mode: 'insensitive' } },
-          { description: { contains: query.search, mode: 'insensitive' } },
-        ],
-      }),
-    }
-
-    const orderBy: Prisma.ProjectOrderByWithRelationInput = {
-      [query.sortBy || 'createdAt']: query.sortOrder || 'desc',
-    }
+    const where = projectListWhere(query, viewerId, userId)
 
     try {
       const [projects, total] = await Promise.all([
         prisma.project.findMany({
           where,
-          orderBy,
+          orderBy: projectListOrderBy(query),
           skip,
           take: limit,
-          include: {
-            user: {
-              select: {
-                id: true,
-                name: true,
-                email: true,
-              },
-            },
-            _count: {
-              select: {
-                tasks: true,
-                notes: true,
-              },
-            },
-          },
+          include: projectInclude(viewerId),
         }),
         prisma.project.count({ where }),
       ])
@@ -199,28 +275,54 @@ export const projectModel = {
     }
   },
 
-  async findById(id: number): Promise<ProjectResponse | null> {
+  // IDs of every project matching the list filters, in list order
+  async findIds(
+    query: ProjectQuery,
+    viewerId: number,
+    userId?: number,
+  ): Promise<number[]> {
+    try {
+      const projects = await prisma.project.findMany({
+        where: projectListWhere(query, viewerId, userId),
+        orderBy: projectListOrderBy(query),
+        select: { id: true },
+      })
+      return projects.map((project) => project.id)
+    } catch (error) {
+      console.error('Error fetching projects:', error)
+      throw new ProjectError('Failed to fetch projects', 500)
+    }
+  },
+
+  // Projects as listed, in the order of the given IDs
+  async findManyByIds(
+    ids: number[],
+    viewerId: number,
+  ): Promise<ProjectResponse[]> {
+    try {
+      const projects = await prisma.project.findMany({
+        where: { id: { in: ids } },
+        include: projectInclude(viewerId),
+      })
+      const byId = new Map(projects.map((project) => [project.id, project]))
+      return ids.flatMap((id) => byId.get(id) ?? [])
+    } catch (error) {
+      console.error('Error fetching projects:', error)
+      throw new ProjectError('Failed to fetch projects', 500)
+    }
+  },
+
+  async findById(
+    id: number,
+    viewerId: number,
+  ): Promise<ProjectResponse | null> {
     try {
       const project = await prisma.project.findFirst({
         where: {
           id,
           deletedAt: null,
         },
-        include: {
-          user: {
-            select: {
-              id: true,
-              name: true,
-              email: true,
-            },
-          },
-          _count: {
-            select: {
-              tasks: true,
-              notes: true,
-            },
-          },
-        },
+        include: projectInclude(viewerId),
       })
 
       return project
@@ -230,28 +332,17 @@ export const projectModel = {
     }
   },
 
-  async findByUuid(uuid: string): Promise<ProjectResponse | null> {
+  async findByUuid(
+    uuid: string,
+    viewerId: number,
+  ): Promise<ProjectResponse | null> {
     try {
       const project = await prisma.project.findFirst({
         where: {
           uuid,
           deletedAt: null,
         },
-        include: {
-          user: {
-            select: {
-              id: true,
-              name: true,
-              email: true,
-            },
-          },
-          _count: {
-            select: {
-              tasks: true,
-              notes: true,
-            },
-          },
-        },
+        include: projectInclude(viewerId),
       })
 
       return project
@@ -261,7 +352,12 @@ export const projectModel = {
     }
   },
 
-  async update(id: number, data: UpdateProjectInput): Promise<ProjectResponse> {
+  async update(
+    id: number,
+    data: UpdateProjectInput,
+    viewerId: number,
+    stageChange?: StageChangeOptions,
+  ): Promise<ProjectResponse> {
     try {
       // Get current project to compare stage transitions
       const currentProject = await prisma.project.findUnique({
@@ -273,7 +369,8 @@ export const projectModel = {
       }
 
       // Handle automatic timestamp setting for stage transitions
-      const updateData: any = { ...data }
+      const { stageComment, ...fields } = data
+      const updateData: any = { ...fields }
 
       // Set beganAt when transitioning to IMPLEMENTATION stage
       if (
@@ -301,28 +398,47 @@ export const projectModel = {
         updateData.completedAt = new Date(data.completedAt)
       }
 
-      const project = await prisma.project.update({
-        where: { id },
-        data: updateData,
-        include: {
-          user: {
-            select: {
-              id: true,
-              name: true,
-              email: true,
+      const stageChanged =
+        data.stage !== undefined && data.stage !== currentProject.stage
+
+      // Record the stage change along with the update
+      const project = await prisma.$transaction(async (tx) => {
+        if (stageChanged) {
+          // Stage changes of the project wait for each other, so an
+          // approval is checked and used up by one change only
+          await tx.$queryRaw`SELECT id FROM "Project" WHERE id = ${id} FOR UPDATE`
+          const approvalIds = (await stageChange?.assertGates?.(tx)) ?? []
+
+          await tx.projectStageTransition.create({
+            data: {
+              projectId: id,
+              userId: stageChange?.userId,
+              fromStage: currentProject.stage,
+              toStage: data.stage as ProjectStage,
+              comment: stageComment,
             },
-          },
-          _count: {
-            select: {
-              tasks: true,
-              notes: true,
-            },
-          },
-        },
+          })
+
+          if (approvalIds.length > 0) {
+            await tx.projectStageApproval.updateMany({
+              where: { id: { in: approvalIds } },
+              data: { usedAt: new Date() },
+            })
+          }
+        }
+
+        return await tx.project.update({
+          where: { id },
+          data: updateData,
+          include: projectInclude(viewerId),
+        })
       })
 
       return project
     } catch (error) {
+      if (error instanceof ProjectError) {
+        throw error
+      }
       if (error instanceof Prisma.PrismaClientKnownRequestError) {
         if (error.code === 'P2025') {
           throw new ProjectError('Project not found', 404)
@@ -335,14 +451,21 @@ export const projectModel = {
     }
   },
 
+  // Live tasks go to the trash with the project, sharing its deletedAt
   async delete(id: number): Promise<void> {
+    const deletedAt = new Date()
+
     try {
-      await prisma.project.update({
-        where: { id },
-        data: {
-          deletedAt: new Date(),
-        },
-      })
+      await prisma.$transaction([
+        prisma.project.update({
+          where: { id },
+          data: { deletedAt },
+        }),
+        prisma.task.updateMany({
+          where: { projectId: id, deletedAt: null },
+          data: { deletedAt, rank: null },
+        }),
+      ])
     } catch (error) {
       if (error instanceof Prisma.PrismaClientKnownRequestError) {
         if (error.code === 'P2025') {
@@ -353,6 +476,48 @@ export const projectModel = {
     }
   },
 
+  async findDeletedById(
+    id: number,
+    viewerId: number,
+  ): Promise<(ProjectResponse & { deletedAt: Date | null }) | null> {
+    try {
+      const project = await prisma.project.findFirst({
+        where: {
+          id,
+          deletedAt: { not: null },
+        },
+        include: projectInclude(viewerId),
+      })
+
+      return project
+    } catch (error) {
+      console.error('Error fetching deleted project:', error)
+      throw new ProjectError('Failed to fetch project', 500)
+    }
+  },
+
+  // Brings back the tasks that were deleted along with the project
+  async restore(project: {
+    id: number
+    deletedAt: Date | null
+  }): Promise<void> {
+    try {
+      await prisma.$transaction([
+        prisma.project.update({
+          where: { id: project.id },
+          data: { deletedAt: null },
+        }),
+        prisma.task.updateMany({
+          where: { projectId: project.id, deletedAt: project.deletedAt },
+          data: { deletedAt: null },
+        }),
+      ])
+    } catch (error) {
+      console.error('Error restoring project:', error)
+      throw new ProjectError('Failed to restore project', 500)
+    }
+  },
+
   async getProjectStats(userId?: number): Promise<{
     total: number
     byStage: Record<ProjectStage, number>
@@ -362,7 +527,7 @@ export const projectModel = {
     try {
       const where: Prisma.ProjectWhereInput = {
         deletedAt: null,
-        ...(userId && { userId }),
+        ...(userId && projectMemberWhere(userId)),
       }
 
       const [total, stageStats, taskCount, noteCount] = await Promise.all([
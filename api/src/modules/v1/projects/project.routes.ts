@@ -1,5 +1,17 @@
 import { Router } from 'express'
 import { projectController } from './project.controller'
+import { projectMemberController } from './projectMember.controller'
+import { projectStageController } from './projectStage.controller'
+import { projectFinanceController } from './projectFinance.controller'
+import { projectTemplateController } from './projectTemplate.controller'
+import { projectMilestoneController } from './projectMilestone.controller'
+import { projectAnalyticsController } from './projectAnalytics.controller'
+import { projectBudgetController } from './projectBudget.controller'
+import { projectTimelineController } from './projectTimeline.controller'
+import { projectHealthController } from './projectHealth.controller'
+import { projectBundleController } from './projectBundle.controller'
+import { tagController } from '../tags/tag.controller'
+import { taskTransferController } from '../tasks/taskTransfer.controller'
 import { auth } from '../../../middlewares/auth'
 
 const router = Router()
@@ -7,10 +19,46 @@ const router = Router()
 // Apply authentication to all routes
 router.use(auth)
 
+// Project template routes
+router.get(
+  '/templates',
+  projectTemplateController.getTemplates.bind(projectTemplateController),
+)
+router.get(
+  '/templates/:templateId',
+  projectTemplateController.getTemplateById.bind(projectTemplateController),
+)
+router.put(
+  '/templates/:templateId',
+  projectTemplateController.updateTemplate.bind(projectTemplateController),
+)
+router.delete(
+  '/templates/:templateId',
+  projectTemplateController.deleteTemplate.bind(projectTemplateController),
+)
+router.post(
+  '/templates/:templateId/instantiate',
+  projectTemplateController.instantiateTemplate.bind(projectTemplateController),
+)
+
 // Project CRUD routes
 router.post('/', projectController.createProject.bind(projectController))
 router.get('/', projectController.getProjects.bind(projectController))
 router.get('/stats', projectController.getProjectStats.bind(projectController))
+router.get(
+  '/financials',
+  projectFinanceController.getFinancialReport.bind(projectFinanceController),
+)
+router.get(
+  '/timeline',
+  projectTimelineController.getPortfolioTimeline.bind(
+    projectTimelineController,
+  ),
+)
+router.post(
+  '/bundle',
+  projectBundleController.importBundle.bind(projectBundleController),
+)
 router.get('/:id', projectController.getProjectById.bind(projectController))
 router.get(
   '/uuid/:uuid',
@@ -18,6 +66,123 @@ router.get(
 )
 router.put('/:id', projectController.updateProject.bind(projectController))
 router.delete('/:id', projectController.deleteProject.bind(projectController))
+router.post(
+  '/:id/restore',
+  projectController.restoreProject.bind(projectController),
+)
+router.put('/:id/tags', tagController.setProjectTags.bind(tagController))
+router.post(
+  '/:id/tasks/import',
+  taskTransferController.importTasks.bind(taskTransferController),
+)
+router.post(
+  '/:id/template',
+  projectTemplateController.saveAsTemplate.bind(projectTemplateController),
+)
+router.post(
+  '/:id/clone',
+  projectTemplateController.cloneProject.bind(projectTemplateController),
+)
+
+// Project membership routes
+router.get(
+  '/:id/members',
+  projectMemberController.getMembers.bind(projectMemberController),
+)
+router.post(
+  '/:id/members',
+  projectMemberController.inviteMember.bind(projectMemberController),
+)
+router.put(
+  '/:id/members/:userId',
+  projectMemberController.updateMemberRole.bind(projectMemberController),
+)
+router.delete(
+  '/:id/members/:userId',
+  projectMemberController.removeMember.bind(projectMemberController),
+)
+
+// Project stage routes
+router.get(
+  '/:id/stage-history',
+  projectStageController.getStageHistory.bind(projectStageController),
+)
+router.get(
+  '/:id/stage-gates',
+  projectStageController.getStageGates.bind(projectStageController),
+)
+router.put(
+  '/:id/stage-gates',
+  projectStageController.updateStageGates.bind(projectStageController),
+)
+router.post(
+  '/:id/stage-approvals',
+  projectStageController.approveStage.bind(projectStageController),
+)
+
+// Project analytics routes
+router.get(
+  '/:id/analytics/burndown',
+  projectAnalyticsController.getBurndown.bind(projectAnalyticsController),
+)
+router.get(
+  '/:id/analytics/flow',
+  projectAnalyticsController.getFlowMetrics.bind(projectAnalyticsController),
+)
+
+// Project health routes
+router.get(
+  '/:id/health',
+  projectHealthController.getProjectHealth.bind(projectHealthController),
+)
+
+// Project timeline routes
+router.get(
+  '/:id/timeline',
+  projectTimelineController.getProjectTimeline.bind(projectTimelineController),
+)
+
+// Project bundle routes
+router.get(
+  '/:id/bundle',
+  projectBundleController.exportBundle.bind(projectBundleController),
+)
+
+// Project milestone routes
+router.get(
+  '/:id/milestones',
+  projectMilestoneController.getMilestones.bind(projectMilestoneController),
+)
+router.post(
+  '/:id/milestones',
+  projectMilestoneController.createMilestone.bind(projectMilestoneController),
+)
+router.get(
+  '/:id/milestones/:milestoneId',
+  projectMilestoneController.getMilestoneById.bind(projectMilestoneController),
+)
+router.put(
+  '/:id/milestones/:milestoneId',
+  projectMilestoneController.updateMilestone.bind(projectMilestoneController),
+)
+router.delete(
+  '/:id/milestones/:milestoneId',
+  projectMilestoneController.deleteMilestone.bind(projectMilestoneController),
+)
+
+// Project budget routes
+router.get(
+  '/:id/budget',
+  projectBudgetController.getBudget.bind(projectBudgetController),
+)
+router.put(
+  '/:id/budget',
+  projectBudgetController.setBudget.bind(projectBudgetController),
+)
+router.delete(
+  '/:id/budget',
+  projectBudgetController.deleteBudget.bind(projectBudgetController),
+)
 
 // User-specific project routes
 router.get(
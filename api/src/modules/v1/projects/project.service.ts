@@ -6,10 +6,13 @@ import {
   ProjectError,
   ProjectResponse,
   PaginatedProjectsResponse,
+  hasProjectRole,
 } from './project.model'
-import { PrismaClient, UserRole } from '@prisma/client'
-
-const prisma = new PrismaClient()
+import { projectMemberModel } from './projectMember.model'
+import { projectStageModel } from './projectStage.model'
+import { projectHealthModel } from './projectHealth.model'
+import { ProjectRole } from '@prisma/client'
+import { hasAdminRole } from '../../../utils/auth'
 
 export class ProjectService {
   // Create project
@@ -26,11 +29,74 @@ export class ProjectService {
     query: ProjectQuery,
     requestingUserId: number,
   ): Promise<PaginatedProjectsResponse> {
-    // Apply user restrictions - users can only see their own projects unless admin
-    const isAdmin = await this.isAdmin(requestingUserId)
+    // Apply user restrictions - users only see projects they own or belong
+    // to unless admin
+    const isAdmin = await hasAdminRole(requestingUserId)
     const userId = isAdmin ? query.userId : requestingUserId
 
-    return await projectModel.findMany(query, userId)
+    if (
+      query.sortBy === 'health' ||
+      query.minHealth !== undefined ||
+      query.maxHealth !== undefined ||
+      query.atRisk !== undefined
+    ) {
+      return await this.getProjectsByHealth(query, requestingUserId, userId)
+    }
+
+    return await projectModel.findMany(query, requestingUserId, userId)
+  }
+
+  /**
+   * Health is computed rather than stored, so every matching project is
+   * scored before the page is cut
+   */
+  private async getProjectsByHealth(
+    query: ProjectQuery,
+    requestingUserId: number,
+    userId?: number,
+  ): Promise<PaginatedProjectsResponse> {
+    const page = query.page || 1
+    const limit = query.limit || 20
+
+    const ids = await projectModel.findIds(query, requestingUserId, userId)
+    const scores = await projectHealthModel.scoreProjects(ids)
+
+    const matching = ids.flatMap((id) => {
+      const health = scores.get(id)
+      if (
+        !health ||
+        (query.minHealth !== undefined && health.score < query.minHealth) ||
+        (query.maxHealth !== undefined && health.score > query.maxHealth) ||
+        (query.atRisk !== undefined && health.atRisk !== query.atRisk)
+      ) {
+        return []
+      }
+      return [health]
+    })
+    if (query.sortBy === 'health') {
+      const direction = query.sortOrder === 'asc' ? 1 : -1
+      // Stable, so equal scores keep the list order
+      matching.sort((a, b) => (a.score - b.score) * direction)
+    }
+
+    const pageScores = matching.slice((page - 1) * limit, page * limit)
+    const projects = await projectModel.findManyByIds(
+      pageScores.map((health) => health.projectId),
+      requestingUserId,
+    )
+
+    return {
+      projects: projects.map((project) => {
+        const { score, atRisk } = scores.get(project.id)!
+        return { ...project, health: { score, atRisk } }
+      }),
+      pagination: {
+        page,
+        limit,
+        total: matching.length,
+        totalPages: Math.ceil(matching.length / limit),
+      },
+    }
   }
 
   // Get project by ID
@@ -38,7 +104,7 @@ export class ProjectService {
     id: number,
     requestingUserId: number,
   ): Promise<ProjectResponse> {
-    const project = await projectModel.findById(id)
+    const project = await projectModel.findById(id, requestingUserId)
     if (!project) {
       throw new ProjectError('Project not found', 404)
     }
@@ -56,7 +122,7 @@ export class ProjectService {
     uuid: string,
     requestingUserId: number,
   ): Promise<ProjectResponse> {
-    const project = await projectModel.findByUuid(uuid)
+    const project = await projectModel.findByUuid(uuid, requestingUserId)
     if (!project) {
       throw new ProjectError('Project not found', 404)
     }
@@ -75,7 +141,7 @@ export class ProjectService {
     data: UpdateProjectInput,
     requestingUserId: number,
   ): Promise<ProjectResponse> {
-    const project = await projectModel.findById(id)
+    const project = await projectModel.findById(id, requestingUserId)
     if (!project) {
       throw new ProjectError('Project not found', 404)
     }
@@ -88,18 +154,29 @@ export class ProjectService {
       )
     }
 
-    return await projectModel.update(id, data)
+    // Entering a new stage has to pass that stage's gates
+    const to = data.stage
+    return await projectModel.update(id, data, requestingUserId, {
+      userId: requestingUserId,
+      assertGates: async (tx) =>
+        to
+          ? await projectStageModel.assertStageChange(
+              { projectId: id, to, userId: requestingUserId },
+              tx,
+            )
+          : [],
+    })
   }
 
   // Delete project
   async deleteProject(id: number, requestingUserId: number): Promise<void> {
-    const project = await projectModel.findById(id)
+    const project = await projectModel.findById(id, requestingUserId)
     if (!project) {
       throw new ProjectError('Project not found', 404)
     }
 
     // Check permissions
-    if (!(await this.canModifyProject(project, requestingUserId))) {
+    if (!(await this.canManageProject(project, requestingUserId))) {
       throw new ProjectError(
         'Insufficient permissions to delete this project',
         403,
@@ -109,6 +186,28 @@ export class ProjectService {
     await projectModel.delete(id)
   }
 
+  // Restore a project from the trash, with the tasks deleted along with it
+  async restoreProject(
+    id: number,
+    requestingUserId: number,
+  ): Promise<ProjectResponse> {
+    const project = await projectModel.findDeletedById(id, requestingUserId)
+    if (!project) {
+      throw new ProjectError('Deleted project not found', 404)
+    }
+
+    if (!(await this.canManageProject(project, requestingUserId))) {
+      throw new ProjectError(
+        'Insufficient permissions to restore this project',
+        403,
+      )
+    }
+
+    await projectModel.restore(project)
+
+    return await this.getProjectById(id, requestingUserId)
+  }
+
   // Get user projects
   async getUserProjects(
     userId: number,
@@ -118,12 +217,12 @@ export class ProjectService {
     // Users can only access their own projects unless they're admin
     if (
       userId !== requestingUserId &&
-      !(await this.isAdmin(requestingUserId))
+      !(await hasAdminRole(requestingUserId))
     ) {
       throw new ProjectError('Access denied', 403)
     }
 
-    return await projectModel.findMany(query, userId)
+    return await projectModel.findMany(query, requestingUserId, userId)
   }
 
   // Get project statistics
@@ -133,7 +232,7 @@ export class ProjectService {
     totalTasks: number
     totalNotes: number
   }> {
-    if (!(await this.isAdmin(requestingUserId))) {
+    if (!(await hasAdminRole(requestingUserId))) {
       throw new ProjectError('Access denied', 403)
     }
 
@@ -153,7 +252,7 @@ export class ProjectService {
     // Users can only get their own stats unless they're admin
     if (
       userId !== requestingUserId &&
-      !(await this.isAdmin(requestingUserId))
+      !(await hasAdminRole(requestingUserId))
     ) {
       throw new ProjectError('Access denied', 403)
     }
@@ -162,50 +261,46 @@ export class ProjectService {
   }
 
   // Permission helper methods
-  private async canAccessProject(
+  async canAccessProject(
     project: ProjectResponse,
     requestingUserId: number,
   ): Promise<boolean> {
-    // Project owner can access
-    if (project.userId === requestingUserId) {
-      return true
-    }
+    return await this.hasRole(project, requestingUserId, ProjectRole.VIEWER)
+  }
 
-    // Admins can access all projects
-    return await this.isAdmin(requestingUserId)
+  async canModifyProject(
+    project: ProjectResponse,
+    requestingUserId: number,
+  ): Promise<boolean> {
+    return await this.hasRole(project, requestingUserId, ProjectRole.EDITOR)
   }
 
-  private async canModifyProject(
+  // Deleting a project and managing its members are left to owners
+  async canManageProject(
     project: ProjectResponse,
     requestingUserId: number,
   ): Promise<boolean> {
-    // Project owner can modify
+    return await this.hasRole(project, requestingUserId, ProjectRole.OWNER)
+  }
+
+  private async hasRole(
+    project: ProjectResponse,
+    requestingUserId: number,
+    minimum: ProjectRole,
+  ): Promise<boolean> {
+    // Project owner can do everything
     if (project.userId === requestingUserId) {
       return true
     }
 
-    // Admins can modify all projects
-    return await this.isAdmin(requestingUserId)
-  }
-
-  private async isAdmin(userId: number): Promise<boolean> {
-    if (!userId) return false
-
-    try {
-      const user = await prisma.user.findUnique({
-        where: { id: userId },
-        select: { role: true },
-      })
-
-      return (
-        user?.role === UserRole.ADMIN ||
-        user?.role === UserRole.MANAGER ||
-        user?.role === UserRole.SUPERADMIN
-      )
-    } catch (error) {
-      console.error('Error checking admin status:', error)
-      return false
+    // Members according to their role
+    const role = await projectMemberModel.findRole(project.id, requestingUserId)
+    if (hasProjectRole(role, minimum)) {
+      return true
     }
+
+    // Admins can do everything with all projects
+    return await hasAdminRole(requestingUserId)
   }
 }
 
@@ -0,0 +1,108 @@
+import { Request, Response, NextFunction } from 'express'
+import { ZodError } from 'zod'
+import { projectAnalyticsService } from './projectAnalytics.service'
+import {
+  burndownQuerySchema,
+  flowMetricsQuerySchema,
+} from './projectAnalytics.model'
+import { ProjectError } from './project.model'
+import {
+  createSuccessResponse,
+  createErrorResponse,
+} from '../../../utils/response'
+
+export class ProjectAnalyticsController {
+  // GET /projects/:id/analytics/burndown
+  async getBurndown(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const projectId = parseInt(req.params.id)
+      if (isNaN(projectId)) {
+        return createErrorResponse(res, 'Invalid project ID', undefined, 400)
+      }
+
+      const queryParams = burndownQuerySchema.parse(req.query)
+      const analytics = await projectAnalyticsService.getBurndown(
+        projectId,
+        queryParams,
+        userId,
+      )
+
+      return createSuccessResponse(
+        res,
+        'Burndown retrieved successfully',
+        analytics,
+      )
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(
+          res,
+          'Invalid query parameters',
+          err.issues,
+          400,
+        )
+      }
+      if (err instanceof ProjectError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // GET /projects/:id/analytics/flow
+  async getFlowMetrics(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const projectId = parseInt(req.params.id)
+      if (isNaN(projectId)) {
+        return createErrorResponse(res, 'Invalid project ID', undefined, 400)
+      }
+
+      const queryParams = flowMetricsQuerySchema.parse(req.query)
+      const analytics = await projectAnalyticsService.getFlowMetrics(
+        projectId,
+        queryParams,
+        userId,
+      )
+
+      return createSuccessResponse(
+        res,
+        'Flow metrics retrieved successfully',
+        analytics,
+      )
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(
+          res,
+          'Invalid query parameters',
+          err.issues,
+          400,
+        )
+      }
+      if (err instanceof ProjectError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+}
+
+export const projectAnalyticsController = new ProjectAnalyticsController()
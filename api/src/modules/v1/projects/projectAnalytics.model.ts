@@ -0,0 +1,106 @@
+import { z } from 'zod'
+import prisma from '../../../config/db'
+import { ProjectError } from './project.model'
+import { DurationStats, FlowBucket, FlowTask } from '../../../utils/flowMetrics'
+
+// Most buckets one chart may have
+export const MAX_ANALYTICS_BUCKETS = 366
+
+// How far back a chart goes when no start date is given
+export const DEFAULT_ANALYTICS_BUCKETS: Record<FlowBucket, number> = {
+  day: 30,
+  week: 12,
+  month: 12,
+}
+
+const isoDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+
+const analyticsQuerySchema = (bucket: FlowBucket) =>
+  z
+    .object({
+      from: isoDate.optional(),
+      // Defaults to today
+      to: isoDate.optional(),
+      bucket: z.enum(['day', 'week', 'month']).optional().default(bucket),
+    })
+    .refine((data) => !data.from || !data.to || data.from <= data.to, {
+      message: 'from must not be after to',
+      path: ['to'],
+    })
+
+// Validation schemas
+export const burndownQuerySchema = analyticsQuerySchema('day')
+export const flowMetricsQuerySchema = analyticsQuerySchema('week')
+
+// Types
+export type AnalyticsQuery = z.infer<typeof burndownQuerySchema>
+
+export interface BurndownPoint {
+  // First day of the bucket; counts are taken at its end
+  date: string
+  open: number
+  done: number
+  total: number
+}
+
+export interface BurndownResponse {
+  from: string
+  to: string
+  bucket: FlowBucket
+  points: BurndownPoint[]
+}
+
+export interface ThroughputPoint {
+  date: string
+  completed: number
+}
+
+export interface FlowMetricsResponse {
+  from: string
+  to: string
+  bucket: FlowBucket
+  // From first entering WIP to DONE, for tasks completed in the range
+  cycleTime: DurationStats
+  // From creation to DONE, for tasks completed in the range
+  leadTime: DurationStats
+  throughput: ThroughputPoint[]
+}
+
+// Database operations
+export const projectAnalyticsModel = {
+  /**
+   * Tasks of a project that existed at some point in the range, with their
+   * status history
+   */
+  async findTasks(
+    projectId: number,
+    from: Date,
+    until: Date,
+  ): Promise<FlowTask[]> {
+    try {
+      return await prisma.task.findMany({
+        where: {
+          projectId,
+          createdAt: { lt: until },
+          OR: [{ deletedAt: null }, { deletedAt: { gt: from } }],
+        },
+        select: {
+          status: true,
+          createdAt: true,
+          deletedAt: true,
+          startedAt: true,
+          endedAt: true,
+          statusTransitions: {
+            select: { fromStatus: true, toStatus: true, createdAt: true },
+            orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+          },
+        },
+      })
+    } catch (error) {
+      console.error('Error fetching task history:', error)
+      throw new ProjectError('Failed to fetch task history', 500)
+    }
+  },
+}
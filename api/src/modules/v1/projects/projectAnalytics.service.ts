@@ -0,0 +1,167 @@
+import { TaskStatus } from '@prisma/client'
+import { ProjectError } from './project.model'
+import {
+  projectAnalyticsModel,
+  AnalyticsQuery,
+  BurndownResponse,
+  FlowMetricsResponse,
+  DEFAULT_ANALYTICS_BUCKETS,
+  MAX_ANALYTICS_BUCKETS,
+} from './projectAnalytics.model'
+import { projectService } from './project.service'
+import {
+  bucketStart,
+  bucketStarts,
+  completedAt,
+  durationStats,
+  nextBucket,
+  statusAt,
+  workStartedAt,
+} from '../../../utils/flowMetrics'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+interface AnalyticsRange {
+  from: Date
+  until: Date
+  buckets: Date[]
+}
+
+function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+export class ProjectAnalyticsService {
+  /**
+   * Open and done task counts at the end of each bucket; total is the scope
+   * line of a burnup chart
+   */
+  async getBurndown(
+    projectId: number,
+    query: AnalyticsQuery,
+    requestingUserId: number,
+  ): Promise<BurndownResponse> {
+    await projectService.getProjectById(projectId, requestingUserId)
+
+    const range = this.range(query)
+    const tasks = await projectAnalyticsModel.findTasks(
+      projectId,
+      range.from,
+      range.until,
+    )
+    const now = new Date()
+
+    const points = range.buckets.map((start) => {
+      const end = new Date(nextBucket(start, query.bucket).getTime() - 1)
+      const at = end < now ? end : now
+
+      let open = 0
+      let done = 0
+      for (const task of tasks) {
+        const status = statusAt(task, at)
+        if (status === TaskStatus.DONE) {
+          done++
+        } else if (status) {
+          open++
+        }
+      }
+
+      return { date: toIsoDate(start), open, done, total: open + done }
+    })
+
+    return this.withRange(range, query, { points })
+  }
+
+  // Cycle time, lead time and tasks completed per bucket
+  async getFlowMetrics(
+    projectId: number,
+    query: AnalyticsQuery,
+    requestingUserId: number,
+  ): Promise<FlowMetricsResponse> {
+    await projectService.getProjectById(projectId, requestingUserId)
+
+    const range = this.range(query)
+    const tasks = await projectAnalyticsModel.findTasks(
+      projectId,
+      range.from,
+      range.until,
+    )
+
+    const cycleTimes: number[] = []
+    const leadTimes: number[] = []
+    const completed = new Map<number, number>(
+      range.buckets.map((start) => [start.getTime(), 0]),
+    )
+
+    for (const task of tasks) {
+      const doneAt = completedAt(task)
+      if (
+        !doneAt ||
+        task.deletedAt ||
+        doneAt < range.from ||
+        doneAt >= range.until
+      ) {
+        continue
+      }
+
+      const key = bucketStart(doneAt, query.bucket).getTime()
+      completed.set(key, (completed.get(key) ?? 0) + 1)
+
+      leadTimes.push(doneAt.getTime() - task.createdAt.getTime())
+      const startedAt = workStartedAt(task)
+      if (startedAt && startedAt <= doneAt) {
+        cycleTimes.push(doneAt.getTime() - startedAt.getTime())
+      }
+    }
+
+    return this.withRange(range, query, {
+      cycleTime: durationStats(cycleTimes),
+      leadTime: durationStats(leadTimes),
+      throughput: range.buckets.map((start) => ({
+        date: toIsoDate(start),
+        completed: completed.get(start.getTime()) ?? 0,
+      })),
+    })
+  }
+
+  // Whole buckets from the start date, or a default span, up to the end date
+  private range(query: AnalyticsQuery): AnalyticsRange {
+    const to = query.to ? new Date(`${query.to}T00:00:00.000Z`) : new Date()
+    const until = new Date(bucketStart(to, 'day').getTime() + DAY_MS)
+
+    let from: Date
+    if (query.from) {
+      from = bucketStart(new Date(`${query.from}T00:00:00.000Z`), query.bucket)
+    } else {
+      from = bucketStart(to, query.bucket)
+      for (let i = 1; i < DEFAULT_ANALYTICS_BUCKETS[query.bucket]; i++) {
+        from = bucketStart(new Date(from.getTime() - 1), query.bucket)
+      }
+    }
+
+    const buckets = bucketStarts(from, until, query.bucket)
+    if (buckets.length > MAX_ANALYTICS_BUCKETS) {
+      throw new ProjectError(
+        `Date range spans more than ${MAX_ANALYTICS_BUCKETS} buckets`,
+        400,
+      )
+    }
+
+    return { from, until, buckets }
+  }
+
+  private withRange<T extends object>(
+    range: AnalyticsRange,
+    query: AnalyticsQuery,
+    data: T,
+  ) {
+    return {
+      from: toIsoDate(range.from),
+      to: toIsoDate(new Date(range.until.getTime() - DAY_MS)),
+      bucket: query.bucket,
+      ...data,
+    }
+  }
+}
+
+export const projectAnalyticsService = new ProjectAnalyticsService()
@@ -0,0 +1,128 @@
+import { Request, Response, NextFunction } from 'express'
+import { ZodError } from 'zod'
+import { projectBudgetService } from './projectBudget.service'
+import { setProjectBudgetSchema } from './projectBudget.model'
+import { ProjectError } from './project.model'
+import {
+  createSuccessResponse,
+  createErrorResponse,
+} from '../../../utils/response'
+
+export class ProjectBudgetController {
+  // GET /projects/:id/budget
+  async getBudget(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const projectId = parseInt(req.params.id)
+      if (isNaN(projectId)) {
+        return createErrorResponse(res, 'Invalid project ID', undefined, 400)
+      }
+
+      const budget = await projectBudgetService.getBudget(projectId, userId)
+
+      return createSuccessResponse(
+        res,
+        'Project budget retrieved successfully',
+        budget,
+      )
+    } catch (err) {
+      if (err instanceof ProjectError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // PUT /projects/:id/budget
+  async setBudget(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const projectId = parseInt(req.params.id)
+      if (isNaN(projectId)) {
+        return createErrorResponse(res, 'Invalid project ID', undefined, 400)
+      }
+
+      const validatedData = setProjectBudgetSchema.parse(req.body)
+      const budget = await projectBudgetService.setBudget(
+        projectId,
+        validatedData,
+        userId,
+      )
+
+      console.info('Project budget set', {
+        budgetId: budget.id,
+        projectId,
+        userId,
+      })
+
+      return createSuccessResponse(
+        res,
+        'Project budget saved successfully',
+        budget,
+      )
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(res, 'Validation failed', err.issues, 400)
+      }
+      if (err instanceof ProjectError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // DELETE /projects/:id/budget
+  async deleteBudget(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const projectId = parseInt(req.params.id)
+      if (isNaN(projectId)) {
+        return createErrorResponse(res, 'Invalid project ID', undefined, 400)
+      }
+
+      await projectBudgetService.deleteBudget(projectId, userId)
+
+      console.info('Project budget deleted', { projectId, userId })
+
+      return createSuccessResponse(
+        res,
+        'Project budget deleted successfully',
+        null,
+      )
+    } catch (err) {
+      if (err instanceof ProjectError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+}
+
+export const projectBudgetController = new ProjectBudgetController()
@@ -0,0 +1,276 @@
+import { z } from 'zod'
+import { BudgetType, Prisma, ProjectRole } from '@prisma/client'
+import { Decimal } from '@prisma/client/runtime/library'
+import prisma from '../../../config/db'
+import { ProjectError } from './project.model'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Validation schemas
+export const setProjectBudgetSchema = z.object({
+  type: z.nativeEnum(BudgetType),
+  // In the project's currency, or in hours
+  amount: z.number().positive(),
+  // Percentages of the budget, e.g. [50, 80, 100]
+  thresholds: z
+    .array(z.number().int().min(1).max(1000))
+    .min(1)
+    .max(10)
+    .transform((thresholds) => [...new Set(thresholds)].sort((a, b) => a - b))
+    .optional(),
+})
+
+// Types
+export type SetProjectBudgetInput = z.infer<typeof setProjectBudgetSchema>
+
+export interface ProjectBudgetAlertResponse {
+  id: number
+  budgetId: number
+  threshold: number
+  consumed: Decimal
+  createdAt: Date
+}
+
+export interface ProjectBudgetRecord {
+  id: number
+  projectId: number
+  type: BudgetType
+  amount: Decimal
+  thresholds: number[]
+  createdAt: Date
+  updatedAt: Date
+  alerts: ProjectBudgetAlertResponse[]
+}
+
+export interface ProjectBudgetResponse extends ProjectBudgetRecord {
+  // Currency code for money budgets, "hours" otherwise
+  unit: string
+  consumed: Decimal
+  remaining: Decimal
+  percentUsed: number
+  forecast: {
+    // Average consumption per day since the project began
+    dailyBurn: Decimal
+    // Days until the budget runs out at that pace; null without any burn
+    daysRemaining: number | null
+    exhaustedAt: Date | null
+  }
+}
+
+const budgetInclude = {
+  alerts: { orderBy: { threshold: 'asc' } },
+} satisfies Prisma.ProjectBudgetInclude
+
+/**
+ * Consumption, what is left and a forecast at the average pace since the
+ * project began
+ */
+export function toBudgetResponse(
+  budget: ProjectBudgetRecord,
+  consumed: Decimal,
+  project: { beganAt: Date | null; createdAt: Date; currency: string | null },
+  now: Date = new Date(),
+): ProjectBudgetResponse {
+  const remaining = budget.amount.minus(consumed)
+  const percentUsed = budget.amount.isZero()
+    ? 0
+    : consumed.dividedBy(budget.amount).times(100).toDecimalPlaces(2).toNumber()
+
+  const start = project.beganAt ?? project.createdAt
+  const days = Math.max(1, (now.getTime() - start.getTime()) / DAY_MS)
+  const dailyBurn = consumed.dividedBy(days).toDecimalPlaces(2)
+
+  let daysRemaining: number | null = null
+  if (remaining.lessThanOrEqualTo(0)) {
+    daysRemaining = 0
+  } else if (dailyBurn.greaterThan(0)) {
+    daysRemaining = remaining.dividedBy(dailyBurn).ceil().toNumber()
+  }
+
+  return {
+    ...budget,
+    unit:
+      budget.type === BudgetType.MONEY ? project.currency || 'SGD' : 'hours',
+    consumed,
+    remaining,
+    percentUsed,
+    forecast: {
+      dailyBurn,
+      daysRemaining,
+      exhaustedAt:
+        daysRemaining === null
+          ? null
+          : new Date(now.getTime() + daysRemaining * DAY_MS),
+    },
+  }
+}
+
+// Database operations
+export const projectBudgetModel = {
+  async findByProjectId(
+    projectId: number,
+  ): Promise<ProjectBudgetRecord | null> {
+    try {
+      return await prisma.projectBudget.findUnique({
+        where: { projectId },
+        include: budgetInclude,
+      })
+    } catch (error) {
+      console.error('Error fetching project budget:', error)
+      throw new ProjectError('Failed to fetch project budget', 500)
+    }
+  },
+
+  // Create the budget or replace its settings
+  async upsert(
+    projectId: number,
+    data: SetProjectBudgetInput,
+  ): Promise<ProjectBudgetRecord> {
+    const settings = {
+      type: data.type,
+      amount: new Decimal(data.amount),
+      ...(data.thresholds && { thresholds: data.thresholds }),
+    }
+
+    try {
+      return await prisma.projectBudget.upsert({
+        where: { projectId },
+        create: { projectId, ...settings },
+        update: settings,
+        include: budgetInclude,
+      })
+    } catch (error) {
+      console.error('Error saving project budget:', error)
+      throw new ProjectError('Failed to save project budget', 500)
+    }
+  },
+
+  async delete(id: number): Promise<void> {
+    try {
+      await prisma.projectBudget.delete({ where: { id } })
+    } catch (error) {
+      console.error('Error deleting project budget:', error)
+      throw new ProjectError('Failed to delete project budget', 500)
+    }
+  },
+
+  // Hours tracked on, or cost of, the project's live tasks
+  async findConsumption(projectId: number, type: BudgetType): Promise<Decimal> {
+    try {
+      const totals = await prisma.task.aggregate({
+        where: { projectId, deletedAt: null },
+        _sum: { timeSpent: true, costInProjectCurrency: true },
+      })
+
+      return (
+        (type === BudgetType.HOURS
+          ? totals._sum.timeSpent
+          : totals._sum.costInProjectCurrency) ?? new Decimal(0)
+      )
+    } catch (error) {
+      console.error('Error fetching budget consumption:', error)
+      throw new ProjectError('Failed to fetch budget consumption', 500)
+    }
+  },
+
+  /**
+   * Record a crossed threshold, resolving to null when it was recorded
+   * before so each threshold alerts only once
+   */
+  async createAlert(
+    budgetId: number,
+    threshold: number,
+    consumed: Decimal,
+  ): Promise<ProjectBudgetAlertResponse | null> {
+    try {
+      return await prisma.projectBudgetAlert.create({
+        data: { budgetId, threshold, consumed },
+      })
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        return null
+      }
+      console.error('Error recording budget alert:', error)
+      throw new ProjectError('Failed to record budget alert', 500)
+    }
+  },
+
+  /**
+   * Forget alerts for thresholds that are no longer crossed or no longer
+   * set, so they are raised again if the budget is used up to them
+   */
+  async clearAlerts(
+    budgetId: number,
+    keep: (threshold: number) => boolean,
+  ): Promise<void> {
+    try {
+      const alerts = await prisma.projectBudgetAlert.findMany({
+        where: { budgetId },
+        select: { id: true, threshold: true },
+      })
+      const stale = alerts.filter((alert) => !keep(alert.threshold))
+      if (stale.length > 0) {
+        await prisma.projectBudgetAlert.deleteMany({
+          where: { id: { in: stale.map((alert) => alert.id) } },
+        })
+      }
+    } catch (error) {
+      console.error('Error clearing budget alerts:', error)
+      throw new ProjectError('Failed to clear budget alerts', 500)
+    }
+  },
+
+  // What threshold alerts need of the project, unless it is in the trash
+  async findAlertProject(projectId: number): Promise<{
+    uuid: string
+    title: string
+    beganAt: Date | null
+    createdAt: Date
+    currency: string | null
+  } | null> {
+    try {
+      return await prisma.project.findFirst({
+        where: { id: projectId, deletedAt: null },
+        select: {
+          uuid: true,
+          title: true,
+          beganAt: true,
+          createdAt: true,
+          currency: true,
+        },
+      })
+    } catch (error) {
+      console.error('Error fetching project:', error)
+      throw new ProjectError('Failed to fetch project', 500)
+    }
+  },
+
+  // The project owner and members with the owner role
+  async findAlertRecipients(projectId: number): Promise<number[]> {
+    try {
+      const [project, owners] = await Promise.all([
+        prisma.project.findUnique({
+          where: { id: projectId },
+          select: { userId: true },
+        }),
+        prisma.projectMember.findMany({
+          where: { projectId, role: ProjectRole.OWNER },
+          select: { userId: true },
+        }),
+      ])
+
+      return [
+        ...new Set([
+          ...(project ? [project.userId] : []),
+          ...owners.map((member) => member.userId),
+        ]),
+      ]
+    } catch (error) {
+      console.error('Error fetching budget alert recipients:', error)
+      throw new ProjectError('Failed to fetch budget alert recipients', 500)
+    }
+  },
+}
@@ -0,0 +1,167 @@
+import { ProjectError, projectModel, ProjectResponse } from './project.model'
+import {
+  projectBudgetModel,
+  toBudgetResponse,
+  SetProjectBudgetInput,
+  ProjectBudgetAlertResponse,
+  ProjectBudgetResponse,
+} from './projectBudget.model'
+import { projectService } from './project.service'
+import { notificationService } from '../notifications/notification.service'
+
+export class ProjectBudgetService {
+  // Get the budget with its consumption, forecast and alerts
+  async getBudget(
+    projectId: number,
+    requestingUserId: number,
+  ): Promise<ProjectBudgetResponse> {
+    const project = await projectService.getProjectById(
+      projectId,
+      requestingUserId,
+    )
+
+    return await this.evaluate(project)
+  }
+
+  /**
+   * Create or replace the budget. Alerts for thresholds no longer crossed
+   * are cleared so they fire again, and any newly crossed ones are raised.
+   */
+  async setBudget(
+    projectId: number,
+    data: SetProjectBudgetInput,
+    requestingUserId: number,
+  ): Promise<ProjectBudgetResponse> {
+    const project = await this.assertCanManage(projectId, requestingUserId)
+
+    const budget = await projectBudgetModel.upsert(projectId, data)
+    const { percentUsed } = await this.evaluate(project)
+    await projectBudgetModel.clearAlerts(
+      budget.id,
+      (threshold) =>
+        budget.thresholds.includes(threshold) && threshold <= percentUsed,
+    )
+    await this.checkThresholds(projectId, requestingUserId)
+
+    return await this.evaluate(project)
+  }
+
+  // Remove the budget along with its alerts
+  async deleteBudget(
+    projectId: number,
+    requestingUserId: number,
+  ): Promise<void> {
+    await this.assertCanManage(projectId, requestingUserId)
+    const budget = await this.findBudget(projectId)
+
+    await projectBudgetModel.delete(budget.id)
+  }
+
+  /**
+   * Raise an alert for every threshold the project's consumption has
+   * reached, once per threshold, and notify the project owners. Called
+   * whenever tracked time or task cost changes.
+   */
+  async checkThresholds(
+    projectId: number,
+    actorId?: number,
+  ): Promise<ProjectBudgetAlertResponse[]> {
+    const [project, budget] = await Promise.all([
+      projectBudgetModel.findAlertProject(projectId),
+      projectBudgetModel.findByProjectId(projectId),
+    ])
+    if (!project || !budget) {
+      return []
+    }
+
+    const status = toBudgetResponse(
+      budget,
+      await projectBudgetModel.findConsumption(projectId, budget.type),
+      project,
+    )
+    const alerted = new Set(budget.alerts.map((alert) => alert.threshold))
+    const crossed = budget.thresholds.filter(
+      (threshold) => threshold <= status.percentUsed && !alerted.has(threshold),
+    )
+    if (crossed.length === 0) {
+      return []
+    }
+
+    const alerts: ProjectBudgetAlertResponse[] = []
+    for (const threshold of crossed) {
+      const alert = await projectBudgetModel.createAlert(
+        budget.id,
+        threshold,
+        status.consumed,
+      )
+      // Already raised by a concurrent update
+      if (alert) alerts.push(alert)
+    }
+
+    if (alerts.length > 0) {
+      const threshold = alerts[alerts.length - 1].threshold
+      const recipients = await projectBudgetModel.findAlertRecipients(projectId)
+      for (const userId of recipients) {
+        await notificationService.notifyBudgetThreshold({
+          userId,
+          actorId,
+          modelType: 'Project',
+          modelId: project.uuid,
+          message: `"${project.title}" has used ${threshold}% of its budget (${status.consumed.toString()} of ${status.amount.toString()} ${status.unit})`,
+        })
+      }
+    }
+
+    return alerts
+  }
+
+  // Best effort: the change that used up the budget is kept whether or not
+  // the alerts go out
+  async tryCheckThresholds(projectId: number, actorId?: number): Promise<void> {
+    await this.checkThresholds(projectId, actorId).catch((err) =>
+      console.error('Error checking budget thresholds', err),
+    )
+  }
+
+  private async evaluate(
+    project: ProjectResponse,
+  ): Promise<ProjectBudgetResponse> {
+    const budget = await this.findBudget(project.id)
+    const consumed = await projectBudgetModel.findConsumption(
+      project.id,
+      budget.type,
+    )
+
+    return toBudgetResponse(budget, consumed, project)
+  }
+
+  // Owners of the project, and admins, manage its budget
+  private async assertCanManage(
+    projectId: number,
+    requestingUserId: number,
+  ): Promise<ProjectResponse> {
+    const project = await projectModel.findById(projectId, requestingUserId)
+    if (!project) {
+      throw new ProjectError('Project not found', 404)
+    }
+
+    if (!(await projectService.canManageProject(project, requestingUserId))) {
+      throw new ProjectError(
+        'Insufficient permissions to manage the budget',
+        403,
+      )
+    }
+
+    return project
+  }
+
+  private async findBudget(projectId: number) {
+    const budget = await projectBudgetModel.findByProjectId(projectId)
+    if (!budget) {
+      throw new ProjectError('Project has no budget', 404)
+    }
+    return budget
+  }
+}
+
+export const projectBudgetService = new ProjectBudgetService()
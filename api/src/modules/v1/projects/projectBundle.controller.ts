@@ -0,0 +1,89 @@
+import { Request, Response, NextFunction } from 'express'
+import { ZodError } from 'zod'
+import { projectBundleService } from './projectBundle.service'
+import { projectBundleSchema } from './projectBundle.model'
+import { ProjectError } from './project.model'
+import {
+  createSuccessResponse,
+  createErrorResponse,
+} from '../../../utils/response'
+
+export class ProjectBundleController {
+  // GET /projects/:id/bundle
+  async exportBundle(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const projectId = parseInt(req.params.id)
+      if (isNaN(projectId)) {
+        return createErrorResponse(res, 'Invalid project ID', undefined, 400)
+      }
+
+      const bundle = await projectBundleService.exportBundle(projectId, userId)
+
+      const date = bundle.exportedAt.slice(0, 10)
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="project-${projectId}-${date}.json"`,
+      )
+
+      // The bundle itself is the file, without the response envelope
+      return res.json(bundle)
+    } catch (err) {
+      if (err instanceof ProjectError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // POST /projects/bundle
+  async importBundle(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const bundle = projectBundleSchema.parse(req.body)
+      const result = await projectBundleService.importBundle(bundle, userId)
+
+      console.info('Project imported', {
+        projectId: result.project.id,
+        sourceUuid: bundle.project.uuid,
+        conflicts: result.conflicts.length,
+        userId,
+      })
+
+      return createSuccessResponse(
+        res,
+        'Project imported successfully',
+        result,
+        201,
+      )
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(res, 'Validation failed', err.issues, 400)
+      }
+      if (err instanceof ProjectError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+}
+
+export const projectBundleController = new ProjectBundleController()
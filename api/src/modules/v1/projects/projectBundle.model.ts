@@ -0,0 +1,595 @@
+import { randomUUID } from 'crypto'
+import { z } from 'zod'
+import {
+  NoteStatus,
+  Prisma,
+  ProjectRole,
+  ProjectStage,
+  TaskStatus,
+} from '@prisma/client'
+import prisma, { withTransaction } from '../../../config/db'
+import { ProjectError, projectOwnerWhere } from './project.model'
+import { createTagSchema } from '../tags/tag.model'
+import { createTaskSchema, freeTaskTitle } from '../tasks/task.model'
+
+export const BUNDLE_FORMAT = 'project-bundle'
+
+/**
+ * Raised whenever the bundle layout changes. Sections added later are
+ * optional, so bundles of every earlier version still import.
+ */
+export const BUNDLE_VERSION = 1
+
+// Imports of large projects run longer than the default 5 seconds
+const IMPORT_TIMEOUT_MS = 60000
+
+const dateTime = z.string().datetime()
+const decimal = z.string().regex(/^-?\d+(\.\d+)?$/, 'Must be a decimal number')
+const email = z.string().email('Invalid email format').toLowerCase()
+// Refers to another record within the same bundle
+const key = z.number().int()
+
+// Validation schemas
+export const projectBundleSchema = z
+  .object({
+    format: z.literal(BUNDLE_FORMAT),
+    version: z
+      .number()
+      .int()
+      .min(1)
+      .max(BUNDLE_VERSION, {
+        message: `Bundles up to version ${BUNDLE_VERSION} are supported`,
+      }),
+    exportedAt: dateTime,
+    project: z.object({
+      uuid: z.string(),
+      title: z.string().min(1, 'Title is required').max(200, 'Title too long'),
+      description: z.string().nullable(),
+      stage: z.nativeEnum(ProjectStage),
+      owner: email.nullable(),
+      beganAt: dateTime.nullable(),
+      completedAt: dateTime.nullable(),
+      billingCycle: z.string().nullable(),
+      rate: decimal.nullable(),
+      currency: z.string().length(3).nullable(),
+      tagKeys: z.array(key).default([]),
+    }),
+    members: z
+      .array(z.object({ email, role: z.nativeEnum(ProjectRole) }))
+      .default([]),
+    tags: z
+      .array(
+        z.object({
+          key,
+          name: createTagSchema.shape.name,
+          color: createTagSchema.shape.color,
+        }),
+      )
+      .default([]),
+    // Parents may come after their subtasks
+    tasks: z
+      .array(
+        z.object({
+          key,
+          parentKey: key.nullable(),
+          title: createTaskSchema.shape.title,
+          definitionOfDone: z.string().nullable(),
+          status: z.nativeEnum(TaskStatus),
+          priority: createTaskSchema.shape.priority.unwrap(),
+          dueAt: dateTime.nullable(),
+          startedAt: dateTime.nullable(),
+          endedAt: dateTime.nullable(),
+          timeSpent: decimal.nullable(),
+          costInProjectCurrency: decimal.nullable(),
+          assignee: email.nullable(),
+          creator: email.nullable(),
+          tagKeys: z.array(key).default([]),
+          createdAt: dateTime,
+        }),
+      )
+      .default([]),
+    dependencies: z
+      .array(z.object({ blockerKey: key, blockedKey: key }))
+      .default([]),
+    notes: z
+      .array(
+        z.object({
+          title: z
+            .string()
+            .min(1, 'Title is required')
+            .max(255, 'Title too long'),
+          description: z.string().nullable(),
+          body: z.string().nullable(),
+          status: z.nativeEnum(NoteStatus),
+          author: email.nullable(),
+          tagKeys: z.array(key).default([]),
+          createdAt: dateTime,
+        }),
+      )
+      .default([]),
+    comments: z
+      .array(
+        z.object({
+          key,
+          parentKey: key.nullable(),
+          taskKey: key,
+          author: email.nullable(),
+          body: z.string().min(1),
+          editedAt: dateTime.nullable(),
+          createdAt: dateTime,
+        }),
+      )
+      .default([]),
+    timeEntries: z
+      .array(
+        z.object({
+          taskKey: key,
+          user: email.nullable(),
+          startedAt: dateTime,
+          endedAt: dateTime.nullable(),
+          durationMinutes: z.number().int().min(0).nullable(),
+          notes: z.string().nullable(),
+          createdAt: dateTime,
+        }),
+      )
+      .default([]),
+  })
+  .superRefine((bundle, ctx) => {
+    const tagKeys = new Set(bundle.tags.map((tag) => tag.key))
+    const taskKeys = new Set(bundle.tasks.map((task) => task.key))
+    const commentKeys = new Set(bundle.comments.map((comment) => comment.key))
+    const missing = (path: (string | number)[], message: string) =>
+      ctx.addIssue({ code: 'custom', path, message })
+
+    if (taskKeys.size !== bundle.tasks.length) {
+      missing(['tasks'], 'Task keys must be unique')
+    }
+    bundle.project.tagKeys.forEach((tagKey, index) => {
+      if (!tagKeys.has(tagKey)) {
+        missing(['project', 'tagKeys', index], 'Unknown tag')
+      }
+    })
+    bundle.tasks.forEach((task, index) => {
+      if (task.parentKey !== null && !taskKeys.has(task.parentKey)) {
+        missing(['tasks', index, 'parentKey'], 'Unknown parent task')
+      }
+      if (task.tagKeys.some((tagKey) => !tagKeys.has(tagKey))) {
+        missing(['tasks', index, 'tagKeys'], 'Unknown tag')
+      }
+    })
+    if (taskLevels(bundle.tasks).flat().length !== bundle.tasks.length) {
+      missing(['tasks'], 'Task parents must not form a cycle')
+    }
+    bundle.dependencies.forEach((dependency, index) => {
+      if (
+        !taskKeys.has(dependency.blockerKey) ||
+        !taskKeys.has(dependency.blockedKey)
+      ) {
+        missing(['dependencies', index], 'Unknown task')
+      }
+    })
+    bundle.notes.forEach((note, index) => {
+      if (note.tagKeys.some((tagKey) => !tagKeys.has(tagKey))) {
+        missing(['notes', index, 'tagKeys'], 'Unknown tag')
+      }
+    })
+    bundle.comments.forEach((comment, index) => {
+      if (!taskKeys.has(comment.taskKey)) {
+        missing(['comments', index, 'taskKey'], 'Unknown task')
+      }
+      if (comment.parentKey !== null && !commentKeys.has(comment.parentKey)) {
+        missing(['comments', index, 'parentKey'], 'Unknown parent comment')
+      }
+    })
+    bundle.timeEntries.forEach((entry, index) => {
+      if (!taskKeys.has(entry.taskKey)) {
+        missing(['timeEntries', index, 'taskKey'], 'Unknown task')
+      }
+    })
+  })
+
+// Types
+export type ProjectBundle = z.infer<typeof projectBundleSchema>
+type BundleTask = ProjectBundle['tasks'][number]
+
+export interface BundleConflict {
+  type: 'project' | 'user' | 'member' | 'tag'
+  // UUID, email or tag name the conflict is about
+  reference: string
+  message: string
+}
+
+export interface BundleImportPlan {
+  ownerId: number
+  // Local user for every email in the bundle that has one
+  users: Map<string, number>
+  members: { userId: number; role: ProjectRole }[]
+}
+
+export interface BundleImportCounts {
+  tasks: number
+  notes: number
+  comments: number
+  timeEntries: number
+  tags: number
+  members: number
+}
+
+/**
+ * Tasks in levels, each after the level holding its parents. Tasks whose
+ * parents form a cycle are left out.
+ */
+function taskLevels(tasks: BundleTask[]): BundleTask[][] {
+  const levels: BundleTask[][] = []
+  const placed = new Set<number>()
+  let remaining = tasks
+
+  while (remaining.length > 0) {
+    const level = remaining.filter(
+      (task) => task.parentKey === null || placed.has(task.parentKey),
+    )
+    if (level.length === 0) break
+
+    level.forEach((task) => placed.add(task.key))
+    levels.push(level)
+    remaining = remaining.filter((task) => !placed.has(task.key))
+  }
+
+  return levels
+}
+
+const date = (value: string | null) => (value ? new Date(value) : null)
+
+const userEmail = { select: { email: true } } as const
+const tagKeys = { select: { id: true } } as const
+
+// Database operations
+export const projectBundleModel = {
+  // Everything a bundle holds, one query per kind of record
+  async findProjectContent(projectId: number) {
+    const liveTask = { projectId, deletedAt: null }
+
+    try {
+      const [project, members, tasks, notes, comments, timeEntries] =
+        await Promise.all([
+          prisma.project.findUniqueOrThrow({
+            where: { id: projectId },
+            include: { user: userEmail, tags: tagKeys },
+          }),
+          prisma.projectMember.findMany({
+            where: { projectId },
+            select: { role: true, user: userEmail },
+            orderBy: { id: 'asc' },
+          }),
+          prisma.task.findMany({
+            where: liveTask,
+            include: {
+              user: userEmail,
+              creator: userEmail,
+              tags: tagKeys,
+              blockedBy: {
+                where: { blockerTask: liveTask },
+                select: { blockerTaskId: true },
+              },
+            },
+            orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+          }),
+          prisma.note.findMany({
+            where: { projectId, deletedAt: null },
+            include: { user: userEmail, tags: tagKeys },
+            orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+          }),
+          prisma.taskComment.findMany({
+            where: { deletedAt: null, task: liveTask },
+            include: { user: userEmail },
+            orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+          }),
+          prisma.timeEntry.findMany({
+            where: { task: liveTask },
+            include: { user: userEmail },
+            orderBy: [{ startedAt: 'asc' }, { id: 'asc' }],
+          }),
+        ])
+
+      const tagIds = new Set([
+        ...project.tags.map((tag) => tag.id),
+        ...tasks.flatMap((task) => task.tags.map((tag) => tag.id)),
+        ...notes.flatMap((note) => note.tags.map((tag) => tag.id)),
+      ])
+      const tags = await prisma.tag.findMany({
+        where: { id: { in: [...tagIds] } },
+        select: { id: true, name: true, color: true },
+        orderBy: { id: 'asc' },
+      })
+
+      return { project, members, tags, tasks, notes, comments, timeEntries }
+    } catch (error) {
+      console.error('Error fetching project bundle content:', error)
+      throw new ProjectError('Failed to fetch project bundle content', 500)
+    }
+  },
+
+  async projectUuidExists(uuid: string): Promise<boolean> {
+    try {
+      return (await prisma.project.count({ where: { uuid } })) > 0
+    } catch (error) {
+      console.error('Error checking project UUID:', error)
+      throw new ProjectError('Failed to check project UUID', 500)
+    }
+  },
+
+  // Users matched by email, case-insensitively, keyed by lowercase email
+  async findUsersByEmail(emails: string[]): Promise<Map<string, number>> {
+    try {
+      const users = await prisma.user.findMany({
+        where: {
+          email: { in: [...new Set(emails)], mode: 'insensitive' },
+          deletedAt: null,
+        },
+        select: { id: true, email: true },
+      })
+      return new Map(users.map((user) => [user.email.toLowerCase(), user.id]))
+    } catch (error) {
+      console.error('Error fetching users by email:', error)
+      throw new ProjectError('Failed to fetch users', 500)
+    }
+  },
+
+  // Those of the users who are on a project the importer owns, and so
+  // whom the importer can vouch for
+  async findVouchedUserIds(
+    importerId: number,
+    userIds: number[],
+  ): Promise<Set<number>> {
+    const ownedProject: Prisma.ProjectWhereInput = {
+      deletedAt: null,
+      ...projectOwnerWhere(importerId),
+    }
+
+    try {
+      const users = await prisma.user.findMany({
+        where: {
+          id: { in: userIds },
+          OR: [
+            { projects: { some: ownedProject } },
+            { projectMemberships: { some: { project: ownedProject } } },
+          ],
+        },
+        select: { id: true },
+      })
+      return new Set(users.map((user) => user.id))
+    } catch (error) {
+      console.error('Error fetching vouched users:', error)
+      throw new ProjectError('Failed to fetch users', 500)
+    }
+  },
+
+  // The importer's tags by name
+  async findTagsByName(
+    userId: number,
+    names: string[],
+  ): Promise<Map<string, number>> {
+    try {
+      const tags = await prisma.tag.findMany({
+        where: { userId, name: { in: names } },
+        select: { id: true, name: true },
+      })
+      return new Map(tags.map((tag) => [tag.name, tag.id]))
+    } catch (error) {
+      console.error('Error fetching tags:', error)
+      throw new ProjectError('Failed to fetch tags', 500)
+    }
+  },
+
+  /**
+   * Create the project and everything in the bundle in one transaction
+   * with fresh IDs and UUIDs, resolving to the new project's id
+   */
+  async importBundle(
+    bundle: ProjectBundle,
+    plan: BundleImportPlan,
+  ): Promise<number> {
+    const userFor = (email: string | null) =>
+      (email && plan.users.get(email)) || plan.ownerId
+
+    try {
+      return await withTransaction(
+        async (tx) => {
+          // Tags go to the new owner, who may already have some by name
+          await tx.tag.createMany({
+            data: bundle.tags.map((tag) => ({
+              userId: plan.ownerId,
+              name: tag.name,
+              color: tag.color,
+            })),
+            skipDuplicates: true,
+          })
+          const ownerTags = await tx.tag.findMany({
+            where: {
+              userId: plan.ownerId,
+              name: { in: bundle.tags.map((tag) => tag.name) },
+            },
+            select: { id: true, name: true },
+          })
+          const tagIds = new Map(ownerTags.map((tag) => [tag.name, tag.id]))
+          const tagNames = new Map(
+            bundle.tags.map((tag) => [tag.key, tag.name]),
+          )
+          const connectTags = (keys: number[]) =>
+            keys.map((tagKey) => ({
+              id: tagIds.get(tagNames.get(tagKey) as string) as number,
+            }))
+
+          const source = bundle.project
+          const project = await tx.project.create({
+            data: {
+              title: source.title,
+              description: source.description,
+              stage: source.stage,
+              userId: plan.ownerId,
+              beganAt: date(source.beganAt),
+              completedAt: date(source.completedAt),
+              billingCycle: source.billingCycle,
+              rate:
+                source.rate === null ? null : new Prisma.Decimal(source.rate),
+              currency: source.currency,
+              stageTransitions: {
+                create: { toStage: source.stage, userId: plan.ownerId },
+              },
+              members: { create: plan.members },
+              tags: { connect: connectTags(source.tagKeys) },
+            },
+            select: { id: true },
+          })
+
+          // Titles are unique per project, matching taskModel.create
+          const titles = new Set<string>()
+          const taskTitles = new Map(
+            bundle.tasks.map((task) => {
+              const title = titles.has(task.title)
+                ? freeTaskTitle(task.title, titles)
+                : task.title
+              titles.add(title)
+              return [task.key, title]
+            }),
+          )
+
+          // Parents are created a level before their subtasks
+          const taskIds = new Map<number, number>()
+          for (const level of taskLevels(bundle.tasks)) {
+            const uuids = level.map(() => randomUUID())
+            const rows = level.map((task, index) => ({
+              uuid: uuids[index],
+              projectId: project.id,
+              parentTaskId:
+                task.parentKey === null
+                  ? null
+                  : (taskIds.get(task.parentKey) as number),
+              title: taskTitles.get(task.key) as string,
+              definitionOfDone: task.definitionOfDone,
+              status: task.status,
+              priority: task.priority,
+              dueAt: date(task.dueAt),
+              startedAt: date(task.startedAt),
+              endedAt: date(task.endedAt),
+              timeSpent: task.timeSpent,
+              costInProjectCurrency: task.costInProjectCurrency,
+              userId: task.assignee === null ? null : userFor(task.assignee),
+              creatorId: userFor(task.creator),
+              createdAt: new Date(task.createdAt),
+            }))
+            await tx.task.createMany({ data: rows })
+            const created = await tx.task.findMany({
+              where: { uuid: { in: uuids } },
+              select: { id: true, uuid: true },
+            })
+            const ids = new Map(created.map((task) => [task.uuid, task.id]))
+            level.forEach((task, index) =>
+              taskIds.set(task.key, ids.get(uuids[index]) as number),
+            )
+
+            // History starts where createData starts it: the status the
+            // task was created in and its first assignee
+            await tx.taskStatusTransition.createMany({
+              data: rows.map((row) => ({
+                taskId: ids.get(row.uuid) as number,
+                toStatus: row.status,
+                userId: row.creatorId,
+                createdAt: row.createdAt,
+              })),
+            })
+            await tx.taskAssignment.createMany({
+              data: rows.flatMap((row) =>
+                row.userId === null
+                  ? []
+                  : [
+                      {
+                        taskId: ids.get(row.uuid) as number,
+                        toUserId: row.userId,
+                        assignedById: row.creatorId,
+                        createdAt: row.createdAt,
+                      },
+                    ],
+              ),
+            })
+          }
+
+          const taskId = (taskKey: number) => taskIds.get(taskKey) as number
+          for (const task of bundle.tasks) {
+            if (task.tagKeys.length > 0) {
+              await tx.task.update({
+                where: { id: taskId(task.key) },
+                data: { tags: { connect: connectTags(task.tagKeys) } },
+              })
+            }
+          }
+
+          await tx.taskDependency.createMany({
+            data: bundle.dependencies.map((dependency) => ({
+              blockerTaskId: taskId(dependency.blockerKey),
+              blockedTaskId: taskId(dependency.blockedKey),
+            })),
+            skipDuplicates: true,
+          })
+
+          for (const note of bundle.notes) {
+            await tx.note.create({
+              data: {
+                projectId: project.id,
+                title: note.title,
+                description: note.description,
+                body: note.body,
+                status: note.status,
+                userId: userFor(note.author),
+                createdAt: new Date(note.createdAt),
+                tags: { connect: connectTags(note.tagKeys) },
+              },
+            })
+          }
+
+          // Replies point at top-level comments, created first
+          const commentIds = new Map<number, number>()
+          const comments = [
+            ...bundle.comments.filter((comment) => comment.parentKey === null),
+            ...bundle.comments.filter((comment) => comment.parentKey !== null),
+          ]
+          for (const comment of comments) {
+            const created = await tx.taskComment.create({
+              data: {
+                taskId: taskId(comment.taskKey),
+                userId: userFor(comment.author),
+                parentCommentId:
+                  comment.parentKey === null
+                    ? null
+                    : commentIds.get(comment.parentKey),
+                body: comment.body,
+                editedAt: date(comment.editedAt),
+                createdAt: new Date(comment.createdAt),
+              },
+              select: { id: true },
+            })
+            commentIds.set(comment.key, created.id)
+          }
+
+          await tx.timeEntry.createMany({
+            data: bundle.timeEntries.map((entry) => ({
+              taskId: taskId(entry.taskKey),
+              userId: userFor(entry.user),
+              startedAt: new Date(entry.startedAt),
+              endedAt: date(entry.endedAt),
+              durationMinutes: entry.durationMinutes,
+              notes: entry.notes,
+              createdAt: new Date(entry.createdAt),
+            })),
+          })
+
+          return project.id
+        },
+        { timeout: IMPORT_TIMEOUT_MS },
+      )
+    } catch (error) {
+      console.error('Error importing project bundle:', error)
+      throw new ProjectError('Failed to import project bundle', 500)
+    }
+  },
+}
@@ -0,0 +1,232 @@
+import { ProjectError, projectModel, ProjectResponse } from './project.model'
+import {
+  projectBundleModel,
+  BUNDLE_FORMAT,
+  BUNDLE_VERSION,
+  BundleConflict,
+  BundleImportCounts,
+  ProjectBundle,
+} from './projectBundle.model'
+import { projectService } from './project.service'
+
+const iso = (date: Date | null) => (date ? date.toISOString() : null)
+
+export interface BundleImportResponse {
+  project: ProjectResponse
+  imported: BundleImportCounts
+  conflicts: BundleConflict[]
+}
+
+export class ProjectBundleService {
+  /**
+   * The project with its tasks, notes, tags, comments and time entries as
+   * a self-contained bundle. Users are referred to by email and records by
+   * their ID on this instance.
+   */
+  async exportBundle(
+    projectId: number,
+    requestingUserId: number,
+  ): Promise<ProjectBundle> {
+    const project = await projectModel.findById(projectId, requestingUserId)
+    if (!project) {
+      throw new ProjectError('Project not found', 404)
+    }
+
+    // Time entries and every note go with it, so owners export
+    if (!(await projectService.canManageProject(project, requestingUserId))) {
+      throw new ProjectError(
+        'Insufficient permissions to export this project',
+        403,
+      )
+    }
+
+    const content = await projectBundleModel.findProjectContent(projectId)
+    const taskKeys = new Set(content.tasks.map((task) => task.id))
+
+    return {
+      format: BUNDLE_FORMAT,
+      version: BUNDLE_VERSION,
+      exportedAt: new Date().toISOString(),
+      project: {
+        uuid: content.project.uuid,
+        title: content.project.title,
+        description: content.project.description,
+        stage: content.project.stage,
+        owner: content.project.user.email,
+        beganAt: iso(content.project.beganAt),
+        completedAt: iso(content.project.completedAt),
+        billingCycle: content.project.billingCycle,
+        rate: content.project.rate?.toString() ?? null,
+        currency: content.project.currency,
+        tagKeys: content.project.tags.map((tag) => tag.id),
+      },
+      members: content.members.map((member) => ({
+        email: member.user.email,
+        role: member.role,
+      })),
+      tags: content.tags.map((tag) => ({
+        key: tag.id,
+        name: tag.name,
+        color: tag.color,
+      })),
+      tasks: content.tasks.map((task) => ({
+        key: task.id,
+        // A subtask of a deleted parent comes along as a top-level task
+        parentKey:
+          task.parentTaskId !== null && taskKeys.has(task.parentTaskId)
+            ? task.parentTaskId
+            : null,
+        title: task.title,
+        definitionOfDone: task.definitionOfDone,
+        status: task.status,
+        priority: task.priority,
+        dueAt: iso(task.dueAt),
+        startedAt: iso(task.startedAt),
+        endedAt: iso(task.endedAt),
+        timeSpent: task.timeSpent?.toString() ?? null,
+        costInProjectCurrency: task.costInProjectCurrency?.toString() ?? null,
+        assignee: task.user?.email ?? null,
+        creator: task.creator?.email ?? null,
+        tagKeys: task.tags.map((tag) => tag.id),
+        createdAt: task.createdAt.toISOString(),
+      })),
+      dependencies: content.tasks.flatMap((task) =>
+        task.blockedBy.map((dependency) => ({
+          blockerKey: dependency.blockerTaskId,
+          blockedKey: task.id,
+        })),
+      ),
+      notes: content.notes.map((note) => ({
+        title: note.title,
+        description: note.description,
+        body: note.body,
+        status: note.status,
+        author: note.user.email,
+        tagKeys: note.tags.map((tag) => tag.id),
+        createdAt: note.createdAt.toISOString(),
+      })),
+      comments: content.comments.map((comment) => ({
+        key: comment.id,
+        parentKey: comment.parentCommentId,
+        taskKey: comment.taskId,
+        author: comment.user.email,
+        body: comment.body,
+        editedAt: iso(comment.editedAt),
+        createdAt: comment.createdAt.toISOString(),
+      })),
+      timeEntries: content.timeEntries.map((entry) => ({
+        taskKey: entry.taskId,
+        user: entry.user.email,
+        startedAt: entry.startedAt.toISOString(),
+        endedAt: iso(entry.endedAt),
+        durationMinutes: entry.durationMinutes,
+        notes: entry.notes,
+        createdAt: entry.createdAt.toISOString(),
+      })),
+    }
+  }
+
+  /**
+   * Create a new project owned by the importer from a bundle. Everything
+   * gets new IDs and UUIDs; people are matched by email, and records of
+   * people without an account here go to the importer. Members only keep
+   * their roles when they are on a project the importer owns.
+   */
+  async importBundle(
+    bundle: ProjectBundle,
+    requestingUserId: number,
+  ): Promise<BundleImportResponse> {
+    const conflicts: BundleConflict[] = []
+
+    if (await projectBundleModel.projectUuidExists(bundle.project.uuid)) {
+      conflicts.push({
+        type: 'project',
+        reference: bundle.project.uuid,
+        message: 'The project already exists here; imported as a new copy',
+      })
+    }
+
+    const emails = [
+      bundle.project.owner,
+      ...bundle.members.map((member) => member.email),
+      ...bundle.tasks.flatMap((task) => [task.assignee, task.creator]),
+      ...bundle.notes.map((note) => note.author),
+      ...bundle.comments.map((comment) => comment.author),
+      ...bundle.timeEntries.map((entry) => entry.user),
+    ].filter((email): email is string => email !== null)
+    const users = await projectBundleModel.findUsersByEmail(emails)
+    for (const email of new Set(emails)) {
+      if (!users.has(email)) {
+        conflicts.push({
+          type: 'user',
+          reference: email,
+          message: 'No user with this email; their records go to the importer',
+        })
+      }
+    }
+
+    const existingTags = await projectBundleModel.findTagsByName(
+      requestingUserId,
+      bundle.tags.map((tag) => tag.name),
+    )
+    for (const name of new Set(bundle.tags.map((tag) => tag.name))) {
+      if (existingTags.has(name)) {
+        conflicts.push({
+          type: 'tag',
+          reference: name,
+          message: 'Merged into your existing tag of the same name',
+        })
+      }
+    }
+
+    // The original owner stays on as an owner next to the importer
+    const roles = new Map(
+      bundle.members.map((member) => [member.email, member.role]),
+    )
+    if (bundle.project.owner) {
+      roles.set(bundle.project.owner, 'OWNER')
+    }
+    const candidates = [...roles].flatMap(([email, role]) => {
+      const userId = users.get(email)
+      return userId && userId !== requestingUserId
+        ? [{ email, userId, role }]
+        : []
+    })
+    const vouched = await projectBundleModel.findVouchedUserIds(
+      requestingUserId,
+      candidates.map((candidate) => candidate.userId),
+    )
+    const members = candidates.flatMap(({ email, userId, role }) => {
+      if (vouched.has(userId)) {
+        return [{ userId, role }]
+      }
+      conflicts.push({
+        type: 'member',
+        reference: email,
+        message: 'Not on any project you own; not added to the project',
+      })
+      return []
+    })
+
+    const projectId = await projectBundleModel.importBundle(bundle, {
+      ownerId: requestingUserId,
+      users,
+      members,
+    })
+
+    return {
+      project: await projectService.getProjectById(projectId, requestingUserId),
+      imported: {
+        tasks: bundle.tasks.length,
+        notes: bundle.notes.length,
+        comments: bundle.comments.length,
+        timeEntries: bundle.timeEntries.length,
+        tags: new Set(bundle.tags.map((tag) => tag.name)).size,
+        members: members.length,
+      },
+      conflicts,
+    }
+  }
+}
+
+export const projectBundleService = new ProjectBundleService()
@@ -0,0 +1,54 @@
+import { Request, Response, NextFunction } from 'express'
+import { ZodError } from 'zod'
+import { projectFinanceService } from './projectFinance.service'
+import { financialReportQuerySchema } from './projectFinance.model'
+import { ProjectError } from './project.model'
+import { ExchangeRateError } from '../exchange-rates/exchangeRate.model'
+import {
+  createSuccessResponse,
+  createErrorResponse,
+} from '../../../utils/response'
+
+export class ProjectFinanceController {
+  // GET /projects/financials
+  async getFinancialReport(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const queryParams = financialReportQuerySchema.parse(req.query)
+      const report = await projectFinanceService.getFinancialReport(
+        queryParams,
+        userId,
+      )
+
+      return createSuccessResponse(
+        res,
+        'Financial report retrieved successfully',
+        report,
+      )
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(
+          res,
+          'Invalid query parameters',
+          err.issues,
+          400,
+        )
+      }
+      if (err instanceof ProjectError || err instanceof ExchangeRateError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+}
+
+export const projectFinanceController = new ProjectFinanceController()
@@ -0,0 +1,182 @@
+import { z } from 'zod'
+import { InvoiceStatus, Prisma } from '@prisma/client'
+import { Decimal } from '@prisma/client/runtime/library'
+import prisma from '../../../config/db'
+import { ProjectError } from './project.model'
+import { currencyCodeSchema } from '../exchange-rates/exchangeRate.model'
+
+const isoDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+
+// Validation schemas
+export const financialReportQuerySchema = z
+  .object({
+    currency: currencyCodeSchema,
+    from: isoDate.optional(),
+    to: isoDate.optional(),
+    projectId: z.coerce.number().int().positive().optional(),
+    userId: z.coerce.number().int().positive().optional(),
+  })
+  .refine((data) => !data.from || !data.to || data.from <= data.to, {
+    message: 'from must not be after to',
+    path: ['to'],
+  })
+
+// Types
+export type FinancialReportQuery = z.infer<typeof financialReportQuerySchema>
+
+// An amount in its own currency, dated for conversion
+export interface FinancialAmount {
+  projectId: number
+  kind: 'revenue' | 'cost'
+  amount: Decimal
+  currency: string
+  date: Date
+}
+
+export interface FinancialReportProject {
+  projectId: number
+  uuid: string
+  title: string
+  currency: string
+  revenue: Decimal
+  cost: Decimal
+  margin: Decimal
+  // Amounts left out of the totals for want of a rate
+  unconverted: number
+}
+
+export interface MissingExchangeRate {
+  currency: string
+  date: string
+  revenue: Decimal
+  cost: Decimal
+  count: number
+}
+
+export interface FinancialReportResponse {
+  currency: string
+  from: string | null
+  to: string | null
+  totals: {
+    revenue: Decimal
+    cost: Decimal
+    margin: Decimal
+  }
+  projects: FinancialReportProject[]
+  missingRates: MissingExchangeRate[]
+  // False when any amount could not be converted
+  complete: boolean
+}
+
+// Invoices that count as revenue
+const REVENUE_STATUSES = [InvoiceStatus.SENT, InvoiceStatus.PAID]
+
+// Database operations
+export const projectFinanceModel = {
+  async findProjects(where: Prisma.ProjectWhereInput) {
+    try {
+      return await prisma.project.findMany({
+        where: { deletedAt: null, ...where },
+        select: { id: true, uuid: true, title: true, currency: true },
+        orderBy: { id: 'asc' },
+      })
+    } catch (error) {
+      console.error('Error fetching projects:', error)
+      throw new ProjectError('Failed to fetch projects', 500)
+    }
+  },
+
+  /**
+   * Task costs in each project's currency, dated when the task ended or
+   * else when it was created
+   */
+  async findCosts(
+    projects: { id: number; currency: string }[],
+    from?: Date,
+    until?: Date,
+  ): Promise<FinancialAmount[]> {
+    const range = { ...(from && { gte: from }), ...(until && { lt: until }) }
+    const currencies = new Map(projects.map((p) => [p.id, p.currency]))
+
+    try {
+      const tasks = await prisma.task.findMany({
+        where: {
+          projectId: { in: [...currencies.keys()] },
+          deletedAt: null,
+          costInProjectCurrency: { not: null },
+          ...((from || until) && {
+            OR: [{ endedAt: range }, { endedAt: null, createdAt: range }],
+          }),
+        },
+        select: {
+          projectId: true,
+          costInProjectCurrency: true,
+          endedAt: true,
+          createdAt: true,
+        },
+      })
+
+      return tasks.map((task) => ({
+        projectId: task.projectId,
+        kind: 'cost',
+        amount: task.costInProjectCurrency as Decimal,
+        currency: currencies.get(task.projectId) || 'SGD',
+        date: task.endedAt ?? task.createdAt,
+      }))
+    } catch (error) {
+      console.error('Error fetching task costs:', error)
+      throw new ProjectError('Failed to fetch task costs', 500)
+    }
+  },
+
+  /**
+   * Lines of sent and paid invoices in the invoice's currency, dated when
+   * the billed task ended or else at the end of the invoiced period
+   */
+  async findRevenue(
+    projectIds: number[],
+    from?: Date,
+    until?: Date,
+  ): Promise<FinancialAmount[]> {
+    try {
+      const items = await prisma.invoiceItem.findMany({
+        where: {
+          invoice: {
+            projectId: { in: projectIds },
+            status: { in: REVENUE_STATUSES },
+            // Periods that overlap the range; lines are dated below
+            ...(from && { periodEnd: { gte: from } }),
+            ...(until && { periodStart: { lt: until } }),
+          },
+        },
+        select: {
+          amount: true,
+          task: { select: { endedAt: true } },
+          invoice: {
+            select: { projectId: true, currency: true, periodEnd: true },
+          },
+        },
+      })
+
+      return items
+        .map(
+          (item): FinancialAmount => ({
+            projectId: item.invoice.projectId,
+            kind: 'revenue',
+            amount: item.amount,
+            currency: item.invoice.currency,
+            date: item.task?.endedAt ?? item.invoice.periodEnd,
+          }),
+        )
+        .filter(
+          (item) =>
+            (!from || item.date >= from) && (!until || item.date < until),
+        )
+    } catch (error) {
+      console.error('Error fetching invoiced revenue:', error)
+      throw new ProjectError('Failed to fetch invoiced revenue', 500)
+    }
+  },
+}
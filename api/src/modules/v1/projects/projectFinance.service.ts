@@ -0,0 +1,166 @@
+import { Prisma, ProjectRole } from '@prisma/client'
+import { Decimal } from '@prisma/client/runtime/library'
+import { ProjectError, projectMemberWhere } from './project.model'
+import {
+  projectFinanceModel,
+  FinancialReportQuery,
+  FinancialReportProject,
+  FinancialReportResponse,
+  MissingExchangeRate,
+} from './projectFinance.model'
+import { exchangeRateModel } from '../exchange-rates/exchangeRate.model'
+import { convertAmount } from '../../../utils/currency'
+import { hasAdminRole } from '../../../utils/auth'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export class ProjectFinanceService {
+  /**
+   * Revenue and cost per project, converted into the requested currency at
+   * the rate in effect on each amount's date. Amounts with no rate are left
+   * out of the totals and listed under missingRates.
+   */
+  async getFinancialReport(
+    query: FinancialReportQuery,
+    requestingUserId: number,
+  ): Promise<FinancialReportResponse> {
+    const where = await this.reportScope(query, requestingUserId)
+    const projects = await projectFinanceModel.findProjects(where)
+
+    if (query.projectId && projects.length === 0) {
+      throw new ProjectError('Project not found or access denied', 404)
+    }
+
+    const from = query.from
+      ? new Date(`${query.from}T00:00:00.000Z`)
+      : undefined
+    const until = query.to
+      ? new Date(new Date(`${query.to}T00:00:00.000Z`).getTime() + DAY_MS)
+      : undefined
+
+    const projectCurrencies = projects.map((project) => ({
+      id: project.id,
+      currency: project.currency || 'SGD',
+    }))
+    const [costs, revenue] = await Promise.all([
+      projectFinanceModel.findCosts(projectCurrencies, from, until),
+      projectFinanceModel.findRevenue(
+        projects.map((project) => project.id),
+        from,
+        until,
+      ),
+    ])
+    const amounts = [...revenue, ...costs]
+
+    const latest = amounts.reduce(
+      (max, entry) => (entry.date > max ? entry.date : max),
+      new Date(0),
+    )
+    const rates = await exchangeRateModel.findForCurrency(
+      query.currency,
+      latest,
+    )
+
+    const rows = new Map<number, FinancialReportProject>(
+      projects.map((project) => [
+        project.id,
+        {
+          projectId: project.id,
+          uuid: project.uuid,
+          title: project.title,
+          currency: project.currency || 'SGD',
+          revenue: new Decimal(0),
+          cost: new Decimal(0),
+          margin: new Decimal(0),
+          unconverted: 0,
+        },
+      ]),
+    )
+    const missing = new Map<string, MissingExchangeRate>()
+
+    for (const entry of amounts) {
+      const row = rows.get(entry.projectId) as FinancialReportProject
+      const converted = convertAmount(
+        rates,
+        entry.amount,
+        entry.currency,
+        query.currency,
+        entry.date,
+      )
+
+      if (converted) {
+        row[entry.kind] = row[entry.kind].plus(converted)
+        continue
+      }
+
+      row.unconverted += 1
+      const date = entry.date.toISOString().slice(0, 10)
+      const key = `${entry.currency}/${date}`
+      const gap = missing.get(key) ?? {
+        currency: entry.currency,
+        date,
+        revenue: new Decimal(0),
+        cost: new Decimal(0),
+        count: 0,
+      }
+      gap[entry.kind] = gap[entry.kind].plus(entry.amount)
+      gap.count += 1
+      missing.set(key, gap)
+    }
+
+    const totals = { revenue: new Decimal(0), cost: new Decimal(0) }
+    for (const row of rows.values()) {
+      row.margin = row.revenue.minus(row.cost)
+      totals.revenue = totals.revenue.plus(row.revenue)
+      totals.cost = totals.cost.plus(row.cost)
+    }
+
+    const missingRates = [...missing.values()].sort(
+      (a, b) =>
+        a.currency.localeCompare(b.currency) || a.date.localeCompare(b.date),
+    )
+
+    return {
+      currency: query.currency,
+      from: query.from ?? null,
+      to: query.to ?? null,
+      totals: { ...totals, margin: totals.revenue.minus(totals.cost) },
+      projects: [...rows.values()],
+      missingRates,
+      complete: missingRates.length === 0,
+    }
+  }
+
+  /**
+   * Users report on the projects they own or manage; admins on every
+   * project, or on those of the given user
+   */
+  private async reportScope(
+    query: FinancialReportQuery,
+    requestingUserId: number,
+  ): Promise<Prisma.ProjectWhereInput> {
+    const scope: Prisma.ProjectWhereInput = (await hasAdminRole(
+      requestingUserId,
+    ))
+      ? query.userId
+        ? projectMemberWhere(query.userId)
+        : {}
+      : {
+          OR: [
+            { userId: requestingUserId },
+            {
+              members: {
+                some: { userId: requestingUserId, role: ProjectRole.OWNER },
+              },
+            },
+          ],
+        }
+
+    return {
+      ...scope,
+      ...(query.projectId && { id: query.projectId }),
+    }
+  }
+}
+
+export const projectFinanceService = new ProjectFinanceService()
@@ -0,0 +1,47 @@
+import { Request, Response, NextFunction } from 'express'
+import { projectHealthService } from './projectHealth.service'
+import { ProjectError } from './project.model'
+import {
+  createSuccessResponse,
+  createErrorResponse,
+} from '../../../utils/response'
+
+export class ProjectHealthController {
+  // GET /projects/:id/health
+  async getProjectHealth(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const projectId = parseInt(req.params.id)
+      if (isNaN(projectId)) {
+        return createErrorResponse(res, 'Invalid project ID', undefined, 400)
+      }
+
+      const health = await projectHealthService.getProjectHealth(
+        projectId,
+        userId,
+      )
+
+      return createSuccessResponse(
+        res,
+        'Project health retrieved successfully',
+        health,
+      )
+    } catch (err) {
+      if (err instanceof ProjectError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+}
+
+export const projectHealthController = new ProjectHealthController()
@@ -0,0 +1,212 @@
+import {
+  BudgetType,
+  Prisma,
+  SettingVisibility,
+  TaskStatus,
+} from '@prisma/client'
+import prisma from '../../../config/db'
+import { ProjectError } from './project.model'
+import {
+  scoreHealth,
+  DEFAULT_HEALTH_CONFIG,
+  HealthConfig,
+  HealthFactor,
+  HealthScore,
+  HealthSignals,
+} from '../../../utils/projectHealth'
+
+// System settings (no user) that tune the score, e.g.
+// "project_health:overdue_weight" = "40"
+export const HEALTH_SETTING_PREFIX = 'project_health:'
+
+// Types
+export interface ProjectHealthResponse extends HealthScore {
+  projectId: number
+  checkedAt: Date
+}
+
+// Database operations
+export const projectHealthModel = {
+  // Defaults overridden by any valid number found in system settings,
+  // which only system admins can create
+  async findConfig(): Promise<HealthConfig> {
+    try {
+      const settings = await prisma.setting.findMany({
+        where: {
+          userId: null,
+          visibility: SettingVisibility.SYSTEM,
+          key: { startsWith: HEALTH_SETTING_PREFIX },
+        },
+        select: { key: true, value: true },
+      })
+      const values = new Map(
+        settings.map((setting) => [
+          setting.key.slice(HEALTH_SETTING_PREFIX.length),
+          Number(setting.value),
+        ]),
+      )
+      const read = (name: string, fallback: number) => {
+        const value = values.get(name)
+        return value !== undefined && Number.isFinite(value) && value >= 0
+          ? value
+          : fallback
+      }
+
+      const weights = { ...DEFAULT_HEALTH_CONFIG.weights }
+      for (const factor of Object.keys(weights) as HealthFactor[]) {
+        weights[factor] = read(`${factor}_weight`, weights[factor])
+      }
+
+      return {
+        weights,
+        staleDays: read('stale_days', DEFAULT_HEALTH_CONFIG.staleDays),
+        stageDays: read('stage_days', DEFAULT_HEALTH_CONFIG.stageDays),
+        atRiskBelow: read('at_risk_below', DEFAULT_HEALTH_CONFIG.atRiskBelow),
+      }
+    } catch (error) {
+      console.error('Error fetching project health settings:', error)
+      throw new ProjectError('Failed to fetch project health settings', 500)
+    }
+  },
+
+  // Health signals of many projects in a fixed number of queries
+  async findSignals(
+    projectIds: number[],
+    now: Date = new Date(),
+  ): Promise<Map<number, HealthSignals>> {
+    const liveTasks: Prisma.TaskWhereInput = {
+      projectId: { in: projectIds },
+      deletedAt: null,
+    }
+
+    try {
+      const [projects, byStatus, overdue, totals, budgets, stages] =
+        await Promise.all([
+          prisma.project.findMany({
+            where: { id: { in: projectIds } },
+            select: { id: true, createdAt: true, updatedAt: true },
+          }),
+          prisma.task.groupBy({
+            by: ['projectId', 'status'],
+            where: liveTasks,
+            _count: { _all: true },
+          }),
+          prisma.task.groupBy({
+            by: ['projectId'],
+            where: {
+              ...liveTasks,
+              status: { not: TaskStatus.DONE },
+              dueAt: { lt: now },
+            },
+            _count: { _all: true },
+          }),
+          prisma.task.groupBy({
+            by: ['projectId'],
+            where: liveTasks,
+            _max: { updatedAt: true },
+            _sum: { timeSpent: true, costInProjectCurrency: true },
+          }),
+          prisma.projectBudget.findMany({
+            where: { projectId: { in: projectIds } },
+            select: { projectId: true, type: true, amount: true },
+          }),
+          prisma.projectStageTransition.groupBy({
+            by: ['projectId'],
+            where: { projectId: { in: projectIds } },
+            _max: { createdAt: true },
+          }),
+        ])
+
+      const signals = new Map<number, HealthSignals>()
+      for (const project of projects) {
+        signals.set(project.id, {
+          openTasks: 0,
+          doneTasks: 0,
+          overdueTasks: 0,
+          stuckTasks: 0,
+          budgetUsed: null,
+          lastActivityAt: project.updatedAt,
+          stageSince: project.createdAt,
+        })
+      }
+
+      for (const group of byStatus) {
+        const entry = signals.get(group.projectId)
+        if (!entry) continue
+        if (group.status === TaskStatus.DONE) {
+          entry.doneTasks += group._count._all
+          continue
+        }
+        entry.openTasks += group._count._all
+        if (
+          group.status === TaskStatus.BLOCKED ||
+          group.status === TaskStatus.ON_HOLD
+        ) {
+          entry.stuckTasks += group._count._all
+        }
+      }
+
+      for (const group of overdue) {
+        const entry = signals.get(group.projectId)
+        if (entry) entry.overdueTasks = group._count._all
+      }
+
+      for (const group of totals) {
+        const entry = signals.get(group.projectId)
+        const updatedAt = group._max.updatedAt
+        if (entry && updatedAt && updatedAt > entry.lastActivityAt) {
+          entry.lastActivityAt = updatedAt
+        }
+      }
+
+      const sums = new Map(totals.map((group) => [group.projectId, group._sum]))
+      for (const budget of budgets) {
+        const entry = signals.get(budget.projectId)
+        if (!entry || budget.amount.isZero()) continue
+        const projectSums = sums.get(budget.projectId)
+        const consumed =
+          (budget.type === BudgetType.HOURS
+            ? projectSums?.timeSpent
+            : projectSums?.costInProjectCurrency) ?? new Prisma.Decimal(0)
+        entry.budgetUsed = consumed
+          .dividedBy(budget.amount)
+          .times(100)
+          .toDecimalPlaces(2)
+          .toNumber()
+      }
+
+      for (const group of stages) {
+        const entry = signals.get(group.projectId)
+        if (entry && group._max.createdAt) {
+          entry.stageSince = group._max.createdAt
+        }
+      }
+
+      return signals
+    } catch (error) {
+      console.error('Error fetching project health signals:', error)
+      throw new ProjectError('Failed to fetch project health signals', 500)
+    }
+  },
+
+  // Score each of the projects, by project ID
+  async scoreProjects(
+    projectIds: number[],
+  ): Promise<Map<number, ProjectHealthResponse>> {
+    const now = new Date()
+    const [config, signals] = await Promise.all([
+      this.findConfig(),
+      this.findSignals(projectIds, now),
+    ])
+
+    const scores = new Map<number, ProjectHealthResponse>()
+    for (const [projectId, projectSignals] of signals) {
+      scores.set(projectId, {
+        projectId,
+        checkedAt: now,
+        ...scoreHealth(projectSignals, config, now),
+      })
+    }
+    return scores
+  },
+}
@@ -0,0 +1,26 @@
+import { ProjectError } from './project.model'
+import {
+  projectHealthModel,
+  ProjectHealthResponse,
+} from './projectHealth.model'
+import { projectService } from './project.service'
+
+export class ProjectHealthService {
+  // Health score of a project with the factors that lowered it
+  async getProjectHealth(
+    projectId: number,
+    requestingUserId: number,
+  ): Promise<ProjectHealthResponse> {
+    await projectService.getProjectById(projectId, requestingUserId)
+
+    const health = (await projectHealthModel.scoreProjects([projectId])).get(
+      projectId,
+    )
+    if (!health) {
+      throw new ProjectError('Project not found', 404)
+    }
+    return health
+  }
+}
+
+export const projectHealthService = new ProjectHealthService()
@@ -0,0 +1,181 @@
+import { Request, Response, NextFunction } from 'express'
+import { ZodError } from 'zod'
+import { projectMemberService } from './projectMember.service'
+import {
+  inviteMemberSchema,
+  updateMemberRoleSchema,
+} from './projectMember.model'
+import { ProjectError } from './project.model'
+import {
+  createSuccessResponse,
+  createErrorResponse,
+} from '../../../utils/response'
+
+export class ProjectMemberController {
+  // GET /projects/:id/members
+  async getMembers(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const projectId = parseInt(req.params.id)
+      if (isNaN(projectId)) {
+        return createErrorResponse(res, 'Invalid project ID', undefined, 400)
+      }
+
+      const members = await projectMemberService.getMembers(projectId, userId)
+
+      return createSuccessResponse(
+        res,
+        'Project members retrieved successfully',
+        members,
+      )
+    } catch (err) {
+      if (err instanceof ProjectError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // POST /projects/:id/members
+  async inviteMember(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const projectId = parseInt(req.params.id)
+      if (isNaN(projectId)) {
+        return createErrorResponse(res, 'Invalid project ID', undefined, 400)
+      }
+
+      const validatedData = inviteMemberSchema.parse(req.body)
+      const member = await projectMemberService.inviteMember(
+        projectId,
+        validatedData,
+        userId,
+      )
+
+      console.info('Project member added', {
+        projectId,
+        memberId: member.userId,
+        role: member.role,
+        userId,
+      })
+
+      return createSuccessResponse(
+        res,
+        'Project member added successfully',
+        member,
+        201,
+      )
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(res, 'Validation failed', err.issues, 400)
+      }
+      if (err instanceof ProjectError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // PUT /projects/:id/members/:userId
+  async updateMemberRole(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const projectId = parseInt(req.params.id)
+      const memberId = parseInt(req.params.userId)
+      if (isNaN(projectId) || isNaN(memberId)) {
+        return createErrorResponse(
+          res,
+          'Invalid project or user ID',
+          undefined,
+          400,
+        )
+      }
+
+      const validatedData = updateMemberRoleSchema.parse(req.body)
+      const member = await projectMemberService.updateMemberRole(
+        projectId,
+        memberId,
+        validatedData,
+        userId,
+      )
+
+      return createSuccessResponse(
+        res,
+        'Project member updated successfully',
+        member,
+      )
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(res, 'Validation failed', err.issues, 400)
+      }
+      if (err instanceof ProjectError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // DELETE /projects/:id/members/:userId
+  async removeMember(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const projectId = parseInt(req.params.id)
+      const memberId = parseInt(req.params.userId)
+      if (isNaN(projectId) || isNaN(memberId)) {
+        return createErrorResponse(
+          res,
+          'Invalid project or user ID',
+          undefined,
+          400,
+        )
+      }
+
+      await projectMemberService.removeMember(projectId, memberId, userId)
+
+      return createSuccessResponse(res, 'Project member removed successfully')
+    } catch (err) {
+      if (err instanceof ProjectError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+}
+
+export const projectMemberController = new ProjectMemberController()
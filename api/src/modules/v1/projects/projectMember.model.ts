@@ -0,0 +1,163 @@
+import { z } from 'zod'
+import { ProjectRole, Prisma } from '@prisma/client'
+import prisma from '../../../config/db'
+import { ProjectError, ProjectResponse } from './project.model'
+
+// Validation schemas
+export const inviteMemberSchema = z
+  .object({
+    userId: z.number().int().positive().optional(),
+    email: z.string().email('Invalid email format').toLowerCase().optional(),
+    role: z.nativeEnum(ProjectRole).optional().default(ProjectRole.VIEWER),
+  })
+  .refine((data) => (data.userId === undefined) !== !data.email, {
+    message: 'Provide either userId or email',
+    path: ['userId'],
+  })
+
+export const updateMemberRoleSchema = z.object({
+  role: z.nativeEnum(ProjectRole),
+})
+
+// Types
+export type InviteMemberInput = z.infer<typeof inviteMemberSchema>
+export type UpdateMemberRoleInput = z.infer<typeof updateMemberRoleSchema>
+
+export interface ProjectMemberResponse {
+  id: number
+  projectId: number
+  userId: number
+  role: ProjectRole
+  invitedById: number | null
+  createdAt: Date
+  updatedAt: Date
+  user: {
+    id: number
+    name: string
+    email: string
+  }
+}
+
+export interface ProjectMembersResponse {
+  owner: ProjectResponse['user']
+  members: ProjectMemberResponse[]
+}
+
+const memberInclude = {
+  user: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  },
+} satisfies Prisma.ProjectMemberInclude
+
+// Database operations
+export const projectMemberModel = {
+  /**
+   * A user's role in a project: OWNER for the project's owner, the stored
+   * role for members, null for everyone else or a deleted project
+   */
+  async findRole(
+    projectId: number,
+    userId: number,
+  ): Promise<ProjectRole | null> {
+    try {
+      const project = await prisma.project.findFirst({
+        where: { id: projectId, deletedAt: null },
+        select: {
+          userId: true,
+          members: { where: { userId }, select: { role: true } },
+        },
+      })
+
+      if (!project) {
+        return null
+      }
+      if (project.userId === userId) {
+        return ProjectRole.OWNER
+      }
+      return project.members[0]?.role ?? null
+    } catch (error) {
+      console.error('Error fetching project role:', error)
+      throw new ProjectError('Failed to fetch project role', 500)
+    }
+  },
+
+  async findMany(projectId: number): Promise<ProjectMemberResponse[]> {
+    try {
+      return await prisma.projectMember.findMany({
+        where: { projectId },
+        include: memberInclude,
+        orderBy: { createdAt: 'asc' },
+      })
+    } catch (error) {
+      console.error('Error fetching project members:', error)
+      throw new ProjectError('Failed to fetch project members', 500)
+    }
+  },
+
+  async findByUser(
+    projectId: number,
+    userId: number,
+  ): Promise<ProjectMemberResponse | null> {
+    try {
+      return await prisma.projectMember.findUnique({
+        where: { projectId_userId: { projectId, userId } },
+        include: memberInclude,
+      })
+    } catch (error) {
+      console.error('Error fetching project member:', error)
+      throw new ProjectError('Failed to fetch project member', 500)
+    }
+  },
+
+  async create(
+    projectId: number,
+    userId: number,
+    role: ProjectRole,
+    invitedById: number,
+  ): Promise<ProjectMemberResponse> {
+    try {
+      return await prisma.projectMember.create({
+        data: { projectId, userId, role, invitedById },
+        include: memberInclude,
+      })
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ProjectError('User is already a member of this project', 409)
+      }
+      console.error('Error adding project member:', error)
+      throw new ProjectError('Failed to add project member', 500)
+    }
+  },
+
+  async updateRole(
+    id: number,
+    role: ProjectRole,
+  ): Promise<ProjectMemberResponse> {
+    try {
+      return await prisma.projectMember.update({
+        where: { id },
+        data: { role },
+        include: memberInclude,
+      })
+    } catch (error) {
+      console.error('Error updating project member:', error)
+      throw new ProjectError('Failed to update project member', 500)
+    }
+  },
+
+  async delete(id: number): Promise<void> {
+    try {
+      await prisma.projectMember.delete({ where: { id } })
+    } catch (error) {
+      console.error('Error removing project member:', error)
+      throw new ProjectError('Failed to remove project member', 500)
+    }
+  },
+}
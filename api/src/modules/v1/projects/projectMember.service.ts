@@ -0,0 +1,129 @@
+import { projectModel, ProjectError, ProjectResponse } from './project.model'
+import {
+  projectMemberModel,
+  InviteMemberInput,
+  UpdateMemberRoleInput,
+  ProjectMemberResponse,
+  ProjectMembersResponse,
+} from './projectMember.model'
+import { projectService } from './project.service'
+import { notificationService } from '../notifications/notification.service'
+import prisma from '../../../config/db'
+
+export class ProjectMemberService {
+  // Get a project's owner and members
+  async getMembers(
+    projectId: number,
+    requestingUserId: number,
+  ): Promise<ProjectMembersResponse> {
+    const project = await projectService.getProjectById(
+      projectId,
+      requestingUserId,
+    )
+
+    return {
+      owner: project.user,
+      members: await projectMemberModel.findMany(projectId),
+    }
+  }
+
+  // Add an existing user to a project with a role
+  async inviteMember(
+    projectId: number,
+    data: InviteMemberInput,
+    requestingUserId: number,
+  ): Promise<ProjectMemberResponse> {
+    const project = await this.findManagedProject(projectId, requestingUserId)
+
+    const user = await prisma.user.findFirst({
+      where: {
+        ...(data.userId ? { id: data.userId } : { email: data.email }),
+        deletedAt: null,
+      },
+      select: { id: true },
+    })
+    if (!user) {
+      throw new ProjectError('User not found', 404)
+    }
+    if (user.id === project.userId) {
+      throw new ProjectError('The project owner is already a member', 400)
+    }
+
+    const member = await projectMemberModel.create(
+      projectId,
+      user.id,
+      data.role,
+      requestingUserId,
+    )
+
+    await notificationService.notifyProjectInvite({
+      userId: user.id,
+      actorId: requestingUserId,
+      modelType: 'Project',
+      modelId: project.uuid,
+      message: `You were added to "${project.title}" as ${data.role.toLowerCase()}`,
+    })
+
+    return member
+  }
+
+  // Change a member's role
+  async updateMemberRole(
+    projectId: number,
+    userId: number,
+    data: UpdateMemberRoleInput,
+    requestingUserId: number,
+  ): Promise<ProjectMemberResponse> {
+    await this.findManagedProject(projectId, requestingUserId)
+    const member = await this.findMember(projectId, userId)
+
+    return await projectMemberModel.updateRole(member.id, data.role)
+  }
+
+  // Remove a member; members may also leave on their own
+  async removeMember(
+    projectId: number,
+    userId: number,
+    requestingUserId: number,
+  ): Promise<void> {
+    if (userId !== requestingUserId) {
+      await this.findManagedProject(projectId, requestingUserId)
+    }
+    const member = await this.findMember(projectId, userId)
+
+    await projectMemberModel.delete(member.id)
+  }
+
+  private async findManagedProject(
+    projectId: number,
+    requestingUserId: number,
+  ): Promise<ProjectResponse> {
+    const project = await projectModel.findById(projectId, requestingUserId)
+    if (!project) {
+      throw new ProjectError('Project not found', 404)
+    }
+
+    if (!(await projectService.canManageProject(project, requestingUserId))) {
+      throw new ProjectError(
+        'Insufficient permissions to manage project members',
+        403,
+      )
+    }
+
+    return project
+  }
+
+  // The owner is not a stored member, so cannot be changed or removed here
+  private async findMember(
+    projectId: number,
+    userId: number,
+  ): Promise<ProjectMemberResponse> {
+    const member = await projectMemberModel.findByUser(projectId, userId)
+    if (!member) {
+      throw new ProjectError('Member not found', 404)
+    }
+    return member
+  }
+}
+
+export const projectMemberService = new ProjectMemberService()
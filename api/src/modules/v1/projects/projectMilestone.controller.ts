@@ -0,0 +1,243 @@
+import { Request, Response, NextFunction } from 'express'
+import { ZodError } from 'zod'
+import { projectMilestoneService } from './projectMilestone.service'
+import {
+  createMilestoneSchema,
+  updateMilestoneSchema,
+  milestoneQuerySchema,
+} from './projectMilestone.model'
+import { ProjectError } from './project.model'
+import {
+  createSuccessResponse,
+  createErrorResponse,
+} from '../../../utils/response'
+
+export class ProjectMilestoneController {
+  // GET /projects/:id/milestones
+  async getMilestones(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const projectId = parseInt(req.params.id)
+      if (isNaN(projectId)) {
+        return createErrorResponse(res, 'Invalid project ID', undefined, 400)
+      }
+
+      const queryParams = milestoneQuerySchema.parse(req.query)
+      const milestones = await projectMilestoneService.getMilestones(
+        projectId,
+        queryParams,
+        userId,
+      )
+
+      return createSuccessResponse(
+        res,
+        'Milestones retrieved successfully',
+        milestones,
+      )
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(
+          res,
+          'Invalid query parameters',
+          err.issues,
+          400,
+        )
+      }
+      if (err instanceof ProjectError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // GET /projects/:id/milestones/:milestoneId
+  async getMilestoneById(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const projectId = parseInt(req.params.id)
+      const milestoneId = parseInt(req.params.milestoneId)
+      if (isNaN(projectId) || isNaN(milestoneId)) {
+        return createErrorResponse(
+          res,
+          'Invalid project or milestone ID',
+          undefined,
+          400,
+        )
+      }
+
+      const milestone = await projectMilestoneService.getMilestoneById(
+        projectId,
+        milestoneId,
+        userId,
+      )
+
+      return createSuccessResponse(
+        res,
+        'Milestone retrieved successfully',
+        milestone,
+      )
+    } catch (err) {
+      if (err instanceof ProjectError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // POST /projects/:id/milestones
+  async createMilestone(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const projectId = parseInt(req.params.id)
+      if (isNaN(projectId)) {
+        return createErrorResponse(res, 'Invalid project ID', undefined, 400)
+      }
+
+      const validatedData = createMilestoneSchema.parse(req.body)
+      const milestone = await projectMilestoneService.createMilestone(
+        projectId,
+        validatedData,
+        userId,
+      )
+
+      console.info('Milestone created', {
+        milestoneId: milestone.id,
+        projectId,
+        userId,
+      })
+
+      return createSuccessResponse(
+        res,
+        'Milestone created successfully',
+        milestone,
+        201,
+      )
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(res, 'Validation failed', err.issues, 400)
+      }
+      if (err instanceof ProjectError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // PUT /projects/:id/milestones/:milestoneId
+  async updateMilestone(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const projectId = parseInt(req.params.id)
+      const milestoneId = parseInt(req.params.milestoneId)
+      if (isNaN(projectId) || isNaN(milestoneId)) {
+        return createErrorResponse(
+          res,
+          'Invalid project or milestone ID',
+          undefined,
+          400,
+        )
+      }
+
+      const validatedData = updateMilestoneSchema.parse(req.body)
+      const milestone = await projectMilestoneService.updateMilestone(
+        projectId,
+        milestoneId,
+        validatedData,
+        userId,
+      )
+
+      return createSuccessResponse(
+        res,
+        'Milestone updated successfully',
+        milestone,
+      )
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(res, 'Validation failed', err.issues, 400)
+      }
+      if (err instanceof ProjectError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // DELETE /projects/:id/milestones/:milestoneId
+  async deleteMilestone(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const projectId = parseInt(req.params.id)
+      const milestoneId = parseInt(req.params.milestoneId)
+      if (isNaN(projectId) || isNaN(milestoneId)) {
+        return createErrorResponse(
+          res,
+          'Invalid project or milestone ID',
+          undefined,
+          400,
+        )
+      }
+
+      await projectMilestoneService.deleteMilestone(
+        projectId,
+        milestoneId,
+        userId,
+      )
+
+      console.info('Milestone deleted', { milestoneId, projectId, userId })
+
+      return createSuccessResponse(res, 'Milestone deleted successfully', null)
+    } catch (err) {
+      if (err instanceof ProjectError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+}
+
+export const projectMilestoneController = new ProjectMilestoneController()
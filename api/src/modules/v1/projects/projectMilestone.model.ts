@@ -0,0 +1,243 @@
+import { z } from 'zod'
+import { MilestoneStatus, Prisma, TaskStatus } from '@prisma/client'
+import prisma from '../../../config/db'
+import { ProjectError } from './project.model'
+
+// An open milestone this close to its target date is at risk while work
+// remains
+export const MILESTONE_AT_RISK_DAYS = 7
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Unfinished tasks in these statuses put their milestone at risk
+const STALLED_STATUSES: TaskStatus[] = [TaskStatus.BLOCKED, TaskStatus.ON_HOLD]
+
+// Validation schemas
+export const createMilestoneSchema = z.object({
+  title: z.string().min(1, 'Title is required').max(200, 'Title too long'),
+  description: z.string().max(2000, 'Description too long').optional(),
+  targetDate: z.string().datetime(),
+})
+
+export const updateMilestoneSchema = z.object({
+  title: z
+    .string()
+    .min(1, 'Title is required')
+    .max(200, 'Title too long')
+    .optional(),
+  description: z
+    .string()
+    .max(2000, 'Description too long')
+    .nullable()
+    .optional(),
+  targetDate: z.string().datetime().optional(),
+  status: z.nativeEnum(MilestoneStatus).optional(),
+})
+
+export const milestoneQuerySchema = z.object({
+  status: z.nativeEnum(MilestoneStatus).optional(),
+})
+
+// Types
+export type CreateMilestoneInput = z.infer<typeof createMilestoneSchema>
+export type UpdateMilestoneInput = z.infer<typeof updateMilestoneSchema>
+export type MilestoneQuery = z.infer<typeof milestoneQuerySchema>
+
+export interface MilestoneTask {
+  id: number
+  uuid: string
+  title: string
+  status: TaskStatus
+  dueAt: Date | null
+  userId: number | null
+}
+
+export interface MilestoneRecord {
+  id: number
+  uuid: string
+  projectId: number
+  title: string
+  description: string | null
+  targetDate: Date
+  status: MilestoneStatus
+  completedAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+  tasks: MilestoneTask[]
+}
+
+export interface MilestoneResponse extends MilestoneRecord {
+  progress: {
+    total: number
+    done: number
+    // Share of tasks DONE, 0-100
+    percent: number
+  }
+  // Open and past its target date
+  isLate: boolean
+  // Open, not yet late, and unlikely to make its target date
+  isAtRisk: boolean
+}
+
+// Only tasks still in the milestone's project count towards it
+const milestoneInclude = (projectId: number) =>
+  ({
+    tasks: {
+      where: { projectId, deletedAt: null },
+      select: {
+        id: true,
+        uuid: true,
+        title: true,
+        status: true,
+        dueAt: true,
+        userId: true,
+      },
+      orderBy: [{ dueAt: { sort: 'asc', nulls: 'last' } }, { id: 'asc' }],
+    },
+  }) satisfies Prisma.MilestoneInclude
+
+/**
+ * Progress of a milestone from its tasks' statuses, and whether it is late
+ * or at risk. An open milestone is at risk when, with work left, its target
+ * date is near, a task is blocked or on hold, or a task is due after it.
+ */
+export function withProgress(
+  milestone: MilestoneRecord,
+  now: Date = new Date(),
+): MilestoneResponse {
+  const total = milestone.tasks.length
+  const done = milestone.tasks.filter(
+    (task) => task.status === TaskStatus.DONE,
+  ).length
+  const percent = total === 0 ? 0 : Math.round((done / total) * 100)
+
+  const open = milestone.status === MilestoneStatus.OPEN
+  const isLate = open && milestone.targetDate < now
+
+  const remaining = milestone.tasks.filter(
+    (task) => task.status !== TaskStatus.DONE,
+  )
+  const isAtRisk =
+    open &&
+    !isLate &&
+    remaining.length > 0 &&
+    (milestone.targetDate.getTime() - now.getTime() <=
+      MILESTONE_AT_RISK_DAYS * DAY_MS ||
+      remaining.some(
+        (task) =>
+          STALLED_STATUSES.includes(task.status) ||
+          (task.dueAt !== null && task.dueAt > milestone.targetDate),
+      ))
+
+  return {
+    ...milestone,
+    progress: { total, done, percent },
+    isLate,
+    isAtRisk,
+  }
+}
+
+// Database operations
+export const projectMilestoneModel = {
+  async findMany(
+    projectId: number,
+    query: MilestoneQuery,
+  ): Promise<MilestoneRecord[]> {
+    try {
+      return await prisma.milestone.findMany({
+        where: {
+          projectId,
+          ...(query.status && { status: query.status }),
+        },
+        include: milestoneInclude(projectId),
+        orderBy: [{ targetDate: 'asc' }, { id: 'asc' }],
+      })
+    } catch (error) {
+      console.error('Error fetching milestones:', error)
+      throw new ProjectError('Failed to fetch milestones', 500)
+    }
+  },
+
+  async findById(
+    projectId: number,
+    id: number,
+  ): Promise<MilestoneRecord | null> {
+    try {
+      return await prisma.milestone.findFirst({
+        where: { id, projectId },
+        include: milestoneInclude(projectId),
+      })
+    } catch (error) {
+      console.error('Error fetching milestone:', error)
+      throw new ProjectError('Failed to fetch milestone', 500)
+    }
+  },
+
+  async create(
+    projectId: number,
+    data: CreateMilestoneInput,
+  ): Promise<MilestoneRecord> {
+    try {
+      return await prisma.milestone.create({
+        data: {
+          projectId,
+          title: data.title,
+          description: data.description,
+          targetDate: new Date(data.targetDate),
+        },
+        include: milestoneInclude(projectId),
+      })
+    } catch (error) {
+      console.error('Error creating milestone:', error)
+      throw new ProjectError('Failed to create milestone', 500)
+    }
+  },
+
+  async update(
+    projectId: number,
+    id: number,
+    data: UpdateMilestoneInput,
+  ): Promise<MilestoneRecord> {
+    try {
+      return await prisma.milestone.update({
+        where: { id },
+        data: {
+          ...(data.title && { title: data.title }),
+          ...(data.description !== undefined && {
+            description: data.description,
+          }),
+          ...(data.targetDate && { targetDate: new Date(data.targetDate) }),
+          ...(data.status && {
+            status: data.status,
+            completedAt:
+              data.status === MilestoneStatus.COMPLETED ? new Date() : null,
+          }),
+        },
+        include: milestoneInclude(projectId),
+      })
+    } catch (error) {
+      console.error('Error updating milestone:', error)
+      throw new ProjectError('Failed to update milestone', 500)
+    }
+  },
+
+  // Its tasks stay in the project without a milestone
+  async delete(id: number): Promise<void> {
+    try {
+      await prisma.milestone.delete({ where: { id } })
+    } catch (error) {
+      console.error('Error deleting milestone:', error)
+      throw new ProjectError('Failed to delete milestone', 500)
+    }
+  },
+
+  async belongsToProject(id: number, projectId: number): Promise<boolean> {
+    try {
+      const count = await prisma.milestone.count({ where: { id, projectId } })
+      return count > 0
+    } catch (error) {
+      console.error('Error fetching milestone:', error)
+      throw new ProjectError('Failed to fetch milestone', 500)
+    }
+  },
+}
@@ -0,0 +1,112 @@
+import { ProjectError, projectModel, ProjectResponse } from './project.model'
+import {
+  projectMilestoneModel,
+  withProgress,
+  CreateMilestoneInput,
+  UpdateMilestoneInput,
+  MilestoneQuery,
+  MilestoneResponse,
+} from './projectMilestone.model'
+import { projectService } from './project.service'
+
+export class ProjectMilestoneService {
+  // Get a project's milestones with their tasks and progress
+  async getMilestones(
+    projectId: number,
+    query: MilestoneQuery,
+    requestingUserId: number,
+  ): Promise<MilestoneResponse[]> {
+    await projectService.getProjectById(projectId, requestingUserId)
+
+    const milestones = await projectMilestoneModel.findMany(projectId, query)
+    const now = new Date()
+    return milestones.map((milestone) => withProgress(milestone, now))
+  }
+
+  // Get a milestone with its tasks and progress
+  async getMilestoneById(
+    projectId: number,
+    milestoneId: number,
+    requestingUserId: number,
+  ): Promise<MilestoneResponse> {
+    await projectService.getProjectById(projectId, requestingUserId)
+
+    return withProgress(await this.findMilestone(projectId, milestoneId))
+  }
+
+  // Create milestone
+  async createMilestone(
+    projectId: number,
+    data: CreateMilestoneInput,
+    requestingUserId: number,
+  ): Promise<MilestoneResponse> {
+    await this.assertCanModify(projectId, requestingUserId)
+
+    return withProgress(await projectMilestoneModel.create(projectId, data))
+  }
+
+  // Update milestone
+  async updateMilestone(
+    projectId: number,
+    milestoneId: number,
+    data: UpdateMilestoneInput,
+    requestingUserId: number,
+  ): Promise<MilestoneResponse> {
+    await this.assertCanModify(projectId, requestingUserId)
+    const milestone = await this.findMilestone(projectId, milestoneId)
+
+    // Only a change of status moves completedAt
+    const { status, ...rest } = data
+    const changes =
+      status && status !== milestone.status ? { ...rest, status } : rest
+
+    return withProgress(
+      await projectMilestoneModel.update(projectId, milestoneId, changes),
+    )
+  }
+
+  // Delete milestone; its tasks are kept
+  async deleteMilestone(
+    projectId: number,
+    milestoneId: number,
+    requestingUserId: number,
+  ): Promise<void> {
+    await this.assertCanModify(projectId, requestingUserId)
+    await this.findMilestone(projectId, milestoneId)
+
+    await projectMilestoneModel.delete(milestoneId)
+  }
+
+  // Editors and owners of the project, and admins, manage its milestones
+  private async assertCanModify(
+    projectId: number,
+    requestingUserId: number,
+  ): Promise<ProjectResponse> {
+    const project = await projectModel.findById(projectId, requestingUserId)
+    if (!project) {
+      throw new ProjectError('Project not found', 404)
+    }
+
+    if (!(await projectService.canModifyProject(project, requestingUserId))) {
+      throw new ProjectError(
+        'Insufficient permissions to manage milestones',
+        403,
+      )
+    }
+
+    return project
+  }
+
+  private async findMilestone(projectId: number, milestoneId: number) {
+    const milestone = await projectMilestoneModel.findById(
+      projectId,
+      milestoneId,
+    )
+    if (!milestone) {
+      throw new ProjectError('Milestone not found', 404)
+    }
+    return milestone
+  }
+}
+
+export const projectMilestoneService = new ProjectMilestoneService()
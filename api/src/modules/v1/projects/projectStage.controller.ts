@@ -0,0 +1,180 @@
+import { Request, Response, NextFunction } from 'express'
+import { ZodError } from 'zod'
+import { projectStageService } from './projectStage.service'
+import {
+  createStageApprovalSchema,
+  updateStageGatesSchema,
+} from './projectStage.model'
+import { ProjectError } from './project.model'
+import {
+  createSuccessResponse,
+  createErrorResponse,
+} from '../../../utils/response'
+
+export class ProjectStageController {
+  // GET /projects/:id/stage-history
+  async getStageHistory(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const projectId = parseInt(req.params.id)
+      if (isNaN(projectId)) {
+        return createErrorResponse(res, 'Invalid project ID', undefined, 400)
+      }
+
+      const history = await projectStageService.getStageHistory(
+        projectId,
+        userId,
+      )
+
+      return createSuccessResponse(
+        res,
+        'Stage history retrieved successfully',
+        history,
+      )
+    } catch (err) {
+      if (err instanceof ProjectError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // GET /projects/:id/stage-gates
+  async getStageGates(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const projectId = parseInt(req.params.id)
+      if (isNaN(projectId)) {
+        return createErrorResponse(res, 'Invalid project ID', undefined, 400)
+      }
+
+      const gates = await projectStageService.getStageGates(projectId, userId)
+
+      return createSuccessResponse(
+        res,
+        'Stage gates retrieved successfully',
+        gates,
+      )
+    } catch (err) {
+      if (err instanceof ProjectError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // PUT /projects/:id/stage-gates
+  async updateStageGates(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const projectId = parseInt(req.params.id)
+      if (isNaN(projectId)) {
+        return createErrorResponse(res, 'Invalid project ID', undefined, 400)
+      }
+
+      const validatedData = updateStageGatesSchema.parse(req.body)
+      const gates = await projectStageService.updateStageGates(
+        projectId,
+        validatedData,
+        userId,
+      )
+
+      console.info('Project stage gates updated', {
+        projectId,
+        gates: gates.length,
+        userId,
+      })
+
+      return createSuccessResponse(
+        res,
+        'Stage gates updated successfully',
+        gates,
+      )
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(res, 'Validation failed', err.issues, 400)
+      }
+      if (err instanceof ProjectError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // POST /projects/:id/stage-approvals
+  async approveStage(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const projectId = parseInt(req.params.id)
+      if (isNaN(projectId)) {
+        return createErrorResponse(res, 'Invalid project ID', undefined, 400)
+      }
+
+      const validatedData = createStageApprovalSchema.parse(req.body)
+      const approval = await projectStageService.approveStage(
+        projectId,
+        validatedData,
+        userId,
+      )
+
+      console.info('Project stage approved', {
+        projectId,
+        stage: approval.stage,
+        userId,
+      })
+
+      return createSuccessResponse(
+        res,
+        'Stage change approved successfully',
+        approval,
+        201,
+      )
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(res, 'Validation failed', err.issues, 400)
+      }
+      if (err instanceof ProjectError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+}
+
+export const projectStageController = new ProjectStageController()
@@ -0,0 +1,360 @@
+import { z } from 'zod'
+import {
+  Prisma,
+  ProjectStage,
+  ProjectStageGateType,
+  TaskStatus,
+  UserRole,
+} from '@prisma/client'
+import prisma from '../../../config/db'
+import { ProjectError } from './project.model'
+
+// Validation schemas
+export const stageGateSchema = z.discriminatedUnion('type', [
+  z.object({
+    stage: z.nativeEnum(ProjectStage),
+    type: z.literal(ProjectStageGateType.TASK_STATUS),
+    taskStatuses: z.array(z.nativeEnum(TaskStatus)).min(1),
+  }),
+  z.object({
+    stage: z.nativeEnum(ProjectStage),
+    type: z.literal(ProjectStageGateType.APPROVAL),
+    approverRole: z.nativeEnum(UserRole),
+  }),
+])
+
+export const updateStageGatesSchema = z.object({
+  gates: z.array(stageGateSchema).max(50),
+})
+
+export const createStageApprovalSchema = z.object({
+  stage: z.nativeEnum(ProjectStage),
+  comment: z.string().trim().max(1000).optional(),
+})
+
+// Types
+export type StageGateInput = z.infer<typeof stageGateSchema>
+export type UpdateStageGatesInput = z.infer<typeof updateStageGatesSchema>
+export type CreateStageApprovalInput = z.infer<typeof createStageApprovalSchema>
+
+interface StageUser {
+  id: number
+  name: string
+  email: string
+}
+
+export interface StageTransitionResponse {
+  id: number
+  projectId: number
+  userId: number | null
+  fromStage: ProjectStage | null
+  toStage: ProjectStage
+  comment: string | null
+  createdAt: Date
+  user: StageUser | null
+}
+
+export interface StageGateResponse {
+  id: number
+  projectId: number
+  stage: ProjectStage
+  type: ProjectStageGateType
+  taskStatuses: TaskStatus[]
+  approverRole: UserRole | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface StageApprovalResponse {
+  id: number
+  projectId: number
+  stage: ProjectStage
+  approvedById: number | null
+  comment: string | null
+  usedAt: Date | null
+  createdAt: Date
+  approvedBy: StageUser | null
+}
+
+export interface StageHistoryResponse {
+  projectId: number
+  stage: ProjectStage
+  stageSince: Date
+  // Seconds spent in each stage, including the current one up to now
+  timeInStage: Record<ProjectStage, number>
+  transitions: StageTransitionResponse[]
+}
+
+export interface StageChange {
+  projectId: number
+  to: ProjectStage
+  userId: number
+}
+
+const userSelect = {
+  select: {
+    id: true,
+    name: true,
+    email: true,
+  },
+}
+
+// Superadmins may approve any stage
+function canApprove(role: UserRole, approverRole: UserRole): boolean {
+  return role === approverRole || role === UserRole.SUPERADMIN
+}
+
+/**
+ * Works out how long a project spent in each stage from its transitions,
+ * oldest first. Projects that predate the history start in the stage their
+ * first transition left, or their current stage when there is none.
+ */
+export function stageDurations(
+  project: { stage: ProjectStage; createdAt: Date },
+  transitions: Pick<
+    StageTransitionResponse,
+    'fromStage' | 'toStage' | 'createdAt'
+  >[],
+  now: Date = new Date(),
+): { timeInStage: Record<ProjectStage, number>; stageSince: Date } {
+  const timeInStage = Object.values(ProjectStage).reduce(
+    (acc, stage) => {
+      acc[stage] = 0
+      return acc
+    },
+    {} as Record<ProjectStage, number>,
+  )
+
+  const first = transitions[0]
+  let stage = first ? (first.fromStage ?? first.toStage) : project.stage
+  let since = project.createdAt
+
+  for (const transition of transitions) {
+    timeInStage[stage] += Math.max(
+      0,
+      Math.floor((transition.createdAt.getTime() - since.getTime()) / 1000),
+    )
+    stage = transition.toStage
+    since = transition.createdAt
+  }
+
+  timeInStage[stage] += Math.max(
+    0,
+    Math.floor((now.getTime() - since.getTime()) / 1000),
+  )
+
+  return { timeInStage, stageSince: since }
+}
+
+// Database operations
+export const projectStageModel = {
+  async findTransitions(projectId: number): Promise<StageTransitionResponse[]> {
+    try {
+      return await prisma.projectStageTransition.findMany({
+        where: { projectId },
+        include: { user: userSelect },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      })
+    } catch (error) {
+      console.error('Error fetching stage history:', error)
+      throw new ProjectError('Failed to fetch stage history', 500)
+    }
+  },
+
+  async findGates(
+    projectId: number,
+    stage?: ProjectStage,
+    db: Prisma.TransactionClient = prisma,
+  ): Promise<StageGateResponse[]> {
+    try {
+      return await db.projectStageGate.findMany({
+        where: { projectId, ...(stage && { stage }) },
+        orderBy: { id: 'asc' },
+      })
+    } catch (error) {
+      console.error('Error fetching stage gates:', error)
+      throw new ProjectError('Failed to fetch stage gates', 500)
+    }
+  },
+
+  async replaceGates(
+    projectId: number,
+    gates: StageGateInput[],
+  ): Promise<StageGateResponse[]> {
+    try {
+      await prisma.$transaction([
+        prisma.projectStageGate.deleteMany({ where: { projectId } }),
+        prisma.projectStageGate.createMany({
+          data: gates.map((gate) => ({
+            projectId,
+            stage: gate.stage,
+            type: gate.type,
+            taskStatuses:
+              gate.type === ProjectStageGateType.TASK_STATUS
+                ? gate.taskStatuses
+                : [],
+            approverRole:
+              gate.type === ProjectStageGateType.APPROVAL
+                ? gate.approverRole
+                : null,
+          })),
+        }),
+      ])
+
+      return await this.findGates(projectId)
+    } catch (error) {
+      if (error instanceof ProjectError) {
+        throw error
+      }
+      console.error('Error saving stage gates:', error)
+      throw new ProjectError('Failed to save stage gates', 500)
+    }
+  },
+
+  async createApproval(
+    projectId: number,
+    data: CreateStageApprovalInput,
+    approvedById: number,
+  ): Promise<StageApprovalResponse> {
+    try {
+      return await prisma.projectStageApproval.create({
+        data: {
+          projectId,
+          stage: data.stage,
+          comment: data.comment,
+          approvedById,
+        },
+        include: { approvedBy: userSelect },
+      })
+    } catch (error) {
+      console.error('Error creating stage approval:', error)
+      throw new ProjectError('Failed to approve stage change', 500)
+    }
+  },
+
+  /**
+   * Throws a 409 when the project does not meet the gates of the stage it
+   * is about to enter. Returns the approvals the change uses up; approval
+   * gates are met without one when the user changing the stage could
+   * approve it themselves. Runs in the transaction that changes the stage.
+   */
+  async assertStageChange(
+    change: StageChange,
+    tx: Prisma.TransactionClient,
+  ): Promise<number[]> {
+    const gates = await this.findGates(change.projectId, change.to, tx)
+    if (gates.length === 0) {
+      return []
+    }
+
+    const approvalIds: number[] = []
+    let userRole: UserRole | undefined
+
+    for (const gate of gates) {
+      if (gate.type === ProjectStageGateType.TASK_STATUS) {
+        const blocking = await tx.task.count({
+          where: {
+            projectId: change.projectId,
+            status: { in: gate.taskStatuses },
+            deletedAt: null,
+          },
+        })
+        if (blocking > 0) {
+          throw new ProjectError(
+            `Cannot enter ${change.to} while ${blocking} task(s) are ${gate.taskStatuses.join(' or ')}`,
+            409,
+          )
+        }
+        continue
+      }
+
+      if (!gate.approverRole) {
+        continue
+      }
+      const approverRole = gate.approverRole
+      userRole ??= (
+        await tx.user.findUnique({
+          where: { id: change.userId },
+          select: { role: true },
+        })
+      )?.role
+      if (userRole && canApprove(userRole, approverRole)) {
+        continue
+      }
+
+      const approval = await tx.projectStageApproval.findFirst({
+        where: {
+          projectId: change.projectId,
+          stage: change.to,
+          usedAt: null,
+          id: { notIn: approvalIds },
+          approvedBy: {
+            role: { in: [approverRole, UserRole.SUPERADMIN] },
+          },
+        },
+        orderBy: { createdAt: 'asc' },
+        select: { id: true },
+      })
+      if (!approval) {
+        throw new ProjectError(
+          `Entering ${change.to} requires approval by a ${approverRole}`,
+          409,
+        )
+      }
+      approvalIds.push(approval.id)
+    }
+
+    return approvalIds
+  },
+
+  /**
+   * Whether a user's role lets them approve every approval gate that
+   * replacing the project's gates with the given ones adds or removes
+   */
+  async canReplaceApprovalGates(
+    projectId: number,
+    gates: StageGateInput[],
+    role: UserRole,
+  ): Promise<boolean> {
+    const removed = (await this.findGates(projectId)).filter(
+      (gate) => gate.type === ProjectStageGateType.APPROVAL,
+    )
+    const changedRoles: UserRole[] = []
+
+    for (const gate of gates) {
+      if (gate.type !== ProjectStageGateType.APPROVAL) continue
+
+      const kept = removed.findIndex(
+        (current) =>
+          current.stage === gate.stage &&
+          current.approverRole === gate.approverRole,
+      )
+      if (kept === -1) {
+        changedRoles.push(gate.approverRole)
+      } else {
+        removed.splice(kept, 1)
+      }
+    }
+    for (const gate of removed) {
+      if (gate.approverRole !== null) changedRoles.push(gate.approverRole)
+    }
+
+    return changedRoles.every((approverRole) => canApprove(role, approverRole))
+  },
+
+  // Whether a user's role lets them approve entering a stage of the project
+  async canApproveStage(
+    projectId: number,
+    stage: ProjectStage,
+    role: UserRole,
+  ): Promise<boolean> {
+    const gates = await this.findGates(projectId, stage)
+
+    return gates.some(
+      (gate) =>
+        gate.type === ProjectStageGateType.APPROVAL &&
+        gate.approverRole !== null &&
+        canApprove(role, gate.approverRole),
+    )
+  },
+}
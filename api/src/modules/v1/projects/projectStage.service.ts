@@ -0,0 +1,134 @@
+import { ProjectError, projectModel, ProjectResponse } from './project.model'
+import {
+  projectStageModel,
+  stageDurations,
+  CreateStageApprovalInput,
+  StageApprovalResponse,
+  StageGateResponse,
+  StageHistoryResponse,
+  UpdateStageGatesInput,
+} from './projectStage.model'
+import { projectService } from './project.service'
+import prisma from '../../../config/db'
+import { hasAdminRole } from '../../../utils/auth'
+
+export class ProjectStageService {
+  // Get a project's stage transitions and how long it spent in each stage
+  async getStageHistory(
+    projectId: number,
+    requestingUserId: number,
+  ): Promise<StageHistoryResponse> {
+    const project = await projectService.getProjectById(
+      projectId,
+      requestingUserId,
+    )
+
+    const transitions = await projectStageModel.findTransitions(projectId)
+    const { timeInStage, stageSince } = stageDurations(project, transitions)
+
+    return {
+      projectId,
+      stage: project.stage,
+      stageSince,
+      timeInStage,
+      transitions,
+    }
+  }
+
+  // Get the gates configured for a project's stages
+  async getStageGates(
+    projectId: number,
+    requestingUserId: number,
+  ): Promise<StageGateResponse[]> {
+    await projectService.getProjectById(projectId, requestingUserId)
+
+    return await projectStageModel.findGates(projectId)
+  }
+
+  // Replace all of a project's stage gates
+  async updateStageGates(
+    projectId: number,
+    data: UpdateStageGatesInput,
+    requestingUserId: number,
+  ): Promise<StageGateResponse[]> {
+    const project = await this.findProject(projectId, requestingUserId)
+
+    if (!(await projectService.canManageProject(project, requestingUserId))) {
+      throw new ProjectError(
+        'Insufficient permissions to change stage gates',
+        403,
+      )
+    }
+
+    // Approval gates are set up by admins or by those who would approve them
+    if (!(await hasAdminRole(requestingUserId))) {
+      const user = await prisma.user.findUnique({
+        where: { id: requestingUserId },
+        select: { role: true },
+      })
+
+      if (
+        !user ||
+        !(await projectStageModel.canReplaceApprovalGates(
+          projectId,
+          data.gates,
+          user.role,
+        ))
+      ) {
+        throw new ProjectError(
+          'Insufficient permissions to change approval gates',
+          403,
+        )
+      }
+    }
+
+    return await projectStageModel.replaceGates(projectId, data.gates)
+  }
+
+  // Approve a project entering a stage that has an approval gate
+  async approveStage(
+    projectId: number,
+    data: CreateStageApprovalInput,
+    requestingUserId: number,
+  ): Promise<StageApprovalResponse> {
+    await projectService.getProjectById(projectId, requestingUserId)
+
+    const user = await prisma.user.findUnique({
+      where: { id: requestingUserId },
+      select: { role: true },
+    })
+
+    if (
+      !user ||
+      !(await projectStageModel.canApproveStage(
+        projectId,
+        data.stage,
+        user.role,
+      ))
+    ) {
+      throw new ProjectError(
+        `Not allowed to approve entering ${data.stage} for this project`,
+        403,
+      )
+    }
+
+    return await projectStageModel.createApproval(
+      projectId,
+      data,
+      requestingUserId,
+    )
+  }
+
+  private async findProject(
+    projectId: number,
+    requestingUserId: number,
+  ): Promise<ProjectResponse> {
+    const project = await projectModel.findById(projectId, requestingUserId)
+    if (!project) {
+      throw new ProjectError('Project not found', 404)
+    }
+    return project
+  }
+}
+
+export const projectStageService = new ProjectStageService()
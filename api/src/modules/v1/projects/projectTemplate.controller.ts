@@ -0,0 +1,315 @@
+import { Request, Response, NextFunction } from 'express'
+import { ZodError } from 'zod'
+import { projectTemplateService } from './projectTemplate.service'
+import {
+  createProjectTemplateSchema,
+  updateProjectTemplateSchema,
+  projectTemplateQuerySchema,
+  instantiateProjectTemplateSchema,
+  cloneProjectSchema,
+} from './projectTemplate.model'
+import { ProjectError } from './project.model'
+import {
+  createSuccessResponse,
+  createErrorResponse,
+} from '../../../utils/response'
+
+export class ProjectTemplateController {
+  // POST /projects/:id/template
+  async saveAsTemplate(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const projectId = parseInt(req.params.id)
+      if (isNaN(projectId)) {
+        return createErrorResponse(res, 'Invalid project ID', undefined, 400)
+      }
+
+      const validatedData = createProjectTemplateSchema.parse(req.body)
+      const template = await projectTemplateService.saveAsTemplate(
+        projectId,
+        validatedData,
+        userId,
+      )
+
+      console.info('Project template created', {
+        templateId: template.id,
+        projectId,
+        userId,
+      })
+
+      return createSuccessResponse(
+        res,
+        'Project template created successfully',
+        template,
+        201,
+      )
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(res, 'Validation failed', err.issues, 400)
+      }
+      if (err instanceof ProjectError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // POST /projects/:id/clone
+  async cloneProject(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const projectId = parseInt(req.params.id)
+      if (isNaN(projectId)) {
+        return createErrorResponse(res, 'Invalid project ID', undefined, 400)
+      }
+
+      const validatedData = cloneProjectSchema.parse(req.body)
+      const project = await projectTemplateService.cloneProject(
+        projectId,
+        validatedData,
+        userId,
+      )
+
+      console.info('Project cloned', {
+        projectId: project.id,
+        sourceProjectId: projectId,
+        userId,
+      })
+
+      return createSuccessResponse(
+        res,
+        'Project cloned successfully',
+        project,
+        201,
+      )
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(res, 'Validation failed', err.issues, 400)
+      }
+      if (err instanceof ProjectError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // GET /projects/templates
+  async getTemplates(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const queryParams = projectTemplateQuerySchema.parse(req.query)
+      const templates = await projectTemplateService.getTemplates(
+        queryParams,
+        userId,
+      )
+
+      return createSuccessResponse(
+        res,
+        'Project templates retrieved successfully',
+        templates,
+      )
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(
+          res,
+          'Invalid query parameters',
+          err.issues,
+          400,
+        )
+      }
+      if (err instanceof ProjectError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // GET /projects/templates/:templateId
+  async getTemplateById(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const templateId = parseInt(req.params.templateId)
+      if (isNaN(templateId)) {
+        return createErrorResponse(res, 'Invalid template ID', undefined, 400)
+      }
+
+      const template = await projectTemplateService.getTemplateById(
+        templateId,
+        userId,
+      )
+
+      return createSuccessResponse(
+        res,
+        'Project template retrieved successfully',
+        template,
+      )
+    } catch (err) {
+      if (err instanceof ProjectError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // PUT /projects/templates/:templateId
+  async updateTemplate(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const templateId = parseInt(req.params.templateId)
+      if (isNaN(templateId)) {
+        return createErrorResponse(res, 'Invalid template ID', undefined, 400)
+      }
+
+      const validatedData = updateProjectTemplateSchema.parse(req.body)
+      const template = await projectTemplateService.updateTemplate(
+        templateId,
+        validatedData,
+        userId,
+      )
+
+      return createSuccessResponse(
+        res,
+        'Project template updated successfully',
+        template,
+      )
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(res, 'Validation failed', err.issues, 400)
+      }
+      if (err instanceof ProjectError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // DELETE /projects/templates/:templateId
+  async deleteTemplate(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const templateId = parseInt(req.params.templateId)
+      if (isNaN(templateId)) {
+        return createErrorResponse(res, 'Invalid template ID', undefined, 400)
+      }
+
+      await projectTemplateService.deleteTemplate(templateId, userId)
+
+      console.info('Project template deleted', { templateId, userId })
+
+      return createSuccessResponse(
+        res,
+        'Project template deleted successfully',
+        null,
+      )
+    } catch (err) {
+      if (err instanceof ProjectError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // POST /projects/templates/:templateId/instantiate
+  async instantiateTemplate(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const templateId = parseInt(req.params.templateId)
+      if (isNaN(templateId)) {
+        return createErrorResponse(res, 'Invalid template ID', undefined, 400)
+      }
+
+      const validatedData = instantiateProjectTemplateSchema.parse(req.body)
+      const project = await projectTemplateService.instantiateTemplate(
+        templateId,
+        validatedData,
+        userId,
+      )
+
+      console.info('Project created from template', {
+        projectId: project.id,
+        templateId,
+        userId,
+      })
+
+      return createSuccessResponse(
+        res,
+        'Project created successfully',
+        project,
+        201,
+      )
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(res, 'Validation failed', err.issues, 400)
+      }
+      if (err instanceof ProjectError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+}
+
+export const projectTemplateController = new ProjectTemplateController()
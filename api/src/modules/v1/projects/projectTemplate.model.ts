@@ -0,0 +1,431 @@
+import { z } from 'zod'
+import {
+  NoteStatus,
+  Prisma,
+  ProjectStage,
+  ProjectStageGateType,
+  TaskStatus,
+  UserRole,
+} from '@prisma/client'
+import { Decimal } from '@prisma/client/runtime/library'
+import prisma, { withTransaction } from '../../../config/db'
+import { ProjectError } from './project.model'
+import { createData } from '../tasks/task.model'
+
+// Projects from large templates take longer than the default 5 seconds
+const CREATE_TIMEOUT_MS = 60000
+
+// Validation schemas
+export const createProjectTemplateSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(200, 'Name too long'),
+  description: z.string().max(2000, 'Description too long').optional(),
+  // Start projects made from the template in the source project's stage
+  includeStage: z.boolean().optional().default(false),
+  includeNotes: z.boolean().optional().default(true),
+})
+
+export const updateProjectTemplateSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Name is required')
+    .max(200, 'Name too long')
+    .optional(),
+  description: z
+    .string()
+    .max(2000, 'Description too long')
+    .nullable()
+    .optional(),
+})
+
+export const projectTemplateQuerySchema = z.object({
+  search: z.string().optional(),
+  userId: z.coerce.number().int().positive().optional(),
+  page: z.coerce.number().int().min(1).optional().default(1),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(20),
+})
+
+export const instantiateProjectTemplateSchema = z.object({
+  title: z.string().min(1, 'Title is required').max(200, 'Title too long'),
+  // Task due dates keep their distance from this date
+  startDate: z.string().datetime(),
+  stage: z.nativeEnum(ProjectStage).optional(),
+})
+
+export const cloneProjectSchema = z.object({
+  title: z.string().min(1, 'Title is required').max(200, 'Title too long'),
+  // Task due dates move by as much as the start date does
+  startDate: z.string().datetime(),
+  includeStage: z.boolean().optional().default(false),
+  includeNotes: z.boolean().optional().default(true),
+})
+
+// Types
+export type CreateProjectTemplateInput = z.infer<
+  typeof createProjectTemplateSchema
+>
+export type UpdateProjectTemplateInput = z.infer<
+  typeof updateProjectTemplateSchema
+>
+export type ProjectTemplateQuery = z.infer<typeof projectTemplateQuerySchema>
+export type InstantiateProjectTemplateInput = z.infer<
+  typeof instantiateProjectTemplateSchema
+>
+export type CloneProjectInput = z.infer<typeof cloneProjectSchema>
+
+export interface ProjectTemplateTaskResponse {
+  id: number
+  templateId: number
+  position: number
+  title: string
+  definitionOfDone: string | null
+  priority: number
+  dueOffsetDays: number | null
+  createdAt: Date
+}
+
+export interface ProjectTemplateNoteResponse {
+  id: number
+  templateId: number
+  position: number
+  title: string
+  description: string | null
+  body: string | null
+  status: NoteStatus
+  createdAt: Date
+}
+
+export interface ProjectTemplateResponse {
+  id: number
+  uuid: string
+  userId: number
+  name: string
+  description: string | null
+  projectDescription: string | null
+  stage: ProjectStage | null
+  billingCycle: string | null
+  rate: Decimal | null
+  currency: string | null
+  createdAt: Date
+  updatedAt: Date
+  tasks: ProjectTemplateTaskResponse[]
+  notes: ProjectTemplateNoteResponse[]
+}
+
+export interface PaginatedProjectTemplatesResponse {
+  templates: ProjectTemplateResponse[]
+  pagination: {
+    page: number
+    limit: number
+    total: number
+    totalPages: number
+  }
+}
+
+export interface ProjectTemplateData {
+  userId: number
+  name: string
+  description: string | null
+  projectDescription: string | null
+  stage: ProjectStage | null
+  billingCycle: string | null
+  rate: Decimal | null
+  currency: string | null
+  tasks: {
+    title: string
+    definitionOfDone: string | null
+    priority: number
+    dueOffsetDays: number | null
+  }[]
+  notes: {
+    title: string
+    description: string | null
+    body: string | null
+    status: NoteStatus
+  }[]
+}
+
+export interface BlueprintTask {
+  // Identifies the task within the blueprint, for its subtasks to refer to
+  key: number
+  parentKey: number | null
+  title: string
+  definitionOfDone: string | null
+  priority: number
+  dueAt: Date | null
+  checklist: { title: string; position: number; isRequired: boolean }[]
+}
+
+// Everything a new project is made of, created in one go
+export interface ProjectBlueprint {
+  title: string
+  description: string | null
+  stage: ProjectStage
+  beganAt: Date
+  billingCycle: string | null
+  rate: Decimal | null
+  currency: string | null
+  // Parents come before their subtasks; titles are unique
+  tasks: BlueprintTask[]
+  notes: {
+    title: string
+    description: string | null
+    body: string | null
+    status: NoteStatus
+  }[]
+  workflow: {
+    transitions: Prisma.JsonValue
+    wipLimit: number | null
+    wipLimitPerAssignee: number | null
+  } | null
+  stageGates: {
+    stage: ProjectStage
+    type: ProjectStageGateType
+    taskStatuses: TaskStatus[]
+    approverRole: UserRole | null
+  }[]
+}
+
+const templateInclude = {
+  tasks: { orderBy: { position: 'asc' } },
+  notes: { orderBy: { position: 'asc' } },
+} satisfies Prisma.ProjectTemplateInclude
+
+// Database operations
+export const projectTemplateModel = {
+  async findMany(
+    query: ProjectTemplateQuery,
+    userId?: number,
+  ): Promise<PaginatedProjectTemplatesResponse> {
+    const { page, limit } = query
+    const where: Prisma.ProjectTemplateWhereInput = {
+      ...(userId && { userId }),
+      ...(query.search && {
+        name: { contains: query.search, mode: 'insensitive' },
+      }),
+    }
+
+    try {
+      const [templates, total] = await Promise.all([
+        prisma.projectTemplate.findMany({
+          where,
+          include: templateInclude,
+          orderBy: [{ name: 'asc' }, { id: 'asc' }],
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.projectTemplate.count({ where }),
+      ])
+
+      return {
+        templates,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      }
+    } catch (error) {
+      console.error('Error fetching project templates:', error)
+      throw new ProjectError('Failed to fetch project templates', 500)
+    }
+  },
+
+  async findById(id: number): Promise<ProjectTemplateResponse | null> {
+    try {
+      return await prisma.projectTemplate.findUnique({
+        where: { id },
+        include: templateInclude,
+      })
+    } catch (error) {
+      console.error('Error fetching project template:', error)
+      throw new ProjectError('Failed to fetch project template', 500)
+    }
+  },
+
+  // What of a project can be copied: live tasks, notes and configuration
+  async findProjectContent(projectId: number) {
+    try {
+      const [tasks, notes, workflow, stageGates] = await Promise.all([
+        prisma.task.findMany({
+          where: { projectId, deletedAt: null },
+          select: {
+            id: true,
+            parentTaskId: true,
+            title: true,
+            definitionOfDone: true,
+            priority: true,
+            dueAt: true,
+            checklistImportedAt: true,
+            checklistItems: {
+              select: { title: true, position: true, isRequired: true },
+              orderBy: { position: 'asc' },
+            },
+          },
+          orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        }),
+        prisma.note.findMany({
+          where: { projectId, deletedAt: null },
+          select: {
+            userId: true,
+            title: true,
+            description: true,
+            body: true,
+            status: true,
+          },
+          orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        }),
+        prisma.projectWorkflow.findUnique({
+          where: { projectId },
+          select: {
+            transitions: true,
+            wipLimit: true,
+            wipLimitPerAssignee: true,
+          },
+        }),
+        prisma.projectStageGate.findMany({
+          where: { projectId },
+          select: {
+            stage: true,
+            type: true,
+            taskStatuses: true,
+            approverRole: true,
+          },
+          orderBy: { id: 'asc' },
+        }),
+      ])
+
+      return { tasks, notes, workflow, stageGates }
+    } catch (error) {
+      console.error('Error fetching project content:', error)
+      throw new ProjectError('Failed to fetch project content', 500)
+    }
+  },
+
+  async create(data: ProjectTemplateData): Promise<ProjectTemplateResponse> {
+    const { tasks, notes, ...template } = data
+
+    try {
+      return await prisma.projectTemplate.create({
+        data: {
+          ...template,
+          tasks: {
+            create: tasks.map((task, position) => ({ ...task, position })),
+          },
+          notes: {
+            create: notes.map((note, position) => ({ ...note, position })),
+          },
+        },
+        include: templateInclude,
+      })
+    } catch (error) {
+      console.error('Error creating project template:', error)
+      throw new ProjectError('Failed to create project template', 500)
+    }
+  },
+
+  async update(
+    id: number,
+    data: UpdateProjectTemplateInput,
+  ): Promise<ProjectTemplateResponse> {
+    try {
+      return await prisma.projectTemplate.update({
+        where: { id },
+        data,
+        include: templateInclude,
+      })
+    } catch (error) {
+      console.error('Error updating project template:', error)
+      throw new ProjectError('Failed to update project template', 500)
+    }
+  },
+
+  async delete(id: number): Promise<void> {
+    try {
+      await prisma.projectTemplate.delete({ where: { id } })
+    } catch (error) {
+      console.error('Error deleting project template:', error)
+      throw new ProjectError('Failed to delete project template', 500)
+    }
+  },
+
+  /**
+   * Create a project with its tasks, notes and configuration in one
+   * transaction, resolving to the new project's id
+   */
+  async createProject(
+    blueprint: ProjectBlueprint,
+    userId: number,
+  ): Promise<number> {
+    try {
+      return await withTransaction(
+        async (tx) => {
+          const project = await tx.project.create({
+            data: {
+              title: blueprint.title,
+              description: blueprint.description,
+              stage: blueprint.stage,
+              userId,
+              beganAt: blueprint.beganAt,
+              billingCycle: blueprint.billingCycle,
+              rate: blueprint.rate,
+              currency: blueprint.currency,
+              stageTransitions: {
+                create: { toStage: blueprint.stage, userId },
+              },
+              ...(blueprint.workflow && {
+                workflow: {
+                  create: {
+                    transitions:
+                      blueprint.workflow.transitions === null
+                        ? Prisma.JsonNull
+                        : (blueprint.workflow
+                            .transitions as Prisma.InputJsonValue),
+                    wipLimit: blueprint.workflow.wipLimit,
+                    wipLimitPerAssignee: blueprint.workflow.wipLimitPerAssignee,
+                  },
+                },
+              }),
+              stageGates: { create: blueprint.stageGates },
+              notes: {
+                create: blueprint.notes.map((note) => ({ ...note, userId })),
+              },
+            },
+            select: { id: true },
+          })
+
+          const ids = new Map<number, number>()
+          for (const task of blueprint.tasks) {
+            const created = await tx.task.create({
+              data: {
+                ...createData(
+                  {
+                    projectId: project.id,
+                    title: task.title,
+                    definitionOfDone: task.definitionOfDone ?? undefined,
+                    priority: task.priority,
+                    dueAt: task.dueAt?.toISOString(),
+                  },
+                  userId,
+                  task.parentKey === null ? undefined : ids.get(task.parentKey),
+                ),
+                // The checklist is copied, so it is not parsed again
+                checklistImportedAt: new Date(),
+                checklistItems: { create: task.checklist },
+              },
+              select: { id: true },
+            })
+            ids.set(task.key, created.id)
+          }
+
+          return project.id
+        },
+        { timeout: CREATE_TIMEOUT_MS },
+      )
+    } catch (error) {
+      console.error('Error creating project from blueprint:', error)
+      throw new ProjectError('Failed to create project', 500)
+    }
+  },
+}
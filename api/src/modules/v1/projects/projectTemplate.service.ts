@@ -0,0 +1,304 @@
+import { ProjectStage } from '@prisma/client'
+import { ProjectError, projectModel, ProjectResponse } from './project.model'
+import {
+  projectTemplateModel,
+  BlueprintTask,
+  CloneProjectInput,
+  CreateProjectTemplateInput,
+  InstantiateProjectTemplateInput,
+  PaginatedProjectTemplatesResponse,
+  ProjectBlueprint,
+  ProjectTemplateQuery,
+  ProjectTemplateResponse,
+  UpdateProjectTemplateInput,
+} from './projectTemplate.model'
+import { projectService } from './project.service'
+import { freeTaskTitle } from '../tasks/task.model'
+import { parseChecklistMarkdown } from '../tasks/taskChecklist.model'
+import { SHARED_NOTE_STATUSES } from '../notes/note.model'
+import { hasAdminRole } from '../../../utils/auth'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+type ProjectContent = Awaited<
+  ReturnType<typeof projectTemplateModel.findProjectContent>
+>
+
+export class ProjectTemplateService {
+  // Save a project's description, billing defaults, tasks and notes
+  async saveAsTemplate(
+    projectId: number,
+    data: CreateProjectTemplateInput,
+    requestingUserId: number,
+  ): Promise<ProjectTemplateResponse> {
+    const project = await projectService.getProjectById(
+      projectId,
+      requestingUserId,
+    )
+    const content = await projectTemplateModel.findProjectContent(projectId)
+    const start = this.projectStart(project)
+
+    return await projectTemplateModel.create({
+      userId: requestingUserId,
+      name: data.name,
+      description: data.description ?? null,
+      projectDescription: project.description,
+      stage: data.includeStage ? project.stage : null,
+      billingCycle: project.billingCycle,
+      rate: project.rate,
+      currency: project.currency,
+      tasks: content.tasks.map((task) => ({
+        title: task.title,
+        definitionOfDone: task.definitionOfDone,
+        priority: task.priority,
+        dueOffsetDays: task.dueAt
+          ? Math.round((task.dueAt.getTime() - start.getTime()) / DAY_MS)
+          : null,
+      })),
+      notes: data.includeNotes
+        ? this.visibleNotes(content, requestingUserId)
+        : [],
+    })
+  }
+
+  // Get templates with search and pagination
+  async getTemplates(
+    query: ProjectTemplateQuery,
+    requestingUserId: number,
+  ): Promise<PaginatedProjectTemplatesResponse> {
+    // Users only see their own templates unless admin
+    const isAdmin = await hasAdminRole(requestingUserId)
+    const userId = isAdmin ? query.userId : requestingUserId
+
+    return await projectTemplateModel.findMany(query, userId)
+  }
+
+  // Get template by ID
+  async getTemplateById(
+    id: number,
+    requestingUserId: number,
+  ): Promise<ProjectTemplateResponse> {
+    return await this.findOwnTemplate(id, requestingUserId)
+  }
+
+  // Rename a template or change its description
+  async updateTemplate(
+    id: number,
+    data: UpdateProjectTemplateInput,
+    requestingUserId: number,
+  ): Promise<ProjectTemplateResponse> {
+    await this.findOwnTemplate(id, requestingUserId)
+
+    return await projectTemplateModel.update(id, data)
+  }
+
+  // Delete template
+  async deleteTemplate(id: number, requestingUserId: number): Promise<void> {
+    await this.findOwnTemplate(id, requestingUserId)
+
+    await projectTemplateModel.delete(id)
+  }
+
+  // Start a new project from a template
+  async instantiateTemplate(
+    id: number,
+    data: InstantiateProjectTemplateInput,
+    requestingUserId: number,
+  ): Promise<ProjectResponse> {
+    const template = await this.findOwnTemplate(id, requestingUserId)
+    const start = new Date(data.startDate)
+
+    const titles = new Set<string>()
+    const tasks = template.tasks.map(
+      (task): BlueprintTask => ({
+        key: task.id,
+        parentKey: null,
+        title: this.claimTitle(task.title, titles),
+        definitionOfDone: task.definitionOfDone,
+        priority: task.priority,
+        dueAt:
+          task.dueOffsetDays === null
+            ? null
+            : new Date(start.getTime() + task.dueOffsetDays * DAY_MS),
+        checklist: this.checklistFromDefinition(task.definitionOfDone),
+      }),
+    )
+
+    return await this.createProject(
+      {
+        title: data.title,
+        description: template.projectDescription,
+        stage: data.stage ?? template.stage ?? ProjectStage.PLANNING,
+        beganAt: start,
+        billingCycle: template.billingCycle,
+        rate: template.rate,
+        currency: template.currency,
+        tasks,
+        notes: template.notes.map((note) => ({
+          title: note.title,
+          description: note.description,
+          body: note.body,
+          status: note.status,
+        })),
+        workflow: null,
+        stageGates: [],
+      },
+      requestingUserId,
+    )
+  }
+
+  /**
+   * Copy a live project with its subtasks, checklists, notes, workflow and
+   * stage gates. Work is reset to the backlog and due dates move with the
+   * new start date.
+   */
+  async cloneProject(
+    projectId: number,
+    data: CloneProjectInput,
+    requestingUserId: number,
+  ): Promise<ProjectResponse> {
+    const project = await projectService.getProjectById(
+      projectId,
+      requestingUserId,
+    )
+    const content = await projectTemplateModel.findProjectContent(projectId)
+    const shift =
+      new Date(data.startDate).getTime() - this.projectStart(project).getTime()
+
+    const titles = new Set<string>()
+    const tasks = content.tasks.map(
+      (task): BlueprintTask => ({
+        key: task.id,
+        parentKey: task.parentTaskId,
+        title: this.claimTitle(task.title, titles),
+        definitionOfDone: task.definitionOfDone,
+        priority: task.priority,
+        dueAt: task.dueAt ? new Date(task.dueAt.getTime() + shift) : null,
+        checklist: task.checklistImportedAt
+          ? task.checklistItems
+          : this.checklistFromDefinition(task.definitionOfDone),
+      }),
+    )
+
+    return await this.createProject(
+      {
+        title: data.title,
+        description: project.description,
+        stage: data.includeStage ? project.stage : ProjectStage.PLANNING,
+        beganAt: new Date(data.startDate),
+        billingCycle: project.billingCycle,
+        rate: project.rate,
+        currency: project.currency,
+        tasks: this.parentsFirst(tasks),
+        notes: data.includeNotes
+          ? this.visibleNotes(content, requestingUserId)
+          : [],
+        workflow: content.workflow,
+        stageGates: content.stageGates,
+      },
+      requestingUserId,
+    )
+  }
+
+  private async createProject(
+    blueprint: ProjectBlueprint,
+    requestingUserId: number,
+  ): Promise<ProjectResponse> {
+    const id = await projectTemplateModel.createProject(
+      blueprint,
+      requestingUserId,
+    )
+
+    const project = await projectModel.findById(id, requestingUserId)
+    if (!project) {
+      throw new ProjectError('Project not found', 404)
+    }
+    return project
+  }
+
+  // Due dates are kept relative to when the project began
+  private projectStart(project: ProjectResponse): Date {
+    return project.beganAt ?? project.createdAt
+  }
+
+  // Titles are unique per project, matching taskModel.create
+  private claimTitle(title: string, titles: Set<string>): string {
+    const free = titles.has(title) ? freeTaskTitle(title, titles) : title
+    titles.add(free)
+    return free
+  }
+
+  private checklistFromDefinition(
+    definitionOfDone: string | null,
+  ): BlueprintTask['checklist'] {
+    return parseChecklistMarkdown(definitionOfDone).map((item, position) => ({
+      title: item.title,
+      position,
+      isRequired: true,
+    }))
+  }
+
+  // Orders tasks so each comes after its parent; orphans become top level
+  private parentsFirst(tasks: BlueprintTask[]): BlueprintTask[] {
+    const byKey = new Map(tasks.map((task) => [task.key, task]))
+    const ordered: BlueprintTask[] = []
+    const placed = new Set<number>()
+
+    const place = (task: BlueprintTask) => {
+      if (placed.has(task.key)) {
+        return
+      }
+      placed.add(task.key)
+
+      const parent =
+        task.parentKey === null ? undefined : byKey.get(task.parentKey)
+      if (parent) {
+        place(parent)
+      } else {
+        task.parentKey = null
+      }
+      ordered.push(task)
+    }
+
+    tasks.forEach(place)
+    return ordered
+  }
+
+  // Other users' drafts stay private
+  private visibleNotes(content: ProjectContent, requestingUserId: number) {
+    return content.notes
+      .filter(
+        (note) =>
+          note.userId === requestingUserId ||
+          SHARED_NOTE_STATUSES.includes(note.status),
+      )
+      .map(({ title, description, body, status }) => ({
+        title,
+        description,
+        body,
+        status,
+      }))
+  }
+
+  // Creator and admins can see and manage a template
+  private async findOwnTemplate(
+    id: number,
+    requestingUserId: number,
+  ): Promise<ProjectTemplateResponse> {
+    const template = await projectTemplateModel.findById(id)
+    if (!template) {
+      throw new ProjectError('Project template not found', 404)
+    }
+
+    if (
+      template.userId !== requestingUserId &&
+      !(await hasAdminRole(requestingUserId))
+    ) {
+      throw new ProjectError('Access denied', 403)
+    }
+
+    return template
+  }
+}
+
+export const projectTemplateService = new ProjectTemplateService()
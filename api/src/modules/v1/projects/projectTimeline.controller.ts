@@ -0,0 +1,102 @@
+import { Request, Response, NextFunction } from 'express'
+import { ZodError } from 'zod'
+import { projectTimelineService } from './projectTimeline.service'
+import {
+  projectTimelineQuerySchema,
+  portfolioTimelineQuerySchema,
+} from './projectTimeline.model'
+import { ProjectError } from './project.model'
+import {
+  createSuccessResponse,
+  createErrorResponse,
+} from '../../../utils/response'
+
+export class ProjectTimelineController {
+  // GET /projects/timeline
+  async getPortfolioTimeline(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const queryParams = portfolioTimelineQuerySchema.parse(req.query)
+      const timeline = await projectTimelineService.getPortfolioTimeline(
+        queryParams,
+        userId,
+      )
+
+      return createSuccessResponse(
+        res,
+        'Portfolio timeline retrieved successfully',
+        timeline,
+      )
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(
+          res,
+          'Invalid query parameters',
+          err.issues,
+          400,
+        )
+      }
+      if (err instanceof ProjectError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // GET /projects/:id/timeline
+  async getProjectTimeline(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const projectId = parseInt(req.params.id)
+      if (isNaN(projectId)) {
+        return createErrorResponse(res, 'Invalid project ID', undefined, 400)
+      }
+
+      const queryParams = projectTimelineQuerySchema.parse(req.query)
+      const timeline = await projectTimelineService.getProjectTimeline(
+        projectId,
+        queryParams,
+        userId,
+      )
+
+      return createSuccessResponse(
+        res,
+        'Project timeline retrieved successfully',
+        timeline,
+      )
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(
+          res,
+          'Invalid query parameters',
+          err.issues,
+          400,
+        )
+      }
+      if (err instanceof ProjectError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+}
+
+export const projectTimelineController = new ProjectTimelineController()
@@ -0,0 +1,181 @@
+import { z } from 'zod'
+import {
+  MilestoneStatus,
+  Prisma,
+  ProjectStage,
+  TaskStatus,
+} from '@prisma/client'
+import prisma from '../../../config/db'
+import { ProjectError } from './project.model'
+
+// Validation schemas
+export const projectTimelineQuerySchema = z.object({
+  groupBy: z.enum(['status', 'assignee']).optional().default('status'),
+})
+
+export const portfolioTimelineQuerySchema = z.object({
+  groupBy: z.enum(['stage', 'assignee']).optional().default('stage'),
+  stage: z.nativeEnum(ProjectStage).optional(),
+  // Admins can look at another user's portfolio
+  userId: z.coerce.number().int().positive().optional(),
+})
+
+// Types
+export type ProjectTimelineQuery = z.infer<typeof projectTimelineQuerySchema>
+export type PortfolioTimelineQuery = z.infer<
+  typeof portfolioTimelineQuerySchema
+>
+export type TimelineGroupBy = 'status' | 'stage' | 'assignee'
+
+export interface TimelineDates {
+  start: Date | null
+  end: Date | null
+}
+
+export interface TimelineTaskBar {
+  id: number
+  uuid: string
+  title: string
+  projectId: number
+  parentTaskId: number | null
+  milestoneId: number | null
+  status: TaskStatus
+  assignee: { id: number; name: string } | null
+  // Planned to start once its blockers are due, and to end when it is due
+  planned: TimelineDates
+  // An open task that has started runs up to today
+  actual: TimelineDates
+  open: boolean
+  // IDs of the tasks that must finish first
+  blockedBy: number[]
+}
+
+export interface TimelineProjectBar {
+  id: number
+  uuid: string
+  title: string
+  stage: ProjectStage
+  // From the first planned task start to the last due date or milestone
+  planned: TimelineDates
+  // From when the project began to when it completed, or up to today
+  actual: TimelineDates
+  open: boolean
+}
+
+export interface TimelineGroup {
+  key: string
+  label: string
+  tasks: TimelineTaskBar[]
+}
+
+export interface TimelineMilestone {
+  id: number
+  projectId: number
+  title: string
+  targetDate: Date
+  status: MilestoneStatus
+}
+
+export interface ProjectTimelineResponse {
+  today: Date
+  groupBy: TimelineGroupBy
+  project: TimelineProjectBar
+  groups: TimelineGroup[]
+  milestones: TimelineMilestone[]
+}
+
+export interface PortfolioTimelineResponse {
+  today: Date
+  groupBy: TimelineGroupBy
+  projects: TimelineProjectBar[]
+  groups: TimelineGroup[]
+  milestones: TimelineMilestone[]
+}
+
+const timelineTaskSelect = {
+  id: true,
+  uuid: true,
+  title: true,
+  projectId: true,
+  parentTaskId: true,
+  milestoneId: true,
+  status: true,
+  dueAt: true,
+  startedAt: true,
+  endedAt: true,
+  createdAt: true,
+  user: { select: { id: true, name: true } },
+  blockedBy: {
+    where: { blockerTask: { deletedAt: null } },
+    select: { blockerTask: { select: { id: true, dueAt: true } } },
+  },
+} satisfies Prisma.TaskSelect
+
+export type TimelineTask = Prisma.TaskGetPayload<{
+  select: typeof timelineTaskSelect
+}>
+
+const timelineProjectSelect = {
+  id: true,
+  uuid: true,
+  title: true,
+  stage: true,
+  beganAt: true,
+  completedAt: true,
+  createdAt: true,
+} satisfies Prisma.ProjectSelect
+
+export type TimelineProject = Prisma.ProjectGetPayload<{
+  select: typeof timelineProjectSelect
+}>
+
+// Database operations
+export const projectTimelineModel = {
+  async findProjects(
+    where: Prisma.ProjectWhereInput,
+  ): Promise<TimelineProject[]> {
+    try {
+      return await prisma.project.findMany({
+        where: { ...where, deletedAt: null },
+        select: timelineProjectSelect,
+        orderBy: [{ beganAt: { sort: 'asc', nulls: 'last' } }, { id: 'asc' }],
+      })
+    } catch (error) {
+      console.error('Error fetching timeline projects:', error)
+      throw new ProjectError('Failed to fetch timeline projects', 500)
+    }
+  },
+
+  // Live tasks of the projects with their assignee and blockers, in one query
+  async findTasks(projectIds: number[]): Promise<TimelineTask[]> {
+    try {
+      return await prisma.task.findMany({
+        where: { projectId: { in: projectIds }, deletedAt: null },
+        select: timelineTaskSelect,
+        orderBy: { id: 'asc' },
+      })
+    } catch (error) {
+      console.error('Error fetching timeline tasks:', error)
+      throw new ProjectError('Failed to fetch timeline tasks', 500)
+    }
+  },
+
+  async findMilestones(projectIds: number[]): Promise<TimelineMilestone[]> {
+    try {
+      return await prisma.milestone.findMany({
+        where: { projectId: { in: projectIds } },
+        select: {
+          id: true,
+          projectId: true,
+          title: true,
+          targetDate: true,
+          status: true,
+        },
+        orderBy: [{ targetDate: 'asc' }, { id: 'asc' }],
+      })
+    } catch (error) {
+      console.error('Error fetching timeline milestones:', error)
+      throw new ProjectError('Failed to fetch timeline milestones', 500)
+    }
+  },
+}
@@ -0,0 +1,248 @@
+import { ProjectStage, TaskStatus } from '@prisma/client'
+import { projectMemberWhere } from './project.model'
+import {
+  projectTimelineModel,
+  ProjectTimelineQuery,
+  PortfolioTimelineQuery,
+  ProjectTimelineResponse,
+  PortfolioTimelineResponse,
+  TimelineGroup,
+  TimelineGroupBy,
+  TimelineMilestone,
+  TimelineProject,
+  TimelineProjectBar,
+  TimelineTask,
+  TimelineTaskBar,
+} from './projectTimeline.model'
+import { projectService } from './project.service'
+import { plannedStarts } from '../../../utils/timeline'
+import { hasAdminRole } from '../../../utils/auth'
+
+const earliest = (dates: (Date | null)[]): Date | null =>
+  dates.reduce<Date | null>(
+    (min, date) => (date && (!min || date < min) ? date : min),
+    null,
+  )
+
+const latest = (dates: (Date | null)[]): Date | null =>
+  dates.reduce<Date | null>(
+    (max, date) => (date && (!max || date > max) ? date : max),
+    null,
+  )
+
+export class ProjectTimelineService {
+  // A project's tasks as Gantt bars, with its milestones
+  async getProjectTimeline(
+    projectId: number,
+    query: ProjectTimelineQuery,
+    requestingUserId: number,
+  ): Promise<ProjectTimelineResponse> {
+    const project = await projectService.getProjectById(
+      projectId,
+      requestingUserId,
+    )
+
+    const [tasks, milestones] = await Promise.all([
+      projectTimelineModel.findTasks([project.id]),
+      projectTimelineModel.findMilestones([project.id]),
+    ])
+    const today = new Date()
+    const bars = this.toTaskBars(tasks, [project], today)
+
+    return {
+      today,
+      groupBy: query.groupBy,
+      project: this.toProjectBar(project, bars, milestones, today),
+      groups: this.group(bars, query.groupBy, [project]),
+      milestones,
+    }
+  }
+
+  // Every project the user can see, with all their tasks
+  async getPortfolioTimeline(
+    query: PortfolioTimelineQuery,
+    requestingUserId: number,
+  ): Promise<PortfolioTimelineResponse> {
+    // Users only see projects they own or belong to unless admin
+    const isAdmin = await hasAdminRole(requestingUserId)
+    const userId = isAdmin ? query.userId : requestingUserId
+
+    const projects = await projectTimelineModel.findProjects({
+      ...(userId && projectMemberWhere(userId)),
+      ...(query.stage && { stage: query.stage }),
+    })
+    const projectIds = projects.map((project) => project.id)
+    const [tasks, milestones] = await Promise.all([
+      projectTimelineModel.findTasks(projectIds),
+      projectTimelineModel.findMilestones(projectIds),
+    ])
+    const today = new Date()
+    const bars = this.toTaskBars(tasks, projects, today)
+
+    const barsByProject = new Map<number, TimelineTaskBar[]>()
+    for (const bar of bars) {
+      const projectBars = barsByProject.get(bar.projectId) ?? []
+      projectBars.push(bar)
+      barsByProject.set(bar.projectId, projectBars)
+    }
+    const milestonesByProject = new Map<number, TimelineMilestone[]>()
+    for (const milestone of milestones) {
+      const projectMilestones =
+        milestonesByProject.get(milestone.projectId) ?? []
+      projectMilestones.push(milestone)
+      milestonesByProject.set(milestone.projectId, projectMilestones)
+    }
+
+    return {
+      today,
+      groupBy: query.groupBy,
+      projects: projects.map((project) =>
+        this.toProjectBar(
+          project,
+          barsByProject.get(project.id) ?? [],
+          milestonesByProject.get(project.id) ?? [],
+          today,
+        ),
+      ),
+      groups: this.group(bars, query.groupBy, projects),
+      milestones,
+    }
+  }
+
+  private toTaskBars(
+    tasks: TimelineTask[],
+    projects: TimelineProject[],
+    today: Date,
+  ): TimelineTaskBar[] {
+    const projectsById = new Map(
+      projects.map((project) => [project.id, project]),
+    )
+
+    // Nothing is planned to start before its project began
+    const starts = plannedStarts(
+      tasks.map((task) => {
+        const beganAt = projectsById.get(task.projectId)?.beganAt
+        return {
+          id: task.id,
+          earliestStart:
+            beganAt && beganAt > task.createdAt ? beganAt : task.createdAt,
+          dueAt: task.dueAt,
+          blockers: task.blockedBy.map((dependency) => dependency.blockerTask),
+        }
+      }),
+    )
+
+    return tasks.map((task) => {
+      const open = task.status !== TaskStatus.DONE
+
+      return {
+        id: task.id,
+        uuid: task.uuid,
+        title: task.title,
+        projectId: task.projectId,
+        parentTaskId: task.parentTaskId,
+        milestoneId: task.milestoneId,
+        status: task.status,
+        assignee: task.user,
+        planned: { start: starts.get(task.id) ?? null, end: task.dueAt },
+        actual: {
+          start: task.startedAt,
+          end: task.endedAt ?? (open && task.startedAt ? today : null),
+        },
+        open,
+        blockedBy: task.blockedBy.map(
+          (dependency) => dependency.blockerTask.id,
+        ),
+      }
+    })
+  }
+
+  private toProjectBar(
+    project: TimelineProject,
+    bars: TimelineTaskBar[],
+    milestones: TimelineMilestone[],
+    today: Date,
+  ): TimelineProjectBar {
+    const start =
+      project.beganAt ?? earliest(bars.map((bar) => bar.actual.start))
+    const open = !project.completedAt
+
+    return {
+      id: project.id,
+      uuid: project.uuid,
+      title: project.title,
+      stage: project.stage,
+      planned: {
+        start: earliest(bars.map((bar) => bar.planned.start)),
+        end: latest([
+          ...bars.map((bar) => bar.planned.end),
+          ...milestones.map((milestone) => milestone.targetDate),
+        ]),
+      },
+      actual: {
+        start,
+        end: project.completedAt ?? (start ? today : null),
+      },
+      open,
+    }
+  }
+
+  // Groups in board or stage order, assignees by name with the unassigned last
+  private group(
+    bars: TimelineTaskBar[],
+    groupBy: TimelineGroupBy,
+    projects: TimelineProject[],
+  ): TimelineGroup[] {
+    const stages = new Map(
+      projects.map((project) => [project.id, project.stage]),
+    )
+    const groups = new Map<string, TimelineGroup>()
+
+    for (const bar of bars) {
+      let key: string
+      let label: string
+      if (groupBy === 'assignee') {
+        key = bar.assignee ? String(bar.assignee.id) : 'unassigned'
+        label = bar.assignee?.name ?? 'Unassigned'
+      } else {
+        key =
+          groupBy === 'stage'
+            ? (stages.get(bar.projectId) as ProjectStage)
+            : bar.status
+        label = key
+      }
+
+      const group = groups.get(key) ?? { key, label, tasks: [] }
+      group.tasks.push(bar)
+      groups.set(key, group)
+    }
+
+    const order: string[] =
+      groupBy === 'status'
+        ? Object.values(TaskStatus)
+        : groupBy === 'stage'
+          ? Object.values(ProjectStage)
+          : []
+    const rank = (group: TimelineGroup) =>
+      groupBy === 'assignee'
+        ? group.key === 'unassigned'
+          ? 1
+          : 0
+        : order.indexOf(group.key)
+
+    // Tasks without a planned start sort last
+    const plannedTime = (bar: TimelineTaskBar) =>
+      bar.planned.start?.getTime() ?? Number.MAX_SAFE_INTEGER
+
+    return [...groups.values()]
+      .sort((a, b) => rank(a) - rank(b) || a.label.localeCompare(b.label))
+      .map((group) => ({
+        ...group,
+        tasks: group.tasks.sort(
+          (a, b) => plannedTime(a) - plannedTime(b) || a.id - b.id,
+        ),
+      }))
+  }
+}
+
+export const projectTimelineService = new ProjectTimelineService()
@@ -7,6 +7,7 @@ import {
   SettingResponse,
 } from './setting.model'
 import prisma from '../../../config/db'
+import { hasAdminRole } from '../../../utils/auth'
 
 // Custom error class for settings
 class SettingError extends Error {
@@ -35,7 +36,7 @@ export class SettingService {
 
     if (
       data.visibility === SettingVisibility.ADMIN &&
-      !(await this.isAdmin(requestingUserId))
+      !(await hasAdminRole(requestingUserId))
     ) {
       throw new SettingError(
         'Insufficient permissions to create admin settings',
@@ -144,7 +145,7 @@ export class SettingService {
       }
       if (
         data.visibility === SettingVisibility.ADMIN &&
-        !(await this.isAdmin(requestingUserId))
+        !(await hasAdminRole(requestingUserId))
       ) {
         throw new SettingError(
           'Insufficient permissions to set admin visibility',
@@ -183,7 +184,7 @@ export class SettingService {
     // Users can only access their own settings unless they're admin
     if (
       userId !== requestingUserId &&
-      !(await this.isAdmin(requestingUserId))
+      !(await hasAdminRole(requestingUserId))
     ) {
       throw new SettingError('Access denied', 403)
     }
@@ -198,7 +199,7 @@ export class SettingService {
   // Get system settings
   async getSystemSettings(category?: string, requestingUserId?: number) {
     // Only admins can access system settings
-    if (!(await this.isAdmin(requestingUserId))) {
+    if (!(await hasAdminRole(requestingUserId))) {
       throw new SettingError('Access denied', 403)
     }
 
@@ -225,7 +226,7 @@ export class SettingService {
 
   // Get settings statistics
   async getSettingsStats(requestingUserId?: number) {
-    if (!(await this.isAdmin(requestingUserId))) {
+    if (!(await hasAdminRole(requestingUserId))) {
       throw new SettingError('Access denied', 403)
     }
 
@@ -256,12 +257,12 @@ export class SettingService {
 
     // Admin settings require admin access
     if (setting.visibility === SettingVisibility.ADMIN) {
-      return await this.isAdmin(requestingUserId)
+      return await hasAdminRole(requestingUserId)
     }
 
     // User settings can be accessed by the owner or admin
     if (setting.visibility === SettingVisibility.USER) {
-      const userIsAdmin = await this.isAdmin(requestingUserId)
+      const userIsAdmin = await hasAdminRole(requestingUserId)
       return userIsAdmin || setting.userId === requestingUserId
     }
 
@@ -279,12 +280,12 @@ export class SettingService {
 
     // Admin settings require admin
     if (setting.visibility === SettingVisibility.ADMIN) {
-      return await this.isAdmin(requestingUserId)
+      return await hasAdminRole(requestingUserId)
     }
 
     // User settings can be modified by owner or admin
     if (setting.visibility === SettingVisibility.USER) {
-      const userIsAdmin = await this.isAdmin(requestingUserId)
+      const userIsAdmin = await hasAdminRole(requestingUserId)
       return userIsAdmin || setting.userId === requestingUserId
     }
 
@@ -297,7 +298,7 @@ export class SettingService {
   ): Promise<SettingQuery> {
     const filteredQuery = { ...query }
 
-    if (!(await this.isAdmin(requestingUserId))) {
+    if (!(await hasAdminRole(requestingUserId))) {
       // Non-admin users can only see their own USER settings
       filteredQuery.visibility = SettingVisibility.USER
       filteredQuery.userId = requestingUserId
@@ -306,26 +307,6 @@ export class SettingService {
     return filteredQuery
   }
 
-  private async isAdmin(userId?: number): Promise<boolean> {
-    if (!userId) return false
-
-    try {
-      const user = await prisma.user.findUnique({
-        where: { id: userId },
-        select: { role: true },
-      })
-
-      return (
-        user?.role === UserRole.ADMIN ||
-        user?.role === UserRole.MANAGER ||
-        user?.role === UserRole.SUPERADMIN
-      )
-    } catch (error) {
-      console.error('Error checking admin status:', error)
-      return false
-    }
-  }
-
   private async isSystemAdmin(userId?: number): Promise<boolean> {
     if (!userId) return false
 
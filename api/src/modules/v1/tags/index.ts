@@ -0,0 +1,3 @@
+import router from './tag.routes'
+
+export default router
@@ -0,0 +1,271 @@
+import { Request, Response, NextFunction } from 'express'
+import { ZodError } from 'zod'
+import { tagService } from './tag.service'
+import {
+  createTagSchema,
+  updateTagSchema,
+  mergeTagSchema,
+  setTagsSchema,
+  TagError,
+} from './tag.model'
+import {
+  createSuccessResponse,
+  createErrorResponse,
+} from '../../../utils/response'
+
+export class TagController {
+  // GET /tags
+  async getTags(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const tags = await tagService.getTags(userId)
+
+      return createSuccessResponse(res, 'Tags retrieved successfully', tags)
+    } catch (err) {
+      if (err instanceof TagError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // POST /tags
+  async createTag(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const validatedData = createTagSchema.parse(req.body)
+      const tag = await tagService.createTag(validatedData, userId)
+
+      return createSuccessResponse(res, 'Tag created successfully', tag, 201)
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(res, 'Validation failed', err.issues, 400)
+      }
+      if (err instanceof TagError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // PUT /tags/:id
+  async updateTag(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const tagId = parseInt(req.params.id)
+      if (isNaN(tagId)) {
+        return createErrorResponse(res, 'Invalid tag ID', undefined, 400)
+      }
+
+      const validatedData = updateTagSchema.parse(req.body)
+      const tag = await tagService.updateTag(tagId, validatedData, userId)
+
+      return createSuccessResponse(res, 'Tag updated successfully', tag)
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(res, 'Validation failed', err.issues, 400)
+      }
+      if (err instanceof TagError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // DELETE /tags/:id
+  async deleteTag(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const tagId = parseInt(req.params.id)
+      if (isNaN(tagId)) {
+        return createErrorResponse(res, 'Invalid tag ID', undefined, 400)
+      }
+
+      await tagService.deleteTag(tagId, userId)
+
+      return createSuccessResponse(res, 'Tag deleted successfully')
+    } catch (err) {
+      if (err instanceof TagError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // POST /tags/:id/merge
+  async mergeTag(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const tagId = parseInt(req.params.id)
+      if (isNaN(tagId)) {
+        return createErrorResponse(res, 'Invalid tag ID', undefined, 400)
+      }
+
+      const validatedData = mergeTagSchema.parse(req.body)
+      const tag = await tagService.mergeTag(tagId, validatedData, userId)
+
+      return createSuccessResponse(res, 'Tags merged successfully', tag)
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(res, 'Validation failed', err.issues, 400)
+      }
+      if (err instanceof TagError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // PUT /projects/:id/tags
+  async setProjectTags(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const projectId = parseInt(req.params.id)
+      if (isNaN(projectId)) {
+        return createErrorResponse(res, 'Invalid project ID', undefined, 400)
+      }
+
+      const validatedData = setTagsSchema.parse(req.body)
+      const tags = await tagService.setProjectTags(
+        projectId,
+        validatedData,
+        userId,
+      )
+
+      return createSuccessResponse(
+        res,
+        'Project tags updated successfully',
+        tags,
+      )
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(res, 'Validation failed', err.issues, 400)
+      }
+      if (err instanceof TagError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // PUT /tasks/:id/tags
+  async setTaskTags(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const taskId = parseInt(req.params.id)
+      if (isNaN(taskId)) {
+        return createErrorResponse(res, 'Invalid task ID', undefined, 400)
+      }
+
+      const validatedData = setTagsSchema.parse(req.body)
+      const tags = await tagService.setTaskTags(taskId, validatedData, userId)
+
+      return createSuccessResponse(res, 'Task tags updated successfully', tags)
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(res, 'Validation failed', err.issues, 400)
+      }
+      if (err instanceof TagError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // PUT /notes/:uuid/tags
+  async setNoteTags(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const validatedData = setTagsSchema.parse(req.body)
+      const tags = await tagService.setNoteTags(
+        req.params.uuid,
+        validatedData,
+        userId,
+      )
+
+      return createSuccessResponse(res, 'Note tags updated successfully', tags)
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(res, 'Validation failed', err.issues, 400)
+      }
+      if (err instanceof TagError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+}
+
+export const tagController = new TagController()
@@ -0,0 +1,344 @@
+import { z } from 'zod'
+import { Prisma } from '@prisma/client'
+import prisma, { withTransaction } from '../../../config/db'
+
+// Validation schemas
+const tagNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Name is required')
+  .max(50, 'Name too long')
+
+const tagColorSchema = z
+  .string()
+  .regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value like #6b7280')
+  .transform((color) => color.toLowerCase())
+
+export const createTagSchema = z.object({
+  name: tagNameSchema,
+  color: tagColorSchema.optional(),
+})
+
+export const updateTagSchema = z.object({
+  name: tagNameSchema.optional(),
+  color: tagColorSchema.optional(),
+})
+
+export const mergeTagSchema = z.object({
+  // Tag that takes over the merged tag's attachments
+  targetTagId: z.number().int().positive(),
+})
+
+export const setTagsSchema = z.object({
+  tagIds: z.array(z.number().int().positive()).max(50),
+})
+
+/**
+ * Tag filter shared by the project, task and note list queries. `tag`
+ * takes a comma separated list or repeats; `tagMode` decides whether
+ * records need any or all of the named tags.
+ */
+export const tagQueryFields = {
+  tag: z
+    .union([z.string(), z.array(z.string())])
+    .transform((value) =>
+      [value]
+        .flat()
+        .flatMap((names) => names.split(','))
+        .map((name) => name.trim())
+        .filter(Boolean),
+    )
+    .optional(),
+  tagMode: z.enum(['any', 'all']).optional(),
+}
+
+// Types
+export type CreateTagInput = z.infer<typeof createTagSchema>
+export type UpdateTagInput = z.infer<typeof updateTagSchema>
+export type MergeTagInput = z.infer<typeof mergeTagSchema>
+export type SetTagsInput = z.infer<typeof setTagsSchema>
+
+export type TaggableModel = 'project' | 'task' | 'note'
+
+export interface TagQuery {
+  tag?: string[]
+  tagMode?: 'any' | 'all'
+}
+
+export interface TagSummary {
+  id: number
+  name: string
+  color: string
+}
+
+export interface TagResponse extends TagSummary {
+  uuid: string
+  userId: number
+  createdAt: Date
+  updatedAt: Date
+  _count?: {
+    projects: number
+    tasks: number
+    notes: number
+  }
+}
+
+export class TagError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400,
+  ) {
+    super(message)
+    this.name = 'TagError'
+  }
+}
+
+// Included wherever projects, tasks or notes are returned. Tags are
+// private, so a shared record only shows the viewer's own tags.
+export function tagSummaryInclude(userId: number) {
+  return {
+    where: { userId },
+    select: {
+      id: true,
+      name: true,
+      color: true,
+    },
+    orderBy: { name: 'asc' as const },
+  }
+}
+
+const tagCountInclude = {
+  _count: {
+    select: {
+      projects: { where: { deletedAt: null } },
+      tasks: { where: { deletedAt: null } },
+      notes: { where: { deletedAt: null } },
+    },
+  },
+} satisfies Prisma.TagInclude
+
+/**
+ * Where conditions for a tag filter on the user's own tags. Names match
+ * case-insensitively; in 'all' mode every name needs its own match.
+ */
+export function tagWhere(
+  query: TagQuery,
+  userId: number,
+): { tags: { some: Prisma.TagWhereInput } }[] {
+  if (!query.tag || query.tag.length === 0) {
+    return []
+  }
+
+  const nameFilter = (name: string): Prisma.TagWhereInput => ({
+    userId,
+    name: { equals: name, mode: 'insensitive' },
+  })
+
+  if (query.tagMode === 'all') {
+    return query.tag.map((name) => ({ tags: { some: nameFilter(name) } }))
+  }
+  return [{ tags: { some: { OR: query.tag.map(nameFilter) } } }]
+}
+
+// Database operations
+export const tagModel = {
+  async findMany(userId: number): Promise<TagResponse[]> {
+    try {
+      return await prisma.tag.findMany({
+        where: { userId },
+        include: tagCountInclude,
+        orderBy: { name: 'asc' },
+      })
+    } catch (error) {
+      console.error('Error fetching tags:', error)
+      throw new TagError('Failed to fetch tags', 500)
+    }
+  },
+
+  async findById(id: number): Promise<TagResponse | null> {
+    try {
+      return await prisma.tag.findUnique({
+        where: { id },
+        include: tagCountInclude,
+      })
+    } catch (error) {
+      console.error('Error fetching tag by ID:', error)
+      throw new TagError('Failed to fetch tag', 500)
+    }
+  },
+
+  // Another tag of the user's with the same name, ignoring case
+  async findByName(
+    userId: number,
+    name: string,
+    excludeId?: number,
+  ): Promise<TagResponse | null> {
+    try {
+      return await prisma.tag.findFirst({
+        where: {
+          userId,
+          name: { equals: name, mode: 'insensitive' },
+          ...(excludeId && { id: { not: excludeId } }),
+        },
+      })
+    } catch (error) {
+      console.error('Error fetching tag by name:', error)
+      throw new TagError('Failed to fetch tag', 500)
+    }
+  },
+
+  async countOwned(userId: number, ids: number[]): Promise<number> {
+    try {
+      return await prisma.tag.count({ where: { userId, id: { in: ids } } })
+    } catch (error) {
+      console.error('Error counting tags:', error)
+      throw new TagError('Failed to fetch tags', 500)
+    }
+  },
+
+  async create(data: CreateTagInput, userId: number): Promise<TagResponse> {
+    try {
+      return await prisma.tag.create({
+        data: { ...data, userId },
+        include: tagCountInclude,
+      })
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new TagError('A tag with this name already exists', 409)
+      }
+      console.error('Error creating tag:', error)
+      throw new TagError('Failed to create tag', 500)
+    }
+  },
+
+  async update(id: number, data: UpdateTagInput): Promise<TagResponse> {
+    try {
+      return await prisma.tag.update({
+        where: { id },
+        data,
+        include: tagCountInclude,
+      })
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError) {
+        if (error.code === 'P2025') {
+          throw new TagError('Tag not found', 404)
+        }
+        if (error.code === 'P2002') {
+          throw new TagError('A tag with this name already exists', 409)
+        }
+      }
+      console.error('Error updating tag:', error)
+      throw new TagError('Failed to update tag', 500)
+    }
+  },
+
+  // Removing a tag detaches it everywhere
+  async delete(id: number): Promise<void> {
+    try {
+      await prisma.tag.delete({ where: { id } })
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2025'
+      ) {
+        throw new TagError('Tag not found', 404)
+      }
+      console.error('Error deleting tag:', error)
+      throw new TagError('Failed to delete tag', 500)
+    }
+  },
+
+  /**
+   * Move every attachment of the source tag onto the target and delete the
+   * source. Records already carrying both end up with the target once.
+   */
+  async merge(sourceId: number, targetId: number): Promise<TagResponse> {
+    try {
+      return await withTransaction(async (tx) => {
+        const source = await tx.tag.findUniqueOrThrow({
+          where: { id: sourceId },
+          select: {
+            projects: { select: { id: true } },
+            tasks: { select: { id: true } },
+            notes: { select: { id: true } },
+          },
+        })
+
+        await tx.tag.update({
+          where: { id: targetId },
+          data: {
+            projects: { connect: source.projects },
+            tasks: { connect: source.tasks },
+            notes: { connect: source.notes },
+          },
+        })
+        await tx.tag.delete({ where: { id: sourceId } })
+
+        return await tx.tag.findUniqueOrThrow({
+          where: { id: targetId },
+          include: tagCountInclude,
+        })
+      })
+    } catch (error) {
+      console.error('Error merging tags:', error)
+      throw new TagError('Failed to merge tags', 500)
+    }
+  },
+
+  /**
+   * Replace the user's own tags on a project, task or note with the given
+   * ones. Tags other users attached stay in place.
+   */
+  async setTags(
+    model: TaggableModel,
+    recordId: number,
+    userId: number,
+    tagIds: number[],
+  ): Promise<TagSummary[]> {
+    try {
+      return await withTransaction(async (tx) => {
+        const current = await tx.tag.findMany({
+          where: { userId, [`${model}s`]: { some: { id: recordId } } },
+          select: { id: true },
+        })
+        const tags = {
+          disconnect: current.filter((tag) => !tagIds.includes(tag.id)),
+          connect: tagIds.map((id) => ({ id })),
+        }
+
+        switch (model) {
+          case 'project':
+            return (
+              await tx.project.update({
+                where: { id: recordId },
+                data: { tags },
+                select: { tags: tagSummaryInclude(userId) },
+              })
+            ).tags
+          case 'task':
+            return (
+              await tx.task.update({
+                where: { id: recordId },
+                data: { tags },
+                select: { tags: tagSummaryInclude(userId) },
+              })
+            ).tags
+          case 'note':
+            return (
+              await tx.note.update({
+                where: { id: recordId },
+                data: { tags },
+                select: { tags: tagSummaryInclude(userId) },
+              })
+            ).tags
+        }
+      })
+    } catch (error) {
+      console.error('Error setting tags:', error)
+      throw new TagError('Failed to update tags', 500)
+    }
+  },
+}
@@ -0,0 +1,16 @@
+import { Router } from 'express'
+import { tagController } from './tag.controller'
+import { auth } from '../../../middlewares/auth'
+
+const router = Router()
+
+// Apply authentication to all routes
+router.use(auth)
+
+router.get('/', tagController.getTags.bind(tagController))
+router.post('/', tagController.createTag.bind(tagController))
+router.put('/:id', tagController.updateTag.bind(tagController))
+router.delete('/:id', tagController.deleteTag.bind(tagController))
+router.post('/:id/merge', tagController.mergeTag.bind(tagController))
+
+export default router
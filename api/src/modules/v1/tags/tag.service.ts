@@ -0,0 +1,169 @@
+import {
+  tagModel,
+  TagError,
+  TagResponse,
+  TagSummary,
+  CreateTagInput,
+  UpdateTagInput,
+  MergeTagInput,
+  SetTagsInput,
+} from './tag.model'
+import { taskModel } from '../tasks/task.model'
+import { taskService } from '../tasks/task.service'
+import { projectModel } from '../projects/project.model'
+import { projectService } from '../projects/project.service'
+import prisma from '../../../config/db'
+
+export class TagService {
+  async getTags(requestingUserId: number): Promise<TagResponse[]> {
+    return await tagModel.findMany(requestingUserId)
+  }
+
+  async createTag(
+    data: CreateTagInput,
+    requestingUserId: number,
+  ): Promise<TagResponse> {
+    await this.assertNameAvailable(requestingUserId, data.name)
+    return await tagModel.create(data, requestingUserId)
+  }
+
+  // Renaming or recoloring shows up everywhere the tag is attached
+  async updateTag(
+    id: number,
+    data: UpdateTagInput,
+    requestingUserId: number,
+  ): Promise<TagResponse> {
+    await this.getOwnTag(id, requestingUserId)
+    if (data.name) {
+      await this.assertNameAvailable(requestingUserId, data.name, id)
+    }
+    return await tagModel.update(id, data)
+  }
+
+  async deleteTag(id: number, requestingUserId: number): Promise<void> {
+    await this.getOwnTag(id, requestingUserId)
+    await tagModel.delete(id)
+  }
+
+  // Fold one tag into another; the merged tag is deleted
+  async mergeTag(
+    id: number,
+    data: MergeTagInput,
+    requestingUserId: number,
+  ): Promise<TagResponse> {
+    if (id === data.targetTagId) {
+      throw new TagError('A tag cannot be merged into itself', 400)
+    }
+
+    await this.getOwnTag(id, requestingUserId)
+    await this.getOwnTag(data.targetTagId, requestingUserId)
+
+    return await tagModel.merge(id, data.targetTagId)
+  }
+
+  async setProjectTags(
+    projectId: number,
+    data: SetTagsInput,
+    requestingUserId: number,
+  ): Promise<TagSummary[]> {
+    const project = await projectModel.findById(projectId, requestingUserId)
+    if (!project) {
+      throw new TagError('Project not found', 404)
+    }
+    if (!(await projectService.canModifyProject(project, requestingUserId))) {
+      throw new TagError('Insufficient permissions to modify this project', 403)
+    }
+
+    await this.assertOwnTags(data.tagIds, requestingUserId)
+    return await tagModel.setTags(
+      'project',
+      projectId,
+      requestingUserId,
+      data.tagIds,
+    )
+  }
+
+  async setTaskTags(
+    taskId: number,
+    data: SetTagsInput,
+    requestingUserId: number,
+  ): Promise<TagSummary[]> {
+    const task = await taskModel.findById(taskId, requestingUserId)
+    if (!task) {
+      throw new TagError('Task not found', 404)
+    }
+    if (!(await taskService.canModifyTask(task, requestingUserId))) {
+      throw new TagError('Insufficient permissions to modify this task', 403)
+    }
+
+    await this.assertOwnTags(data.tagIds, requestingUserId)
+    return await tagModel.setTags('task', taskId, requestingUserId, data.tagIds)
+  }
+
+  async setNoteTags(
+    uuid: string,
+    data: SetTagsInput,
+    requestingUserId: number,
+  ): Promise<TagSummary[]> {
+    // Notes are private to their author
+    const note = await prisma.note.findFirst({
+      where: { uuid, userId: requestingUserId, deletedAt: null },
+      select: { id: true },
+    })
+    if (!note) {
+      throw new TagError('Note not found', 404)
+    }
+
+    await this.assertOwnTags(data.tagIds, requestingUserId)
+    return await tagModel.setTags(
+      'note',
+      note.id,
+      requestingUserId,
+      data.tagIds,
+    )
+  }
+
+  // Tags are private, so someone else's tag is reported as missing
+  private async getOwnTag(
+    id: number,
+    requestingUserId: number,
+  ): Promise<TagResponse> {
+    const tag = await tagModel.findById(id)
+    if (!tag || tag.userId !== requestingUserId) {
+      throw new TagError('Tag not found', 404)
+    }
+    return tag
+  }
+
+  private async assertOwnTags(
+    tagIds: number[],
+    requestingUserId: number,
+  ): Promise<void> {
+    const uniqueIds = [...new Set(tagIds)]
+    const owned = await tagModel.countOwned(requestingUserId, uniqueIds)
+    if (owned !== uniqueIds.length) {
+      throw new TagError('Tag not found', 404)
+    }
+  }
+
+  // Names are unique per user regardless of case
+  private async assertNameAvailable(
+    requestingUserId: number,
+    name: string,
+    excludeId?: number,
+  ): Promise<void> {
+    const existing = await tagModel.findByName(
+      requestingUserId,
+      name,
+      excludeId,
+    )
+    if (existing) {
+      throw new TagError(
+        `A tag named "${existing.name}" already exists; merge the tags instead`,
+        409,
+      )
+    }
+  }
+}
+
+export const tagService = new TagService()
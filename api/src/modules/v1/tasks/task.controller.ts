@@ -2,8 +2,11 @@ import { Request, Response, NextFunction } from 'express'
 import { taskService } from './task.service'
 import {
   createTaskSchema,
+  createSubtaskSchema,
   updateTaskSchema,
   taskQuerySchema,
+  userTasksQuerySchema,
+  upcomingTasksQuerySchema,
   TaskError,
 } from './task.model'
 import {
@@ -193,6 +196,37 @@ export class TaskController {
     }
   }
 
+  // Restore a deleted task from the trash
+  async restoreTask(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const taskId = parseInt(req.params.id)
+      if (isNaN(taskId)) {
+        return createErrorResponse(res, 'Invalid task ID', undefined, 400)
+      }
+
+      const task = await taskService.restoreTask(taskId, userId)
+
+      console.info('Task restored', { taskId, userId })
+
+      return createSuccessResponse(res, 'Task restored successfully', task)
+    } catch (err) {
+      if (err instanceof TaskError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
   // Get project tasks
   async getProjectTasks(req: Request, res: Response, next: NextFunction) {
     try {
@@ -249,7 +283,7 @@ export class TaskController {
         return createErrorResponse(res, 'Invalid user ID', undefined, 400)
       }
 
-      const queryParams = taskQuerySchema.parse(req.query)
+      const queryParams = userTasksQuerySchema.parse(req.query)
       const tasks = await taskService.getUserTasks(
         userId,
         queryParams,
@@ -269,6 +303,147 @@ export class TaskController {
     }
   }
 
+  // Get a task's assignment history
+  async getAssignments(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const taskId = parseInt(req.params.id)
+      if (isNaN(taskId)) {
+        return createErrorResponse(res, 'Invalid task ID', undefined, 400)
+      }
+
+      const assignments = await taskService.getAssignmentHistory(taskId, userId)
+
+      return createSuccessResponse(
+        res,
+        'Task assignments retrieved successfully',
+        assignments,
+      )
+    } catch (err) {
+      if (err instanceof TaskError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // Get subtasks of a task
+  async getSubtasks(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const taskId = parseInt(req.params.id)
+      if (isNaN(taskId)) {
+        return createErrorResponse(res, 'Invalid task ID', undefined, 400)
+      }
+
+      const queryParams = taskQuerySchema.parse(req.query)
+      const tasks = await taskService.getSubtasks(taskId, queryParams, userId)
+
+      return createSuccessResponse(
+        res,
+        'Subtasks retrieved successfully',
+        tasks,
+      )
+    } catch (err) {
+      if (err instanceof TaskError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // Create subtask
+  async createSubtask(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const taskId = parseInt(req.params.id)
+      if (isNaN(taskId)) {
+        return createErrorResponse(res, 'Invalid task ID', undefined, 400)
+      }
+
+      const validatedData = createSubtaskSchema.parse(req.body)
+      const task = await taskService.createSubtask(
+        taskId,
+        validatedData,
+        userId,
+      )
+
+      console.info('Subtask created', {
+        taskId: task.id,
+        parentTaskId: taskId,
+        userId,
+      })
+
+      return createSuccessResponse(
+        res,
+        'Subtask created successfully',
+        task,
+        201,
+      )
+    } catch (err) {
+      if (err instanceof TaskError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // Get tasks due in the next few days
+  async getUpcomingTasks(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const queryParams = upcomingTasksQuerySchema.parse(req.query)
+      const tasks = await taskService.getUpcomingTasks(queryParams, userId)
+
+      return createSuccessResponse(
+        res,
+        'Upcoming tasks retrieved successfully',
+        tasks,
+      )
+    } catch (err) {
+      if (err instanceof TaskError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
   // Get task statistics
   async getTaskStats(req: Request, res: Response, next: NextFunction) {
     try {
@@ -1,21 +1,48 @@
 import { z } from 'zod'
 import { PrismaClient, TaskStatus, Prisma } from '@prisma/client'
 import { Decimal } from '@prisma/client/runtime/library'
+import {
+  tagQueryFields,
+  tagSummaryInclude,
+  tagWhere,
+  TagSummary,
+} from '../tags/tag.model'
+import { projectMemberWhere } from '../projects/project.model'
 
 const prisma = new PrismaClient()
 
+// Priority 1 is the most urgent, 10 the least
+export const TASK_PRIORITY_MIN = 1
+export const TASK_PRIORITY_MAX = 10
+
+const TASK_TITLE_MAX_LENGTH = 200
+
+const prioritySchema = z
+  .number()
+  .int()
+  .min(TASK_PRIORITY_MIN, 'Priority must be between 1 and 10')
+  .max(TASK_PRIORITY_MAX, 'Priority must be between 1 and 10')
+
 // Validation schemas
 export const createTaskSchema = z.object({
   title: z.string().min(1, 'Title is required').max(200, 'Title too long'),
   definitionOfDone: z.string().optional(),
   status: z.nativeEnum(TaskStatus).optional(),
+  priority: prioritySchema.optional(),
+  dueAt: z.string().datetime().optional(),
   startedAt: z.string().datetime().optional(),
   endedAt: z.string().datetime().optional(),
   timeSpent: z.number().positive().optional(),
   costInProjectCurrency: z.number().positive().optional(),
+  // Defaults to the creator; null creates the task unassigned
+  assigneeId: z.number().int().positive().nullable().optional(),
+  // A milestone of the task's project
+  milestoneId: z.number().int().positive().nullable().optional(),
   projectId: z.number().int().positive(),
 })
 
+export const createSubtaskSchema = createTaskSchema.omit({ projectId: true })
+
 export const updateTaskSchema = z.object({
   title: z
     .string()
@@ -24,35 +51,89 @@ export const updateTaskSchema = z.object({
     .optional(),
   definitionOfDone: z.string().optional(),
   status: z.nativeEnum(TaskStatus).optional(),
+  // Required by the workflow for some transitions, e.g. reopening DONE work
+  statusReason: z.string().max(500, 'Reason too long').optional(),
+  priority: prioritySchema.optional(),
+  dueAt: z.string().datetime().nullable().optional(),
   startedAt: z.string().datetime().optional(),
   endedAt: z.string().datetime().optional(),
   timeSpent: z.number().positive().optional(),
   costInProjectCurrency: z.number().positive().optional(),
+  // null unassigns the task
+  assigneeId: z.number().int().positive().nullable().optional(),
+  // null unlinks the task from its milestone
+  milestoneId: z.number().int().positive().nullable().optional(),
   projectId: z.number().int().positive().optional(),
 })
 
+export const upcomingTasksQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).optional().default(7),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(20),
+})
+
 export const taskQuerySchema = z.object({
   search: z.string().optional(),
   status: z.nativeEnum(TaskStatus).optional(),
+  priority: z.coerce
+    .number()
+    .int()
+    .min(TASK_PRIORITY_MIN)
+    .max(TASK_PRIORITY_MAX)
+    .optional(),
   projectId: z.number().int().positive().optional(),
   userId: z.number().int().positive().optional(),
+  unassigned: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional(),
+  parentTaskId: z.coerce.number().int().positive().optional(),
+  dueAfter: z.string().datetime().optional(),
+  dueBefore: z.string().datetime().optional(),
+  // Only past-due tasks that are not DONE
+  overdue: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional(),
   startedAfter: z.string().datetime().optional(),
   startedBefore: z.string().datetime().optional(),
   endedAfter: z.string().datetime().optional(),
   endedBefore: z.string().datetime().optional(),
+  ...tagQueryFields,
   page: z.coerce.number().int().min(1).optional().default(1),
   limit: z.coerce.number().int().min(1).max(100).optional().default(10),
   sortBy: z
-    .enum(['createdAt', 'updatedAt', 'title', 'startedAt', 'endedAt'])
+    .enum([
+      'createdAt',
+      'updatedAt',
+      'title',
+      'startedAt',
+      'endedAt',
+      'priority',
+      'dueAt',
+      'rank',
+    ])
     .optional()
     .default('createdAt'),
   sortOrder: z.enum(['asc', 'desc']).optional().default('desc'),
 })
 
+export const userTasksQuerySchema = taskQuerySchema.extend({
+  relation: z.enum(['assigned', 'created']).optional().default('assigned'),
+})
+
 // Types
 export type CreateTaskInput = z.infer<typeof createTaskSchema>
+export type CreateSubtaskInput = z.infer<typeof createSubtaskSchema>
 export type UpdateTaskInput = z.infer<typeof updateTaskSchema>
 export type TaskQuery = z.infer<typeof taskQuerySchema>
+export type TaskFilter = Omit<
+  TaskQuery,
+  'page' | 'limit' | 'sortBy' | 'sortOrder'
+>
+export type UserTasksQuery = z.infer<typeof userTasksQuerySchema>
+// How a listing relates tasks to a user; involved covers both
+export type TaskRelation = 'assigned' | 'created' | 'involved'
+export type UpcomingTasksQuery = z.infer<typeof upcomingTasksQuerySchema>
 
 export interface TaskResponse {
   id: number
@@ -60,12 +141,27 @@ export interface TaskResponse {
   title: string
   definitionOfDone: string | null
   status: TaskStatus
+  priority: number
+  dueAt: Date | null
+  rank: string | null
   startedAt: Date | null
   endedAt: Date | null
   timeSpent: Decimal | null
   costInProjectCurrency: Decimal | null
+  // Assignee
   userId: number | null
+  creatorId: number | null
   projectId: number
+  parentTaskId: number | null
+  recurrenceId: number | null
+  occurrenceAt: Date | null
+  // Set once the task is billed on an invoice
+  invoiceId: number | null
+  milestoneId: number | null
+  // Share of checklist items checked and subtasks DONE, 0-100
+  completion?: number
+  // Comments that have not been deleted
+  commentCount?: number
   createdAt: Date
   updatedAt: Date
   user?: {
@@ -73,11 +169,34 @@ export interface TaskResponse {
     name: string
     email: string
   } | null
+  creator?: {
+    id: number
+    name: string
+    email: string
+  } | null
   project?: {
     id: number
     uuid: string
     title: string
   }
+  milestone?: {
+    id: number
+    title: string
+    targetDate: Date
+  } | null
+  tags?: TagSummary[]
+}
+
+export interface TaskAssignmentResponse {
+  id: number
+  taskId: number
+  fromUserId: number | null
+  toUserId: number | null
+  assignedById: number | null
+  createdAt: Date
+  fromUser: { id: number; name: string } | null
+  toUser: { id: number; name: string } | null
+  assignedBy: { id: number; name: string } | null
 }
 
 export interface PaginatedTasksResponse {
@@ -90,6 +209,14 @@ export interface PaginatedTasksResponse {
   }
 }
 
+// Steps run in the transaction that updates a task
+export interface TaskUpdateHooks {
+  // Checks that must still hold when the update commits
+  beforeUpdate?: (tx: Prisma.TransactionClient) => Promise<void>
+  // Throwing here rolls the update back
+  afterUpdate?: (tx: Prisma.TransactionClient) => Promise<void>
+}
+
 export class TaskError extends Error {
   constructor(
     message: string,
@@ -100,15 +227,315 @@ export class TaskError extends Error {
   }
 }
 
+// Included wherever a task is returned, with the viewer's tags
+function taskInclude(viewerId: number) {
+  return {
+    user: {
+      select: {
+        id: true,
+        name: true,
+        email: true,
+      },
+    },
+    creator: {
+      select: {
+        id: true,
+        name: true,
+        email: true,
+      },
+    },
+    project: {
+      select: {
+        id: true,
+        uuid: true,
+        title: true,
+      },
+    },
+    milestone: {
+      select: {
+        id: true,
+        title: true,
+        targetDate: true,
+      },
+    },
+    checklistItems: { select: { isChecked: true } },
+    subtasks: { where: { deletedAt: null }, select: { status: true } },
+    tags: tagSummaryInclude(viewerId),
+    _count: { select: { comments: { where: { deletedAt: null } } } },
+  } satisfies Prisma.TaskInclude
+}
+
+/**
+ * Percentage of checklist items checked and subtasks DONE. A task with
+ * neither is 0% until it is DONE itself.
+ */
+export function calculateCompletion(
+  status: TaskStatus,
+  checklistItems: { isChecked: boolean }[],
+  subtasks: { status: TaskStatus }[],
+): number {
+  const total = checklistItems.length + subtasks.length
+  if (total === 0) {
+    return status === TaskStatus.DONE ? 100 : 0
+  }
+
+  const done =
+    checklistItems.filter((item) => item.isChecked).length +
+    subtasks.filter((subtask) => subtask.status === TaskStatus.DONE).length
+
+  return Math.round((done / total) * 100)
+}
+
+// Replaces the progress relations and counts loaded by taskInclude with
+// completion and commentCount
+function toTaskResponse<
+  T extends {
+    status: TaskStatus
+    checklistItems: { isChecked: boolean }[]
+    subtasks: { status: TaskStatus }[]
+    _count: { comments: number }
+  },
+>({ checklistItems, subtasks, _count, ...task }: T) {
+  return {
+    ...task,
+    completion: calculateCompletion(task.status, checklistItems, subtasks),
+    commentCount: _count.comments,
+  }
+}
+
+/**
+ * Tasks a user created. Tasks from before assignment existed have no
+ * creatorId; their assignee was always the creator.
+ */
+export function createdByWhere(userId: number): Prisma.TaskWhereInput {
+  return {
+    OR: [{ creatorId: userId }, { creatorId: null, userId }],
+  }
+}
+
+function relationWhere(
+  userId: number,
+  relation: TaskRelation,
+): Prisma.TaskWhereInput {
+  switch (relation) {
+    case 'assigned':
+      return { userId }
+    case 'created':
+      return createdByWhere(userId)
+    case 'involved':
+      return {
+        OR: [
+          { userId },
+          { creatorId: userId },
+          { project: projectMemberWhere(userId) },
+        ],
+      }
+  }
+}
+
+// Filters shared by task listings and bulk operations
+function buildTaskWhere(
+  query: TaskFilter,
+  viewerId: number,
+  userId?: number,
+  relation: TaskRelation = 'assigned',
+): Prisma.TaskWhereInput {
+  const dueAt: Prisma.DateTimeNullableFilter = {
+    ...(query.dueAfter && { gte: new Date(query.dueAfter) }),
+    ...(query.dueBefore && { lte: new Date(query.dueBefore) }),
+    ...(query.overdue && { lt: new Date() }),
+  }
+
+  return {
+    deletedAt: null,
+    ...(query.unassigned && { userId: null }),
+    ...(query.projectId && { projectId: query.projectId }),
+    ...(query.status && { status: query.status }),
+    ...(query.parentTaskId && { parentTaskId: query.parentTaskId }),
+    ...(query.priority && { priority: query.priority }),
+    ...(Object.keys(dueAt).length > 0 && { dueAt }),
+    AND: [
+      ...(userId ? [relationWhere(userId, relation)] : []),
+      ...(query.overdue ? [{ status: { not: TaskStatus.DONE } }] : []),
+      ...tagWhere(query, viewerId),
+    ],
+    ...(query.startedAfter && {
+      startedAt: { gte: new Date(query.startedAfter) },
+    }),
+    ...(query.startedBefore && {
+      startedAt: { lte: new Date(query.startedBefore) },
+    }),
+    ...(query.endedAfter && {
+      endedAt: { gte: new Date(query.endedAfter) },
+    }),
+    ...(query.endedBefore && {
+      endedAt: { lte: new Date(query.endedBefore) },
+    }),
+    ...(query.search && {
+      OR: [
+        { title: { contains: query.search, mode: 'insensitive' } },
+        {
+          definitionOfDone: { contains: query.search, mode: 'insensitive' },
+        },
+      ],
+    }),
+  }
+}
+
+/**
+ * startedAt/endedAt changes implied by a status change: work starts the
+ * first time a task enters WIP, ends when it is DONE and reopens otherwise
+ */
+export function statusTimestamps(
+  existingTask: { status: TaskStatus; startedAt: Date | null },
+  status?: TaskStatus,
+): { startedAt?: Date; endedAt?: Date | null } {
+  const timestamps: { startedAt?: Date; endedAt?: Date | null } = {}
+
+  // Set startedAt when work first begins
+  if (
+    status === TaskStatus.WIP &&
+    existingTask.status !== TaskStatus.WIP &&
+    !existingTask.startedAt
+  ) {
+    timestamps.startedAt = new Date()
+  }
+
+  // Set endedAt when the task is completed, clear it when reopened
+  if (status === TaskStatus.DONE && existingTask.status !== TaskStatus.DONE) {
+    timestamps.endedAt = new Date()
+  } else if (
+    status &&
+    status !== TaskStatus.DONE &&
+    existingTask.status === TaskStatus.DONE
+  ) {
+    timestamps.endedAt = null
+  }
+
+  return timestamps
+}
+
+function taskOrderBy(
+  query: Pick<TaskQuery, 'sortBy' | 'sortOrder'>,
+): Prisma.TaskOrderByWithRelationInput[] {
+  // Tasks that were never placed by hand follow the placed ones
+  if (query.sortBy === 'rank') {
+    return [
+      { rank: { sort: query.sortOrder, nulls: 'last' } },
+      { createdAt: 'asc' },
+      { id: 'asc' },
+    ]
+  }
+  return [{ [query.sortBy]: query.sortOrder }]
+}
+
+// "Title (2)", "Title (3)", ... whichever is free first
+export function freeTaskTitle(title: string, titles: Set<string>): string {
+  for (let n = 2; ; n++) {
+    const suffix = ` (${n})`
+    const candidate =
+      title.slice(0, TASK_TITLE_MAX_LENGTH - suffix.length) + suffix
+    if (!titles.has(candidate)) {
+      return candidate
+    }
+  }
+}
+
+/**
+ * Create data for a new task, assigned to its creator unless the input
+ * names another assignee or none
+ */
+export function createData(
+  data: CreateTaskInput,
+  userId: number,
+  parentTaskId?: number,
+): Prisma.TaskUncheckedCreateInput {
+  const assigneeId = data.assigneeId === undefined ? userId : data.assigneeId
+  const status = data.status || TaskStatus.BACKLOG
+
+  return {
+    title: data.title,
+    definitionOfDone: data.definitionOfDone,
+    status,
+    priority: data.priority,
+    dueAt: data.dueAt ? new Date(data.dueAt) : null,
+    startedAt: data.startedAt ? new Date(data.startedAt) : null,
+    endedAt: data.endedAt ? new Date(data.endedAt) : null,
+    timeSpent: data.timeSpent ? new Prisma.Decimal(data.timeSpent) : null,
+    costInProjectCurrency: data.costInProjectCurrency
+      ? new Prisma.Decimal(data.costInProjectCurrency)
+      : null,
+    projectId: data.projectId,
+    parentTaskId,
+    milestoneId: data.milestoneId ?? null,
+    userId: assigneeId,
+    creatorId: userId,
+    statusTransitions: { create: { toStatus: status, userId } },
+    ...(assigneeId !== null && {
+      assignments: {
+        create: { toUserId: assigneeId, assignedById: userId },
+      },
+    }),
+  }
+}
+
+/**
+ * Update data that hands a task to another assignee, or none, and records
+ * the change in its assignment history
+ */
+export function reassignData(
+  task: { userId: number | null; creatorId: number | null },
+  assigneeId: number | null,
+  assignedById: number | null,
+): Prisma.TaskUncheckedUpdateInput {
+  return {
+    userId: assigneeId,
+    // Keep the creator of older tasks once the assignee changes
+    creatorId: task.creatorId ?? task.userId,
+    assignments: {
+      create: {
+        fromUserId: task.userId,
+        toUserId: assigneeId,
+        assignedById,
+      },
+    },
+  }
+}
+
+/**
+ * Update data that moves a task to another status and records the change
+ * in its status history
+ */
+export function statusChangeData(
+  task: { status: TaskStatus; startedAt: Date | null },
+  status: TaskStatus,
+  changedById: number | null,
+): Prisma.TaskUncheckedUpdateInput {
+  return {
+    status,
+    ...statusTimestamps(task, status),
+    statusTransitions: {
+      create: {
+        fromStatus: task.status,
+        toStatus: status,
+        userId: changedById,
+      },
+    },
+  }
+}
+
 // Database operations
 export const taskModel = {
-  async create(data: CreateTaskInput, userId: number): Promise<TaskResponse> {
+  async create(
+    data: CreateTaskInput,
+    userId: number,
+    parentTaskId?: number,
+  ): Promise<TaskResponse> {
     try {
-      // Check if project exists and user has access
+      // Access to the project is checked by the service
       const project = await prisma.project.findFirst({
         where: {
           id: data.projectId,
-          userId,
           deletedAt: null,
         },
       })
@@ -134,38 +561,11 @@ export const taskModel = {
       }
 
       const task = await prisma.task.create({
-        data: {
-          title: data.title,
-          definitionOfDone: data.definitionOfDone,
-          status: data.status || TaskStatus.BACKLOG,
-          startedAt: data.startedAt ? new Date(data.startedAt) : null,
-          endedAt: data.endedAt ? new Date(data.endedAt) : null,
-          timeSpent: data.timeSpent ? new Prisma.Decimal(data.timeSpent) : null,
-          costInProjectCurrency: data.costInProjectCurrency
-            ? new Prisma.Decimal(data.costInProjectCurrency)
-            : null,
-          projectId: data.projectId,
-          userId: userId,
-        },
-        include: {
-          user: {
-            select: {
-              id: true,
-              name: true,
-              email: true,
-            },
-          },
-          project: {
-            select: {
-              id: true,
-              uuid: true,
-              title: true,
-            },
-          },
-        },
+        data: createData(data, userId, parentTaskId),
+        include: taskInclude(userId),
       })
 
-      return task
+      return toTaskResponse(task)
     } catch (error) {
       if (error instanceof TaskError) {
         throw error
@@ -177,58 +577,19 @@ export const taskModel = {
 
   async findMany(
     query: TaskQuery,
+    viewerId: number,
     userId?: number,
+    relation: TaskRelation = 'assigned',
   ): Promise<PaginatedTasksResponse> {
     try {
       const skip = (query.page - 1) * query.limit
-
-      const where: Prisma.TaskWhereInput = {
-        deletedAt: null,
-        ...(userId && { userId }),
-        ...(query.projectId && { projectId: query.projectId }),
-        ...(query.status && { status: query.status }),
-        ...(query.startedAfter && {
-          startedAt: { gte: new Date(query.startedAfter) },
-        }),
-        ...(query.startedBefore && {
-          startedAt: { lte: new Date(query.startedBefore) },
-        }),
-        ...(query.endedAfter && {
-          endedAt: { gte: new Date(query.endedAfter) },
-        }),
-        ...(query.endedBefore && {
-          endedAt: { lte: new Date(query.endedBefore) },
-        }),
-        ...(query.search && {
-          OR: [
-            { title: { contains: query.search, mode: 'insensitive' } },
-            {
-              definitionOfDone: { contains: query.search, mode: 'insensitive' },
-            },
-          ],
-        }),
-      }
+      const where = buildTaskWhere(query, viewerId, userId, relation)
 
       const [tasks, total] = await Promise.all([
         prisma.task.findMany({
           where,
-          include: {
-            user: {
-              select: {
-                id: true,
-                name: true,
-                email: true,
-              },
-            },
-            project: {
-              select: {
-                id: true,
-                uuid: true,
-                title: true,
-              },
-            },
-          },
-          orderBy: { [query.sortBy]: query.sortOrder },
+          include: taskInclude(viewerId),
+          orderBy: taskOrderBy(query),
           skip,
           take: query.limit,
         }),
@@ -236,7 +597,7 @@ export const taskModel = {
       ])
 
       return {
-        tasks,
+        tasks: tasks.map(toTaskResponse),
         pagination: {
           page: query.page,
           limit: query.limit,
@@ -250,71 +611,119 @@ export const taskModel = {
     }
   },
 
-  async findById(id: number): Promise<TaskResponse | null> {
+  /**
+   * Ids of the tasks matching a filter, oldest first, at most `limit`
+   */
+  async findIds(
+    filter: TaskFilter,
+    viewerId: number,
+    userId: number | undefined,
+    limit: number,
+    relation: TaskRelation = 'assigned',
+  ): Promise<number[]> {
+    try {
+      const tasks = await prisma.task.findMany({
+        where: buildTaskWhere(filter, viewerId, userId, relation),
+        select: { id: true },
+        orderBy: { id: 'asc' },
+        take: limit,
+      })
+      return tasks.map((task) => task.id)
+    } catch (error) {
+      console.error('Error fetching task ids:', error)
+      throw new TaskError('Failed to fetch tasks', 500)
+    }
+  },
+
+  // The next tasks by id after afterId; used to read large result sets in
+  // pages without an offset
+  async findAfter(
+    filter: TaskFilter,
+    viewerId: number,
+    userId: number | undefined,
+    relation: TaskRelation,
+    afterId: number,
+    take: number,
+  ): Promise<TaskResponse[]> {
+    try {
+      const tasks = await prisma.task.findMany({
+        where: {
+          AND: [
+            buildTaskWhere(filter, viewerId, userId, relation),
+            { id: { gt: afterId } },
+          ],
+        },
+        include: taskInclude(viewerId),
+        orderBy: { id: 'asc' },
+        take,
+      })
+      return tasks.map(toTaskResponse)
+    } catch (error) {
+      console.error('Error fetching tasks:', error)
+      throw new TaskError('Failed to fetch tasks', 500)
+    }
+  },
+
+  async findAssignments(taskId: number): Promise<TaskAssignmentResponse[]> {
+    const user = { select: { id: true, name: true } }
+
+    try {
+      return await prisma.taskAssignment.findMany({
+        where: { taskId },
+        include: { fromUser: user, toUser: user, assignedBy: user },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      })
+    } catch (error) {
+      console.error('Error fetching task assignments:', error)
+      throw new TaskError('Failed to fetch task assignments', 500)
+    }
+  },
+
+  async findById(id: number, viewerId: number): Promise<TaskResponse | null> {
     try {
       const task = await prisma.task.findFirst({
         where: {
           id,
           deletedAt: null,
         },
-        include: {
-          user: {
-            select: {
-              id: true,
-              name: true,
-              email: true,
-            },
-          },
-          project: {
-            select: {
-              id: true,
-              uuid: true,
-              title: true,
-            },
-          },
-        },
+        include: taskInclude(viewerId),
       })
 
-      return task
+      return task ? toTaskResponse(task) : null
     } catch (error) {
       console.error('Error fetching task:', error)
       throw new TaskError('Failed to fetch task', 500)
     }
   },
 
-  async findByUuid(uuid: string): Promise<TaskResponse | null> {
+  async findByUuid(
+    uuid: string,
+    viewerId: number,
+  ): Promise<TaskResponse | null> {
     try {
       const task = await prisma.task.findFirst({
         where: {
           uuid,
           deletedAt: null,
         },
-        include: {
-          user: {
-            select: {
-              id: true,
-              name: true,
-              email: true,
-            },
-          },
-          project: {
-            select: {
-              id: true,
-              uuid: true,
-              title: true,
-            },
-          },
-        },
+        include: taskInclude(viewerId),
       })
 
-      return task
+      return task ? toTaskResponse(task) : null
     } catch (error) {
       console.error('Error fetching task:', error)
       throw new TaskError('Failed to fetch task', 500)
     }
   },
 
-  async update(id: number, data: UpdateTaskInput): Promise<TaskResponse> {
+  async update(
+    id: number,
+    data: UpdateTaskInput,
+    viewerId: number,
+    // Who made the change; null for changes the system makes
+    updatedById: number | null = viewerId,
+    hooks: TaskUpdateHooks = {},
+  ): Promise<TaskResponse> {
     try {
       // Check if task exists
       const existingTask = await prisma.task.findFirst({
@@ -344,51 +753,64 @@ export const taskModel = {
         }
       }
 
-      const task = await prisma.task.update({
-        where: { id },
-        data: {
-          ...(data.title && { title: data.title }),
-          ...(data.definitionOfDone !== undefined && {
-            definitionOfDone: data.definitionOfDone,
-          }),
-          ...(data.status && { status: data.status }),
-          ...(data.startedAt !== undefined && {
-            startedAt: data.startedAt ? new Date(data.startedAt) : null,
-          }),
-          ...(data.endedAt !== undefined && {
-            endedAt: data.endedAt ? new Date(data.endedAt) : null,
-          }),
-          ...(data.timeSpent !== undefined && {
-            timeSpent: data.timeSpent
-              ? new Prisma.Decimal(data.timeSpent)
-              : null,
-          }),
-          ...(data.costInProjectCurrency !== undefined && {
-            costInProjectCurrency: data.costInProjectCurrency
-              ? new Prisma.Decimal(data.costInProjectCurrency)
-              : null,
-          }),
-          ...(data.projectId && { projectId: data.projectId }),
-        },
-        include: {
-          user: {
-            select: {
-              id: true,
-              name: true,
-              email: true,
-            },
-          },
-          project: {
-            select: {
-              id: true,
-              uuid: true,
-              title: true,
-            },
+      const task = await prisma.$transaction(async (tx) => {
+        await hooks.beforeUpdate?.(tx)
+        const updated = await tx.task.update({
+          where: { id },
+          data: {
+            ...(data.title && { title: data.title }),
+            ...(data.definitionOfDone !== undefined && {
+              definitionOfDone: data.definitionOfDone,
+            }),
+            ...(data.status &&
+              data.status !== existingTask.status &&
+              statusChangeData(existingTask, data.status, updatedById)),
+            ...(data.priority !== undefined && { priority: data.priority }),
+            ...(data.dueAt !== undefined && {
+              dueAt: data.dueAt ? new Date(data.dueAt) : null,
+            }),
+            // Handle explicitly provided timestamps
+            ...(data.startedAt !== undefined && {
+              startedAt: data.startedAt ? new Date(data.startedAt) : null,
+            }),
+            ...(data.endedAt !== undefined && {
+              endedAt: data.endedAt ? new Date(data.endedAt) : null,
+            }),
+            ...(data.timeSpent !== undefined && {
+              timeSpent: data.timeSpent
+                ? new Prisma.Decimal(data.timeSpent)
+                : null,
+            }),
+            ...(data.costInProjectCurrency !== undefined && {
+              costInProjectCurrency: data.costInProjectCurrency
+                ? new Prisma.Decimal(data.costInProjectCurrency)
+                : null,
+            }),
+            ...(data.projectId && { projectId: data.projectId }),
+            // Milestones belong to a project, so a moved task leaves its own
+            ...(data.milestoneId !== undefined
+              ? { milestoneId: data.milestoneId }
+              : data.projectId &&
+                data.projectId !== existingTask.projectId && {
+                  milestoneId: null,
+                }),
+            // A task changing column drops its manual position there
+            ...(((data.status && data.status !== existingTask.status) ||
+              (data.projectId &&
+                data.projectId !== existingTask.projectId)) && {
+              rank: null,
+            }),
+            ...(data.assigneeId !== undefined &&
+              data.assigneeId !== existingTask.userId &&
+              reassignData(existingTask, data.assigneeId, updatedById)),
           },
-        },
+          include: taskInclude(viewerId),
+        })
+        await hooks.afterUpdate?.(tx)
+        return updated
       })
 
-      return task
+      return toTaskResponse(task)
     } catch (error) {
       if (error instanceof TaskError) {
         throw error
@@ -398,6 +820,42 @@ export const taskModel = {
     }
   },
 
+  async findDeletedById(
+    id: number,
+    viewerId: number,
+  ): Promise<(TaskResponse & { deletedAt: Date | null }) | null> {
+    try {
+      const task = await prisma.task.findFirst({
+        where: {
+          id,
+          deletedAt: { not: null },
+        },
+        include: taskInclude(viewerId),
+      })
+
+      return task ? toTaskResponse(task) : null
+    } catch (error) {
+      console.error('Error fetching deleted task:', error)
+      throw new TaskError('Failed to fetch task', 500)
+    }
+  },
+
+  // Subtasks deleted along with the task come back with it
+  async restore(task: { id: number; deletedAt: Date | null }): Promise<void> {
+    try {
+      await prisma.task.updateMany({
+        where: {
+          OR: [{ id: task.id }, { parentTaskId: task.id }],
+          deletedAt: task.deletedAt,
+        },
+        data: { deletedAt: null },
+      })
+    } catch (error) {
+      console.error('Error restoring task:', error)
+      throw new TaskError('Failed to restore task', 500)
+    }
+  },
+
   async delete(id: number): Promise<void> {
     try {
       const existingTask = await prisma.task.findFirst({
@@ -408,9 +866,14 @@ export const taskModel = {
         throw new TaskError('Task not found', 404)
       }
 
-      await prisma.task.update({
-        where: { id },
-        data: { deletedAt: new Date() },
+      // Subtasks go with their parent. Trashed tasks give up their rank,
+      // which stays unique within the column they leave.
+      await prisma.task.updateMany({
+        where: {
+          OR: [{ id }, { parentTaskId: id }],
+          deletedAt: null,
+        },
+        data: { deletedAt: new Date(), rank: null },
       })
     } catch (error) {
       if (error instanceof TaskError) {
@@ -434,7 +897,7 @@ export const taskModel = {
         ...(userId && { userId }),
       }
 
-      const [total, statusStats, overdueTasks, completedToday] =
+      const [total, statusStats, priorityStats, overdueTasks, completedToday] =
         await Promise.all([
           prisma.task.count({ where }),
           prisma.task.groupBy({
@@ -442,10 +905,15 @@ export const taskModel = {
             where,
             _count: { status: true },
           }),
+          prisma.task.groupBy({
+            by: ['priority'],
+            where,
+            _count: { priority: true },
+          }),
           prisma.task.count({
             where: {
               ...where,
-              endedAt: null, // Not ended yet
+              dueAt: { lt: new Date() },
               status: { not: TaskStatus.DONE },
             },
           }),
@@ -468,10 +936,18 @@ export const taskModel = {
         {} as Record<string, number>,
       )
 
+      const byPriority = priorityStats.reduce(
+        (acc, stat) => {
+          acc[stat.priority] = stat._count.priority
+          return acc
+        },
+        {} as Record<string, number>,
+      )
+
       return {
         total,
         byStatus,
-        byPriority: {}, // Not available in current schema
+        byPriority,
         overdueTasks,
         completedToday,
       }
@@ -480,4 +956,35 @@ export const taskModel = {
       throw new TaskError('Failed to get task statistics', 500)
     }
   },
+
+  /**
+   * Open tasks due between now and the given number of days ahead,
+   * soonest first and most urgent first on ties
+   */
+  async findUpcoming(
+    userId: number,
+    query: UpcomingTasksQuery,
+  ): Promise<TaskResponse[]> {
+    try {
+      const now = new Date()
+      const until = new Date(now.getTime() + query.days * 24 * 60 * 60 * 1000)
+
+      const tasks = await prisma.task.findMany({
+        where: {
+          deletedAt: null,
+          userId,
+          status: { not: TaskStatus.DONE },
+          dueAt: { gte: now, lte: until },
+        },
+        include: taskInclude(userId),
+        orderBy: [{ dueAt: 'asc' }, { priority: 'asc' }],
+        take: query.limit,
+      })
+
+      return tasks.map(toTaskResponse)
+    } catch (error) {
+      console.error('Error fetching upcoming tasks:', error)
+      throw new TaskError('Failed to fetch upcoming tasks', 500)
+    }
+  },
 }
@@ -1,5 +1,14 @@
 import { Router } from 'express'
 import { taskController } from './task.controller'
+import { taskDependencyController } from './taskDependency.controller'
+import { taskWorkflowController } from './taskWorkflow.controller'
+import { taskChecklistController } from './taskChecklist.controller'
+import { taskRecurrenceController } from './taskRecurrence.controller'
+import { taskCommentController } from './taskComment.controller'
+import { taskBulkController } from './taskBulk.controller'
+import { taskRankController } from './taskRank.controller'
+import { taskTransferController } from './taskTransfer.controller'
+import { tagController } from '../tags/tag.controller'
 import { auth } from '../../../middlewares/auth'
 
 const router = Router()
@@ -11,16 +20,131 @@ router.use(auth)
 router.post('/', taskController.createTask.bind(taskController))
 router.get('/', taskController.getTasks.bind(taskController))
 router.get('/stats', taskController.getTaskStats.bind(taskController))
+router.post('/bulk', taskBulkController.bulkUpdate.bind(taskBulkController))
+router.get(
+  '/export',
+  taskTransferController.exportTasks.bind(taskTransferController),
+)
+router.post(
+  '/recurrences/generate',
+  taskRecurrenceController.generateDueOccurrences.bind(
+    taskRecurrenceController,
+  ),
+)
+router.get('/upcoming', taskController.getUpcomingTasks.bind(taskController))
 router.get('/:id', taskController.getTaskById.bind(taskController))
 router.get('/uuid/:uuid', taskController.getTaskByUuid.bind(taskController))
 router.put('/:id', taskController.updateTask.bind(taskController))
 router.delete('/:id', taskController.deleteTask.bind(taskController))
+router.post('/:id/restore', taskController.restoreTask.bind(taskController))
+router.put('/:id/move', taskRankController.moveTask.bind(taskRankController))
+
+// Task dependency routes
+router.get(
+  '/:id/dependencies',
+  taskDependencyController.getDependencies.bind(taskDependencyController),
+)
+router.post(
+  '/:id/dependencies',
+  taskDependencyController.addDependency.bind(taskDependencyController),
+)
+router.delete(
+  '/:id/dependencies/:relatedTaskId',
+  taskDependencyController.removeDependency.bind(taskDependencyController),
+)
+
+// Assignment history
+router.get(
+  '/:id/assignments',
+  taskController.getAssignments.bind(taskController),
+)
+
+// Subtask routes
+router.get('/:id/subtasks', taskController.getSubtasks.bind(taskController))
+router.post('/:id/subtasks', taskController.createSubtask.bind(taskController))
+
+// Checklist routes
+router.get(
+  '/:id/checklist',
+  taskChecklistController.getChecklist.bind(taskChecklistController),
+)
+router.post(
+  '/:id/checklist',
+  taskChecklistController.addItem.bind(taskChecklistController),
+)
+router.put(
+  '/:id/checklist/order',
+  taskChecklistController.reorderItems.bind(taskChecklistController),
+)
+router.put(
+  '/:id/checklist/:itemId',
+  taskChecklistController.updateItem.bind(taskChecklistController),
+)
+router.delete(
+  '/:id/checklist/:itemId',
+  taskChecklistController.deleteItem.bind(taskChecklistController),
+)
+
+// Recurrence routes
+router.get(
+  '/:id/recurrence',
+  taskRecurrenceController.getRecurrence.bind(taskRecurrenceController),
+)
+router.post(
+  '/:id/recurrence',
+  taskRecurrenceController.createRecurrence.bind(taskRecurrenceController),
+)
+router.put(
+  '/:id/recurrence',
+  taskRecurrenceController.updateRecurrence.bind(taskRecurrenceController),
+)
+router.delete(
+  '/:id/recurrence',
+  taskRecurrenceController.stopRecurrence.bind(taskRecurrenceController),
+)
+
+// Comment routes
+router.get(
+  '/:id/comments',
+  taskCommentController.getComments.bind(taskCommentController),
+)
+router.post(
+  '/:id/comments',
+  taskCommentController.addComment.bind(taskCommentController),
+)
+router.put(
+  '/:id/comments/:commentId',
+  taskCommentController.updateComment.bind(taskCommentController),
+)
+router.delete(
+  '/:id/comments/:commentId',
+  taskCommentController.deleteComment.bind(taskCommentController),
+)
+
+// Task tag routes
+router.put('/:id/tags', tagController.setTaskTags.bind(tagController))
 
 // Project-specific task routes
 router.get(
   '/project/:projectId',
   taskController.getProjectTasks.bind(taskController),
 )
+router.get(
+  '/project/:projectId/dependency-graph',
+  taskDependencyController.getProjectGraph.bind(taskDependencyController),
+)
+router.get(
+  '/project/:projectId/workflow',
+  taskWorkflowController.getWorkflow.bind(taskWorkflowController),
+)
+router.put(
+  '/project/:projectId/workflow',
+  taskWorkflowController.updateWorkflow.bind(taskWorkflowController),
+)
+router.delete(
+  '/project/:projectId/workflow',
+  taskWorkflowController.resetWorkflow.bind(taskWorkflowController),
+)
 
 // User-specific task routes
 router.get('/user/:userId', taskController.getUserTasks.bind(taskController))
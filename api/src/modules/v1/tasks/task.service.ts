@@ -2,12 +2,26 @@ import {
   taskModel,
   CreateTaskInput,
   UpdateTaskInput,
+  CreateSubtaskInput,
   TaskQuery,
+  UserTasksQuery,
+  UpcomingTasksQuery,
   TaskError,
   TaskResponse,
+  TaskAssignmentResponse,
   PaginatedTasksResponse,
+  TaskUpdateHooks,
 } from './task.model'
-import { PrismaClient, UserRole } from '@prisma/client'
+import { taskDependencyModel } from './taskDependency.model'
+import { taskWorkflowModel } from './taskWorkflow.model'
+import { taskChecklistModel } from './taskChecklist.model'
+import { taskRecurrenceModel } from './taskRecurrence.model'
+import { projectMemberModel } from '../projects/projectMember.model'
+import { hasProjectRole } from '../projects/project.model'
+import { projectMilestoneModel } from '../projects/projectMilestone.model'
+import { projectBudgetService } from '../projects/projectBudget.service'
+import { PrismaClient, ProjectRole, TaskStatus } from '@prisma/client'
+import { hasAdminRole } from '../../../utils/auth'
 
 const prisma = new PrismaClient()
 
@@ -17,23 +31,73 @@ export class TaskService {
     data: CreateTaskInput,
     requestingUserId: number,
   ): Promise<TaskResponse> {
-    // Check if user has access to the project
-    const project = await prisma.project.findFirst({
-      where: {
-        id: data.projectId,
-        OR: [
-          { userId: requestingUserId },
-          // Admins can create tasks in any project
-          ...((await this.isAdmin(requestingUserId)) ? [{}] : []),
-        ],
+    // Editors and owners of the project, and admins, can create tasks
+    if (!(await this.canEditProject(data.projectId, requestingUserId))) {
+      throw new TaskError('Project not found or access denied', 404)
+    }
+
+    await this.assertAssignable(data.projectId, data.assigneeId)
+    await this.assertMilestone(data.projectId, data.milestoneId)
+
+    const task = await taskModel.create(data, requestingUserId)
+    if (data.timeSpent || data.costInProjectCurrency) {
+      await projectBudgetService.tryCheckThresholds(
+        data.projectId,
+        requestingUserId,
+      )
+    }
+
+    return await this.importChecklist(task, requestingUserId)
+  }
+
+  // Get the subtasks of a task
+  async getSubtasks(
+    parentTaskId: number,
+    query: TaskQuery,
+    requestingUserId: number,
+  ): Promise<PaginatedTasksResponse> {
+    const parentTask = await this.getTaskById(parentTaskId, requestingUserId)
+
+    return await taskModel.findMany(
+      {
+        ...query,
+        projectId: parentTask.projectId,
+        parentTaskId: parentTask.id,
       },
-    })
+      requestingUserId,
+    )
+  }
 
-    if (!project) {
-      throw new TaskError('Project not found or access denied', 404)
+  // Create a subtask in the parent task's project
+  async createSubtask(
+    parentTaskId: number,
+    data: CreateSubtaskInput,
+    requestingUserId: number,
+  ): Promise<TaskResponse> {
+    const parentTask = await taskModel.findById(parentTaskId, requestingUserId)
+    if (!parentTask) {
+      throw new TaskError('Task not found', 404)
+    }
+
+    if (!(await this.canModifyTask(parentTask, requestingUserId))) {
+      throw new TaskError('Insufficient permissions to modify this task', 403)
+    }
+
+    // Only one level of nesting is supported
+    if (parentTask.parentTaskId) {
+      throw new TaskError('Subtasks cannot have subtasks of their own', 400)
     }
 
-    return await taskModel.create(data, requestingUserId)
+    await this.assertAssignable(parentTask.projectId, data.assigneeId)
+    await this.assertMilestone(parentTask.projectId, data.milestoneId)
+
+    const task = await taskModel.create(
+      { ...data, projectId: parentTask.projectId },
+      requestingUserId,
+      parentTask.id,
+    )
+
+    return await this.importChecklist(task, requestingUserId)
   }
 
   // Get tasks with filtering and pagination
@@ -41,11 +105,18 @@ export class TaskService {
     query: TaskQuery,
     requestingUserId: number,
   ): Promise<PaginatedTasksResponse> {
-    // Apply user restrictions - users can only see their own tasks unless admin
-    const isAdmin = await this.isAdmin(requestingUserId)
-    const userId = isAdmin ? query.userId : requestingUserId
+    // Apply user restrictions - users only see tasks they created or are
+    // assigned unless admin
+    if (await hasAdminRole(requestingUserId)) {
+      return await taskModel.findMany(query, requestingUserId, query.userId)
+    }
 
-    return await taskModel.findMany(query, userId)
+    return await taskModel.findMany(
+      query,
+      requestingUserId,
+      requestingUserId,
+      'involved',
+    )
   }
 
   // Get task by ID
@@ -53,7 +124,7 @@ export class TaskService {
     id: number,
     requestingUserId: number,
   ): Promise<TaskResponse> {
-    const task = await taskModel.findById(id)
+    const task = await taskModel.findById(id, requestingUserId)
     if (!task) {
       throw new TaskError('Task not found', 404)
     }
@@ -63,7 +134,7 @@ export class TaskService {
       throw new TaskError('Access denied', 403)
     }
 
-    return task
+    return await this.importChecklist(task, requestingUserId)
   }
 
   // Get task by UUID
@@ -71,7 +142,7 @@ export class TaskService {
     uuid: string,
     requestingUserId: number,
   ): Promise<TaskResponse> {
-    const task = await taskModel.findByUuid(uuid)
+    const task = await taskModel.findByUuid(uuid, requestingUserId)
     if (!task) {
       throw new TaskError('Task not found', 404)
     }
@@ -89,8 +160,9 @@ export class TaskService {
     id: number,
     data: UpdateTaskInput,
     requestingUserId: number,
+    hooks: TaskUpdateHooks = {},
   ): Promise<TaskResponse> {
-    const task = await taskModel.findById(id)
+    const task = await taskModel.findById(id, requestingUserId)
     if (!task) {
       throw new TaskError('Task not found', 404)
     }
@@ -100,24 +172,207 @@ export class TaskService {
       throw new TaskError('Insufficient permissions to modify this task', 403)
     }
 
-    return await taskModel.update(id, data)
+    // Enforce the project's workflow and WIP limits
+    const targetStatus = data.status ?? task.status
+    const targetProjectId = data.projectId ?? task.projectId
+    const statusChanged = targetStatus !== task.status
+    const assigneeChanged =
+      data.assigneeId !== undefined && data.assigneeId !== task.userId
+    const targetAssigneeId = assigneeChanged
+      ? (data.assigneeId ?? null)
+      : task.userId
+
+    if (assigneeChanged) {
+      if (!(await this.canManageTask(task, requestingUserId))) {
+        throw new TaskError(
+          'Insufficient permissions to reassign this task',
+          403,
+        )
+      }
+      await this.assertAssignable(targetProjectId, data.assigneeId)
+    }
+
+    // Subtasks live in their parent's project
+    if (targetProjectId !== task.projectId) {
+      if (!(await this.canEditProject(targetProjectId, requestingUserId))) {
+        throw new TaskError('Project not found or access denied', 404)
+      }
+
+      const subtaskCount = await prisma.task.count({
+        where: { parentTaskId: task.id, deletedAt: null },
+      })
+      if (task.parentTaskId || subtaskCount > 0) {
+        throw new TaskError(
+          'Tasks with a parent or subtasks cannot change project',
+          400,
+        )
+      }
+    }
+
+    await this.assertMilestone(targetProjectId, data.milestoneId)
+
+    // Required checklist items must be checked before a task is DONE
+    if (statusChanged && targetStatus === TaskStatus.DONE) {
+      await taskChecklistModel.importFromDefinitionOfDone(task.id)
+      const unchecked = await taskChecklistModel.countUncheckedRequired(task.id)
+      if (unchecked > 0) {
+        throw new TaskError(
+          `${unchecked} required checklist item(s) must be checked before completing this task`,
+          409,
+        )
+      }
+    }
+    // Checked in the update's transaction so WIP limits hold under
+    // concurrent updates
+    const workflowChanged =
+      statusChanged ||
+      (targetStatus === TaskStatus.WIP &&
+        (targetProjectId !== task.projectId || assigneeChanged))
+
+    const updatedTask = await taskModel.update(
+      id,
+      data,
+      requestingUserId,
+      requestingUserId,
+      {
+        ...hooks,
+        ...(workflowChanged && {
+          beforeUpdate: (tx) =>
+            taskWorkflowModel.assertStatusChange(
+              {
+                taskId: task.id,
+                projectId: targetProjectId,
+                assigneeId: targetAssigneeId,
+                from: task.status,
+                to: targetStatus,
+                reason: data.statusReason,
+              },
+              tx,
+            ),
+        }),
+      },
+    )
+
+    if (statusChanged && data.statusReason) {
+      await prisma.activity.create({
+        data: {
+          userId: requestingUserId,
+          action: 'STATUS_CHANGE',
+          modelType: 'Task',
+          modelId: updatedTask.uuid,
+          description: data.statusReason,
+          oldValues: { status: task.status },
+          newValues: { status: updatedTask.status },
+        },
+      })
+    }
+
+    if (
+      updatedTask.status === TaskStatus.DONE &&
+      task.status !== TaskStatus.DONE
+    ) {
+      await this.completeTask(updatedTask, requestingUserId)
+    }
+
+    // Tracked time and cost count against the project budget
+    if (
+      data.timeSpent !== undefined ||
+      data.costInProjectCurrency !== undefined ||
+      targetProjectId !== task.projectId
+    ) {
+      await projectBudgetService.tryCheckThresholds(
+        targetProjectId,
+        requestingUserId,
+      )
+    }
+
+    return updatedTask
+  }
+
+  // Follow-up work once a task has moved to DONE
+  async completeTask(
+    task: TaskResponse,
+    requestingUserId: number,
+  ): Promise<void> {
+    await this.releaseBlockedTasks(task.id, requestingUserId)
+
+    // Completing an occurrence schedules the next one in its series
+    if (task.recurrenceId && task.occurrenceAt) {
+      await taskRecurrenceModel.generateNext(
+        task.recurrenceId,
+        task.occurrenceAt,
+      )
+    }
   }
 
   // Delete task
   async deleteTask(id: number, requestingUserId: number): Promise<void> {
-    const task = await taskModel.findById(id)
+    const task = await taskModel.findById(id, requestingUserId)
     if (!task) {
       throw new TaskError('Task not found', 404)
     }
 
     // Check permissions
-    if (!(await this.canModifyTask(task, requestingUserId))) {
+    if (!(await this.canManageTask(task, requestingUserId))) {
       throw new TaskError('Insufficient permissions to delete this task', 403)
     }
 
     await taskModel.delete(id)
   }
 
+  // Restore a task from the trash, with the subtasks deleted along with it
+  async restoreTask(
+    id: number,
+    requestingUserId: number,
+  ): Promise<TaskResponse> {
+    const task = await taskModel.findDeletedById(id, requestingUserId)
+    if (!task) {
+      throw new TaskError('Deleted task not found', 404)
+    }
+
+    if (!(await this.canManageTask(task, requestingUserId))) {
+      throw new TaskError('Insufficient permissions to restore this task', 403)
+    }
+
+    const project = await prisma.project.findFirst({
+      where: { id: task.projectId, deletedAt: null },
+      select: { id: true },
+    })
+    if (!project) {
+      throw new TaskError('Restore the task project first', 409)
+    }
+    if (
+      task.parentTaskId &&
+      !(await taskModel.findById(task.parentTaskId, requestingUserId))
+    ) {
+      throw new TaskError('Restore the parent task first', 409)
+    }
+
+    // Titles are unique among a project's live tasks
+    const duplicate = await prisma.task.findFirst({
+      where: {
+        projectId: task.projectId,
+        title: task.title,
+        deletedAt: null,
+      },
+      select: { id: true },
+    })
+    if (duplicate) {
+      throw new TaskError(
+        'Task with this title already exists in the project',
+        409,
+      )
+    }
+
+    await taskModel.restore(task)
+
+    const restored = await taskModel.findById(id, requestingUserId)
+    if (!restored) {
+      throw new TaskError('Task not found', 404)
+    }
+    return restored
+  }
+
   // Get project tasks
   async getProjectTasks(
     projectId: number,
@@ -125,39 +380,52 @@ export class TaskService {
     requestingUserId: number,
   ): Promise<PaginatedTasksResponse> {
     // Check if user has access to the project
-    const project = await prisma.project.findFirst({
-      where: {
-        id: projectId,
-        OR: [
-          { userId: requestingUserId },
-          // Admins can access any project
-          ...((await this.isAdmin(requestingUserId)) ? [{}] : []),
-        ],
-      },
-    })
-
-    if (!project) {
+    if (!(await this.canAccessProject(projectId, requestingUserId))) {
       throw new TaskError('Project not found or access denied', 404)
     }
 
+    // Everyone with access sees every task in the project
     return await taskModel.findMany({ ...query, projectId }, requestingUserId)
   }
 
   // Get user tasks
   async getUserTasks(
     userId: number,
-    query: TaskQuery,
+    query: UserTasksQuery,
     requestingUserId: number,
   ): Promise<PaginatedTasksResponse> {
     // Users can only access their own tasks unless they're admin
     if (
       userId !== requestingUserId &&
-      !(await this.isAdmin(requestingUserId))
+      !(await hasAdminRole(requestingUserId))
     ) {
       throw new TaskError('Access denied', 403)
     }
 
-    return await taskModel.findMany(query, userId)
+    return await taskModel.findMany(
+      query,
+      requestingUserId,
+      userId,
+      query.relation,
+    )
+  }
+
+  // Get who a task was assigned to over time
+  async getAssignmentHistory(
+    id: number,
+    requestingUserId: number,
+  ): Promise<TaskAssignmentResponse[]> {
+    await this.getTaskById(id, requestingUserId)
+
+    return await taskModel.findAssignments(id)
+  }
+
+  // Get the requesting user's open tasks due soon
+  async getUpcomingTasks(
+    query: UpcomingTasksQuery,
+    requestingUserId: number,
+  ): Promise<TaskResponse[]> {
+    return await taskModel.findUpcoming(requestingUserId, query)
   }
 
   // Get task statistics
@@ -168,7 +436,7 @@ export class TaskService {
     overdueTasks: number
     completedToday: number
   }> {
-    if (!(await this.isAdmin(requestingUserId))) {
+    if (!(await hasAdminRole(requestingUserId))) {
       throw new TaskError('Access denied', 403)
     }
 
@@ -189,7 +457,7 @@ export class TaskService {
     // Users can only get their own stats unless they're admin
     if (
       userId !== requestingUserId &&
-      !(await this.isAdmin(requestingUserId))
+      !(await hasAdminRole(requestingUserId))
     ) {
       throw new TaskError('Access denied', 403)
     }
@@ -197,69 +465,180 @@ export class TaskService {
     return await taskModel.getTaskStats(userId)
   }
 
-  // Permission helper methods
-  private async canAccessTask(
+  private async assertAssignable(
+    projectId: number,
+    assigneeId: number | null | undefined,
+  ): Promise<void> {
+    if (
+      assigneeId !== undefined &&
+      assigneeId !== null &&
+      !(await this.canBeAssigned(projectId, assigneeId))
+    ) {
+      throw new TaskError(
+        'Assignee must be an active user with access to the project',
+        400,
+      )
+    }
+  }
+
+  private async assertMilestone(
+    projectId: number,
+    milestoneId: number | null | undefined,
+  ): Promise<void> {
+    if (
+      milestoneId !== undefined &&
+      milestoneId !== null &&
+      !(await projectMilestoneModel.belongsToProject(milestoneId, projectId))
+    ) {
+      throw new TaskError("Milestone must belong to the task's project", 400)
+    }
+  }
+
+  // Import checklist lines from definitionOfDone the first time a task is seen
+  private async importChecklist(
     task: TaskResponse,
     requestingUserId: number,
+  ): Promise<TaskResponse> {
+    const imported = await taskChecklistModel.importFromDefinitionOfDone(
+      task.id,
+    )
+    if (!imported) {
+      return task
+    }
+
+    return (await taskModel.findById(task.id, requestingUserId)) ?? task
+  }
+
+  // Move tasks out of BLOCKED once every task blocking them is DONE
+  private async releaseBlockedTasks(
+    blockerTaskId: number,
+    requestingUserId: number,
+  ): Promise<void> {
+    const releasable =
+      await taskDependencyModel.findReleasableTasks(blockerTaskId)
+
+    for (const taskId of releasable) {
+      await taskModel.update(
+        taskId,
+        { status: TaskStatus.TODO },
+        requestingUserId,
+        null,
+      )
+    }
+  }
+
+  // Permission helper methods
+  async canAccessProject(
+    projectId: number,
+    requestingUserId: number,
   ): Promise<boolean> {
-    // Task owner can access
-    if (task.userId === requestingUserId) {
-      return true
+    return await this.hasProjectRole(
+      projectId,
+      requestingUserId,
+      ProjectRole.VIEWER,
+    )
+  }
+
+  // Creating tasks in a project and moving tasks into it
+  async canEditProject(
+    projectId: number,
+    requestingUserId: number,
+  ): Promise<boolean> {
+    return await this.hasProjectRole(
+      projectId,
+      requestingUserId,
+      ProjectRole.EDITOR,
+    )
+  }
+
+  // Owner and members with at least the given role, and admins
+  async hasProjectRole(
+    projectId: number,
+    requestingUserId: number,
+    minimum: ProjectRole,
+  ): Promise<boolean> {
+    const project = await prisma.project.findFirst({
+      where: { id: projectId, deletedAt: null },
+      select: { id: true },
+    })
+    if (!project) {
+      return false
     }
 
-    // Project owner can access tasks in their project
-    if (task.project) {
-      const project = await prisma.project.findFirst({
-        where: { id: task.projectId, userId: requestingUserId },
-      })
-      if (project) {
-        return true
-      }
+    const role = await projectMemberModel.findRole(projectId, requestingUserId)
+    return (
+      hasProjectRole(role, minimum) || (await hasAdminRole(requestingUserId))
+    )
+  }
+
+  async canAccessTask(
+    task: TaskResponse,
+    requestingUserId: number,
+  ): Promise<boolean> {
+    // Assignee and creator can access
+    if (
+      task.userId === requestingUserId ||
+      this.isCreator(task, requestingUserId)
+    ) {
+      return true
     }
 
-    // Admins can access all tasks
-    return await this.isAdmin(requestingUserId)
+    // Project owner and members can access tasks in their project
+    return await this.hasProjectRole(
+      task.projectId,
+      requestingUserId,
+      ProjectRole.VIEWER,
+    )
   }
 
-  private async canModifyTask(
+  async canModifyTask(
     task: TaskResponse,
     requestingUserId: number,
   ): Promise<boolean> {
-    // Task owner can modify
+    // Assignee can work on the task
     if (task.userId === requestingUserId) {
       return true
     }
 
-    // Project owner can modify tasks in their project
-    const project = await prisma.project.findFirst({
-      where: { id: task.projectId, userId: requestingUserId },
-    })
-    if (project) {
+    // So can the project's editors
+    if (await this.canEditProject(task.projectId, requestingUserId)) {
       return true
     }
 
-    // Admins can modify all tasks
-    return await this.isAdmin(requestingUserId)
+    return await this.canManageTask(task, requestingUserId)
   }
 
-  private async isAdmin(userId: number): Promise<boolean> {
-    if (!userId) return false
+  // Reassigning and deleting are left to the creator, not the assignee
+  async canManageTask(
+    task: TaskResponse,
+    requestingUserId: number,
+  ): Promise<boolean> {
+    // Creator can manage
+    if (this.isCreator(task, requestingUserId)) {
+      return true
+    }
 
-    try {
-      const user = await prisma.user.findUnique({
-        where: { id: userId },
-        select: { role: true },
-      })
+    // Project owners, and admins, can manage tasks in the project
+    return await this.hasProjectRole(
+      task.projectId,
+      requestingUserId,
+      ProjectRole.OWNER,
+    )
+  }
 
-      return (
-        user?.role === UserRole.ADMIN ||
-        user?.role === UserRole.MANAGER ||
-        user?.role === UserRole.SUPERADMIN
-      )
-    } catch (error) {
-      console.error('Error checking admin status:', error)
-      return false
-    }
+  // Tasks can only be assigned to active users who can access the project
+  async canBeAssigned(projectId: number, userId: number): Promise<boolean> {
+    const user = await prisma.user.findFirst({
+      where: { id: userId, deletedAt: null },
+      select: { id: true },
+    })
+
+    return !!user && (await this.canAccessProject(projectId, userId))
+  }
+
+  // Tasks created before assignment existed were assigned to their creator
+  private isCreator(task: TaskResponse, userId: number): boolean {
+    return (task.creatorId ?? task.userId) === userId
   }
 }
 
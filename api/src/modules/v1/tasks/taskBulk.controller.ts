@@ -0,0 +1,56 @@
+import { Request, Response, NextFunction } from 'express'
+import { ZodError } from 'zod'
+import { taskBulkService } from './taskBulk.service'
+import { bulkTaskSchema } from './taskBulk.model'
+import { TaskError } from './task.model'
+import {
+  createSuccessResponse,
+  createErrorResponse,
+} from '../../../utils/response'
+
+export class TaskBulkController {
+  // POST /tasks/bulk
+  async bulkUpdate(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const validatedData = bulkTaskSchema.parse(req.body)
+      const result = await taskBulkService.bulkUpdate(validatedData, userId)
+
+      if (!result.dryRun) {
+        console.info('Bulk task operation applied', {
+          operation: validatedData.operation.type,
+          succeeded: result.succeeded,
+          failed: result.failed,
+          userId,
+        })
+      }
+
+      return createSuccessResponse(
+        res,
+        result.dryRun
+          ? 'Bulk operation previewed successfully'
+          : 'Bulk operation applied successfully',
+        result,
+      )
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(res, 'Validation failed', err.issues, 400)
+      }
+      if (err instanceof TaskError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+}
+
+export const taskBulkController = new TaskBulkController()
@@ -0,0 +1,164 @@
+import { z } from 'zod'
+import { Prisma, TaskStatus } from '@prisma/client'
+import prisma from '../../../config/db'
+import {
+  taskQuerySchema,
+  statusChangeData,
+  reassignData,
+  TaskError,
+  TaskResponse,
+} from './task.model'
+
+// Most tasks a single bulk request may touch
+export const BULK_TASK_LIMIT = 500
+
+// Validation schemas
+export const taskFilterSchema = taskQuerySchema.omit({
+  page: true,
+  limit: true,
+  sortBy: true,
+  sortOrder: true,
+})
+
+export const bulkTaskOperationSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('status'),
+    status: z.nativeEnum(TaskStatus),
+    statusReason: z.string().max(500).optional(),
+  }),
+  z.object({
+    type: z.literal('assign'),
+    // null leaves the tasks unassigned
+    userId: z.number().int().positive().nullable(),
+  }),
+  z.object({
+    type: z.literal('move'),
+    projectId: z.number().int().positive(),
+  }),
+  z.object({
+    type: z.literal('delete'),
+  }),
+])
+
+export const bulkTaskSchema = z
+  .object({
+    taskIds: z
+      .array(z.number().int().positive())
+      .min(1)
+      .max(BULK_TASK_LIMIT)
+      .optional(),
+    filter: taskFilterSchema.optional(),
+    operation: bulkTaskOperationSchema,
+    dryRun: z.boolean().optional().default(false),
+  })
+  .refine((data) => (data.taskIds === undefined) !== !data.filter, {
+    message: 'Provide either taskIds or filter',
+    path: ['taskIds'],
+  })
+
+// Types
+export type BulkTaskOperation = z.infer<typeof bulkTaskOperationSchema>
+export type BulkTaskInput = z.infer<typeof bulkTaskSchema>
+
+// A validated change to one task
+export interface BulkTaskChange {
+  task: TaskResponse
+  operation: BulkTaskOperation
+}
+
+export interface BulkTaskItemResult {
+  taskId: number
+  success: boolean
+  // Set when the task was left untouched because it already matched
+  unchanged?: boolean
+  error?: string
+  statusCode?: number
+}
+
+export interface BulkTaskResponse {
+  dryRun: boolean
+  matched: number
+  succeeded: number
+  failed: number
+  results: BulkTaskItemResult[]
+}
+
+// Database operations
+export const taskBulkModel = {
+  /**
+   * Apply every change in one transaction; if any write fails none of them
+   * are kept. Checks that must still hold when the changes commit run in
+   * the transaction first.
+   */
+  async apply(
+    changes: BulkTaskChange[],
+    userId: number,
+    beforeApply?: (tx: Prisma.TransactionClient) => Promise<void>,
+  ): Promise<void> {
+    try {
+      await prisma.$transaction(async (tx) => {
+        await beforeApply?.(tx)
+
+        for (const { task, operation } of changes) {
+          switch (operation.type) {
+            case 'status':
+              await tx.task.update({
+                where: { id: task.id },
+                data: {
+                  ...statusChangeData(task, operation.status, userId),
+                  rank: null,
+                },
+              })
+              if (operation.statusReason) {
+                await tx.activity.create({
+                  data: {
+                    userId,
+                    action: 'STATUS_CHANGE',
+                    modelType: 'Task',
+                    modelId: task.uuid,
+                    description: operation.statusReason,
+                    oldValues: { status: task.status },
+                    newValues: { status: operation.status },
+                  },
+                })
+              }
+              break
+            case 'assign':
+              await tx.task.update({
+                where: { id: task.id },
+                data: reassignData(task, operation.userId, userId),
+              })
+              break
+            case 'move':
+              await tx.task.update({
+                where: { id: task.id },
+                // A moved task leaves its milestone, as on a single update
+                data: {
+                  projectId: operation.projectId,
+                  milestoneId: null,
+                  rank: null,
+                },
+              })
+              break
+            case 'delete':
+              // Subtasks go with their parent
+              await tx.task.updateMany({
+                where: {
+                  OR: [{ id: task.id }, { parentTaskId: task.id }],
+                  deletedAt: null,
+                },
+                data: { deletedAt: new Date(), rank: null },
+              })
+              break
+          }
+        }
+      })
+    } catch (error) {
+      if (error instanceof TaskError) {
+        throw error
+      }
+      console.error('Error applying bulk task changes:', error)
+      throw new TaskError('Failed to apply bulk task changes', 500)
+    }
+  },
+}
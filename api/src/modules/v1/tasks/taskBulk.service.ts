@@ -0,0 +1,346 @@
+import { taskModel, TaskError, TaskResponse } from './task.model'
+import {
+  taskBulkModel,
+  BulkTaskInput,
+  BulkTaskOperation,
+  BulkTaskChange,
+  BulkTaskItemResult,
+  BulkTaskResponse,
+  BULK_TASK_LIMIT,
+} from './taskBulk.model'
+import { taskWorkflowModel } from './taskWorkflow.model'
+import { taskChecklistModel } from './taskChecklist.model'
+import { taskService } from './task.service'
+import { projectBudgetService } from '../projects/projectBudget.service'
+import { Prisma, TaskStatus } from '@prisma/client'
+import prisma from '../../../config/db'
+import { hasAdminRole } from '../../../utils/auth'
+
+// Tasks already accepted earlier in the same request
+interface BatchState {
+  // Tasks that will be WIP afterwards, by project
+  pendingWip: Map<number, { taskId: number; assigneeId: number | null }[]>
+  // Titles moved into each project
+  movedTitles: Map<number, Set<string>>
+  // Accepted changes that take a task into WIP or keep it there
+  wipChanges: WorkflowChange[]
+}
+
+interface WorkflowChange {
+  taskId: number
+  projectId: number
+  assigneeId: number | null
+  from: TaskStatus
+  to: TaskStatus
+  reason?: string
+}
+
+export class TaskBulkService {
+  /**
+   * Apply one operation to many tasks. Every task is checked on its own and
+   * reported as a success or failure; the tasks that pass are then changed
+   * together in one transaction. A dry run only reports.
+   */
+  async bulkUpdate(
+    data: BulkTaskInput,
+    requestingUserId: number,
+  ): Promise<BulkTaskResponse> {
+    await this.checkOperation(data.operation, requestingUserId)
+    const taskIds = await this.resolveTaskIds(data, requestingUserId)
+
+    const batch: BatchState = {
+      pendingWip: new Map(),
+      movedTitles: new Map(),
+      wipChanges: [],
+    }
+    const results: BulkTaskItemResult[] = []
+    const changes: BulkTaskChange[] = []
+
+    for (const taskId of taskIds) {
+      try {
+        const task = await this.checkTask(
+          taskId,
+          data.operation,
+          requestingUserId,
+          batch,
+        )
+        if (task) {
+          changes.push({ task, operation: data.operation })
+          results.push({ taskId, success: true })
+        } else {
+          results.push({ taskId, success: true, unchanged: true })
+        }
+      } catch (error) {
+        if (!(error instanceof TaskError)) {
+          throw error
+        }
+        results.push({
+          taskId,
+          success: false,
+          error: error.message,
+          statusCode: error.statusCode,
+        })
+      }
+    }
+
+    if (!data.dryRun && changes.length > 0) {
+      // WIP limits are counted again with the projects locked, so tasks
+      // taken into WIP concurrently fail the whole batch instead of
+      // pushing past a limit
+      await taskBulkModel.apply(changes, requestingUserId, async (tx) => {
+        const recount: BatchState = {
+          pendingWip: new Map(),
+          movedTitles: new Map(),
+          wipChanges: [],
+        }
+        const wipChanges = [...batch.wipChanges].sort(
+          (a, b) => a.projectId - b.projectId,
+        )
+        for (const change of wipChanges) {
+          await this.checkWorkflow(recount, change, tx)
+        }
+      })
+
+      // Moved tasks bring their time and cost to the target project's budget
+      if (data.operation.type === 'move') {
+        await projectBudgetService.tryCheckThresholds(
+          data.operation.projectId,
+          requestingUserId,
+        )
+      }
+
+      if (
+        data.operation.type === 'status' &&
+        data.operation.status === TaskStatus.DONE
+      ) {
+        for (const { task } of changes) {
+          await taskService.completeTask(task, requestingUserId)
+        }
+      }
+    }
+
+    const succeeded = results.filter((result) => result.success).length
+    return {
+      dryRun: data.dryRun,
+      matched: taskIds.length,
+      succeeded,
+      failed: results.length - succeeded,
+      results,
+    }
+  }
+
+  // Reject operations whose target user or project is unusable up front
+  private async checkOperation(
+    operation: BulkTaskOperation,
+    requestingUserId: number,
+  ): Promise<void> {
+    if (operation.type === 'assign' && operation.userId !== null) {
+      const assignee = await prisma.user.findFirst({
+        where: { id: operation.userId, deletedAt: null },
+      })
+      if (!assignee) {
+        throw new TaskError('Assignee not found', 404)
+      }
+    }
+
+    if (
+      operation.type === 'move' &&
+      !(await taskService.canEditProject(operation.projectId, requestingUserId))
+    ) {
+      throw new TaskError('Project not found or access denied', 404)
+    }
+  }
+
+  // Explicit ids, or the tasks matching the filter that the user may list
+  private async resolveTaskIds(
+    data: BulkTaskInput,
+    requestingUserId: number,
+  ): Promise<number[]> {
+    if (data.taskIds) {
+      return [...new Set(data.taskIds)]
+    }
+
+    const filter = data.filter ?? {}
+    const taskIds = (await hasAdminRole(requestingUserId))
+      ? await taskModel.findIds(
+          filter,
+          requestingUserId,
+          filter.userId,
+          BULK_TASK_LIMIT + 1,
+        )
+      : await taskModel.findIds(
+          filter,
+          requestingUserId,
+          requestingUserId,
+          BULK_TASK_LIMIT + 1,
+          'involved',
+        )
+
+    if (taskIds.length > BULK_TASK_LIMIT) {
+      throw new TaskError(
+        `Filter matches more than ${BULK_TASK_LIMIT} tasks; narrow it down`,
+        400,
+      )
+    }
+    return taskIds
+  }
+
+  /**
+   * Validate the operation for one task with the same rules as a single
+   * update. Resolves to null when the task already matches.
+   */
+  private async checkTask(
+    taskId: number,
+    operation: BulkTaskOperation,
+    requestingUserId: number,
+    batch: BatchState,
+  ): Promise<TaskResponse | null> {
+    const task = await taskModel.findById(taskId, requestingUserId)
+    if (!task) {
+      throw new TaskError('Task not found', 404)
+    }
+
+    if (!(await taskService.canModifyTask(task, requestingUserId))) {
+      throw new TaskError('Insufficient permissions to modify this task', 403)
+    }
+
+    switch (operation.type) {
+      case 'status': {
+        if (task.status === operation.status) {
+          return null
+        }
+
+        if (operation.status === TaskStatus.DONE) {
+          await taskChecklistModel.importFromDefinitionOfDone(task.id)
+          const unchecked = await taskChecklistModel.countUncheckedRequired(
+            task.id,
+          )
+          if (unchecked > 0) {
+            throw new TaskError(
+              `${unchecked} required checklist item(s) must be checked before completing this task`,
+              409,
+            )
+          }
+        }
+
+        await this.checkWorkflow(batch, {
+          taskId: task.id,
+          projectId: task.projectId,
+          assigneeId: task.userId,
+          from: task.status,
+          to: operation.status,
+          reason: operation.statusReason,
+        })
+        return task
+      }
+
+      case 'assign': {
+        if (task.userId === operation.userId) {
+          return null
+        }
+
+        if (!(await taskService.canManageTask(task, requestingUserId))) {
+          throw new TaskError(
+            'Insufficient permissions to reassign this task',
+            403,
+          )
+        }
+        if (
+          operation.userId !== null &&
+          !(await taskService.canBeAssigned(task.projectId, operation.userId))
+        ) {
+          throw new TaskError(
+            'Assignee must be an active user with access to the project',
+            400,
+          )
+        }
+
+        if (task.status === TaskStatus.WIP) {
+          await this.checkWorkflow(batch, {
+            taskId: task.id,
+            projectId: task.projectId,
+            assigneeId: operation.userId,
+            from: task.status,
+            to: task.status,
+          })
+        }
+        return task
+      }
+
+      case 'move': {
+        if (task.projectId === operation.projectId) {
+          return null
+        }
+
+        // Subtasks live in their parent's project
+        const subtaskCount = await prisma.task.count({
+          where: { parentTaskId: task.id, deletedAt: null },
+        })
+        if (task.parentTaskId || subtaskCount > 0) {
+          throw new TaskError(
+            'Tasks with a parent or subtasks cannot change project',
+            400,
+          )
+        }
+
+        const titles =
+          batch.movedTitles.get(operation.projectId) ?? new Set<string>()
+        const duplicate = await prisma.task.findFirst({
+          where: {
+            projectId: operation.projectId,
+            title: task.title,
+            deletedAt: null,
+          },
+        })
+        if (duplicate || titles.has(task.title)) {
+          throw new TaskError(
+            'Task with this title already exists in the project',
+            400,
+          )
+        }
+
+        if (task.status === TaskStatus.WIP) {
+          await this.checkWorkflow(batch, {
+            taskId: task.id,
+            projectId: operation.projectId,
+            assigneeId: task.userId,
+            from: task.status,
+            to: task.status,
+          })
+        }
+
+        titles.add(task.title)
+        batch.movedTitles.set(operation.projectId, titles)
+        return task
+      }
+
+      case 'delete':
+        if (!(await taskService.canManageTask(task, requestingUserId))) {
+          throw new TaskError(
+            'Insufficient permissions to delete this task',
+            403,
+          )
+        }
+        return task
+    }
+  }
+
+  // Workflow and WIP checks that count the tasks accepted so far
+  private async checkWorkflow(
+    batch: BatchState,
+    change: WorkflowChange,
+    tx?: Prisma.TransactionClient,
+  ): Promise<void> {
+    const pendingWip = batch.pendingWip.get(change.projectId) ?? []
+
+    await taskWorkflowModel.assertStatusChange({ ...change, pendingWip }, tx)
+
+    if (change.to === TaskStatus.WIP) {
+      pendingWip.push({ taskId: change.taskId, assigneeId: change.assigneeId })
+      batch.pendingWip.set(change.projectId, pendingWip)
+      batch.wipChanges.push(change)
+    }
+  }
+}
+
+export const taskBulkService = new TaskBulkService()
@@ -0,0 +1,228 @@
+import { Request, Response, NextFunction } from 'express'
+import { ZodError } from 'zod'
+import { taskChecklistService } from './taskChecklist.service'
+import {
+  createChecklistItemSchema,
+  updateChecklistItemSchema,
+  reorderChecklistSchema,
+} from './taskChecklist.model'
+import { TaskError } from './task.model'
+import {
+  createSuccessResponse,
+  createErrorResponse,
+} from '../../../utils/response'
+
+export class TaskChecklistController {
+  // GET /tasks/:id/checklist
+  async getChecklist(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const taskId = parseInt(req.params.id)
+      if (isNaN(taskId)) {
+        return createErrorResponse(res, 'Invalid task ID', undefined, 400)
+      }
+
+      const items = await taskChecklistService.getChecklist(taskId, userId)
+
+      return createSuccessResponse(
+        res,
+        'Checklist retrieved successfully',
+        items,
+      )
+    } catch (err) {
+      if (err instanceof TaskError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // POST /tasks/:id/checklist
+  async addItem(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const taskId = parseInt(req.params.id)
+      if (isNaN(taskId)) {
+        return createErrorResponse(res, 'Invalid task ID', undefined, 400)
+      }
+
+      const validatedData = createChecklistItemSchema.parse(req.body)
+      const item = await taskChecklistService.addItem(
+        taskId,
+        validatedData,
+        userId,
+      )
+
+      return createSuccessResponse(
+        res,
+        'Checklist item created successfully',
+        item,
+        201,
+      )
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(res, 'Validation failed', err.issues, 400)
+      }
+      if (err instanceof TaskError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // PUT /tasks/:id/checklist/order
+  async reorderItems(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const taskId = parseInt(req.params.id)
+      if (isNaN(taskId)) {
+        return createErrorResponse(res, 'Invalid task ID', undefined, 400)
+      }
+
+      const validatedData = reorderChecklistSchema.parse(req.body)
+      const items = await taskChecklistService.reorderItems(
+        taskId,
+        validatedData,
+        userId,
+      )
+
+      return createSuccessResponse(
+        res,
+        'Checklist reordered successfully',
+        items,
+      )
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(res, 'Validation failed', err.issues, 400)
+      }
+      if (err instanceof TaskError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // PUT /tasks/:id/checklist/:itemId
+  async updateItem(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const taskId = parseInt(req.params.id)
+      if (isNaN(taskId)) {
+        return createErrorResponse(res, 'Invalid task ID', undefined, 400)
+      }
+
+      const itemId = parseInt(req.params.itemId)
+      if (isNaN(itemId)) {
+        return createErrorResponse(
+          res,
+          'Invalid checklist item ID',
+          undefined,
+          400,
+        )
+      }
+
+      const validatedData = updateChecklistItemSchema.parse(req.body)
+      const item = await taskChecklistService.updateItem(
+        taskId,
+        itemId,
+        validatedData,
+        userId,
+      )
+
+      return createSuccessResponse(
+        res,
+        'Checklist item updated successfully',
+        item,
+      )
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(res, 'Validation failed', err.issues, 400)
+      }
+      if (err instanceof TaskError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // DELETE /tasks/:id/checklist/:itemId
+  async deleteItem(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const taskId = parseInt(req.params.id)
+      if (isNaN(taskId)) {
+        return createErrorResponse(res, 'Invalid task ID', undefined, 400)
+      }
+
+      const itemId = parseInt(req.params.itemId)
+      if (isNaN(itemId)) {
+        return createErrorResponse(
+          res,
+          'Invalid checklist item ID',
+          undefined,
+          400,
+        )
+      }
+
+      await taskChecklistService.deleteItem(taskId, itemId, userId)
+
+      return createSuccessResponse(
+        res,
+        'Checklist item deleted successfully',
+        null,
+      )
+    } catch (err) {
+      if (err instanceof TaskError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+}
+
+export const taskChecklistController = new TaskChecklistController()
@@ -0,0 +1,251 @@
+import { z } from 'zod'
+import prisma, { withTransaction } from '../../../config/db'
+import { TaskError } from './task.model'
+
+// Validation schemas
+export const createChecklistItemSchema = z.object({
+  title: z.string().min(1, 'Title is required').max(500, 'Title too long'),
+  isRequired: z.boolean().optional(),
+  isChecked: z.boolean().optional(),
+})
+
+export const updateChecklistItemSchema = z.object({
+  title: z
+    .string()
+    .min(1, 'Title is required')
+    .max(500, 'Title too long')
+    .optional(),
+  isRequired: z.boolean().optional(),
+  isChecked: z.boolean().optional(),
+})
+
+export const reorderChecklistSchema = z.object({
+  itemIds: z.array(z.number().int().positive()).min(1),
+})
+
+// Types
+export type CreateChecklistItemInput = z.infer<typeof createChecklistItemSchema>
+export type UpdateChecklistItemInput = z.infer<typeof updateChecklistItemSchema>
+export type ReorderChecklistInput = z.infer<typeof reorderChecklistSchema>
+
+export interface ChecklistItemResponse {
+  id: number
+  taskId: number
+  title: string
+  position: number
+  isRequired: boolean
+  isChecked: boolean
+  checkedAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+// Matches "- [ ] item" and "* [x] item" markdown task list lines
+const CHECKBOX_LINE = /^\s*[-*]\s+\[([ xX])\]\s+(.+?)\s*$/
+
+/**
+ * Extract checklist items from markdown checkbox lines, keeping their order
+ */
+export function parseChecklistMarkdown(
+  text: string | null,
+): { title: string; isChecked: boolean }[] {
+  if (!text) {
+    return []
+  }
+
+  return text.split(/\r?\n/).flatMap((line) => {
+    const match = CHECKBOX_LINE.exec(line)
+    return match
+      ? [{ title: match[2].slice(0, 500), isChecked: match[1] !== ' ' }]
+      : []
+  })
+}
+
+// Database operations
+export const taskChecklistModel = {
+  /**
+   * Turn the checkbox lines of a task's definitionOfDone into checklist
+   * items. Runs at most once per task: the checklistImportedAt stamp is
+   * claimed first so concurrent callers cannot import twice. Resolves to
+   * true when items were created.
+   */
+  async importFromDefinitionOfDone(taskId: number): Promise<boolean> {
+    try {
+      return await withTransaction(async (tx) => {
+        const claimed = await tx.task.updateMany({
+          where: { id: taskId, checklistImportedAt: null },
+          data: { checklistImportedAt: new Date() },
+        })
+        if (claimed.count === 0) {
+          return false
+        }
+
+        const task = await tx.task.findUnique({
+          where: { id: taskId },
+          select: { definitionOfDone: true },
+        })
+        const items = parseChecklistMarkdown(task?.definitionOfDone ?? null)
+        if (items.length === 0) {
+          return false
+        }
+
+        const last = await tx.taskChecklistItem.aggregate({
+          where: { taskId },
+          _max: { position: true },
+        })
+        const start = (last._max.position ?? -1) + 1
+
+        await tx.taskChecklistItem.createMany({
+          data: items.map((item, index) => ({
+            taskId,
+            title: item.title,
+            position: start + index,
+            isChecked: item.isChecked,
+            checkedAt: item.isChecked ? new Date() : null,
+          })),
+        })
+
+        return true
+      })
+    } catch (error) {
+      console.error('Error importing checklist:', error)
+      throw new TaskError('Failed to import checklist', 500)
+    }
+  },
+
+  async findForTask(taskId: number): Promise<ChecklistItemResponse[]> {
+    try {
+      return await prisma.taskChecklistItem.findMany({
+        where: { taskId },
+        orderBy: [{ position: 'asc' }, { id: 'asc' }],
+      })
+    } catch (error) {
+      console.error('Error fetching checklist:', error)
+      throw new TaskError('Failed to fetch checklist', 500)
+    }
+  },
+
+  async findById(
+    taskId: number,
+    itemId: number,
+  ): Promise<ChecklistItemResponse | null> {
+    try {
+      return await prisma.taskChecklistItem.findFirst({
+        where: { id: itemId, taskId },
+      })
+    } catch (error) {
+      console.error('Error fetching checklist item:', error)
+      throw new TaskError('Failed to fetch checklist item', 500)
+    }
+  },
+
+  async create(
+    taskId: number,
+    data: CreateChecklistItemInput,
+  ): Promise<ChecklistItemResponse> {
+    try {
+      return await withTransaction(async (tx) => {
+        const last = await tx.taskChecklistItem.aggregate({
+          where: { taskId },
+          _max: { position: true },
+        })
+
+        return tx.taskChecklistItem.create({
+          data: {
+            taskId,
+            title: data.title,
+            position: (last._max.position ?? -1) + 1,
+            isRequired: data.isRequired ?? true,
+            isChecked: data.isChecked ?? false,
+            checkedAt: data.isChecked ? new Date() : null,
+          },
+        })
+      })
+    } catch (error) {
+      console.error('Error creating checklist item:', error)
+      throw new TaskError('Failed to create checklist item', 500)
+    }
+  },
+
+  async update(
+    item: ChecklistItemResponse,
+    data: UpdateChecklistItemInput,
+  ): Promise<ChecklistItemResponse> {
+    try {
+      return await prisma.taskChecklistItem.update({
+        where: { id: item.id },
+        data: {
+          ...(data.title && { title: data.title }),
+          ...(data.isRequired !== undefined && { isRequired: data.isRequired }),
+          ...(data.isChecked !== undefined &&
+            data.isChecked !== item.isChecked && {
+              isChecked: data.isChecked,
+              checkedAt: data.isChecked ? new Date() : null,
+            }),
+        },
+      })
+    } catch (error) {
+      console.error('Error updating checklist item:', error)
+      throw new TaskError('Failed to update checklist item', 500)
+    }
+  },
+
+  async delete(itemId: number): Promise<void> {
+    try {
+      await prisma.taskChecklistItem.delete({ where: { id: itemId } })
+    } catch (error) {
+      console.error('Error deleting checklist item:', error)
+      throw new TaskError('Failed to delete checklist item', 500)
+    }
+  },
+
+  /**
+   * Rewrite positions to follow itemIds, which must list every item of the
+   * task exactly once
+   */
+  async reorder(
+    taskId: number,
+    itemIds: number[],
+  ): Promise<ChecklistItemResponse[]> {
+    const items = await this.findForTask(taskId)
+    const existingIds = new Set(items.map((item) => item.id))
+
+    if (
+      itemIds.length !== items.length ||
+      new Set(itemIds).size !== itemIds.length ||
+      !itemIds.every((id) => existingIds.has(id))
+    ) {
+      throw new TaskError(
+        'itemIds must list every checklist item of the task exactly once',
+        400,
+      )
+    }
+
+    try {
+      await withTransaction(async (tx) => {
+        for (const [position, id] of itemIds.entries()) {
+          await tx.taskChecklistItem.update({
+            where: { id },
+            data: { position },
+          })
+        }
+      })
+    } catch (error) {
+      console.error('Error reordering checklist:', error)
+      throw new TaskError('Failed to reorder checklist', 500)
+    }
+
+    return await this.findForTask(taskId)
+  },
+
+  async countUncheckedRequired(taskId: number): Promise<number> {
+    try {
+      return await prisma.taskChecklistItem.count({
+        where: { taskId, isRequired: true, isChecked: false },
+      })
+    } catch (error) {
+      console.error('Error counting checklist items:', error)
+      throw new TaskError('Failed to count checklist items', 500)
+    }
+  },
+}
@@ -0,0 +1,100 @@
+import { taskModel, TaskError, TaskResponse } from './task.model'
+import {
+  taskChecklistModel,
+  CreateChecklistItemInput,
+  UpdateChecklistItemInput,
+  ReorderChecklistInput,
+  ChecklistItemResponse,
+} from './taskChecklist.model'
+import { taskService } from './task.service'
+
+export class TaskChecklistService {
+  // Get a task's checklist in order
+  async getChecklist(
+    taskId: number,
+    requestingUserId: number,
+  ): Promise<ChecklistItemResponse[]> {
+    await taskService.getTaskById(taskId, requestingUserId)
+
+    return await taskChecklistModel.findForTask(taskId)
+  }
+
+  // Append an item to a task's checklist
+  async addItem(
+    taskId: number,
+    data: CreateChecklistItemInput,
+    requestingUserId: number,
+  ): Promise<ChecklistItemResponse> {
+    await this.findModifiableTask(taskId, requestingUserId)
+
+    return await taskChecklistModel.create(taskId, data)
+  }
+
+  // Rename, check or uncheck a checklist item
+  async updateItem(
+    taskId: number,
+    itemId: number,
+    data: UpdateChecklistItemInput,
+    requestingUserId: number,
+  ): Promise<ChecklistItemResponse> {
+    await this.findModifiableTask(taskId, requestingUserId)
+    const item = await this.findItem(taskId, itemId)
+
+    return await taskChecklistModel.update(item, data)
+  }
+
+  // Remove a checklist item
+  async deleteItem(
+    taskId: number,
+    itemId: number,
+    requestingUserId: number,
+  ): Promise<void> {
+    await this.findModifiableTask(taskId, requestingUserId)
+    const item = await this.findItem(taskId, itemId)
+
+    await taskChecklistModel.delete(item.id)
+  }
+
+  // Put a task's checklist items in a new order
+  async reorderItems(
+    taskId: number,
+    data: ReorderChecklistInput,
+    requestingUserId: number,
+  ): Promise<ChecklistItemResponse[]> {
+    await this.findModifiableTask(taskId, requestingUserId)
+
+    return await taskChecklistModel.reorder(taskId, data.itemIds)
+  }
+
+  private async findModifiableTask(
+    taskId: number,
+    requestingUserId: number,
+  ): Promise<TaskResponse> {
+    const task = await taskModel.findById(taskId, requestingUserId)
+    if (!task) {
+      throw new TaskError('Task not found', 404)
+    }
+
+    if (!(await taskService.canModifyTask(task, requestingUserId))) {
+      throw new TaskError('Insufficient permissions to modify this task', 403)
+    }
+
+    // Make sure imported items exist before the checklist is edited
+    await taskChecklistModel.importFromDefinitionOfDone(task.id)
+
+    return task
+  }
+
+  private async findItem(
+    taskId: number,
+    itemId: number,
+  ): Promise<ChecklistItemResponse> {
+    const item = await taskChecklistModel.findById(taskId, itemId)
+    if (!item) {
+      throw new TaskError('Checklist item not found', 404)
+    }
+    return item
+  }
+}
+
+export const taskChecklistService = new TaskChecklistService()
@@ -0,0 +1,173 @@
+import { Request, Response, NextFunction } from 'express'
+import { ZodError } from 'zod'
+import { taskCommentService } from './taskComment.service'
+import { createCommentSchema, updateCommentSchema } from './taskComment.model'
+import { TaskError } from './task.model'
+import {
+  createSuccessResponse,
+  createErrorResponse,
+} from '../../../utils/response'
+
+export class TaskCommentController {
+  // GET /tasks/:id/comments
+  async getComments(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const taskId = parseInt(req.params.id)
+      if (isNaN(taskId)) {
+        return createErrorResponse(res, 'Invalid task ID', undefined, 400)
+      }
+
+      const comments = await taskCommentService.getComments(taskId, userId)
+
+      return createSuccessResponse(
+        res,
+        'Comments retrieved successfully',
+        comments,
+      )
+    } catch (err) {
+      if (err instanceof TaskError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // POST /tasks/:id/comments
+  async addComment(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const taskId = parseInt(req.params.id)
+      if (isNaN(taskId)) {
+        return createErrorResponse(res, 'Invalid task ID', undefined, 400)
+      }
+
+      const validatedData = createCommentSchema.parse(req.body)
+      const comment = await taskCommentService.addComment(
+        taskId,
+        validatedData,
+        userId,
+      )
+
+      console.info('Task comment created', {
+        taskId,
+        commentId: comment.id,
+        userId,
+      })
+
+      return createSuccessResponse(
+        res,
+        'Comment created successfully',
+        comment,
+        201,
+      )
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(res, 'Validation failed', err.issues, 400)
+      }
+      if (err instanceof TaskError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // PUT /tasks/:id/comments/:commentId
+  async updateComment(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const taskId = parseInt(req.params.id)
+      if (isNaN(taskId)) {
+        return createErrorResponse(res, 'Invalid task ID', undefined, 400)
+      }
+
+      const commentId = parseInt(req.params.commentId)
+      if (isNaN(commentId)) {
+        return createErrorResponse(res, 'Invalid comment ID', undefined, 400)
+      }
+
+      const validatedData = updateCommentSchema.parse(req.body)
+      const comment = await taskCommentService.updateComment(
+        taskId,
+        commentId,
+        validatedData,
+        userId,
+      )
+
+      return createSuccessResponse(res, 'Comment updated successfully', comment)
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(res, 'Validation failed', err.issues, 400)
+      }
+      if (err instanceof TaskError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // DELETE /tasks/:id/comments/:commentId
+  async deleteComment(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const taskId = parseInt(req.params.id)
+      if (isNaN(taskId)) {
+        return createErrorResponse(res, 'Invalid task ID', undefined, 400)
+      }
+
+      const commentId = parseInt(req.params.commentId)
+      if (isNaN(commentId)) {
+        return createErrorResponse(res, 'Invalid comment ID', undefined, 400)
+      }
+
+      await taskCommentService.deleteComment(taskId, commentId, userId)
+
+      console.info('Task comment deleted', { taskId, commentId, userId })
+
+      return createSuccessResponse(res, 'Comment deleted successfully', null)
+    } catch (err) {
+      if (err instanceof TaskError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+}
+
+export const taskCommentController = new TaskCommentController()
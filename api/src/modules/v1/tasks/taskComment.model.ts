@@ -0,0 +1,262 @@
+import { z } from 'zod'
+import { Prisma } from '@prisma/client'
+import prisma, { withTransaction } from '../../../config/db'
+import { TaskError } from './task.model'
+
+// Validation schemas
+export const createCommentSchema = z.object({
+  body: z
+    .string()
+    .trim()
+    .min(1, 'Comment body is required')
+    .max(10000, 'Comment too long'),
+  parentCommentId: z.number().int().positive().optional(),
+})
+
+export const updateCommentSchema = z.object({
+  body: z
+    .string()
+    .trim()
+    .min(1, 'Comment body is required')
+    .max(10000, 'Comment too long'),
+})
+
+// Types
+export type CreateCommentInput = z.infer<typeof createCommentSchema>
+export type UpdateCommentInput = z.infer<typeof updateCommentSchema>
+
+export interface CommentAuthor {
+  id: number
+  name: string
+}
+
+export interface MentionedUser {
+  id: number
+  name: string
+  email: string
+}
+
+export interface CommentResponse {
+  id: number
+  uuid: string
+  taskId: number
+  userId: number
+  parentCommentId: number | null
+  // null for a deleted comment kept in the thread because it has replies
+  body: string | null
+  editedAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+  deletedAt: Date | null
+  user: CommentAuthor
+  mentions: MentionedUser[]
+  replies?: CommentResponse[]
+}
+
+const commentInclude = {
+  user: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  mentions: {
+    select: {
+      user: {
+        select: {
+          id: true,
+          name: true,
+          email: true,
+        },
+      },
+    },
+  },
+} satisfies Prisma.TaskCommentInclude
+
+type CommentWithRelations = Prisma.TaskCommentGetPayload<{
+  include: typeof commentInclude
+}>
+
+function toCommentResponse({
+  mentions,
+  ...comment
+}: CommentWithRelations): CommentResponse {
+  if (comment.deletedAt) {
+    return { ...comment, body: null, mentions: [] }
+  }
+  return { ...comment, mentions: mentions.map((mention) => mention.user) }
+}
+
+// Database operations
+export const taskCommentModel = {
+  /**
+   * Top-level comments of a task, oldest first, each with its replies.
+   * Deleted replies are dropped; a deleted top-level comment stays as a
+   * placeholder only while it still has visible replies.
+   */
+  async findThread(taskId: number): Promise<CommentResponse[]> {
+    try {
+      const comments = await prisma.taskComment.findMany({
+        where: { taskId },
+        include: commentInclude,
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      })
+
+      const replies = new Map<number, CommentResponse[]>()
+      for (const comment of comments) {
+        if (comment.parentCommentId === null || comment.deletedAt) {
+          continue
+        }
+        const siblings = replies.get(comment.parentCommentId) ?? []
+        siblings.push(toCommentResponse(comment))
+        replies.set(comment.parentCommentId, siblings)
+      }
+
+      return comments
+        .filter((comment) => comment.parentCommentId === null)
+        .map((comment) => ({
+          ...toCommentResponse(comment),
+          replies: replies.get(comment.id) ?? [],
+        }))
+        .filter((comment) => !comment.deletedAt || comment.replies.length > 0)
+    } catch (error) {
+      console.error('Error fetching comments:', error)
+      throw new TaskError('Failed to fetch comments', 500)
+    }
+  },
+
+  async findById(
+    taskId: number,
+    commentId: number,
+  ): Promise<CommentResponse | null> {
+    try {
+      const comment = await prisma.taskComment.findFirst({
+        where: { id: commentId, taskId, deletedAt: null },
+        include: commentInclude,
+      })
+      return comment ? toCommentResponse(comment) : null
+    } catch (error) {
+      console.error('Error fetching comment:', error)
+      throw new TaskError('Failed to fetch comment', 500)
+    }
+  },
+
+  async create(
+    taskId: number,
+    userId: number,
+    data: CreateCommentInput,
+    mentionedUserIds: number[],
+  ): Promise<CommentResponse> {
+    try {
+      const comment = await withTransaction(async (tx) => {
+        const created = await tx.taskComment.create({
+          data: {
+            taskId,
+            userId,
+            parentCommentId: data.parentCommentId ?? null,
+            body: data.body,
+          },
+        })
+
+        await tx.taskCommentMention.createMany({
+          data: mentionedUserIds.map((mentionedUserId) => ({
+            commentId: created.id,
+            userId: mentionedUserId,
+          })),
+          skipDuplicates: true,
+        })
+
+        return tx.taskComment.findUniqueOrThrow({
+          where: { id: created.id },
+          include: commentInclude,
+        })
+      })
+
+      return toCommentResponse(comment)
+    } catch (error) {
+      console.error('Error creating comment:', error)
+      throw new TaskError('Failed to create comment', 500)
+    }
+  },
+
+  /**
+   * Replace a comment's body and its mentions, stamping editedAt
+   */
+  async update(
+    commentId: number,
+    body: string,
+    mentionedUserIds: number[],
+  ): Promise<CommentResponse> {
+    try {
+      const comment = await withTransaction(async (tx) => {
+        await tx.taskCommentMention.deleteMany({
+          where: { commentId, userId: { notIn: mentionedUserIds } },
+        })
+        await tx.taskCommentMention.createMany({
+          data: mentionedUserIds.map((userId) => ({ commentId, userId })),
+          skipDuplicates: true,
+        })
+
+        return tx.taskComment.update({
+          where: { id: commentId },
+          data: { body, editedAt: new Date() },
+          include: commentInclude,
+        })
+      })
+
+      return toCommentResponse(comment)
+    } catch (error) {
+      console.error('Error updating comment:', error)
+      throw new TaskError('Failed to update comment', 500)
+    }
+  },
+
+  async delete(commentId: number): Promise<void> {
+    try {
+      await prisma.taskComment.update({
+        where: { id: commentId },
+        data: { deletedAt: new Date() },
+      })
+    } catch (error) {
+      console.error('Error deleting comment:', error)
+      throw new TaskError('Failed to delete comment', 500)
+    }
+  },
+
+  /**
+   * Users whose email or name matches one of the given values, compared
+   * case-insensitively
+   */
+  async findUsersByEmailOrName(
+    emails: string[],
+    names: string[],
+  ): Promise<MentionedUser[]> {
+    if (emails.length === 0 && names.length === 0) {
+      return []
+    }
+
+    try {
+      return await prisma.user.findMany({
+        where: {
+          deletedAt: null,
+          OR: [
+            ...emails.map((email) => ({
+              email: { equals: email, mode: 'insensitive' as const },
+            })),
+            ...names.map((name) => ({
+              name: { equals: name, mode: 'insensitive' as const },
+            })),
+          ],
+        },
+        select: {
+          id: true,
+          name: true,
+          email: true,
+        },
+      })
+    } catch (error) {
+      console.error('Error resolving mentions:', error)
+      throw new TaskError('Failed to resolve mentions', 500)
+    }
+  },
+}
@@ -0,0 +1,197 @@
+import { taskModel, TaskError, TaskResponse } from './task.model'
+import {
+  taskCommentModel,
+  CreateCommentInput,
+  UpdateCommentInput,
+  CommentResponse,
+  MentionedUser,
+} from './taskComment.model'
+import { taskService } from './task.service'
+import { notificationService } from '../notifications/notification.service'
+import { parseMentions } from '../../../utils/mentions'
+import { hasAdminRole } from '../../../utils/auth'
+
+export class TaskCommentService {
+  // Get a task's comment threads
+  async getComments(
+    taskId: number,
+    requestingUserId: number,
+  ): Promise<CommentResponse[]> {
+    await this.findAccessibleTask(taskId, requestingUserId)
+
+    return await taskCommentModel.findThread(taskId)
+  }
+
+  // Comment on a task or reply to a top-level comment
+  async addComment(
+    taskId: number,
+    data: CreateCommentInput,
+    requestingUserId: number,
+  ): Promise<CommentResponse> {
+    const task = await this.findAccessibleTask(taskId, requestingUserId)
+
+    if (data.parentCommentId) {
+      const parent = await this.findComment(taskId, data.parentCommentId)
+      if (parent.parentCommentId !== null) {
+        throw new TaskError('Replies can only be added to top-level comments')
+      }
+    }
+
+    const mentioned = await this.resolveMentions(task, data.body)
+    const comment = await taskCommentModel.create(
+      taskId,
+      requestingUserId,
+      data,
+      mentioned.map((user) => user.id),
+    )
+
+    await this.notifyMentioned(task, comment, mentioned)
+
+    return comment
+  }
+
+  // Edit a comment; only its author may
+  async updateComment(
+    taskId: number,
+    commentId: number,
+    data: UpdateCommentInput,
+    requestingUserId: number,
+  ): Promise<CommentResponse> {
+    const task = await this.findAccessibleTask(taskId, requestingUserId)
+    const comment = await this.findComment(taskId, commentId)
+
+    if (comment.userId !== requestingUserId) {
+      throw new TaskError('Only the author can edit this comment', 403)
+    }
+
+    const mentioned = await this.resolveMentions(task, data.body)
+    const updated = await taskCommentModel.update(
+      commentId,
+      data.body,
+      mentioned.map((user) => user.id),
+    )
+
+    // Users mentioned before the edit were already notified
+    const previous = new Set(comment.mentions.map((user) => user.id))
+    await this.notifyMentioned(
+      task,
+      updated,
+      mentioned.filter((user) => !previous.has(user.id)),
+    )
+
+    return updated
+  }
+
+  // Soft delete a comment; its author or an admin may
+  async deleteComment(
+    taskId: number,
+    commentId: number,
+    requestingUserId: number,
+  ): Promise<void> {
+    await this.findAccessibleTask(taskId, requestingUserId)
+    const comment = await this.findComment(taskId, commentId)
+
+    if (
+      comment.userId !== requestingUserId &&
+      !(await hasAdminRole(requestingUserId))
+    ) {
+      throw new TaskError(
+        'Insufficient permissions to delete this comment',
+        403,
+      )
+    }
+
+    await taskCommentModel.delete(commentId)
+  }
+
+  /**
+   * Users mentioned in the text who can see the task. A name shared by
+   * several users is ambiguous and ignored; emails are unique.
+   */
+  private async resolveMentions(
+    task: TaskResponse,
+    body: string,
+  ): Promise<MentionedUser[]> {
+    const { emails, names } = parseMentions(body)
+    const candidates = await taskCommentModel.findUsersByEmailOrName(
+      emails,
+      names,
+    )
+
+    const usersByName = new Map<string, MentionedUser[]>()
+    for (const user of candidates) {
+      const key = user.name.toLowerCase()
+      usersByName.set(key, [...(usersByName.get(key) ?? []), user])
+    }
+
+    const matched = new Map<number, MentionedUser>()
+    for (const user of candidates) {
+      if (emails.includes(user.email.toLowerCase())) {
+        matched.set(user.id, user)
+      }
+    }
+    for (const name of names) {
+      const users = usersByName.get(name) ?? []
+      if (users.length === 1) {
+        matched.set(users[0].id, users[0])
+      }
+    }
+
+    const mentioned: MentionedUser[] = []
+    for (const user of matched.values()) {
+      if (await taskService.canAccessTask(task, user.id)) {
+        mentioned.push(user)
+      }
+    }
+    return mentioned
+  }
+
+  private async notifyMentioned(
+    task: TaskResponse,
+    comment: CommentResponse,
+    users: MentionedUser[],
+  ): Promise<void> {
+    for (const user of users) {
+      if (user.id === comment.userId) {
+        continue
+      }
+
+      await notificationService.notifyMention({
+        userId: user.id,
+        actorId: comment.userId,
+        modelType: 'TaskComment',
+        modelId: comment.uuid,
+        message: `${comment.user.name} mentioned you on task "${task.title}"`,
+      })
+    }
+  }
+
+  private async findAccessibleTask(
+    taskId: number,
+    requestingUserId: number,
+  ): Promise<TaskResponse> {
+    const task = await taskModel.findById(taskId, requestingUserId)
+    if (!task) {
+      throw new TaskError('Task not found', 404)
+    }
+
+    if (!(await taskService.canAccessTask(task, requestingUserId))) {
+      throw new TaskError('Insufficient permissions to access this task', 403)
+    }
+
+    return task
+  }
+
+  private async findComment(
+    taskId: number,
+    commentId: number,
+  ): Promise<CommentResponse> {
+    const comment = await taskCommentModel.findById(taskId, commentId)
+    if (!comment) {
+      throw new TaskError('Comment not found', 404)
+    }
+    return comment
+  }
+}
+
+export const taskCommentService = new TaskCommentService()
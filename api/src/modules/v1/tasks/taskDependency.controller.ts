@@ -0,0 +1,174 @@
+import { Request, Response, NextFunction } from 'express'
+import { ZodError } from 'zod'
+import { taskDependencyService } from './taskDependency.service'
+import { createTaskDependencySchema } from './taskDependency.model'
+import { TaskError } from './task.model'
+import {
+  createSuccessResponse,
+  createErrorResponse,
+} from '../../../utils/response'
+
+export class TaskDependencyController {
+  // GET /tasks/:id/dependencies
+  async getDependencies(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const taskId = parseInt(req.params.id)
+      if (isNaN(taskId)) {
+        return createErrorResponse(res, 'Invalid task ID', undefined, 400)
+      }
+
+      const dependencies = await taskDependencyService.getDependencies(
+        taskId,
+        userId,
+      )
+
+      return createSuccessResponse(
+        res,
+        'Task dependencies retrieved successfully',
+        dependencies,
+      )
+    } catch (err) {
+      if (err instanceof TaskError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // POST /tasks/:id/dependencies
+  async addDependency(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const taskId = parseInt(req.params.id)
+      if (isNaN(taskId)) {
+        return createErrorResponse(res, 'Invalid task ID', undefined, 400)
+      }
+
+      const validatedData = createTaskDependencySchema.parse(req.body)
+      const dependencies = await taskDependencyService.addDependency(
+        taskId,
+        validatedData,
+        userId,
+      )
+
+      console.info('Task dependency added', {
+        taskId,
+        relatedTaskId: validatedData.taskId,
+        relation: validatedData.relation,
+        userId,
+      })
+
+      return createSuccessResponse(
+        res,
+        'Task dependency added successfully',
+        dependencies,
+        201,
+      )
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(res, 'Validation failed', err.issues, 400)
+      }
+      if (err instanceof TaskError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // DELETE /tasks/:id/dependencies/:relatedTaskId
+  async removeDependency(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const taskId = parseInt(req.params.id)
+      const relatedTaskId = parseInt(req.params.relatedTaskId)
+      if (isNaN(taskId) || isNaN(relatedTaskId)) {
+        return createErrorResponse(res, 'Invalid task ID', undefined, 400)
+      }
+
+      const dependencies = await taskDependencyService.removeDependency(
+        taskId,
+        relatedTaskId,
+        userId,
+      )
+
+      console.info('Task dependency removed', { taskId, relatedTaskId, userId })
+
+      return createSuccessResponse(
+        res,
+        'Task dependency removed successfully',
+        dependencies,
+      )
+    } catch (err) {
+      if (err instanceof TaskError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // GET /tasks/project/:projectId/dependency-graph
+  async getProjectGraph(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const projectId = parseInt(req.params.projectId)
+      if (isNaN(projectId)) {
+        return createErrorResponse(res, 'Invalid project ID', undefined, 400)
+      }
+
+      const graph = await taskDependencyService.getProjectGraph(
+        projectId,
+        userId,
+      )
+
+      return createSuccessResponse(
+        res,
+        'Dependency graph retrieved successfully',
+        graph,
+      )
+    } catch (err) {
+      if (err instanceof TaskError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+}
+
+export const taskDependencyController = new TaskDependencyController()
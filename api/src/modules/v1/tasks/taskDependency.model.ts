@@ -0,0 +1,320 @@
+import { z } from 'zod'
+import { Prisma, TaskStatus } from '@prisma/client'
+import prisma from '../../../config/db'
+import { TaskError } from './task.model'
+
+// Validation schemas
+export const createTaskDependencySchema = z.object({
+  taskId: z.number().int().positive(),
+  relation: z.enum(['BLOCKED_BY', 'BLOCKS']).optional().default('BLOCKED_BY'),
+})
+
+// Types
+export type CreateTaskDependencyInput = z.infer<
+  typeof createTaskDependencySchema
+>
+
+export interface DependencyTaskSummary {
+  id: number
+  uuid: string
+  title: string
+  status: TaskStatus
+  projectId: number
+}
+
+export interface TaskDependenciesResponse {
+  taskId: number
+  blockedBy: DependencyTaskSummary[]
+  blocks: DependencyTaskSummary[]
+}
+
+export interface DependencyGraphNode extends DependencyTaskSummary {
+  // Tasks from other projects that block or are blocked by this project's tasks
+  external: boolean
+}
+
+// External task in a project the viewer cannot access, shown by id only
+export interface RedactedGraphNode {
+  id: number
+  external: true
+  redacted: true
+}
+
+export interface DependencyGraphEdge {
+  blockerTaskId: number
+  blockedTaskId: number
+}
+
+export interface DependencyGraphResponse {
+  projectId: number
+  nodes: (DependencyGraphNode | RedactedGraphNode)[]
+  edges: DependencyGraphEdge[]
+  criticalPath: {
+    taskIds: number[]
+    length: number
+  }
+}
+
+// The graph before external tasks are redacted for the viewer
+export interface DependencyGraph
+  extends Omit<DependencyGraphResponse, 'nodes'> {
+  nodes: DependencyGraphNode[]
+}
+
+const dependencyTaskSelect = {
+  id: true,
+  uuid: true,
+  title: true,
+  status: true,
+  projectId: true,
+} satisfies Prisma.TaskSelect
+
+/**
+ * Longest chain of unfinished tasks in the graph. DONE tasks no longer hold
+ * anything up, so they are left out; every open task counts as one step.
+ */
+export function computeCriticalPath(
+  nodes: { id: number; status: TaskStatus }[],
+  edges: DependencyGraphEdge[],
+): { taskIds: number[]; length: number } {
+  const openIds = new Set(
+    nodes.filter((n) => n.status !== TaskStatus.DONE).map((n) => n.id),
+  )
+  const successors = new Map<number, number[]>()
+  const inDegree = new Map<number, number>()
+
+  for (const id of openIds) {
+    successors.set(id, [])
+    inDegree.set(id, 0)
+  }
+
+  for (const edge of edges) {
+    if (!openIds.has(edge.blockerTaskId) || !openIds.has(edge.blockedTaskId)) {
+      continue
+    }
+    successors.get(edge.blockerTaskId)!.push(edge.blockedTaskId)
+    inDegree.set(edge.blockedTaskId, inDegree.get(edge.blockedTaskId)! + 1)
+  }
+
+  // Kahn's algorithm, tracking the longest chain ending at each task
+  const queue = [...openIds].filter((id) => inDegree.get(id) === 0)
+  const distance = new Map<number, number>()
+  const previous = new Map<number, number>()
+  queue.forEach((id) => distance.set(id, 1))
+
+  while (queue.length > 0) {
+    const current = queue.shift()!
+    for (const next of successors.get(current)!) {
+      if (distance.get(current)! + 1 > (distance.get(next) || 0)) {
+        distance.set(next, distance.get(current)! + 1)
+        previous.set(next, current)
+      }
+      inDegree.set(next, inDegree.get(next)! - 1)
+      if (inDegree.get(next) === 0) {
+        queue.push(next)
+      }
+    }
+  }
+
+  let end: number | undefined
+  for (const [id, length] of distance) {
+    if (end === undefined || length > distance.get(end)!) {
+      end = id
+    }
+  }
+
+  const taskIds: number[] = []
+  for (let id = end; id !== undefined; id = previous.get(id)) {
+    taskIds.unshift(id)
+  }
+
+  return { taskIds, length: taskIds.length }
+}
+
+// Database operations
+export const taskDependencyModel = {
+  async findForTask(taskId: number): Promise<TaskDependenciesResponse> {
+    try {
+      const [blockedBy, blocks] = await Promise.all([
+        prisma.taskDependency.findMany({
+          where: { blockedTaskId: taskId, blockerTask: { deletedAt: null } },
+          include: { blockerTask: { select: dependencyTaskSelect } },
+          orderBy: { createdAt: 'asc' },
+        }),
+        prisma.taskDependency.findMany({
+          where: { blockerTaskId: taskId, blockedTask: { deletedAt: null } },
+          include: { blockedTask: { select: dependencyTaskSelect } },
+          orderBy: { createdAt: 'asc' },
+        }),
+      ])
+
+      return {
+        taskId,
+        blockedBy: blockedBy.map((d) => d.blockerTask),
+        blocks: blocks.map((d) => d.blockedTask),
+      }
+    } catch (error) {
+      console.error('Error fetching task dependencies:', error)
+      throw new TaskError('Failed to fetch task dependencies', 500)
+    }
+  },
+
+  async create(blockerTaskId: number, blockedTaskId: number): Promise<void> {
+    try {
+      await prisma.taskDependency.create({
+        data: { blockerTaskId, blockedTaskId },
+      })
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError) {
+        if (error.code === 'P2002') {
+          throw new TaskError('Dependency already exists', 409)
+        }
+      }
+      console.error('Error creating task dependency:', error)
+      throw new TaskError('Failed to create task dependency', 500)
+    }
+  },
+
+  // Removes the edge between two tasks, whichever direction it points
+  async deleteBetween(taskId: number, relatedTaskId: number): Promise<void> {
+    try {
+      const { count } = await prisma.taskDependency.deleteMany({
+        where: {
+          OR: [
+            { blockerTaskId: taskId, blockedTaskId: relatedTaskId },
+            { blockerTaskId: relatedTaskId, blockedTaskId: taskId },
+          ],
+        },
+      })
+
+      if (count === 0) {
+        throw new TaskError('Dependency not found', 404)
+      }
+    } catch (error) {
+      if (error instanceof TaskError) {
+        throw error
+      }
+      console.error('Error deleting task dependency:', error)
+      throw new TaskError('Failed to delete task dependency', 500)
+    }
+  },
+
+  /**
+   * An edge blocker -> blocked closes a cycle when the blocker is already
+   * (transitively) blocked by the blocked task. Walks upstream one level per
+   * query rather than loading the whole graph.
+   */
+  async wouldCreateCycle(
+    blockerTaskId: number,
+    blockedTaskId: number,
+  ): Promise<boolean> {
+    if (blockerTaskId === blockedTaskId) {
+      return true
+    }
+
+    const visited = new Set<number>([blockerTaskId])
+    let frontier = [blockerTaskId]
+
+    while (frontier.length > 0) {
+      const edges = await prisma.taskDependency.findMany({
+        where: { blockedTaskId: { in: frontier } },
+        select: { blockerTaskId: true },
+      })
+
+      frontier = []
+      for (const { blockerTaskId: upstreamId } of edges) {
+        if (upstreamId === blockedTaskId) {
+          return true
+        }
+        if (!visited.has(upstreamId)) {
+          visited.add(upstreamId)
+          frontier.push(upstreamId)
+        }
+      }
+    }
+
+    return false
+  },
+
+  // BLOCKED tasks waiting on this task whose blockers are now all DONE
+  async findReleasableTasks(blockerTaskId: number): Promise<number[]> {
+    const dependents = await prisma.task.findMany({
+      where: {
+        status: TaskStatus.BLOCKED,
+        deletedAt: null,
+        blockedBy: { some: { blockerTaskId } },
+      },
+      select: {
+        id: true,
+        blockedBy: {
+          select: {
+            blockerTask: { select: { status: true, deletedAt: true } },
+          },
+        },
+      },
+    })
+
+    return dependents
+      .filter((task) =>
+        task.blockedBy.every(
+          ({ blockerTask }) =>
+            blockerTask.deletedAt !== null ||
+            blockerTask.status === TaskStatus.DONE,
+        ),
+      )
+      .map((task) => task.id)
+  },
+
+  async getProjectGraph(projectId: number): Promise<DependencyGraph> {
+    try {
+      const [tasks, dependencies] = await Promise.all([
+        prisma.task.findMany({
+          where: { projectId, deletedAt: null },
+          select: dependencyTaskSelect,
+          orderBy: { createdAt: 'asc' },
+        }),
+        prisma.taskDependency.findMany({
+          where: {
+            OR: [
+              { blockerTask: { projectId } },
+              { blockedTask: { projectId } },
+            ],
+            blockerTask: { deletedAt: null },
+            blockedTask: { deletedAt: null },
+          },
+          include: {
+            blockerTask: { select: dependencyTaskSelect },
+            blockedTask: { select: dependencyTaskSelect },
+          },
+        }),
+      ])
+
+      const nodes = new Map<number, DependencyGraphNode>()
+      for (const task of tasks) {
+        nodes.set(task.id, { ...task, external: false })
+      }
+      for (const { blockerTask, blockedTask } of dependencies) {
+        for (const task of [blockerTask, blockedTask]) {
+          if (!nodes.has(task.id)) {
+            nodes.set(task.id, { ...task, external: true })
+          }
+        }
+      }
+
+      const edges = dependencies.map(({ blockerTaskId, blockedTaskId }) => ({
+        blockerTaskId,
+        blockedTaskId,
+      }))
+
+      return {
+        projectId,
+        nodes: [...nodes.values()],
+        edges,
+        criticalPath: computeCriticalPath([...nodes.values()], edges),
+      }
+    } catch (error) {
+      console.error('Error building dependency graph:', error)
+      throw new TaskError('Failed to build dependency graph', 500)
+    }
+  },
+}
@@ -0,0 +1,124 @@
+import { taskModel, TaskError, TaskResponse } from './task.model'
+import {
+  taskDependencyModel,
+  CreateTaskDependencyInput,
+  TaskDependenciesResponse,
+  DependencyGraphResponse,
+} from './taskDependency.model'
+import { taskService } from './task.service'
+
+export class TaskDependencyService {
+  // Get the tasks blocking and blocked by a task
+  async getDependencies(
+    taskId: number,
+    requestingUserId: number,
+  ): Promise<TaskDependenciesResponse> {
+    await taskService.getTaskById(taskId, requestingUserId)
+
+    return await taskDependencyModel.findForTask(taskId)
+  }
+
+  // Add a "blocked by" or "blocks" edge between two tasks
+  async addDependency(
+    taskId: number,
+    data: CreateTaskDependencyInput,
+    requestingUserId: number,
+  ): Promise<TaskDependenciesResponse> {
+    const task = await this.findTask(taskId, requestingUserId)
+    const relatedTask = await this.findTask(data.taskId, requestingUserId)
+
+    if (!(await taskService.canModifyTask(task, requestingUserId))) {
+      throw new TaskError('Insufficient permissions to modify this task', 403)
+    }
+
+    // The related task may live in another project, but it must be visible
+    if (!(await taskService.canAccessTask(relatedTask, requestingUserId))) {
+      throw new TaskError('Access denied to related task', 403)
+    }
+
+    const [blockerTaskId, blockedTaskId] =
+      data.relation === 'BLOCKS'
+        ? [task.id, relatedTask.id]
+        : [relatedTask.id, task.id]
+
+    if (blockerTaskId === blockedTaskId) {
+      throw new TaskError('A task cannot depend on itself', 400)
+    }
+
+    if (
+      await taskDependencyModel.wouldCreateCycle(blockerTaskId, blockedTaskId)
+    ) {
+      throw new TaskError('Dependency would create a cycle', 409)
+    }
+
+    await taskDependencyModel.create(blockerTaskId, blockedTaskId)
+
+    return await taskDependencyModel.findForTask(task.id)
+  }
+
+  // Remove the edge between two tasks
+  async removeDependency(
+    taskId: number,
+    relatedTaskId: number,
+    requestingUserId: number,
+  ): Promise<TaskDependenciesResponse> {
+    const task = await this.findTask(taskId, requestingUserId)
+
+    if (!(await taskService.canModifyTask(task, requestingUserId))) {
+      throw new TaskError('Insufficient permissions to modify this task', 403)
+    }
+
+    await taskDependencyModel.deleteBetween(task.id, relatedTaskId)
+
+    return await taskDependencyModel.findForTask(task.id)
+  }
+
+  // Get a project's dependency graph and critical path
+  async getProjectGraph(
+    projectId: number,
+    requestingUserId: number,
+  ): Promise<DependencyGraphResponse> {
+    if (!(await taskService.canAccessProject(projectId, requestingUserId))) {
+      throw new TaskError('Project not found or access denied', 404)
+    }
+
+    const graph = await taskDependencyModel.getProjectGraph(projectId)
+
+    // External tasks only show what their own project lets the user see
+    const visible = new Map<number, boolean>()
+    const nodes: DependencyGraphResponse['nodes'] = []
+    for (const node of graph.nodes) {
+      if (node.external) {
+        if (!visible.has(node.projectId)) {
+          visible.set(
+            node.projectId,
+            await taskService.canAccessProject(
+              node.projectId,
+              requestingUserId,
+            ),
+          )
+        }
+        if (!visible.get(node.projectId)) {
+          nodes.push({ id: node.id, external: true, redacted: true })
+          continue
+        }
+      }
+      nodes.push(node)
+    }
+
+    return { ...graph, nodes }
+  }
+
+  private async findTask(
+    id: number,
+    requestingUserId: number,
+  ): Promise<TaskResponse> {
+    const task = await taskModel.findById(id, requestingUserId)
+    if (!task) {
+      throw new TaskError('Task not found', 404)
+    }
+    return task
+  }
+}
+
+export const taskDependencyService = new TaskDependencyService()
@@ -0,0 +1,46 @@
+import { Request, Response, NextFunction } from 'express'
+import { ZodError } from 'zod'
+import { taskRankService } from './taskRank.service'
+import { moveTaskSchema } from './taskRank.model'
+import { TaskError } from './task.model'
+import {
+  createSuccessResponse,
+  createErrorResponse,
+} from '../../../utils/response'
+
+export class TaskRankController {
+  // PUT /tasks/:id/move
+  async moveTask(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const taskId = parseInt(req.params.id)
+      if (isNaN(taskId)) {
+        return createErrorResponse(res, 'Invalid task ID', undefined, 400)
+      }
+
+      const validatedData = moveTaskSchema.parse(req.body)
+      const task = await taskRankService.moveTask(taskId, validatedData, userId)
+
+      return createSuccessResponse(res, 'Task moved successfully', task)
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(res, 'Validation failed', err.issues, 400)
+      }
+      if (err instanceof TaskError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+}
+
+export const taskRankController = new TaskRankController()
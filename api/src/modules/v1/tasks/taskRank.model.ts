@@ -0,0 +1,112 @@
+import { z } from 'zod'
+import { Prisma, TaskStatus } from '@prisma/client'
+import { withTransaction } from '../../../config/db'
+import { TaskError } from './task.model'
+import { rankBetween } from '../../../utils/rank'
+
+// Validation schemas
+export const moveTaskSchema = z.object({
+  // Task that should come right before the moved one
+  afterTaskId: z.number().int().positive().nullable().optional(),
+  // Task that should come right after the moved one
+  beforeTaskId: z.number().int().positive().nullable().optional(),
+  // Column to move into; defaults to the task's current status
+  status: z.nativeEnum(TaskStatus).optional(),
+  statusReason: z.string().max(500, 'Reason too long').optional(),
+})
+
+// Types
+export type MoveTaskInput = z.infer<typeof moveTaskSchema>
+
+export interface TaskPlacement {
+  taskId: number
+  projectId: number
+  status: TaskStatus
+  afterTaskId: number | null
+  beforeTaskId: number | null
+}
+
+// Database operations
+export const taskRankModel = {
+  /**
+   * Give a task a rank between its new neighbours in a project's status
+   * column. Moves in the same project are serialised by locking the
+   * project row, so two users cannot hand out the same rank. Resolves to
+   * null when a neighbour is no longer in the column.
+   */
+  async place(placement: TaskPlacement): Promise<string | null> {
+    try {
+      return await withTransaction((tx) => this.placeIn(tx, placement))
+    } catch (error) {
+      console.error('Error placing task:', error)
+      throw new TaskError('Failed to move task', 500)
+    }
+  },
+
+  // Place a task within a transaction the caller already runs
+  async placeIn(
+    tx: Prisma.TransactionClient,
+    placement: TaskPlacement,
+  ): Promise<string | null> {
+    const { taskId, projectId, status, afterTaskId, beforeTaskId } = placement
+
+    await tx.$queryRaw`SELECT id FROM "Project" WHERE id = ${projectId} FOR UPDATE`
+
+    // Free the task's old rank before the column is ranked around it
+    await tx.task.update({ where: { id: taskId }, data: { rank: null } })
+
+    const column = await tx.task.findMany({
+      where: {
+        projectId,
+        status,
+        deletedAt: null,
+        id: { not: taskId },
+      },
+      select: { id: true, rank: true },
+      orderBy: [
+        { rank: { sort: 'asc', nulls: 'last' } },
+        { createdAt: 'asc' },
+        { id: 'asc' },
+      ],
+    })
+
+    // Tasks that were never placed keep their listed order behind the
+    // placed ones the first time the column is rearranged
+    let lastRank: string | null = null
+    for (const task of column) {
+      if (task.rank === null) {
+        task.rank = rankBetween(lastRank, null)
+        await tx.task.update({
+          where: { id: task.id },
+          data: { rank: task.rank },
+        })
+      }
+      lastRank = task.rank
+    }
+
+    const afterIndex = column.findIndex((task) => task.id === afterTaskId)
+    const beforeIndex = column.findIndex((task) => task.id === beforeTaskId)
+    if (
+      (afterTaskId && afterIndex === -1) ||
+      (beforeTaskId && beforeIndex === -1) ||
+      (afterTaskId && beforeTaskId && afterIndex >= beforeIndex)
+    ) {
+      return null
+    }
+
+    // Neighbours are always adjacent so the new rank cannot collide
+    let previousIndex = column.length - 1
+    if (afterTaskId) {
+      previousIndex = afterIndex
+    } else if (beforeTaskId) {
+      previousIndex = beforeIndex - 1
+    }
+    const previous = column[previousIndex]?.rank ?? null
+    const next = column[previousIndex + 1]?.rank ?? null
+
+    const rank = rankBetween(previous, next)
+    await tx.task.update({ where: { id: taskId }, data: { rank } })
+
+    return rank
+  },
+}
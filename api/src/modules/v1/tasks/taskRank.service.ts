@@ -0,0 +1,89 @@
+import { taskModel, TaskError, TaskResponse } from './task.model'
+import { taskRankModel, MoveTaskInput } from './taskRank.model'
+import { taskService } from './task.service'
+
+const NEIGHBOURS_MOVED =
+  'The tasks around the new position have moved; reload and try again'
+
+export class TaskRankService {
+  /**
+   * Place a task between two others in a status column, moving it to that
+   * status first when asked. A status change follows the same workflow
+   * rules as a regular update, and is only kept when the task can be
+   * placed.
+   */
+  async moveTask(
+    taskId: number,
+    data: MoveTaskInput,
+    requestingUserId: number,
+  ): Promise<TaskResponse> {
+    let task = await taskModel.findById(taskId, requestingUserId)
+    if (!task) {
+      throw new TaskError('Task not found', 404)
+    }
+
+    if (!(await taskService.canModifyTask(task, requestingUserId))) {
+      throw new TaskError('Insufficient permissions to modify this task', 403)
+    }
+
+    const status = data.status ?? task.status
+    const neighbourIds = [data.afterTaskId, data.beforeTaskId].filter(
+      (id): id is number => !!id,
+    )
+
+    for (const neighbourId of neighbourIds) {
+      if (neighbourId === task.id) {
+        throw new TaskError('A task cannot be placed next to itself', 400)
+      }
+
+      const neighbour = await taskModel.findById(neighbourId, requestingUserId)
+      if (
+        !neighbour ||
+        neighbour.projectId !== task.projectId ||
+        neighbour.status !== status
+      ) {
+        throw new TaskError(
+          'Tasks to place between must be in the same project and status',
+          400,
+        )
+      }
+    }
+
+    const placement = {
+      taskId: task.id,
+      projectId: task.projectId,
+      status,
+      afterTaskId: data.afterTaskId ?? null,
+      beforeTaskId: data.beforeTaskId ?? null,
+    }
+    let rank: string | null = null
+
+    if (status !== task.status) {
+      // Placed in the status change's transaction, so a failed placement
+      // leaves the task in its old status
+      task = await taskService.updateTask(
+        task.id,
+        { status, statusReason: data.statusReason },
+        requestingUserId,
+        {
+          afterUpdate: async (tx) => {
+            rank = await taskRankModel.placeIn(tx, placement)
+            if (rank === null) {
+              throw new TaskError(NEIGHBOURS_MOVED, 409)
+            }
+          },
+        },
+      )
+    } else {
+      rank = await taskRankModel.place(placement)
+    }
+
+    if (rank === null) {
+      throw new TaskError(NEIGHBOURS_MOVED, 409)
+    }
+
+    return { ...task, rank }
+  }
+}
+
+export const taskRankService = new TaskRankService()
@@ -0,0 +1,209 @@
+import { Request, Response, NextFunction } from 'express'
+import { ZodError } from 'zod'
+import { taskRecurrenceService } from './taskRecurrence.service'
+import {
+  createRecurrenceSchema,
+  updateRecurrenceSchema,
+} from './taskRecurrence.model'
+import { TaskError } from './task.model'
+import {
+  createSuccessResponse,
+  createErrorResponse,
+} from '../../../utils/response'
+
+export class TaskRecurrenceController {
+  // GET /tasks/:id/recurrence
+  async getRecurrence(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const taskId = parseInt(req.params.id)
+      if (isNaN(taskId)) {
+        return createErrorResponse(res, 'Invalid task ID', undefined, 400)
+      }
+
+      const recurrence = await taskRecurrenceService.getRecurrence(
+        taskId,
+        userId,
+      )
+
+      return createSuccessResponse(
+        res,
+        'Recurrence retrieved successfully',
+        recurrence,
+      )
+    } catch (err) {
+      if (err instanceof TaskError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // POST /tasks/:id/recurrence
+  async createRecurrence(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const taskId = parseInt(req.params.id)
+      if (isNaN(taskId)) {
+        return createErrorResponse(res, 'Invalid task ID', undefined, 400)
+      }
+
+      const validatedData = createRecurrenceSchema.parse(req.body)
+      const recurrence = await taskRecurrenceService.createRecurrence(
+        taskId,
+        validatedData,
+        userId,
+      )
+
+      console.info('Task recurrence created', {
+        taskId,
+        recurrenceId: recurrence.recurrence.id,
+        userId,
+      })
+
+      return createSuccessResponse(
+        res,
+        'Recurrence created successfully',
+        recurrence,
+        201,
+      )
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(res, 'Validation failed', err.issues, 400)
+      }
+      if (err instanceof TaskError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // PUT /tasks/:id/recurrence
+  async updateRecurrence(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const taskId = parseInt(req.params.id)
+      if (isNaN(taskId)) {
+        return createErrorResponse(res, 'Invalid task ID', undefined, 400)
+      }
+
+      const validatedData = updateRecurrenceSchema.parse(req.body)
+      const recurrence = await taskRecurrenceService.updateRecurrence(
+        taskId,
+        validatedData,
+        userId,
+      )
+
+      return createSuccessResponse(
+        res,
+        'Recurrence updated successfully',
+        recurrence,
+      )
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(res, 'Validation failed', err.issues, 400)
+      }
+      if (err instanceof TaskError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // DELETE /tasks/:id/recurrence
+  async stopRecurrence(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const taskId = parseInt(req.params.id)
+      if (isNaN(taskId)) {
+        return createErrorResponse(res, 'Invalid task ID', undefined, 400)
+      }
+
+      const recurrence = await taskRecurrenceService.stopRecurrence(
+        taskId,
+        userId,
+      )
+
+      return createSuccessResponse(
+        res,
+        'Recurrence stopped successfully',
+        recurrence,
+      )
+    } catch (err) {
+      if (err instanceof TaskError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // POST /tasks/recurrences/generate (admin only)
+  async generateDueOccurrences(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const result = await taskRecurrenceService.generateDueOccurrences(userId)
+
+      return createSuccessResponse(
+        res,
+        'Due occurrences generated successfully',
+        result,
+      )
+    } catch (err) {
+      if (err instanceof TaskError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+}
+
+export const taskRecurrenceController = new TaskRecurrenceController()
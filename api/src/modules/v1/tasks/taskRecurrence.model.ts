@@ -0,0 +1,484 @@
+import { z } from 'zod'
+import {
+  Prisma,
+  RecurrenceFrequency,
+  TaskRecurrence,
+  TaskStatus,
+} from '@prisma/client'
+import prisma, { withTransaction } from '../../../config/db'
+import {
+  WEEKDAYS,
+  RecurrenceRule,
+  Occurrence,
+  occurrences,
+  nextOccurrence,
+  occurrencesAfter,
+  isOccurrence,
+} from '../../../utils/recurrence'
+import { TaskError, TaskResponse } from './task.model'
+
+// Validation schemas
+const ruleFields = {
+  interval: z.number().int().min(1).max(365).optional(),
+  byWeekday: z.array(z.enum(WEEKDAYS)).max(7).optional(),
+  until: z.string().datetime().nullable().optional(),
+  count: z.number().int().min(1).max(1000).nullable().optional(),
+}
+
+export const createRecurrenceSchema = z.object({
+  frequency: z.nativeEnum(RecurrenceFrequency),
+  ...ruleFields,
+  // Defaults to the task's due date, or now
+  startsAt: z.string().datetime().optional(),
+})
+
+export const updateRecurrenceSchema = z.object({
+  frequency: z.nativeEnum(RecurrenceFrequency).optional(),
+  ...ruleFields,
+  title: z
+    .string()
+    .min(1, 'Title is required')
+    .max(180, 'Title too long')
+    .optional(),
+  definitionOfDone: z.string().nullable().optional(),
+  priority: z.number().int().min(1).max(10).optional(),
+  scope: z
+    .enum(['THIS_AND_FUTURE', 'ALL'])
+    .optional()
+    .default('THIS_AND_FUTURE'),
+})
+
+// Types
+export type CreateRecurrenceInput = z.infer<typeof createRecurrenceSchema>
+export type UpdateRecurrenceInput = z.infer<typeof updateRecurrenceSchema>
+
+export type RecurrenceResponse = TaskRecurrence
+
+export interface TaskRecurrenceResponse {
+  recurrence: RecurrenceResponse
+  nextOccurrences: Date[]
+}
+
+// Most occurrences a single series catches up on per generation run
+const MAX_CATCH_UP_OCCURRENCES = 31
+
+export function toRecurrenceRule(
+  recurrence: RecurrenceResponse,
+): RecurrenceRule {
+  return {
+    frequency: recurrence.frequency,
+    interval: recurrence.interval,
+    byWeekday: recurrence.byWeekday,
+    startsAt: recurrence.startsAt,
+    until: recurrence.until,
+    count: recurrence.count,
+  }
+}
+
+// Generated tasks carry their date so titles stay unique within a project
+export function occurrenceTitle(title: string, date: Date): string {
+  return `${title} (${date.toISOString().slice(0, 10)})`
+}
+
+function occurrenceData(
+  recurrence: RecurrenceResponse,
+  occurrence: Occurrence,
+): Prisma.TaskCreateManyInput {
+  return {
+    title: occurrenceTitle(recurrence.title, occurrence.date),
+    definitionOfDone: recurrence.definitionOfDone,
+    priority: recurrence.priority,
+    status: TaskStatus.TODO,
+    dueAt: occurrence.date,
+    occurrenceAt: occurrence.date,
+    recurrenceId: recurrence.id,
+    projectId: recurrence.projectId,
+    userId: recurrence.userId,
+  }
+}
+
+/**
+ * Create occurrences, skipping those that already exist, each with the
+ * status it starts in as the first entry of its history. Resolves to the
+ * number created.
+ */
+async function createOccurrences(
+  tx: Prisma.TransactionClient,
+  data: Prisma.TaskCreateManyInput[],
+): Promise<number> {
+  const tasks = await tx.task.createManyAndReturn({
+    data,
+    skipDuplicates: true,
+    select: { id: true, status: true },
+  })
+  await tx.taskStatusTransition.createMany({
+    data: tasks.map((task) => ({ taskId: task.id, toStatus: task.status })),
+  })
+  return tasks.length
+}
+
+// Template fields from an edit, applied to tasks that are not DONE yet
+async function applyTemplate(
+  tx: Prisma.TransactionClient,
+  recurrence: RecurrenceResponse,
+  data: UpdateRecurrenceInput,
+  from?: Date,
+): Promise<void> {
+  if (
+    data.title === undefined &&
+    data.definitionOfDone === undefined &&
+    data.priority === undefined
+  ) {
+    return
+  }
+
+  const tasks = await tx.task.findMany({
+    where: {
+      recurrenceId: recurrence.id,
+      deletedAt: null,
+      status: { not: TaskStatus.DONE },
+      ...(from && { occurrenceAt: { gte: from } }),
+    },
+    select: { id: true, occurrenceAt: true },
+  })
+
+  for (const task of tasks) {
+    await tx.task.update({
+      where: { id: task.id },
+      data: {
+        ...(data.title !== undefined &&
+          task.occurrenceAt && {
+            title: occurrenceTitle(data.title, task.occurrenceAt),
+          }),
+        ...(data.definitionOfDone !== undefined && {
+          definitionOfDone: data.definitionOfDone,
+        }),
+        ...(data.priority !== undefined && { priority: data.priority }),
+      },
+    })
+  }
+}
+
+// Soft delete open occurrences after `after` that a changed rule no longer has
+async function dropStaleOccurrences(
+  tx: Prisma.TransactionClient,
+  recurrence: RecurrenceResponse,
+  after: Date,
+): Promise<void> {
+  const rule = toRecurrenceRule(recurrence)
+  const future = await tx.task.findMany({
+    where: {
+      recurrenceId: recurrence.id,
+      deletedAt: null,
+      status: { not: TaskStatus.DONE },
+      occurrenceAt: { gt: after },
+    },
+    select: { id: true, occurrenceAt: true },
+  })
+
+  const stale = future.filter(
+    (task) => task.occurrenceAt && !isOccurrence(rule, task.occurrenceAt),
+  )
+  if (stale.length > 0) {
+    await tx.task.updateMany({
+      where: { id: { in: stale.map((task) => task.id) } },
+      data: { deletedAt: new Date(), rank: null },
+    })
+  }
+}
+
+// Rule and template columns changed by an edit
+function changedFields(
+  data: UpdateRecurrenceInput,
+): Prisma.TaskRecurrenceUncheckedUpdateInput {
+  return {
+    ...(data.frequency && { frequency: data.frequency }),
+    ...(data.interval && { interval: data.interval }),
+    ...(data.byWeekday && { byWeekday: data.byWeekday }),
+    ...(data.until !== undefined && {
+      until: data.until ? new Date(data.until) : null,
+    }),
+    ...(data.count !== undefined && { count: data.count }),
+    ...(data.title !== undefined && { title: data.title }),
+    ...(data.definitionOfDone !== undefined && {
+      definitionOfDone: data.definitionOfDone,
+    }),
+    ...(data.priority !== undefined && { priority: data.priority }),
+  }
+}
+
+// Database operations
+export const taskRecurrenceModel = {
+  async findById(id: number): Promise<RecurrenceResponse | null> {
+    try {
+      return await prisma.taskRecurrence.findUnique({ where: { id } })
+    } catch (error) {
+      console.error('Error fetching recurrence:', error)
+      throw new TaskError('Failed to fetch recurrence', 500)
+    }
+  },
+
+  /**
+   * Start a series with an existing task as its first occurrence
+   */
+  async create(
+    task: TaskResponse,
+    data: CreateRecurrenceInput,
+  ): Promise<RecurrenceResponse> {
+    const startsAt = data.startsAt
+      ? new Date(data.startsAt)
+      : (task.dueAt ?? new Date())
+
+    try {
+      return await withTransaction(async (tx) => {
+        const recurrence = await tx.taskRecurrence.create({
+          data: {
+            projectId: task.projectId,
+            userId: task.userId,
+            frequency: data.frequency,
+            interval: data.interval ?? 1,
+            byWeekday: data.byWeekday ?? [],
+            startsAt,
+            until: data.until ? new Date(data.until) : null,
+            count: data.count ?? null,
+            title: task.title,
+            definitionOfDone: task.definitionOfDone,
+            priority: task.priority,
+          },
+        })
+
+        await tx.task.update({
+          where: { id: task.id },
+          data: {
+            recurrenceId: recurrence.id,
+            occurrenceAt: startsAt,
+            dueAt: task.dueAt ?? startsAt,
+          },
+        })
+
+        return recurrence
+      })
+    } catch (error) {
+      console.error('Error creating recurrence:', error)
+      throw new TaskError('Failed to create recurrence', 500)
+    }
+  },
+
+  /**
+   * Edit a series. ALL rewrites it in place; THIS_AND_FUTURE ends the
+   * current series before the given occurrence and continues it as a new
+   * series linked back to the old one.
+   */
+  async update(
+    recurrence: RecurrenceResponse,
+    occurrenceAt: Date,
+    data: UpdateRecurrenceInput,
+  ): Promise<RecurrenceResponse> {
+    if (
+      data.scope === 'ALL' ||
+      occurrenceAt.getTime() <= recurrence.startsAt.getTime()
+    ) {
+      try {
+        return await withTransaction(async (tx) => {
+          const updated = await tx.taskRecurrence.update({
+            where: { id: recurrence.id },
+            data: changedFields(data),
+          })
+          await dropStaleOccurrences(tx, updated, occurrenceAt)
+          await applyTemplate(tx, updated, data)
+          return updated
+        })
+      } catch (error) {
+        console.error('Error updating recurrence:', error)
+        throw new TaskError('Failed to update recurrence', 500)
+      }
+    }
+
+    // Occurrences the old series keeps
+    let kept = 0
+    for (const occurrence of occurrences(toRecurrenceRule(recurrence))) {
+      if (occurrence.date >= occurrenceAt) {
+        break
+      }
+      kept = occurrence.index + 1
+    }
+
+    // The new series inherits what the edit leaves out, including the
+    // occurrences still owed under COUNT
+    let until = recurrence.until
+    if (data.until !== undefined) {
+      until = data.until ? new Date(data.until) : null
+    }
+    let count = data.count !== undefined ? data.count : recurrence.count
+    if (data.count === undefined && recurrence.count !== null) {
+      count = Math.max(recurrence.count - kept, 1)
+    }
+
+    try {
+      return await withTransaction(async (tx) => {
+        await tx.taskRecurrence.update({
+          where: { id: recurrence.id },
+          data: {
+            until: new Date(occurrenceAt.getTime() - 1),
+            ...(recurrence.count !== null && { count: kept }),
+          },
+        })
+
+        const next = await tx.taskRecurrence.create({
+          data: {
+            projectId: recurrence.projectId,
+            userId: recurrence.userId,
+            frequency: data.frequency ?? recurrence.frequency,
+            interval: data.interval ?? recurrence.interval,
+            byWeekday: data.byWeekday ?? recurrence.byWeekday,
+            startsAt: occurrenceAt,
+            until,
+            count,
+            title: data.title ?? recurrence.title,
+            definitionOfDone:
+              data.definitionOfDone !== undefined
+                ? data.definitionOfDone
+                : recurrence.definitionOfDone,
+            priority: data.priority ?? recurrence.priority,
+            previousRecurrenceId: recurrence.id,
+          },
+        })
+
+        await tx.task.updateMany({
+          where: {
+            recurrenceId: recurrence.id,
+            occurrenceAt: { gte: occurrenceAt },
+          },
+          data: { recurrenceId: next.id },
+        })
+
+        await dropStaleOccurrences(tx, next, occurrenceAt)
+        await applyTemplate(tx, next, data, occurrenceAt)
+        return next
+      })
+    } catch (error) {
+      console.error('Error splitting recurrence:', error)
+      throw new TaskError('Failed to update recurrence', 500)
+    }
+  },
+
+  /**
+   * End a series after the given occurrence and remove open occurrences
+   * already generated beyond it
+   */
+  async end(
+    recurrence: RecurrenceResponse,
+    occurrenceAt: Date,
+  ): Promise<RecurrenceResponse> {
+    try {
+      return await withTransaction(async (tx) => {
+        await tx.task.updateMany({
+          where: {
+            recurrenceId: recurrence.id,
+            deletedAt: null,
+            status: { not: TaskStatus.DONE },
+            occurrenceAt: { gt: occurrenceAt },
+          },
+          data: { deletedAt: new Date(), rank: null },
+        })
+
+        return tx.taskRecurrence.update({
+          where: { id: recurrence.id },
+          data: { until: occurrenceAt },
+        })
+      })
+    } catch (error) {
+      console.error('Error ending recurrence:', error)
+      throw new TaskError('Failed to end recurrence', 500)
+    }
+  },
+
+  getNextOccurrences(recurrence: RecurrenceResponse, limit = 5): Date[] {
+    // Include the first occurrence when the series has not started yet
+    const from = new Date(
+      Math.max(Date.now(), recurrence.startsAt.getTime() - 1),
+    )
+    return occurrencesAfter(toRecurrenceRule(recurrence), from, limit).map(
+      (occurrence) => occurrence.date,
+    )
+  },
+
+  /**
+   * Create the occurrence following `after`. Occurrences are unique per
+   * series and date, so repeated calls never create duplicates.
+   */
+  async generateNext(recurrenceId: number, after: Date): Promise<number> {
+    try {
+      const recurrence = await prisma.taskRecurrence.findUnique({
+        where: { id: recurrenceId },
+      })
+      if (!recurrence) {
+        return 0
+      }
+
+      const occurrence = nextOccurrence(toRecurrenceRule(recurrence), after)
+      if (!occurrence) {
+        return 0
+      }
+
+      return await withTransaction((tx) =>
+        createOccurrences(tx, [occurrenceData(recurrence, occurrence)]),
+      )
+    } catch (error) {
+      console.error('Error generating occurrence:', error)
+      throw new TaskError('Failed to generate occurrence', 500)
+    }
+  },
+
+  /**
+   * Create every occurrence whose date has arrived, for all series in
+   * active projects. Safe to run repeatedly.
+   */
+  async generateDue(now: Date = new Date()): Promise<number> {
+    try {
+      const [recurrences, latest] = await Promise.all([
+        prisma.taskRecurrence.findMany({
+          where: {
+            project: { deletedAt: null },
+            startsAt: { lte: now },
+          },
+        }),
+        prisma.task.groupBy({
+          by: ['recurrenceId'],
+          where: { recurrenceId: { not: null } },
+          _max: { occurrenceAt: true },
+        }),
+      ])
+
+      const latestBySeries = new Map(
+        latest.map((row) => [row.recurrenceId, row._max.occurrenceAt]),
+      )
+
+      let created = 0
+      for (const recurrence of recurrences) {
+        const after = latestBySeries.get(recurrence.id)
+        const due = occurrencesAfter(
+          toRecurrenceRule(recurrence),
+          after ?? new Date(recurrence.startsAt.getTime() - 1),
+          MAX_CATCH_UP_OCCURRENCES,
+        ).filter((occurrence) => occurrence.date <= now)
+
+        if (due.length === 0) {
+          continue
+        }
+
+        created += await withTransaction((tx) =>
+          createOccurrences(
+            tx,
+            due.map((occurrence) => occurrenceData(recurrence, occurrence)),
+          ),
+        )
+      }
+
+      return created
+    } catch (error) {
+      console.error('Error generating due occurrences:', error)
+      throw new TaskError('Failed to generate due occurrences', 500)
+    }
+  },
+}
@@ -0,0 +1,127 @@
+import { taskModel, TaskError, TaskResponse } from './task.model'
+import {
+  taskRecurrenceModel,
+  CreateRecurrenceInput,
+  UpdateRecurrenceInput,
+  RecurrenceResponse,
+  TaskRecurrenceResponse,
+} from './taskRecurrence.model'
+import { taskService } from './task.service'
+import { hasAdminRole } from '../../../utils/auth'
+
+export class TaskRecurrenceService {
+  // Get the series a task belongs to and its upcoming dates
+  async getRecurrence(
+    taskId: number,
+    requestingUserId: number,
+  ): Promise<TaskRecurrenceResponse> {
+    const task = await taskService.getTaskById(taskId, requestingUserId)
+    const recurrence = await this.findSeries(task)
+
+    return this.toResponse(recurrence)
+  }
+
+  // Make a task the first occurrence of a new series
+  async createRecurrence(
+    taskId: number,
+    data: CreateRecurrenceInput,
+    requestingUserId: number,
+  ): Promise<TaskRecurrenceResponse> {
+    const task = await this.findModifiableTask(taskId, requestingUserId)
+
+    if (task.recurrenceId) {
+      throw new TaskError('Task already belongs to a recurring series', 409)
+    }
+    if (task.parentTaskId) {
+      throw new TaskError('Subtasks cannot recur', 400)
+    }
+
+    const recurrence = await taskRecurrenceModel.create(task, data)
+
+    return this.toResponse(recurrence)
+  }
+
+  // Edit the series from this occurrence on, or the whole series
+  async updateRecurrence(
+    taskId: number,
+    data: UpdateRecurrenceInput,
+    requestingUserId: number,
+  ): Promise<TaskRecurrenceResponse> {
+    const task = await this.findModifiableTask(taskId, requestingUserId)
+    const recurrence = await this.findSeries(task)
+
+    const updated = await taskRecurrenceModel.update(
+      recurrence,
+      task.occurrenceAt ?? recurrence.startsAt,
+      data,
+    )
+
+    return this.toResponse(updated)
+  }
+
+  // Stop the series after this occurrence
+  async stopRecurrence(
+    taskId: number,
+    requestingUserId: number,
+  ): Promise<TaskRecurrenceResponse> {
+    const task = await this.findModifiableTask(taskId, requestingUserId)
+    const recurrence = await this.findSeries(task)
+
+    const ended = await taskRecurrenceModel.end(
+      recurrence,
+      task.occurrenceAt ?? recurrence.startsAt,
+    )
+
+    return this.toResponse(ended)
+  }
+
+  // Generate occurrences whose date has arrived (run on a schedule)
+  async generateDueOccurrences(
+    requestingUserId?: number,
+  ): Promise<{ generatedCount: number }> {
+    if (
+      requestingUserId !== undefined &&
+      !(await hasAdminRole(requestingUserId))
+    ) {
+      throw new TaskError('Access denied', 403)
+    }
+
+    const generatedCount = await taskRecurrenceModel.generateDue()
+    return { generatedCount }
+  }
+
+  private toResponse(recurrence: RecurrenceResponse): TaskRecurrenceResponse {
+    return {
+      recurrence,
+      nextOccurrences: taskRecurrenceModel.getNextOccurrences(recurrence),
+    }
+  }
+
+  private async findModifiableTask(
+    taskId: number,
+    requestingUserId: number,
+  ): Promise<TaskResponse> {
+    const task = await taskModel.findById(taskId, requestingUserId)
+    if (!task) {
+      throw new TaskError('Task not found', 404)
+    }
+
+    if (!(await taskService.canModifyTask(task, requestingUserId))) {
+      throw new TaskError('Insufficient permissions to modify this task', 403)
+    }
+
+    return task
+  }
+
+  private async findSeries(task: TaskResponse): Promise<RecurrenceResponse> {
+    const recurrence = task.recurrenceId
+      ? await taskRecurrenceModel.findById(task.recurrenceId)
+      : null
+    if (!recurrence) {
+      throw new TaskError('Task is not part of a recurring series', 404)
+    }
+    return recurrence
+  }
+}
+
+export const taskRecurrenceService = new TaskRecurrenceService()
@@ -0,0 +1,119 @@
+import { Request, Response, NextFunction } from 'express'
+import { Readable } from 'stream'
+import { pipeline } from 'stream/promises'
+import { ZodError } from 'zod'
+import { taskTransferService } from './taskTransfer.service'
+import { exportTasksQuerySchema, importTasksSchema } from './taskTransfer.model'
+import { TaskError } from './task.model'
+import {
+  createSuccessResponse,
+  createErrorResponse,
+} from '../../../utils/response'
+
+const CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+}
+
+export class TaskTransferController {
+  // GET /tasks/export
+  async exportTasks(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const queryParams = exportTasksQuerySchema.parse(req.query)
+      const chunks = await taskTransferService.exportTasks(queryParams, userId)
+
+      const date = new Date().toISOString().slice(0, 10)
+      res.setHeader('Content-Type', CONTENT_TYPES[queryParams.format])
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="tasks-${date}.${queryParams.format}"`,
+      )
+
+      await pipeline(Readable.from(chunks), res)
+    } catch (err) {
+      // Once the file has started there is no way to report the error
+      // other than cutting the download short
+      if (res.headersSent) {
+        console.error('Task export failed:', err)
+        return
+      }
+      if (err instanceof ZodError) {
+        return createErrorResponse(
+          res,
+          'Invalid query parameters',
+          err.issues,
+          400,
+        )
+      }
+      if (err instanceof TaskError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // POST /projects/:id/tasks/import
+  async importTasks(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const projectId = parseInt(req.params.id)
+      if (isNaN(projectId)) {
+        return createErrorResponse(res, 'Invalid project ID', undefined, 400)
+      }
+
+      const validatedData = importTasksSchema.parse(req.body)
+      const result = await taskTransferService.importTasks(
+        projectId,
+        validatedData,
+        userId,
+      )
+
+      if (!result.dryRun) {
+        console.info('Tasks imported', {
+          projectId,
+          created: result.created,
+          skipped: result.skipped,
+          failed: result.failed,
+          userId,
+        })
+      }
+
+      return createSuccessResponse(
+        res,
+        result.dryRun
+          ? 'Task import previewed successfully'
+          : 'Tasks imported successfully',
+        result,
+      )
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(res, 'Validation failed', err.issues, 400)
+      }
+      if (err instanceof TaskError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+}
+
+export const taskTransferController = new TaskTransferController()
@@ -0,0 +1,146 @@
+import { z } from 'zod'
+import { withTransaction } from '../../../config/db'
+import {
+  CreateTaskInput,
+  createData,
+  TaskError,
+  TaskResponse,
+} from './task.model'
+import { taskFilterSchema } from './taskBulk.model'
+import { CsvValue } from '../../../utils/csv'
+
+// Tasks read from the database per page of an export
+export const TASK_EXPORT_BATCH_SIZE = 200
+
+// Most rows a single import may contain
+export const TASK_IMPORT_ROW_LIMIT = 1000
+
+// Task fields an import column can be mapped to; assignee is an email
+export const TASK_IMPORT_FIELDS = [
+  'title',
+  'definitionOfDone',
+  'status',
+  'priority',
+  'dueAt',
+  'startedAt',
+  'endedAt',
+  'timeSpent',
+  'costInProjectCurrency',
+  'assignee',
+] as const
+
+// Validation schemas
+export const exportTasksQuerySchema = taskFilterSchema.extend({
+  format: z.enum(['csv', 'json']).optional().default('csv'),
+})
+
+export const importTasksSchema = z.object({
+  csv: z.string().min(1, 'CSV is required'),
+  // Column header for each field; unmapped fields use the column named
+  // after the field, ignoring case
+  mapping: z.partialRecord(z.enum(TASK_IMPORT_FIELDS), z.string()).optional(),
+  // What to do with a title already used in the project or earlier in the
+  // file
+  onDuplicate: z.enum(['skip', 'rename', 'fail']).optional().default('fail'),
+  dryRun: z.boolean().optional().default(false),
+})
+
+// Types
+export type ExportTasksQuery = z.infer<typeof exportTasksQuerySchema>
+export type ImportTasksInput = z.infer<typeof importTasksSchema>
+export type TaskImportField = (typeof TASK_IMPORT_FIELDS)[number]
+export type TaskImportMapping = NonNullable<ImportTasksInput['mapping']>
+
+export interface TaskImportRowError {
+  field: string
+  message: string
+}
+
+export interface TaskImportRowResult {
+  // Line in the file, counting the header as line 1
+  row: number
+  status: 'created' | 'skipped' | 'failed'
+  title?: string
+  // Original title when the row was renamed to avoid a duplicate
+  renamedFrom?: string
+  // Not set in a dry run
+  taskId?: number
+  errors?: TaskImportRowError[]
+}
+
+export interface TaskImportResponse {
+  dryRun: boolean
+  total: number
+  created: number
+  skipped: number
+  failed: number
+  rows: TaskImportRowResult[]
+}
+
+// Columns of a CSV export, in order. Columns named after an import field
+// are picked up again when the file is imported.
+export const TASK_EXPORT_COLUMNS: {
+  header: string
+  value: (task: TaskResponse) => CsvValue
+}[] = [
+  { header: 'id', value: (task) => task.id },
+  { header: 'uuid', value: (task) => task.uuid },
+  { header: 'title', value: (task) => task.title },
+  { header: 'status', value: (task) => task.status },
+  { header: 'priority', value: (task) => task.priority },
+  { header: 'dueAt', value: (task) => task.dueAt },
+  { header: 'startedAt', value: (task) => task.startedAt },
+  { header: 'endedAt', value: (task) => task.endedAt },
+  { header: 'timeSpent', value: (task) => task.timeSpent?.toString() },
+  {
+    header: 'costInProjectCurrency',
+    value: (task) => task.costInProjectCurrency?.toString(),
+  },
+  { header: 'definitionOfDone', value: (task) => task.definitionOfDone },
+  { header: 'projectId', value: (task) => task.projectId },
+  { header: 'project', value: (task) => task.project?.title },
+  { header: 'assignee', value: (task) => task.user?.email },
+  { header: 'creator', value: (task) => task.creator?.email },
+  { header: 'parentTaskId', value: (task) => task.parentTaskId },
+  { header: 'milestone', value: (task) => task.milestone?.title },
+  {
+    header: 'milestoneTargetDate',
+    value: (task) => task.milestone?.targetDate,
+  },
+  {
+    header: 'tags',
+    value: (task) => task.tags?.map((tag) => tag.name).join('; '),
+  },
+  { header: 'completion', value: (task) => task.completion },
+  { header: 'createdAt', value: (task) => task.createdAt },
+  { header: 'updatedAt', value: (task) => task.updatedAt },
+]
+
+// Database operations
+export const taskTransferModel = {
+  /**
+   * Create imported tasks in one transaction, resolving to their ids in
+   * input order
+   */
+  async createMany(
+    tasks: CreateTaskInput[],
+    userId: number,
+  ): Promise<number[]> {
+    try {
+      return await withTransaction(async (tx) => {
+        const ids: number[] = []
+        for (const task of tasks) {
+          const created = await tx.task.create({
+            data: createData(task, userId),
+            select: { id: true },
+          })
+          ids.push(created.id)
+        }
+        return ids
+      })
+    } catch (error) {
+      console.error('Error importing tasks:', error)
+      throw new TaskError('Failed to import tasks', 500)
+    }
+  },
+}
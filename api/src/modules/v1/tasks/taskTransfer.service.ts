@@ -0,0 +1,354 @@
+import {
+  createTaskSchema,
+  freeTaskTitle,
+  CreateTaskInput,
+  taskModel,
+  TaskError,
+  TaskFilter,
+  TaskRelation,
+} from './task.model'
+import {
+  taskTransferModel,
+  ExportTasksQuery,
+  ImportTasksInput,
+  TaskImportField,
+  TaskImportMapping,
+  TaskImportRowError,
+  TaskImportRowResult,
+  TaskImportResponse,
+  TASK_EXPORT_BATCH_SIZE,
+  TASK_EXPORT_COLUMNS,
+  TASK_IMPORT_FIELDS,
+  TASK_IMPORT_ROW_LIMIT,
+} from './taskTransfer.model'
+import { taskChecklistModel } from './taskChecklist.model'
+import { taskService } from './task.service'
+import { projectBudgetService } from '../projects/projectBudget.service'
+import { parseCsv, formatCsvRow } from '../../../utils/csv'
+import prisma from '../../../config/db'
+import { hasAdminRole } from '../../../utils/auth'
+
+const NUMBER_FIELDS: TaskImportField[] = [
+  'priority',
+  'timeSpent',
+  'costInProjectCurrency',
+]
+const DATE_FIELDS: TaskImportField[] = ['dueAt', 'startedAt', 'endedAt']
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/
+
+export class TaskTransferService {
+  /**
+   * Tasks matching the filter as CSV or JSON text, read from the database a
+   * page at a time so large exports are never held in memory. Users export
+   * the tasks they could list; admins may export anyone's.
+   */
+  async exportTasks(
+    query: ExportTasksQuery,
+    requestingUserId: number,
+  ): Promise<AsyncIterable<string>> {
+    const { format, ...filter } = query
+    const batches = (await hasAdminRole(requestingUserId))
+      ? this.exportBatches(filter, requestingUserId, filter.userId, 'assigned')
+      : this.exportBatches(
+          filter,
+          requestingUserId,
+          requestingUserId,
+          'involved',
+        )
+
+    return format === 'json' ? this.toJson(batches) : this.toCsv(batches)
+  }
+
+  /**
+   * Create tasks in a project from CSV rows. Every row is validated like a
+   * new task and reported on its own; rows that pass are created together.
+   * A dry run only reports.
+   */
+  async importTasks(
+    projectId: number,
+    data: ImportTasksInput,
+    requestingUserId: number,
+  ): Promise<TaskImportResponse> {
+    if (!(await taskService.canEditProject(projectId, requestingUserId))) {
+      throw new TaskError('Project not found or access denied', 404)
+    }
+
+    let rows: string[][]
+    try {
+      rows = parseCsv(data.csv)
+    } catch (error) {
+      throw new TaskError(`Invalid CSV: ${(error as Error).message}`, 400)
+    }
+
+    const [header = [], ...records] = rows
+    if (records.length === 0) {
+      throw new TaskError('CSV has no rows to import', 400)
+    }
+    if (records.length > TASK_IMPORT_ROW_LIMIT) {
+      throw new TaskError(
+        `CSV has more than ${TASK_IMPORT_ROW_LIMIT} rows; split it up`,
+        400,
+      )
+    }
+
+    const columns = this.resolveColumns(header, data.mapping ?? {})
+    const assignees = await this.resolveAssignees(
+      projectId,
+      records
+        .map((record) => record[columns.assignee ?? -1]?.trim())
+        .filter(Boolean),
+    )
+
+    // Titles are unique per project, matching taskModel.create
+    const existing = await prisma.task.findMany({
+      where: { projectId, deletedAt: null },
+      select: { title: true },
+    })
+    const titles = new Set(existing.map((task) => task.title))
+
+    const results: TaskImportRowResult[] = []
+    const accepted: { result: TaskImportRowResult; task: CreateTaskInput }[] =
+      []
+
+    records.forEach((record, index) => {
+      const row = index + 2
+      const { task, errors } = this.readRow(record, columns, assignees)
+      if (!task) {
+        results.push({ row, status: 'failed', errors })
+        return
+      }
+
+      const result: TaskImportRowResult = {
+        row,
+        status: 'created',
+        title: task.title,
+      }
+      if (titles.has(task.title)) {
+        if (data.onDuplicate === 'skip') {
+          results.push({ ...result, status: 'skipped' })
+          return
+        }
+        if (data.onDuplicate === 'fail') {
+          results.push({
+            ...result,
+            status: 'failed',
+            errors: [
+              {
+                field: 'title',
+                message: 'Task with this title already exists in the project',
+              },
+            ],
+          })
+          return
+        }
+        result.renamedFrom = task.title
+        result.title = task.title = freeTaskTitle(task.title, titles)
+      }
+
+      titles.add(task.title)
+      results.push(result)
+      accepted.push({ result, task: { ...task, projectId } })
+    })
+
+    if (!data.dryRun && accepted.length > 0) {
+      const ids = await taskTransferModel.createMany(
+        accepted.map(({ task }) => task),
+        requestingUserId,
+      )
+      accepted.forEach(({ result }, index) => {
+        result.taskId = ids[index]
+      })
+
+      for (const { task, result } of accepted) {
+        if (task.definitionOfDone && result.taskId) {
+          await taskChecklistModel.importFromDefinitionOfDone(result.taskId)
+        }
+      }
+
+      // Imported time and cost count against the project budget
+      if (
+        accepted.some(
+          ({ task }) => task.timeSpent || task.costInProjectCurrency,
+        )
+      ) {
+        await projectBudgetService.tryCheckThresholds(
+          projectId,
+          requestingUserId,
+        )
+      }
+    }
+
+    const count = (status: TaskImportRowResult['status']) =>
+      results.filter((result) => result.status === status).length
+    return {
+      dryRun: data.dryRun,
+      total: records.length,
+      created: count('created'),
+      skipped: count('skipped'),
+      failed: count('failed'),
+      rows: results,
+    }
+  }
+
+  private async *exportBatches(
+    filter: TaskFilter,
+    requestingUserId: number,
+    userId: number | undefined,
+    relation: TaskRelation,
+  ) {
+    let afterId = 0
+    while (true) {
+      const tasks = await taskModel.findAfter(
+        filter,
+        requestingUserId,
+        userId,
+        relation,
+        afterId,
+        TASK_EXPORT_BATCH_SIZE,
+      )
+      if (tasks.length > 0) {
+        yield tasks
+      }
+      if (tasks.length < TASK_EXPORT_BATCH_SIZE) {
+        return
+      }
+      afterId = tasks[tasks.length - 1].id
+    }
+  }
+
+  private async *toCsv(
+    batches: ReturnType<TaskTransferService['exportBatches']>,
+  ): AsyncGenerator<string> {
+    yield formatCsvRow(TASK_EXPORT_COLUMNS.map((column) => column.header))
+    for await (const tasks of batches) {
+      yield tasks
+        .map((task) =>
+          formatCsvRow(TASK_EXPORT_COLUMNS.map((column) => column.value(task))),
+        )
+        .join('')
+    }
+  }
+
+  private async *toJson(
+    batches: ReturnType<TaskTransferService['exportBatches']>,
+  ): AsyncGenerator<string> {
+    let separator = ''
+    yield '['
+    for await (const tasks of batches) {
+      for (const task of tasks) {
+        yield separator + JSON.stringify(task)
+        separator = ','
+      }
+    }
+    yield ']'
+  }
+
+  // Column index for each mapped field
+  private resolveColumns(
+    header: string[],
+    mapping: TaskImportMapping,
+  ): Partial<Record<TaskImportField, number>> {
+    const headers = header.map((name) => name.trim().toLowerCase())
+    const columns: Partial<Record<TaskImportField, number>> = {}
+
+    for (const field of TASK_IMPORT_FIELDS) {
+      const name = mapping[field] ?? field
+      const index = headers.indexOf(name.trim().toLowerCase())
+      if (index !== -1) {
+        columns[field] = index
+      } else if (mapping[field] !== undefined) {
+        throw new TaskError(`Column "${name}" not found in CSV header`, 400)
+      }
+    }
+
+    if (columns.title === undefined) {
+      throw new TaskError('CSV needs a column for the task title', 400)
+    }
+    return columns
+  }
+
+  // Ids of the given assignee emails that may be assigned in the project,
+  // keyed by lower-cased email
+  private async resolveAssignees(
+    projectId: number,
+    emails: string[],
+  ): Promise<Map<string, number>> {
+    const assignees = new Map<string, number>()
+    if (emails.length === 0) {
+      return assignees
+    }
+
+    const users = await prisma.user.findMany({
+      where: {
+        email: { in: [...new Set(emails)], mode: 'insensitive' },
+        deletedAt: null,
+      },
+      select: { id: true, email: true },
+    })
+    for (const user of users) {
+      if (await taskService.canBeAssigned(projectId, user.id)) {
+        assignees.set(user.email.toLowerCase(), user.id)
+      }
+    }
+    return assignees
+  }
+
+  // A row as task input; empty cells are left out
+  private readRow(
+    record: string[],
+    columns: Partial<Record<TaskImportField, number>>,
+    assignees: Map<string, number>,
+  ): {
+    task?: Omit<CreateTaskInput, 'projectId'>
+    errors: TaskImportRowError[]
+  } {
+    const input: Record<string, unknown> = {}
+    const errors: TaskImportRowError[] = []
+
+    for (const [field, index] of Object.entries(columns) as [
+      TaskImportField,
+      number,
+    ][]) {
+      const value = record[index]?.trim()
+      if (!value) {
+        continue
+      }
+
+      if (field === 'assignee') {
+        const assigneeId = assignees.get(value.toLowerCase())
+        if (assigneeId === undefined) {
+          errors.push({
+            field,
+            message:
+              'Assignee must be an active user with access to the project',
+          })
+        }
+        input.assigneeId = assigneeId
+      } else if (NUMBER_FIELDS.includes(field)) {
+        input[field] = isNaN(Number(value)) ? value : Number(value)
+      } else if (DATE_FIELDS.includes(field)) {
+        input[field] = DATE_ONLY.test(value) ? `${value}T00:00:00.000Z` : value
+      } else if (field === 'status') {
+        input[field] = value.toUpperCase()
+      } else {
+        input[field] = value
+      }
+    }
+
+    const parsed = createTaskSchema.omit({ projectId: true }).safeParse(input)
+    if (!parsed.success) {
+      errors.push(
+        ...parsed.error.issues.map((issue) => ({
+          field: issue.path.join('.') || 'row',
+          message: issue.message,
+        })),
+      )
+    }
+
+    return parsed.success && errors.length === 0
+      ? { task: parsed.data, errors }
+      : { errors }
+  }
+}
+
+export const taskTransferService = new TaskTransferService()
@@ -0,0 +1,123 @@
+import { Request, Response, NextFunction } from 'express'
+import { ZodError } from 'zod'
+import { taskWorkflowService } from './taskWorkflow.service'
+import { updateWorkflowSchema } from './taskWorkflow.model'
+import { TaskError } from './task.model'
+import {
+  createSuccessResponse,
+  createErrorResponse,
+} from '../../../utils/response'
+
+export class TaskWorkflowController {
+  // GET /tasks/project/:projectId/workflow
+  async getWorkflow(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const projectId = parseInt(req.params.projectId)
+      if (isNaN(projectId)) {
+        return createErrorResponse(res, 'Invalid project ID', undefined, 400)
+      }
+
+      const workflow = await taskWorkflowService.getWorkflow(projectId, userId)
+
+      return createSuccessResponse(
+        res,
+        'Workflow retrieved successfully',
+        workflow,
+      )
+    } catch (err) {
+      if (err instanceof TaskError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // PUT /tasks/project/:projectId/workflow
+  async updateWorkflow(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const projectId = parseInt(req.params.projectId)
+      if (isNaN(projectId)) {
+        return createErrorResponse(res, 'Invalid project ID', undefined, 400)
+      }
+
+      const validatedData = updateWorkflowSchema.parse(req.body)
+      const workflow = await taskWorkflowService.updateWorkflow(
+        projectId,
+        validatedData,
+        userId,
+      )
+
+      console.info('Workflow updated', { projectId, userId })
+
+      return createSuccessResponse(
+        res,
+        'Workflow updated successfully',
+        workflow,
+      )
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(res, 'Validation failed', err.issues, 400)
+      }
+      if (err instanceof TaskError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // DELETE /tasks/project/:projectId/workflow
+  async resetWorkflow(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const projectId = parseInt(req.params.projectId)
+      if (isNaN(projectId)) {
+        return createErrorResponse(res, 'Invalid project ID', undefined, 400)
+      }
+
+      const workflow = await taskWorkflowService.resetWorkflow(
+        projectId,
+        userId,
+      )
+
+      console.info('Workflow reset', { projectId, userId })
+
+      return createSuccessResponse(res, 'Workflow reset successfully', workflow)
+    } catch (err) {
+      if (err instanceof TaskError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+}
+
+export const taskWorkflowController = new TaskWorkflowController()
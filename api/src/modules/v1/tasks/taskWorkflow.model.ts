@@ -0,0 +1,214 @@
+import { z } from 'zod'
+import { Prisma, TaskStatus } from '@prisma/client'
+import prisma from '../../../config/db'
+import { TaskError } from './task.model'
+
+// Validation schemas
+export const workflowTransitionSchema = z.object({
+  from: z.nativeEnum(TaskStatus),
+  to: z.nativeEnum(TaskStatus),
+  requiresReason: z.boolean().optional().default(false),
+})
+
+export const updateWorkflowSchema = z.object({
+  transitions: z.array(workflowTransitionSchema).min(1).nullable().optional(),
+  wipLimit: z.number().int().positive().nullable().optional(),
+  wipLimitPerAssignee: z.number().int().positive().nullable().optional(),
+})
+
+// Types
+export type WorkflowTransition = z.infer<typeof workflowTransitionSchema>
+export type UpdateWorkflowInput = z.infer<typeof updateWorkflowSchema>
+
+export interface WorkflowResponse {
+  projectId: number
+  isDefault: boolean
+  transitions: WorkflowTransition[]
+  wipLimit: number | null
+  wipLimitPerAssignee: number | null
+}
+
+export interface StatusChange {
+  taskId: number
+  projectId: number
+  assigneeId: number | null
+  from: TaskStatus
+  to: TaskStatus
+  reason?: string
+  // Other tasks that will be WIP in the project once a bulk change applies
+  pendingWip?: { taskId: number; assigneeId: number | null }[]
+}
+
+const { BACKLOG, TODO, WIP, DONE, BLOCKED, ON_HOLD } = TaskStatus
+
+const allow = (from: TaskStatus, targets: TaskStatus[]) =>
+  targets.map((to) => ({ from, to, requiresReason: false }))
+
+// Used by every project that has not saved its own transitions
+export const DEFAULT_TASK_WORKFLOW: WorkflowTransition[] = [
+  ...allow(BACKLOG, [TODO, WIP, BLOCKED, ON_HOLD]),
+  ...allow(TODO, [BACKLOG, WIP, BLOCKED, ON_HOLD]),
+  ...allow(WIP, [TODO, DONE, BLOCKED, ON_HOLD]),
+  ...allow(BLOCKED, [BACKLOG, TODO, WIP, ON_HOLD]),
+  ...allow(ON_HOLD, [BACKLOG, TODO, WIP]),
+  // Reopening finished work has to be justified
+  { from: DONE, to: WIP, requiresReason: true },
+  { from: DONE, to: TODO, requiresReason: true },
+]
+
+export function findTransition(
+  transitions: WorkflowTransition[],
+  from: TaskStatus,
+  to: TaskStatus,
+): WorkflowTransition | undefined {
+  return transitions.find((t) => t.from === from && t.to === to)
+}
+
+// Database operations
+export const taskWorkflowModel = {
+  async findByProjectId(projectId: number): Promise<WorkflowResponse> {
+    try {
+      const workflow = await prisma.projectWorkflow.findUnique({
+        where: { projectId },
+      })
+
+      return {
+        projectId,
+        isDefault: !workflow?.transitions,
+        transitions:
+          (workflow?.transitions as WorkflowTransition[] | null) ||
+          DEFAULT_TASK_WORKFLOW,
+        wipLimit: workflow?.wipLimit ?? null,
+        wipLimitPerAssignee: workflow?.wipLimitPerAssignee ?? null,
+      }
+    } catch (error) {
+      console.error('Error fetching workflow:', error)
+      throw new TaskError('Failed to fetch workflow', 500)
+    }
+  },
+
+  async upsert(
+    projectId: number,
+    data: UpdateWorkflowInput,
+  ): Promise<WorkflowResponse> {
+    try {
+      const transitions =
+        data.transitions === null ? Prisma.DbNull : data.transitions
+
+      await prisma.projectWorkflow.upsert({
+        where: { projectId },
+        create: {
+          projectId,
+          transitions: transitions ?? Prisma.DbNull,
+          wipLimit: data.wipLimit ?? null,
+          wipLimitPerAssignee: data.wipLimitPerAssignee ?? null,
+        },
+        update: {
+          ...(transitions !== undefined && { transitions }),
+          ...(data.wipLimit !== undefined && { wipLimit: data.wipLimit }),
+          ...(data.wipLimitPerAssignee !== undefined && {
+            wipLimitPerAssignee: data.wipLimitPerAssignee,
+          }),
+        },
+      })
+
+      return await this.findByProjectId(projectId)
+    } catch (error) {
+      if (error instanceof TaskError) {
+        throw error
+      }
+      console.error('Error saving workflow:', error)
+      throw new TaskError('Failed to save workflow', 500)
+    }
+  },
+
+  async delete(projectId: number): Promise<void> {
+    try {
+      await prisma.projectWorkflow.deleteMany({ where: { projectId } })
+    } catch (error) {
+      console.error('Error resetting workflow:', error)
+      throw new TaskError('Failed to reset workflow', 500)
+    }
+  },
+
+  /**
+   * Throws a 409 when the change breaks the project's workflow: the
+   * transition is not allowed, needs a reason that was not given, or would
+   * push the WIP column past its limits. Given the transaction that makes
+   * the change, WIP is counted with the project row locked, so concurrent
+   * changes cannot both fit under a limit.
+   */
+  async assertStatusChange(
+    change: StatusChange,
+    tx?: Prisma.TransactionClient,
+  ): Promise<void> {
+    const workflow = await this.findByProjectId(change.projectId)
+
+    if (change.from !== change.to) {
+      const transition = findTransition(
+        workflow.transitions,
+        change.from,
+        change.to,
+      )
+
+      if (!transition) {
+        throw new TaskError(
+          `Status transition from ${change.from} to ${change.to} is not allowed`,
+          409,
+        )
+      }
+
+      if (transition.requiresReason && !change.reason?.trim()) {
+        throw new TaskError(
+          `A reason is required to move a task from ${change.from} to ${change.to}`,
+          409,
+        )
+      }
+    }
+
+    if (change.to !== TaskStatus.WIP) {
+      return
+    }
+
+    const db = tx ?? prisma
+    if (tx) {
+      await tx.$queryRaw`SELECT id FROM "Project" WHERE id = ${change.projectId} FOR UPDATE`
+    }
+
+    const pendingWip = change.pendingWip ?? []
+    const wipWhere: Prisma.TaskWhereInput = {
+      projectId: change.projectId,
+      status: TaskStatus.WIP,
+      deletedAt: null,
+      id: {
+        notIn: [change.taskId, ...pendingWip.map((pending) => pending.taskId)],
+      },
+    }
+
+    if (workflow.wipLimit !== null) {
+      const inProgress =
+        (await db.task.count({ where: wipWhere })) + pendingWip.length
+      if (inProgress >= workflow.wipLimit) {
+        throw new TaskError(
+          `WIP limit of ${workflow.wipLimit} reached for this project`,
+          409,
+        )
+      }
+    }
+
+    if (workflow.wipLimitPerAssignee !== null && change.assigneeId !== null) {
+      const inProgress =
+        (await db.task.count({
+          where: { ...wipWhere, userId: change.assigneeId },
+        })) +
+        pendingWip.filter((pending) => pending.assigneeId === change.assigneeId)
+          .length
+      if (inProgress >= workflow.wipLimitPerAssignee) {
+        throw new TaskError(
+          `WIP limit of ${workflow.wipLimitPerAssignee} reached for this assignee`,
+          409,
+        )
+      }
+    }
+  },
+}
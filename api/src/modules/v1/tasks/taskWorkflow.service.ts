@@ -0,0 +1,65 @@
+import { TaskError } from './task.model'
+import {
+  taskWorkflowModel,
+  UpdateWorkflowInput,
+  WorkflowResponse,
+} from './taskWorkflow.model'
+import { taskService } from './task.service'
+import { ProjectRole } from '@prisma/client'
+
+export class TaskWorkflowService {
+  // Get the workflow in effect for a project
+  async getWorkflow(
+    projectId: number,
+    requestingUserId: number,
+  ): Promise<WorkflowResponse> {
+    await this.assertProjectAccess(projectId, requestingUserId)
+
+    return await taskWorkflowModel.findByProjectId(projectId)
+  }
+
+  // Override the default workflow and WIP limits for a project
+  async updateWorkflow(
+    projectId: number,
+    data: UpdateWorkflowInput,
+    requestingUserId: number,
+  ): Promise<WorkflowResponse> {
+    await this.assertProjectAccess(
+      projectId,
+      requestingUserId,
+      ProjectRole.OWNER,
+    )
+
+    return await taskWorkflowModel.upsert(projectId, data)
+  }
+
+  // Drop a project's overrides and fall back to the default workflow
+  async resetWorkflow(
+    projectId: number,
+    requestingUserId: number,
+  ): Promise<WorkflowResponse> {
+    await this.assertProjectAccess(
+      projectId,
+      requestingUserId,
+      ProjectRole.OWNER,
+    )
+
+    await taskWorkflowModel.delete(projectId)
+    return await taskWorkflowModel.findByProjectId(projectId)
+  }
+
+  // Anyone on the project can see its workflow; only owners change it
+  private async assertProjectAccess(
+    projectId: number,
+    requestingUserId: number,
+    minimum: ProjectRole = ProjectRole.VIEWER,
+  ): Promise<void> {
+    if (
+      !(await taskService.hasProjectRole(projectId, requestingUserId, minimum))
+    ) {
+      throw new TaskError('Project not found or access denied', 404)
+    }
+  }
+}
+
+export const taskWorkflowService = new TaskWorkflowService()
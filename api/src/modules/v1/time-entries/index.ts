@@ -0,0 +1,3 @@
+import router from './timeEntry.routes'
+
+export default router
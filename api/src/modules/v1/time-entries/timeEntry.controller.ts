@@ -0,0 +1,345 @@
+import { Request, Response, NextFunction } from 'express'
+import { ZodError } from 'zod'
+import { timeEntryService } from './timeEntry.service'
+import {
+  startTimerSchema,
+  stopTimerSchema,
+  createTimeEntrySchema,
+  updateTimeEntrySchema,
+  timeEntryQuerySchema,
+  timesheetQuerySchema,
+  TimeEntryError,
+} from './timeEntry.model'
+import {
+  createSuccessResponse,
+  createErrorResponse,
+} from '../../../utils/response'
+
+export class TimeEntryController {
+  // Start timer
+  async startTimer(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const validatedData = startTimerSchema.parse(req.body)
+      const entry = await timeEntryService.startTimer(validatedData, userId)
+
+      console.info('Timer started', {
+        timeEntryId: entry.id,
+        taskId: entry.taskId,
+        userId,
+      })
+
+      return createSuccessResponse(
+        res,
+        'Timer started successfully',
+        entry,
+        201,
+      )
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(res, 'Validation failed', err.issues, 400)
+      }
+      if (err instanceof TimeEntryError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // Stop timer
+  async stopTimer(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const validatedData = stopTimerSchema.parse(req.body || {})
+      const entry = await timeEntryService.stopTimer(validatedData, userId)
+
+      console.info('Timer stopped', {
+        timeEntryId: entry.id,
+        taskId: entry.taskId,
+        userId,
+        durationMinutes: entry.durationMinutes,
+      })
+
+      return createSuccessResponse(res, 'Timer stopped successfully', entry)
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(res, 'Validation failed', err.issues, 400)
+      }
+      if (err instanceof TimeEntryError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // Get running timer
+  async getRunningTimer(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const entry = await timeEntryService.getRunningTimer(userId)
+
+      return createSuccessResponse(
+        res,
+        'Running timer retrieved successfully',
+        entry,
+      )
+    } catch (err) {
+      if (err instanceof TimeEntryError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // Create manual time entry
+  async createTimeEntry(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const validatedData = createTimeEntrySchema.parse(req.body)
+      const entry = await timeEntryService.createTimeEntry(
+        validatedData,
+        userId,
+      )
+
+      console.info('Time entry created', {
+        timeEntryId: entry.id,
+        taskId: entry.taskId,
+        userId,
+      })
+
+      return createSuccessResponse(
+        res,
+        'Time entry created successfully',
+        entry,
+        201,
+      )
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(res, 'Validation failed', err.issues, 400)
+      }
+      if (err instanceof TimeEntryError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // Get time entries with filtering
+  async getTimeEntries(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const queryParams = timeEntryQuerySchema.parse(req.query)
+      const entries = await timeEntryService.getTimeEntries(queryParams, userId)
+
+      return createSuccessResponse(
+        res,
+        'Time entries retrieved successfully',
+        entries,
+      )
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(
+          res,
+          'Invalid query parameters',
+          err.issues,
+          400,
+        )
+      }
+      if (err instanceof TimeEntryError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // Get timesheet for a day or week
+  async getTimesheet(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const queryParams = timesheetQuerySchema.parse(req.query)
+      const timesheet = await timeEntryService.getTimesheet(queryParams, userId)
+
+      return createSuccessResponse(
+        res,
+        'Timesheet retrieved successfully',
+        timesheet,
+      )
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(
+          res,
+          'Invalid query parameters',
+          err.issues,
+          400,
+        )
+      }
+      if (err instanceof TimeEntryError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // Get time entry by ID
+  async getTimeEntryById(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const entryId = parseInt(req.params.id)
+      if (isNaN(entryId)) {
+        return createErrorResponse(res, 'Invalid time entry ID', undefined, 400)
+      }
+
+      const entry = await timeEntryService.getTimeEntryById(entryId, userId)
+
+      return createSuccessResponse(
+        res,
+        'Time entry retrieved successfully',
+        entry,
+      )
+    } catch (err) {
+      if (err instanceof TimeEntryError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // Update time entry
+  async updateTimeEntry(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const entryId = parseInt(req.params.id)
+      if (isNaN(entryId)) {
+        return createErrorResponse(res, 'Invalid time entry ID', undefined, 400)
+      }
+
+      const validatedData = updateTimeEntrySchema.parse(req.body)
+      const entry = await timeEntryService.updateTimeEntry(
+        entryId,
+        validatedData,
+        userId,
+      )
+
+      console.info('Time entry updated', { timeEntryId: entryId, userId })
+
+      return createSuccessResponse(
+        res,
+        'Time entry updated successfully',
+        entry,
+      )
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(res, 'Validation failed', err.issues, 400)
+      }
+      if (err instanceof TimeEntryError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // Delete time entry
+  async deleteTimeEntry(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const entryId = parseInt(req.params.id)
+      if (isNaN(entryId)) {
+        return createErrorResponse(res, 'Invalid time entry ID', undefined, 400)
+      }
+
+      await timeEntryService.deleteTimeEntry(entryId, userId)
+
+      console.info('Time entry deleted', { timeEntryId: entryId, userId })
+
+      return createSuccessResponse(res, 'Time entry deleted successfully', null)
+    } catch (err) {
+      if (err instanceof TimeEntryError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+}
+
+export const timeEntryController = new TimeEntryController()
@@ -0,0 +1,470 @@
+import { z } from 'zod'
+import { Prisma } from '@prisma/client'
+import { Decimal } from '@prisma/client/runtime/library'
+import prisma, { withTransaction } from '../../../config/db'
+import { calculateCost, minutesToHours } from '../../../utils/billing'
+
+const isoDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+
+// Validation schemas
+export const startTimerSchema = z.object({
+  taskId: z.number().int().positive(),
+  notes: z.string().max(2000, 'Notes too long').optional(),
+})
+
+export const stopTimerSchema = z.object({
+  notes: z.string().max(2000, 'Notes too long').optional(),
+})
+
+export const createTimeEntrySchema = z
+  .object({
+    taskId: z.number().int().positive(),
+    startedAt: z.string().datetime(),
+    endedAt: z.string().datetime().optional(),
+    durationMinutes: z.number().int().positive().optional(),
+    notes: z.string().max(2000, 'Notes too long').optional(),
+  })
+  .refine((data) => data.endedAt || data.durationMinutes, {
+    message: 'Either endedAt or durationMinutes is required',
+    path: ['endedAt'],
+  })
+
+export const updateTimeEntrySchema = z.object({
+  startedAt: z.string().datetime().optional(),
+  endedAt: z.string().datetime().optional(),
+  durationMinutes: z.number().int().positive().optional(),
+  notes: z.string().max(2000, 'Notes too long').nullable().optional(),
+})
+
+export const timeEntryQuerySchema = z.object({
+  taskId: z.coerce.number().int().positive().optional(),
+  userId: z.coerce.number().int().positive().optional(),
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  page: z.coerce.number().int().min(1).optional().default(1),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(20),
+})
+
+export const timesheetQuerySchema = z.object({
+  period: z.enum(['day', 'week']).optional().default('week'),
+  date: isoDate.optional(),
+  userId: z.coerce.number().int().positive().optional(),
+})
+
+// Types
+export type StartTimerInput = z.infer<typeof startTimerSchema>
+export type StopTimerInput = z.infer<typeof stopTimerSchema>
+export type CreateTimeEntryInput = z.infer<typeof createTimeEntrySchema>
+export type UpdateTimeEntryInput = z.infer<typeof updateTimeEntrySchema>
+export type TimeEntryQuery = z.infer<typeof timeEntryQuerySchema>
+export type TimesheetQuery = z.infer<typeof timesheetQuerySchema>
+
+export interface TimeEntryResponse {
+  id: number
+  uuid: string
+  taskId: number
+  userId: number
+  startedAt: Date
+  endedAt: Date | null
+  durationMinutes: number | null
+  notes: string | null
+  // Set once the entry is billed on an invoice
+  invoiceId: number | null
+  createdAt: Date
+  updatedAt: Date
+  task?: {
+    id: number
+    uuid: string
+    title: string
+    projectId: number
+  }
+}
+
+export interface PaginatedTimeEntriesResponse {
+  timeEntries: TimeEntryResponse[]
+  pagination: {
+    page: number
+    limit: number
+    total: number
+    totalPages: number
+  }
+}
+
+export interface TimesheetResponse {
+  userId: number
+  period: 'day' | 'week'
+  from: Date
+  to: Date
+  totalMinutes: number
+  days: {
+    date: string
+    totalMinutes: number
+    entries: TimeEntryResponse[]
+  }[]
+}
+
+export class TimeEntryError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400,
+  ) {
+    super(message)
+    this.name = 'TimeEntryError'
+  }
+}
+
+const timeEntryInclude = {
+  task: {
+    select: {
+      id: true,
+      uuid: true,
+      title: true,
+      projectId: true,
+    },
+  },
+} satisfies Prisma.TimeEntryInclude
+
+const MS_PER_MINUTE = 60 * 1000
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE
+
+export function minutesBetween(startedAt: Date, endedAt: Date): number {
+  return Math.round((endedAt.getTime() - startedAt.getTime()) / MS_PER_MINUTE)
+}
+
+/**
+ * UTC bounds of the day or the Monday-to-Sunday week containing the date
+ */
+export function getTimesheetRange(
+  period: 'day' | 'week',
+  date?: string,
+): { from: Date; to: Date } {
+  const base = date ? new Date(`${date}T00:00:00.000Z`) : new Date()
+  const from = new Date(
+    Date.UTC(base.getUTCFullYear(), base.getUTCMonth(), base.getUTCDate()),
+  )
+
+  if (period === 'day') {
+    return { from, to: new Date(from.getTime() + MS_PER_DAY) }
+  }
+
+  // getUTCDay() is 0 for Sunday; weeks start on Monday
+  const daysSinceMonday = (from.getUTCDay() + 6) % 7
+  const monday = new Date(from.getTime() - daysSinceMonday * MS_PER_DAY)
+  return { from: monday, to: new Date(monday.getTime() + 7 * MS_PER_DAY) }
+}
+
+// Database operations
+export const timeEntryModel = {
+  /**
+   * Start a timer, refusing when the user already has one running. The
+   * user's row is locked so two concurrent starts cannot both succeed.
+   */
+  async start(
+    userId: number,
+    data: StartTimerInput,
+  ): Promise<TimeEntryResponse> {
+    let entry: TimeEntryResponse | null
+    try {
+      entry = await withTransaction(async (tx) => {
+        await tx.$queryRaw`SELECT id FROM "User" WHERE id = ${userId} FOR UPDATE`
+
+        const running = await tx.timeEntry.findFirst({
+          where: { userId, endedAt: null },
+        })
+        if (running) {
+          return null
+        }
+
+        return tx.timeEntry.create({
+          data: {
+            taskId: data.taskId,
+            userId,
+            startedAt: new Date(),
+            notes: data.notes,
+          },
+          include: timeEntryInclude,
+        })
+      })
+    } catch (error) {
+      console.error('Error starting timer:', error)
+      throw new TimeEntryError('Failed to start timer', 500)
+    }
+
+    if (!entry) {
+      throw new TimeEntryError('A timer is already running', 409)
+    }
+
+    return entry
+  },
+
+  async stop(
+    entry: TimeEntryResponse,
+    data: StopTimerInput,
+  ): Promise<TimeEntryResponse> {
+    try {
+      const endedAt = new Date()
+      const stopped = await prisma.timeEntry.update({
+        where: { id: entry.id },
+        data: {
+          endedAt,
+          durationMinutes: minutesBetween(entry.startedAt, endedAt),
+          ...(data.notes !== undefined && { notes: data.notes }),
+        },
+        include: timeEntryInclude,
+      })
+
+      await this.recalculateTaskTotals(stopped.taskId)
+      return stopped
+    } catch (error) {
+      console.error('Error stopping timer:', error)
+      throw new TimeEntryError('Failed to stop timer', 500)
+    }
+  },
+
+  async create(
+    userId: number,
+    data: CreateTimeEntryInput,
+  ): Promise<TimeEntryResponse> {
+    const startedAt = new Date(data.startedAt)
+    const endedAt = data.endedAt
+      ? new Date(data.endedAt)
+      : new Date(startedAt.getTime() + data.durationMinutes! * MS_PER_MINUTE)
+
+    if (endedAt <= startedAt) {
+      throw new TimeEntryError('endedAt must be after startedAt', 400)
+    }
+
+    try {
+      const entry = await prisma.timeEntry.create({
+        data: {
+          taskId: data.taskId,
+          userId,
+          startedAt,
+          endedAt,
+          durationMinutes: minutesBetween(startedAt, endedAt),
+          notes: data.notes,
+        },
+        include: timeEntryInclude,
+      })
+
+      await this.recalculateTaskTotals(entry.taskId)
+      return entry
+    } catch (error) {
+      console.error('Error creating time entry:', error)
+      throw new TimeEntryError('Failed to create time entry', 500)
+    }
+  },
+
+  async findById(id: number): Promise<TimeEntryResponse | null> {
+    try {
+      return await prisma.timeEntry.findUnique({
+        where: { id },
+        include: timeEntryInclude,
+      })
+    } catch (error) {
+      console.error('Error fetching time entry:', error)
+      throw new TimeEntryError('Failed to fetch time entry', 500)
+    }
+  },
+
+  async findRunning(userId: number): Promise<TimeEntryResponse | null> {
+    try {
+      return await prisma.timeEntry.findFirst({
+        where: { userId, endedAt: null },
+        include: timeEntryInclude,
+      })
+    } catch (error) {
+      console.error('Error fetching running timer:', error)
+      throw new TimeEntryError('Failed to fetch running timer', 500)
+    }
+  },
+
+  async findMany(
+    query: TimeEntryQuery,
+    userId?: number,
+  ): Promise<PaginatedTimeEntriesResponse> {
+    try {
+      const skip = (query.page - 1) * query.limit
+
+      const where: Prisma.TimeEntryWhereInput = {
+        task: { deletedAt: null },
+        ...(userId && { userId }),
+        ...(query.taskId && { taskId: query.taskId }),
+        ...((query.from || query.to) && {
+          startedAt: {
+            ...(query.from && { gte: new Date(query.from) }),
+            ...(query.to && { lt: new Date(query.to) }),
+          },
+        }),
+      }
+
+      const [timeEntries, total] = await Promise.all([
+        prisma.timeEntry.findMany({
+          where,
+          include: timeEntryInclude,
+          orderBy: { startedAt: 'desc' },
+          skip,
+          take: query.limit,
+        }),
+        prisma.timeEntry.count({ where }),
+      ])
+
+      return {
+        timeEntries,
+        pagination: {
+          page: query.page,
+          limit: query.limit,
+          total,
+          totalPages: Math.ceil(total / query.limit),
+        },
+      }
+    } catch (error) {
+      console.error('Error fetching time entries:', error)
+      throw new TimeEntryError('Failed to fetch time entries', 500)
+    }
+  },
+
+  async update(
+    entry: TimeEntryResponse,
+    data: UpdateTimeEntryInput,
+  ): Promise<TimeEntryResponse> {
+    const startedAt = data.startedAt
+      ? new Date(data.startedAt)
+      : entry.startedAt
+    let endedAt = data.endedAt ? new Date(data.endedAt) : entry.endedAt
+    if (data.durationMinutes) {
+      endedAt = new Date(
+        startedAt.getTime() + data.durationMinutes * MS_PER_MINUTE,
+      )
+    }
+
+    if (endedAt && endedAt <= startedAt) {
+      throw new TimeEntryError('endedAt must be after startedAt', 400)
+    }
+
+    try {
+      const updated = await prisma.timeEntry.update({
+        where: { id: entry.id },
+        data: {
+          startedAt,
+          endedAt,
+          durationMinutes: endedAt ? minutesBetween(startedAt, endedAt) : null,
+          ...(data.notes !== undefined && { notes: data.notes }),
+        },
+        include: timeEntryInclude,
+      })
+
+      await this.recalculateTaskTotals(updated.taskId)
+      return updated
+    } catch (error) {
+      console.error('Error updating time entry:', error)
+      throw new TimeEntryError('Failed to update time entry', 500)
+    }
+  },
+
+  async delete(entry: TimeEntryResponse): Promise<void> {
+    try {
+      await prisma.timeEntry.delete({ where: { id: entry.id } })
+      await this.recalculateTaskTotals(entry.taskId)
+    } catch (error) {
+      console.error('Error deleting time entry:', error)
+      throw new TimeEntryError('Failed to delete time entry', 500)
+    }
+  },
+
+  async getTimesheet(
+    userId: number,
+    period: 'day' | 'week',
+    date?: string,
+  ): Promise<TimesheetResponse> {
+    const { from, to } = getTimesheetRange(period, date)
+
+    try {
+      const entries = await prisma.timeEntry.findMany({
+        where: {
+          userId,
+          startedAt: { gte: from, lt: to },
+          task: { deletedAt: null },
+        },
+        include: timeEntryInclude,
+        orderBy: { startedAt: 'asc' },
+      })
+
+      const days: TimesheetResponse['days'] = []
+      for (
+        let day = from;
+        day < to;
+        day = new Date(day.getTime() + MS_PER_DAY)
+      ) {
+        days.push({
+          date: day.toISOString().slice(0, 10),
+          totalMinutes: 0,
+          entries: [],
+        })
+      }
+
+      for (const entry of entries) {
+        const index = Math.floor(
+          (entry.startedAt.getTime() - from.getTime()) / MS_PER_DAY,
+        )
+        days[index].entries.push(entry)
+        days[index].totalMinutes += entry.durationMinutes || 0
+      }
+
+      return {
+        userId,
+        period,
+        from,
+        to,
+        totalMinutes: days.reduce((sum, day) => sum + day.totalMinutes, 0),
+        days,
+      }
+    } catch (error) {
+      console.error('Error building timesheet:', error)
+      throw new TimeEntryError('Failed to build timesheet', 500)
+    }
+  },
+
+  /**
+   * Recompute Task.timeSpent (hours) from finished entries and derive
+   * costInProjectCurrency from the parent project's rate and billing cycle
+   */
+  async recalculateTaskTotals(taskId: number): Promise<void> {
+    const [totals, task] = await Promise.all([
+      prisma.timeEntry.aggregate({
+        where: { taskId, endedAt: { not: null } },
+        _sum: { durationMinutes: true },
+        _count: { id: true },
+      }),
+      prisma.task.findUnique({
+        where: { id: taskId },
+        select: { project: { select: { rate: true, billingCycle: true } } },
+      }),
+    ])
+
+    if (!task) {
+      return
+    }
+
+    const timeSpent: Decimal | null =
+      totals._count.id > 0
+        ? minutesToHours(totals._sum.durationMinutes || 0)
+        : null
+
+    await prisma.task.update({
+      where: { id: taskId },
+      data: {
+        timeSpent,
+        costInProjectCurrency: timeSpent
+          ? calculateCost(
+              timeSpent,
+              task.project.rate,
+              task.project.billingCycle,
+            )
+          : null,
+      },
+    })
+  },
+}
@@ -0,0 +1,40 @@
+import { Router } from 'express'
+import { timeEntryController } from './timeEntry.controller'
+import { auth } from '../../../middlewares/auth'
+
+const router = Router()
+
+// Apply authentication to all routes
+router.use(auth)
+
+// Timer routes
+router.post('/start', timeEntryController.startTimer.bind(timeEntryController))
+router.post('/stop', timeEntryController.stopTimer.bind(timeEntryController))
+router.get(
+  '/running',
+  timeEntryController.getRunningTimer.bind(timeEntryController),
+)
+
+// Timesheet routes
+router.get(
+  '/timesheet',
+  timeEntryController.getTimesheet.bind(timeEntryController),
+)
+
+// Time entry CRUD routes
+router.post('/', timeEntryController.createTimeEntry.bind(timeEntryController))
+router.get('/', timeEntryController.getTimeEntries.bind(timeEntryController))
+router.get(
+  '/:id',
+  timeEntryController.getTimeEntryById.bind(timeEntryController),
+)
+router.put(
+  '/:id',
+  timeEntryController.updateTimeEntry.bind(timeEntryController),
+)
+router.delete(
+  '/:id',
+  timeEntryController.deleteTimeEntry.bind(timeEntryController),
+)
+
+export default router
@@ -0,0 +1,187 @@
+import {
+  timeEntryModel,
+  StartTimerInput,
+  StopTimerInput,
+  CreateTimeEntryInput,
+  UpdateTimeEntryInput,
+  TimeEntryQuery,
+  TimesheetQuery,
+  TimeEntryError,
+  TimeEntryResponse,
+  PaginatedTimeEntriesResponse,
+  TimesheetResponse,
+} from './timeEntry.model'
+import { taskModel } from '../tasks/task.model'
+import { taskService } from '../tasks/task.service'
+import { projectBudgetService } from '../projects/projectBudget.service'
+import { hasAdminRole } from '../../../utils/auth'
+
+export class TimeEntryService {
+  // Start a timer on a task
+  async startTimer(
+    data: StartTimerInput,
+    requestingUserId: number,
+  ): Promise<TimeEntryResponse> {
+    await this.assertTaskAccess(data.taskId, requestingUserId)
+
+    return await timeEntryModel.start(requestingUserId, data)
+  }
+
+  // Stop the requesting user's running timer
+  async stopTimer(
+    data: StopTimerInput,
+    requestingUserId: number,
+  ): Promise<TimeEntryResponse> {
+    const running = await timeEntryModel.findRunning(requestingUserId)
+    if (!running) {
+      throw new TimeEntryError('No timer is running', 404)
+    }
+
+    const entry = await timeEntryModel.stop(running, data)
+    await this.checkBudget(entry, requestingUserId)
+
+    return entry
+  }
+
+  // Get the requesting user's running timer, if any
+  async getRunningTimer(
+    requestingUserId: number,
+  ): Promise<TimeEntryResponse | null> {
+    return await timeEntryModel.findRunning(requestingUserId)
+  }
+
+  // Log time manually
+  async createTimeEntry(
+    data: CreateTimeEntryInput,
+    requestingUserId: number,
+  ): Promise<TimeEntryResponse> {
+    await this.assertTaskAccess(data.taskId, requestingUserId)
+
+    const entry = await timeEntryModel.create(requestingUserId, data)
+    await this.checkBudget(entry, requestingUserId)
+
+    return entry
+  }
+
+  // Get time entries with filtering and pagination
+  async getTimeEntries(
+    query: TimeEntryQuery,
+    requestingUserId: number,
+  ): Promise<PaginatedTimeEntriesResponse> {
+    // Users can only see their own entries unless admin
+    const isAdmin = await hasAdminRole(requestingUserId)
+    const userId = isAdmin ? query.userId : requestingUserId
+
+    return await timeEntryModel.findMany(query, userId)
+  }
+
+  // Get time entry by ID
+  async getTimeEntryById(
+    id: number,
+    requestingUserId: number,
+  ): Promise<TimeEntryResponse> {
+    return await this.findOwnedEntry(id, requestingUserId)
+  }
+
+  // Update time entry
+  async updateTimeEntry(
+    id: number,
+    data: UpdateTimeEntryInput,
+    requestingUserId: number,
+  ): Promise<TimeEntryResponse> {
+    const entry = await this.findOwnedEntry(id, requestingUserId)
+    this.assertNotInvoiced(entry)
+
+    const updatedEntry = await timeEntryModel.update(entry, data)
+    await this.checkBudget(updatedEntry, requestingUserId)
+
+    return updatedEntry
+  }
+
+  // Delete time entry
+  async deleteTimeEntry(id: number, requestingUserId: number): Promise<void> {
+    const entry = await this.findOwnedEntry(id, requestingUserId)
+    this.assertNotInvoiced(entry)
+
+    await timeEntryModel.delete(entry)
+  }
+
+  // Get a day or week of time entries for a timesheet
+  async getTimesheet(
+    query: TimesheetQuery,
+    requestingUserId: number,
+  ): Promise<TimesheetResponse> {
+    const userId = query.userId || requestingUserId
+
+    // Users can only see their own timesheet unless admin
+    if (
+      userId !== requestingUserId &&
+      !(await hasAdminRole(requestingUserId))
+    ) {
+      throw new TimeEntryError('Access denied', 403)
+    }
+
+    return await timeEntryModel.getTimesheet(userId, query.period, query.date)
+  }
+
+  // Logged time feeds the task's hours and cost, and so its project budget
+  private async checkBudget(
+    entry: TimeEntryResponse,
+    requestingUserId: number,
+  ): Promise<void> {
+    if (entry.task) {
+      await projectBudgetService.tryCheckThresholds(
+        entry.task.projectId,
+        requestingUserId,
+      )
+    }
+  }
+
+  // Permission helper methods
+  private async assertTaskAccess(
+    taskId: number,
+    requestingUserId: number,
+  ): Promise<void> {
+    const task = await taskModel.findById(taskId, requestingUserId)
+    if (!task) {
+      throw new TimeEntryError('Task not found', 404)
+    }
+
+    // Time is logged by those who may work on the task, not viewers
+    if (!(await taskService.canModifyTask(task, requestingUserId))) {
+      throw new TimeEntryError('Access denied', 403)
+    }
+  }
+
+  private async findOwnedEntry(
+    id: number,
+    requestingUserId: number,
+  ): Promise<TimeEntryResponse> {
+    const entry = await timeEntryModel.findById(id)
+    if (!entry) {
+      throw new TimeEntryError('Time entry not found', 404)
+    }
+
+    // Entry owner and admins can manage an entry
+    if (
+      entry.userId !== requestingUserId &&
+      !(await hasAdminRole(requestingUserId))
+    ) {
+      throw new TimeEntryError('Access denied', 403)
+    }
+
+    return entry
+  }
+
+  // Billed time stays as it was invoiced
+  private assertNotInvoiced(entry: TimeEntryResponse): void {
+    if (entry.invoiceId !== null) {
+      throw new TimeEntryError(
+        'Time entry has been invoiced and can no longer be changed',
+        409,
+      )
+    }
+  }
+}
+
+export const timeEntryService = new TimeEntryService()
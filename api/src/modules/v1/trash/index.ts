@@ -0,0 +1,3 @@
+import router from './trash.routes'
+
+export default router
@@ -0,0 +1,75 @@
+import { Request, Response, NextFunction } from 'express'
+import { ZodError } from 'zod'
+import { trashService } from './trash.service'
+import { trashQuerySchema, purgeTrashSchema, TrashError } from './trash.model'
+import {
+  createSuccessResponse,
+  createErrorResponse,
+} from '../../../utils/response'
+
+export class TrashController {
+  // GET /trash
+  async getTrash(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const queryParams = trashQuerySchema.parse(req.query)
+      const trash = await trashService.getTrash(queryParams, userId)
+
+      return createSuccessResponse(res, 'Trash retrieved successfully', trash)
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(
+          res,
+          'Invalid query parameters',
+          err.issues,
+          400,
+        )
+      }
+      if (err instanceof TrashError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+
+  // POST /trash/purge (admin only)
+  async purgeTrash(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        return createErrorResponse(
+          res,
+          'User not authenticated',
+          undefined,
+          401,
+        )
+      }
+
+      const validatedData = purgeTrashSchema.parse(req.body ?? {})
+      const result = await trashService.purge(validatedData, userId)
+
+      console.info('Trash purged', { ...result, userId })
+
+      return createSuccessResponse(res, 'Trash purged successfully', result)
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return createErrorResponse(res, 'Validation failed', err.issues, 400)
+      }
+      if (err instanceof TrashError) {
+        return createErrorResponse(res, err.message, undefined, err.statusCode)
+      }
+      return next(err)
+    }
+  }
+}
+
+export const trashController = new TrashController()
@@ -0,0 +1,174 @@
+import { z } from 'zod'
+import { Prisma } from '@prisma/client'
+import prisma, { withTransaction } from '../../../config/db'
+import { createdByWhere } from '../tasks/task.model'
+import { projectOwnerWhere } from '../projects/project.model'
+
+// Validation schemas
+export const trashQuerySchema = z.object({
+  type: z.enum(['project', 'task', 'note']).optional(),
+  // Admins can look into another user's trash
+  userId: z.coerce.number().int().positive().optional(),
+  // Most items listed of each type, most recently deleted first
+  limit: z.coerce.number().int().min(1).max(100).optional().default(50),
+})
+
+export const purgeTrashSchema = z.object({
+  // Defaults to the configured retention; 0 empties the trash
+  olderThanDays: z.number().int().min(0).optional(),
+})
+
+// Types
+export type TrashQuery = z.infer<typeof trashQuerySchema>
+export type PurgeTrashInput = z.infer<typeof purgeTrashSchema>
+export type TrashItemType = 'project' | 'task' | 'note'
+
+export interface TrashItem {
+  type: TrashItemType
+  id: number
+  uuid: string
+  title: string
+  projectId: number | null
+  deletedAt: Date
+  // When the scheduled purge removes the item for good
+  purgeAt: Date
+}
+
+export interface TrashResponse {
+  retentionDays: number
+  projects: TrashItem[]
+  tasks: TrashItem[]
+  notes: TrashItem[]
+}
+
+export interface PurgeTrashResponse {
+  before: Date
+  projects: number
+  tasks: number
+  notes: number
+  // Projects kept because invoices still refer to them
+  skippedProjects: number
+}
+
+export class TrashError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400,
+  ) {
+    super(message)
+    this.name = 'TrashError'
+  }
+}
+
+const trashSelect = {
+  id: true,
+  uuid: true,
+  title: true,
+  deletedAt: true,
+} as const
+
+// Database operations
+export const trashModel = {
+  async findProjects(limit: number, userId?: number) {
+    try {
+      return await prisma.project.findMany({
+        where: {
+          deletedAt: { not: null },
+          ...(userId && projectOwnerWhere(userId)),
+        },
+        select: trashSelect,
+        orderBy: [{ deletedAt: 'desc' }, { id: 'desc' }],
+        take: limit,
+      })
+    } catch (error) {
+      console.error('Error fetching deleted projects:', error)
+      throw new TrashError('Failed to fetch deleted projects', 500)
+    }
+  },
+
+  /**
+   * Tasks deleted on their own. Those deleted along with their project or
+   * parent task come back with it, so they are not listed.
+   */
+  async findTasks(limit: number, userId?: number) {
+    const where: Prisma.TaskWhereInput = {
+      deletedAt: { not: null },
+      project: { deletedAt: null },
+      OR: [{ parentTaskId: null }, { parentTask: { deletedAt: null } }],
+      ...(userId && {
+        AND: [
+          {
+            OR: [
+              createdByWhere(userId),
+              { project: projectOwnerWhere(userId) },
+            ],
+          },
+        ],
+      }),
+    }
+
+    try {
+      return await prisma.task.findMany({
+        where,
+        select: { ...trashSelect, projectId: true },
+        orderBy: [{ deletedAt: 'desc' }, { id: 'desc' }],
+        take: limit,
+      })
+    } catch (error) {
+      console.error('Error fetching deleted tasks:', error)
+      throw new TrashError('Failed to fetch deleted tasks', 500)
+    }
+  },
+
+  async findNotes(limit: number, userId?: number) {
+    try {
+      return await prisma.note.findMany({
+        where: {
+          deletedAt: { not: null },
+          ...(userId && { userId }),
+        },
+        select: { ...trashSelect, projectId: true },
+        orderBy: [{ deletedAt: 'desc' }, { id: 'desc' }],
+        take: limit,
+      })
+    } catch (error) {
+      console.error('Error fetching deleted notes:', error)
+      throw new TrashError('Failed to fetch deleted notes', 500)
+    }
+  },
+
+  /**
+   * Permanently delete projects, tasks and notes deleted before the given
+   * date. A project takes its tasks and the rest of its records with it.
+   */
+  async purge(before: Date): Promise<PurgeTrashResponse> {
+    const deletedBefore = { deletedAt: { not: null, lt: before } }
+
+    try {
+      return await withTransaction(async (tx) => {
+        const skippedProjects = await tx.project.count({
+          where: { ...deletedBefore, invoices: { some: {} } },
+        })
+        const projects = await tx.project.deleteMany({
+          where: { ...deletedBefore, invoices: { none: {} } },
+        })
+        // Tasks of a kept project stay to be restored along with it
+        const tasks = await tx.task.deleteMany({
+          where: { ...deletedBefore, project: { deletedAt: null } },
+        })
+        const notes = await tx.note.deleteMany({ where: deletedBefore })
+
+        return {
+          before,
+          projects: projects.count,
+          tasks: tasks.count,
+          notes: notes.count,
+          skippedProjects,
+        }
+      })
+    } catch (error) {
+      console.error('Error purging trash:', error)
+      throw new TrashError('Failed to purge trash', 500)
+    }
+  },
+}
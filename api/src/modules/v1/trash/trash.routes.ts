@@ -0,0 +1,14 @@
+import { Router } from 'express'
+import { trashController } from './trash.controller'
+import { auth } from '../../../middlewares/auth'
+
+const router = Router()
+
+// Apply authentication to all routes
+router.use(auth)
+
+// Trash routes; items are restored through their own modules
+router.get('/', trashController.getTrash.bind(trashController))
+router.post('/purge', trashController.purgeTrash.bind(trashController))
+
+export default router
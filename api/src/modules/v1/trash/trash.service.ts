@@ -0,0 +1,90 @@
+import { ENV } from '../../../config/env'
+import {
+  trashModel,
+  TrashError,
+  TrashItem,
+  TrashItemType,
+  TrashQuery,
+  TrashResponse,
+  PurgeTrashInput,
+  PurgeTrashResponse,
+} from './trash.model'
+import { hasAdminRole } from '../../../utils/auth'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export class TrashService {
+  // List deleted projects, tasks and notes with the date each is purged
+  async getTrash(
+    query: TrashQuery,
+    requestingUserId: number,
+  ): Promise<TrashResponse> {
+    // Users only see their own trash unless admin
+    const isAdmin = await hasAdminRole(requestingUserId)
+    const userId = isAdmin ? query.userId : requestingUserId
+    const wants = (type: TrashItemType) => !query.type || query.type === type
+
+    const [projects, tasks, notes] = await Promise.all([
+      wants('project') ? trashModel.findProjects(query.limit, userId) : [],
+      wants('task') ? trashModel.findTasks(query.limit, userId) : [],
+      wants('note') ? trashModel.findNotes(query.limit, userId) : [],
+    ])
+
+    return {
+      retentionDays: ENV.TRASH_RETENTION_DAYS,
+      projects: projects.map((project) =>
+        this.toItem('project', { ...project, projectId: null }),
+      ),
+      tasks: tasks.map((task) => this.toItem('task', task)),
+      notes: notes.map((note) => this.toItem('note', note)),
+    }
+  }
+
+  /**
+   * Permanently delete what has been in the trash longer than the
+   * retention period (run on a schedule), or longer than the given number
+   * of days when an admin empties it by hand
+   */
+  async purge(
+    data: PurgeTrashInput = {},
+    requestingUserId?: number,
+  ): Promise<PurgeTrashResponse> {
+    if (
+      requestingUserId !== undefined &&
+      !(await hasAdminRole(requestingUserId))
+    ) {
+      throw new TrashError('Only admins can purge the trash', 403)
+    }
+
+    const days = data.olderThanDays ?? ENV.TRASH_RETENTION_DAYS
+    return await trashModel.purge(new Date(Date.now() - days * DAY_MS))
+  }
+
+  private toItem(
+    type: TrashItemType,
+    item: {
+      id: number
+      uuid: string
+      title: string
+      projectId: number | null
+      deletedAt: Date | null
+    },
+  ): TrashItem {
+    // Only deleted rows are listed
+    const deletedAt = item.deletedAt as Date
+
+    return {
+      type,
+      id: item.id,
+      uuid: item.uuid,
+      title: item.title,
+      projectId: item.projectId,
+      deletedAt,
+      purgeAt: new Date(
+        deletedAt.getTime() + ENV.TRASH_RETENTION_DAYS * DAY_MS,
+      ),
+    }
+  }
+}
+
+export const trashService = new TrashService()
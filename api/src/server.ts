@@ -1,6 +1,9 @@
 import http from 'http'
 import createApp from './app'
 import { ENV } from './config/env'
+import { taskRecurrenceService } from './modules/v1/tasks/taskRecurrence.service'
+import { trashService } from './modules/v1/trash/trash.service'
+import { noteRevisionService } from './modules/v1/notes/noteRevision.service'
 
 const app = createApp()
 const server = http.createServer(app)
@@ -13,8 +16,43 @@ function start() {
     )
   })
 
+  // Create recurring task occurrences as their dates arrive
+  const recurrenceTimer = setInterval(
+    () => {
+      taskRecurrenceService
+        .generateDueOccurrences()
+        .catch((err) =>
+          console.error('Error generating recurring task occurrences', err),
+        )
+    },
+    ENV.RECURRENCE_INTERVAL_MINUTES * 60 * 1000,
+  )
+
+  // Permanently delete what has outlived the trash retention period
+  const trashTimer = setInterval(
+    () => {
+      trashService
+        .purge()
+        .catch((err) => console.error('Error purging trash', err))
+    },
+    ENV.TRASH_PURGE_INTERVAL_MINUTES * 60 * 1000,
+  )
+
+  // Thin out note revisions past their retention
+  const revisionTimer = setInterval(
+    () => {
+      noteRevisionService
+        .prune()
+        .catch((err) => console.error('Error pruning note revisions', err))
+    },
+    ENV.NOTE_REVISION_PRUNE_INTERVAL_MINUTES * 60 * 1000,
+  )
+
   const shutdown = (signal: string) => {
     console.log(`Received ${signal}. Closing server...`)
+    clearInterval(recurrenceTimer)
+    clearInterval(trashTimer)
+    clearInterval(revisionTimer)
     server.close((err) => {
       if (err) {
         console.error('Error during server shutdown', err)
@@ -0,0 +1,32 @@
+/**
+ * Auth Utility
+ *
+ * Role checks shared by the services that let admins act on every
+ * user's records.
+ */
+
+import { UserRole } from '@prisma/client'
+import prisma from '../config/db'
+
+const ADMIN_ROLES: UserRole[] = [
+  UserRole.ADMIN,
+  UserRole.MANAGER,
+  UserRole.SUPERADMIN,
+]
+
+// Whether the user is an admin, manager or superadmin
+export async function hasAdminRole(userId?: number): Promise<boolean> {
+  if (!userId) return false
+
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { role: true },
+    })
+
+    return !!user && ADMIN_ROLES.includes(user.role)
+  } catch (error) {
+    console.error('Error checking admin status:', error)
+    return false
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Billing Utility
+ *
+ * Converts a project's rate and billing cycle into money for tracked time.
+ * A project's rate is quoted per billing cycle, so it is first normalised
+ * to an hourly rate using a standard working calendar.
+ */
+
+import { Decimal } from '@prisma/client/runtime/library'
+
+/**
+ * Working hours in one billing cycle
+ */
+export const BILLING_CYCLE_HOURS: Record<string, number> = {
+  HOURLY: 1,
+  DAILY: 8,
+  WEEKLY: 40,
+  MONTHLY: 160,
+}
+
+/**
+ * Hourly rate for a project, or null when the rate or cycle cannot be
+ * converted (no rate, fixed-price or unknown cycle)
+ */
+export function getHourlyRate(
+  rate: Decimal | number | null | undefined,
+  billingCycle: string | null | undefined,
+): Decimal | null {
+  if (rate === null || rate === undefined || !billingCycle) {
+    return null
+  }
+
+  const hoursPerCycle = BILLING_CYCLE_HOURS[billingCycle.trim().toUpperCase()]
+  if (!hoursPerCycle) {
+    return null
+  }
+
+  return new Decimal(rate).dividedBy(hoursPerCycle)
+}
+
+/**
+ * Cost of the given hours in the project's currency, rounded to cents
+ */
+export function calculateCost(
+  hours: Decimal | number,
+  rate: Decimal | number | null | undefined,
+  billingCycle: string | null | undefined,
+): Decimal | null {
+  const hourlyRate = getHourlyRate(rate, billingCycle)
+  if (!hourlyRate) {
+    return null
+  }
+
+  return hourlyRate.times(hours).toDecimalPlaces(2, Decimal.ROUND_HALF_UP)
+}
+
+/**
+ * Convert whole minutes to hours rounded to two decimal places
+ */
+export function minutesToHours(minutes: number): Decimal {
+  return new Decimal(minutes)
+    .dividedBy(60)
+    .toDecimalPlaces(2, Decimal.ROUND_HALF_UP)
+}
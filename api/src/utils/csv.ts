@@ -0,0 +1,87 @@
+/**
+ * CSV Utility
+ *
+ * Reads and writes comma separated values as spreadsheets produce them:
+ * quoted fields may contain commas, line breaks and doubled quotes.
+ */
+
+export type CsvValue = string | number | boolean | Date | null | undefined
+
+// Characters that make spreadsheets treat a cell as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+/**
+ * Split CSV text into rows of fields. Blank lines are dropped; a byte
+ * order mark at the start is ignored.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  const endRow = () => {
+    row.push(field)
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row)
+    }
+    row = []
+    field = ''
+  }
+
+  const input = text.startsWith('\uFEFF') ? text.slice(1) : text
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++
+      }
+      endRow()
+    } else {
+      field += char
+    }
+  }
+
+  if (quoted) {
+    throw new Error('Unterminated quoted field')
+  }
+  endRow()
+
+  return rows
+}
+
+function formatCsvValue(value: CsvValue): string {
+  if (value === null || value === undefined) {
+    return ''
+  }
+
+  let text = value instanceof Date ? value.toISOString() : String(value)
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * One CSV line, ending in CRLF. Text that a spreadsheet would run as a
+ * formula is prefixed with an apostrophe.
+ */
+export function formatCsvRow(values: CsvValue[]): string {
+  return values.map(formatCsvValue).join(',') + '\r\n'
+}
@@ -0,0 +1,74 @@
+/**
+ * Currency Utility
+ *
+ * Converts amounts between currencies with a table of dated exchange
+ * rates. A rate applies from its effective date until the next rate for
+ * the same pair; a pair quoted the other way round is used inverted.
+ */
+
+import { Decimal } from '@prisma/client/runtime/library'
+
+export interface ExchangeRateEntry {
+  baseCurrency: string
+  quoteCurrency: string
+  rate: Decimal
+  effectiveAt: Date
+}
+
+/**
+ * Rate to multiply an amount in `from` by to get `to` on the given date,
+ * or null when the table has no rate for the pair in effect by then
+ */
+export function findEffectiveRate(
+  rates: ExchangeRateEntry[],
+  from: string,
+  to: string,
+  on: Date,
+): Decimal | null {
+  if (from === to) {
+    return new Decimal(1)
+  }
+
+  let best: { rate: Decimal; effectiveAt: Date } | null = null
+  for (const entry of rates) {
+    if (entry.effectiveAt > on) {
+      continue
+    }
+    if (best && entry.effectiveAt <= best.effectiveAt) {
+      continue
+    }
+
+    if (entry.baseCurrency === from && entry.quoteCurrency === to) {
+      best = { rate: entry.rate, effectiveAt: entry.effectiveAt }
+    } else if (
+      entry.baseCurrency === to &&
+      entry.quoteCurrency === from &&
+      !entry.rate.isZero()
+    ) {
+      best = {
+        rate: new Decimal(1).dividedBy(entry.rate),
+        effectiveAt: entry.effectiveAt,
+      }
+    }
+  }
+
+  return best?.rate ?? null
+}
+
+/**
+ * Convert an amount, rounded to cents, or null when there is no rate
+ */
+export function convertAmount(
+  rates: ExchangeRateEntry[],
+  amount: Decimal,
+  from: string,
+  to: string,
+  on: Date,
+): Decimal | null {
+  const rate = findEffectiveRate(rates, from, to, on)
+  if (!rate) {
+    return null
+  }
+
+  return amount.times(rate).toDecimalPlaces(2, Decimal.ROUND_HALF_UP)
+}
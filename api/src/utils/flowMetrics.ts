@@ -0,0 +1,163 @@
+/**
+ * Flow Metrics Utility
+ *
+ * Rebuilds the status of tasks over time from their status history, for
+ * burndown and burnup charts, and measures cycle time, lead time and
+ * throughput. A task without history is taken to have had its current
+ * status since it was created.
+ */
+
+import { TaskStatus } from '@prisma/client'
+
+export type FlowBucket = 'day' | 'week' | 'month'
+
+export interface FlowStatusChange {
+  fromStatus: TaskStatus | null
+  toStatus: TaskStatus
+  createdAt: Date
+}
+
+export interface FlowTask {
+  status: TaskStatus
+  createdAt: Date
+  deletedAt: Date | null
+  startedAt: Date | null
+  endedAt: Date | null
+  // Oldest first
+  statusTransitions: FlowStatusChange[]
+}
+
+export interface DurationStats {
+  count: number
+  averageDays: number | null
+  medianDays: number | null
+  // 85% of the measured tasks took this long or less
+  p85Days: number | null
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Start of the bucket a date falls in, in UTC. Weeks start on Monday.
+ */
+export function bucketStart(date: Date, bucket: FlowBucket): Date {
+  const day = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+  )
+
+  if (bucket === 'week') {
+    const sinceMonday = (day.getUTCDay() + 6) % 7
+    return new Date(day.getTime() - sinceMonday * DAY_MS)
+  }
+  if (bucket === 'month') {
+    return new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), 1))
+  }
+  return day
+}
+
+export function nextBucket(start: Date, bucket: FlowBucket): Date {
+  if (bucket === 'week') {
+    return new Date(start.getTime() + 7 * DAY_MS)
+  }
+  if (bucket === 'month') {
+    return new Date(
+      Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1),
+    )
+  }
+  return new Date(start.getTime() + DAY_MS)
+}
+
+/**
+ * Starts of the buckets covering from up to, but not including, until
+ */
+export function bucketStarts(
+  from: Date,
+  until: Date,
+  bucket: FlowBucket,
+): Date[] {
+  const starts: Date[] = []
+  for (
+    let start = bucketStart(from, bucket);
+    start < until;
+    start = nextBucket(start, bucket)
+  ) {
+    starts.push(start)
+  }
+  return starts
+}
+
+/**
+ * Status of a task at a moment, or null when it did not exist then
+ */
+export function statusAt(task: FlowTask, at: Date): TaskStatus | null {
+  if (task.createdAt > at || (task.deletedAt && task.deletedAt <= at)) {
+    return null
+  }
+
+  const [first] = task.statusTransitions
+  if (!first) {
+    return task.status
+  }
+
+  // History that starts after creation begins from the status left then
+  let status = first.fromStatus ?? first.toStatus
+  for (const change of task.statusTransitions) {
+    if (change.createdAt > at) {
+      break
+    }
+    status = change.toStatus
+  }
+  return status
+}
+
+/**
+ * When a task that is DONE last moved there, or null when it is not done
+ */
+export function completedAt(task: FlowTask): Date | null {
+  if (task.status !== TaskStatus.DONE) {
+    return null
+  }
+
+  const done = task.statusTransitions.filter(
+    (change) => change.toStatus === TaskStatus.DONE,
+  )
+  return done.length > 0 ? done[done.length - 1].createdAt : task.endedAt
+}
+
+/**
+ * When work on a task first began, or null when it never entered WIP
+ */
+export function workStartedAt(task: FlowTask): Date | null {
+  const wip = task.statusTransitions.find(
+    (change) => change.toStatus === TaskStatus.WIP,
+  )
+  return wip ? wip.createdAt : task.startedAt
+}
+
+function toDays(ms: number): number {
+  return Math.round((ms / DAY_MS) * 100) / 100
+}
+
+/**
+ * Average, median and 85th percentile of durations given in milliseconds
+ */
+export function durationStats(durations: number[]): DurationStats {
+  if (durations.length === 0) {
+    return { count: 0, averageDays: null, medianDays: null, p85Days: null }
+  }
+
+  const sorted = [...durations].sort((a, b) => a - b)
+  const total = sorted.reduce((sum, duration) => sum + duration, 0)
+  const middle = Math.floor(sorted.length / 2)
+  const median =
+    sorted.length % 2 === 0
+      ? (sorted[middle - 1] + sorted[middle]) / 2
+      : sorted[middle]
+
+  return {
+    count: sorted.length,
+    averageDays: toDays(total / sorted.length),
+    medianDays: toDays(median),
+    p85Days: toDays(sorted[Math.ceil(sorted.length * 0.85) - 1]),
+  }
+}
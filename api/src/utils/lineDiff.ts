@@ -0,0 +1,110 @@
+/**
+ * Line Diff Utility
+ *
+ * Compares two texts line by line and lists every line of both as
+ * unchanged, removed from the old text or added in the new one, in the
+ * order a reader would go through them.
+ */
+
+export type DiffLineType = 'unchanged' | 'added' | 'removed'
+
+export interface DiffLine {
+  type: DiffLineType
+  text: string
+  // 1-based line in the old text; null for added lines
+  oldLine: number | null
+  // 1-based line in the new text; null for removed lines
+  newLine: number | null
+}
+
+const splitLines = (text: string | null) =>
+  text === null || text === '' ? [] : text.split(/\r?\n/)
+
+export function diffLines(
+  oldText: string | null,
+  newText: string | null,
+): DiffLine[] {
+  const oldLines = splitLines(oldText)
+  const newLines = splitLines(newText)
+
+  // Only the middle that differs needs the full comparison
+  let prefix = 0
+  while (
+    prefix < oldLines.length &&
+    prefix < newLines.length &&
+    oldLines[prefix] === newLines[prefix]
+  ) {
+    prefix++
+  }
+  let suffix = 0
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] ===
+      newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix)
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix)
+  const rows = oldMiddle.length
+  const cols = newMiddle.length
+
+  // Longest common subsequence lengths of every pair of tails
+  const lcs = new Uint32Array((rows + 1) * (cols + 1))
+  const at = (i: number, j: number) => i * (cols + 1) + j
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[at(i, j)] =
+        oldMiddle[i] === newMiddle[j]
+          ? lcs[at(i + 1, j + 1)] + 1
+          : Math.max(lcs[at(i + 1, j)], lcs[at(i, j + 1)])
+    }
+  }
+
+  const lines: DiffLine[] = []
+  let oldLine = 0
+  let newLine = 0
+  const unchanged = (text: string) =>
+    lines.push({
+      type: 'unchanged',
+      text,
+      oldLine: ++oldLine,
+      newLine: ++newLine,
+    })
+
+  oldLines.slice(0, prefix).forEach(unchanged)
+
+  // Removals come before the additions that replace them
+  let i = 0
+  let j = 0
+  while (i < rows || j < cols) {
+    if (i < rows && j < cols && oldMiddle[i] === newMiddle[j]) {
+      unchanged(oldMiddle[i])
+      i++
+      j++
+    } else if (
+      j >= cols ||
+      (i < rows && lcs[at(i + 1, j)] >= lcs[at(i, j + 1)])
+    ) {
+      lines.push({
+        type: 'removed',
+        text: oldMiddle[i++],
+        oldLine: ++oldLine,
+        newLine: null,
+      })
+    } else {
+      lines.push({
+        type: 'added',
+        text: newMiddle[j++],
+        oldLine: null,
+        newLine: ++newLine,
+      })
+    }
+  }
+
+  oldLines.slice(oldLines.length - suffix).forEach(unchanged)
+
+  return lines
+}
@@ -0,0 +1,44 @@
+/**
+ * Mention Utility
+ *
+ * Finds @mentions in free text. A mention is either an email address
+ * (@jane@example.com), a single-word name (@jane) or a quoted full name
+ * (@"Jane Doe").
+ */
+
+export interface ParsedMentions {
+  emails: string[]
+  names: string[]
+}
+
+const EMAIL_MENTION = /(?:^|[^\w@])@([\w.+-]+@[\w-]+(?:\.[\w-]+)+)/g
+const QUOTED_NAME_MENTION = /(?:^|[^\w@])@"([^"\n]{1,100})"/g
+const NAME_MENTION = /(?:^|[^\w@])@([\p{L}\p{N}_-]+)(?![\w@.+-]*@)/gu
+
+function unique(values: string[]): string[] {
+  return [...new Set(values.map((value) => value.trim().toLowerCase()))].filter(
+    Boolean,
+  )
+}
+
+/**
+ * Extract mentioned emails and names, lower-cased and de-duplicated
+ */
+export function parseMentions(text: string): ParsedMentions {
+  const emails = [...text.matchAll(EMAIL_MENTION)].map((match) => match[1])
+  const withoutEmails = text.replace(EMAIL_MENTION, ' ')
+
+  const quoted = [...withoutEmails.matchAll(QUOTED_NAME_MENTION)].map(
+    (match) => match[1],
+  )
+  const withoutQuoted = withoutEmails.replace(QUOTED_NAME_MENTION, ' ')
+
+  const names = [...withoutQuoted.matchAll(NAME_MENTION)].map(
+    (match) => match[1],
+  )
+
+  return {
+    emails: unique(emails),
+    names: unique([...quoted, ...names]),
+  }
+}
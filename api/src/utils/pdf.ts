@@ -0,0 +1,145 @@
+/**
+ * PDF Utility
+ *
+ * Writes simple text documents as PDF without any external service or
+ * library: lines of text in the standard fonts every PDF reader ships
+ * with, flowed onto as many A4 pages as they need.
+ */
+
+export interface PdfCell {
+  text: string
+  // Distance from the left margin in points
+  x?: number
+  // Right-aligned cells end at x and are set in Courier, whose glyphs all
+  // have the same width, so the text width is known without font metrics
+  align?: 'left' | 'right'
+}
+
+export interface PdfLine {
+  cells: PdfCell[]
+  size?: number
+  bold?: boolean
+  // Extra space above the line in points
+  spaceBefore?: number
+}
+
+// A4 in points
+export const PDF_PAGE = {
+  width: 595,
+  height: 842,
+  margin: 50,
+}
+
+const DEFAULT_FONT_SIZE = 10
+const LINE_HEIGHT = 1.4
+const COURIER_GLYPH_WIDTH = 0.6
+
+const FONTS = {
+  F1: 'Helvetica',
+  F2: 'Helvetica-Bold',
+  F3: 'Courier',
+  F4: 'Courier-Bold',
+}
+
+/**
+ * Escape text for a PDF string literal. The standard fonts use the
+ * WinAnsi encoding, so characters outside Latin-1 become '?'.
+ */
+export function escapePdfText(text: string): string {
+  return text
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, (char) => (char === '\t' ? ' ' : '?'))
+    .replace(/[\\()]/g, (char) => `\\${char}`)
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString()
+}
+
+function renderCell(cell: PdfCell, line: PdfLine, y: number): string {
+  const size = line.size ?? DEFAULT_FONT_SIZE
+  const right = cell.align === 'right'
+  const font = right ? (line.bold ? 'F4' : 'F3') : line.bold ? 'F2' : 'F1'
+
+  let x = PDF_PAGE.margin + (cell.x ?? 0)
+  if (right) {
+    x -= cell.text.length * size * COURIER_GLYPH_WIDTH
+  }
+
+  return `BT /${font} ${size} Tf ${formatNumber(x)} ${formatNumber(y)} Td (${escapePdfText(cell.text)}) Tj ET`
+}
+
+// Lay the lines out top to bottom, starting a new page when one is full
+function paginate(lines: PdfLine[]): string[] {
+  const pages: string[][] = [[]]
+  const top = PDF_PAGE.height - PDF_PAGE.margin
+  let y = top
+
+  for (const line of lines) {
+    const height =
+      (line.size ?? DEFAULT_FONT_SIZE) * LINE_HEIGHT + (line.spaceBefore ?? 0)
+
+    if (y - height < PDF_PAGE.margin && y !== top) {
+      pages.push([])
+      y = top
+    }
+    y -= height
+
+    pages[pages.length - 1].push(
+      ...line.cells.map((cell) => renderCell(cell, line, y)),
+    )
+  }
+
+  return pages.map((page) => page.join('\n'))
+}
+
+/**
+ * Render lines of text to a PDF file
+ */
+export function renderPdf(lines: PdfLine[]): Buffer {
+  const pages = paginate(lines)
+  const fontIds = Object.keys(FONTS)
+
+  // Object numbers: catalog, page tree, fonts, then a page and its
+  // content stream for every page
+  const firstFont = 3
+  const firstPage = firstFont + fontIds.length
+  const pageIds = pages.map((_, index) => firstPage + index * 2)
+
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    ...Object.values(FONTS).map(
+      (name) =>
+        `<< /Type /Font /Subtype /Type1 /BaseFont /${name} /Encoding /WinAnsiEncoding >>`,
+    ),
+  ]
+
+  const fontResources = fontIds
+    .map((id, index) => `/${id} ${firstFont + index} 0 R`)
+    .join(' ')
+
+  pages.forEach((content, index) => {
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE.width} ${PDF_PAGE.height}] /Resources << /Font << ${fontResources} >> >> /Contents ${pageIds[index] + 1} 0 R >>`,
+      `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`,
+    )
+  })
+
+  // Every character is written as a single Latin-1 byte, so string
+  // lengths are byte offsets
+  let output = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n'
+  const offsets = objects.map((object, index) => {
+    const offset = output.length
+    output += `${index + 1} 0 obj\n${object}\nendobj\n`
+    return offset
+  })
+
+  const xref = output.length
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  output += offsets
+    .map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`)
+    .join('')
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`
+
+  return Buffer.from(output, 'latin1')
+}
@@ -0,0 +1,135 @@
+/**
+ * Project Health Utility
+ *
+ * Scores a project from 0 to 100. Each factor takes away up to its share
+ * of the weights: overdue and blocked work, budget spent ahead of
+ * progress, a lack of recent activity and a long time in one stage.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type HealthFactor = 'overdue' | 'blocked' | 'budget' | 'stale' | 'stage'
+
+export interface HealthSignals {
+  openTasks: number
+  doneTasks: number
+  // Open tasks past their due date
+  overdueTasks: number
+  // Open tasks that are BLOCKED or ON_HOLD
+  stuckTasks: number
+  // Percent of the budget used; null without a budget
+  budgetUsed: number | null
+  // Last change to the project or any of its tasks
+  lastActivityAt: Date
+  // When the project entered its current stage
+  stageSince: Date
+}
+
+export interface HealthConfig {
+  weights: Record<HealthFactor, number>
+  // Days without activity before the project counts as stale
+  staleDays: number
+  // Days in one stage before it counts against the project
+  stageDays: number
+  // Scores below this flag the project as at risk
+  atRiskBelow: number
+}
+
+export interface HealthFactorResult {
+  factor: HealthFactor
+  weight: number
+  // Points taken off the score
+  pointsLost: number
+  message: string
+}
+
+export interface HealthScore {
+  score: number
+  atRisk: boolean
+  // Largest loss first
+  factors: HealthFactorResult[]
+}
+
+export const DEFAULT_HEALTH_CONFIG: HealthConfig = {
+  weights: { overdue: 30, blocked: 20, budget: 20, stale: 15, stage: 15 },
+  staleDays: 14,
+  stageDays: 60,
+  atRiskBelow: 70,
+}
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value))
+
+// Nothing lost up to the limit, all of it at twice the limit
+const overLimit = (days: number, limit: number) =>
+  limit > 0 ? clamp((days - limit) / limit) : 0
+
+export function scoreHealth(
+  signals: HealthSignals,
+  config: HealthConfig,
+  now: Date = new Date(),
+): HealthScore {
+  const { openTasks, doneTasks } = signals
+  const allTasks = openTasks + doneTasks
+  const progress = allTasks > 0 ? doneTasks / allTasks : 0
+  const staleFor = Math.floor(
+    (now.getTime() - signals.lastActivityAt.getTime()) / DAY_MS,
+  )
+  const inStageFor = Math.floor(
+    (now.getTime() - signals.stageSince.getTime()) / DAY_MS,
+  )
+
+  const shares: Record<HealthFactor, { share: number; message: string }> = {
+    overdue: {
+      share: openTasks > 0 ? signals.overdueTasks / openTasks : 0,
+      message: `${signals.overdueTasks} of ${openTasks} open tasks are overdue`,
+    },
+    blocked: {
+      share: openTasks > 0 ? signals.stuckTasks / openTasks : 0,
+      message: `${signals.stuckTasks} of ${openTasks} open tasks are blocked or on hold`,
+    },
+    budget: {
+      share:
+        signals.budgetUsed === null
+          ? 0
+          : clamp(signals.budgetUsed / 100 - progress),
+      message:
+        signals.budgetUsed === null
+          ? 'No budget set'
+          : `${signals.budgetUsed}% of the budget used with ${Math.round(progress * 100)}% of tasks done`,
+    },
+    stale: {
+      share: overLimit(staleFor, config.staleDays),
+      message: `No updates in ${staleFor} days`,
+    },
+    stage: {
+      share: overLimit(inStageFor, config.stageDays),
+      message: `In the current stage for ${inStageFor} days`,
+    },
+  }
+
+  const totalWeight = Object.values(config.weights).reduce(
+    (sum, weight) => sum + weight,
+    0,
+  )
+  const factors = (Object.keys(shares) as HealthFactor[])
+    .map((factor) => ({
+      factor,
+      weight: config.weights[factor],
+      pointsLost:
+        totalWeight > 0
+          ? Math.round(
+              ((config.weights[factor] * shares[factor].share) / totalWeight) *
+                1000,
+            ) / 10
+          : 0,
+      message: shares[factor].message,
+    }))
+    .sort((a, b) => b.pointsLost - a.pointsLost)
+
+  const score = Math.max(
+    0,
+    Math.round(100 - factors.reduce((sum, f) => sum + f.pointsLost, 0)),
+  )
+
+  return { score, atRisk: score < config.atRiskBelow, factors }
+}
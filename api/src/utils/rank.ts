@@ -0,0 +1,70 @@
+/**
+ * Rank Utility
+ *
+ * Fractional ranks for manually ordered lists. Ranks are base-36 strings
+ * compared character by character, so a new rank can always be made
+ * between two others without renumbering the rest of the list.
+ */
+
+const DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz'
+
+/**
+ * Rank strictly between a and b, where '' sorts before every rank and a
+ * null upper bound is past every rank. Results never end in the lowest
+ * digit, which keeps room below them.
+ */
+function midpoint(a: string, b: string | null): string {
+  if (b !== null) {
+    // Keep the shared prefix and place the rest between the remainders
+    let n = 0
+    while ((a[n] ?? DIGITS[0]) === b[n]) {
+      n++
+    }
+    if (n > 0) {
+      return b.slice(0, n) + midpoint(a.slice(n), b.slice(n))
+    }
+  }
+
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length
+
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round((digitA + digitB) / 2)]
+  }
+
+  // Adjacent first digits: b's first digit alone sorts between them when
+  // b goes on, otherwise extend a
+  if (b !== null && b.length > 1) {
+    return b.slice(0, 1)
+  }
+  return DIGITS[digitA] + midpoint(a.slice(1), null)
+}
+
+function isRank(value: string): boolean {
+  return (
+    value.length > 0 &&
+    [...value].every((char) => DIGITS.includes(char)) &&
+    !value.endsWith(DIGITS[0])
+  )
+}
+
+/**
+ * Rank that sorts after `before` and before `after`. Either bound may be
+ * null for the start or end of the list.
+ */
+export function rankBetween(
+  before: string | null,
+  after: string | null,
+): string {
+  if (
+    (before !== null && !isRank(before)) ||
+    (after !== null && !isRank(after))
+  ) {
+    throw new Error('Invalid rank')
+  }
+  if (before !== null && after !== null && before >= after) {
+    throw new Error('Ranks must be in ascending order')
+  }
+
+  return midpoint(before ?? '', after)
+}
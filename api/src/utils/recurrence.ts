@@ -0,0 +1,167 @@
+/**
+ * Recurrence Utility
+ *
+ * Expands RRULE-style schedules (FREQ, INTERVAL, BYDAY, UNTIL, COUNT) into
+ * occurrence dates. Occurrences keep the time of day of the first one and
+ * are computed in UTC.
+ */
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY'
+
+export const WEEKDAYS = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'] as const
+export type Weekday = (typeof WEEKDAYS)[number]
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency
+  interval: number
+  // Only used by WEEKLY rules; empty means the weekday of startsAt
+  byWeekday: string[]
+  startsAt: Date
+  until: Date | null
+  count: number | null
+}
+
+export interface Occurrence {
+  // Zero-based position in the series
+  index: number
+  date: Date
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+// Upper bound on the dates examined in one expansion
+const MAX_ITERATIONS = 10000
+
+// Monday-based weekday number, 0 = Monday
+function weekdayIndex(date: Date): number {
+  return (date.getUTCDay() + 6) % 7
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * MS_PER_DAY)
+}
+
+/**
+ * Same day and time n months later, or null when that day does not exist
+ * in the target month (RRULE skips such months rather than clamping)
+ */
+function addMonths(date: Date, months: number): Date | null {
+  const result = new Date(date.getTime())
+  result.setUTCDate(1)
+  result.setUTCMonth(result.getUTCMonth() + months)
+
+  const lastDay = new Date(
+    Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0),
+  ).getUTCDate()
+  if (date.getUTCDate() > lastDay) {
+    return null
+  }
+
+  result.setUTCDate(date.getUTCDate())
+  return result
+}
+
+// Candidate dates in schedule order, before UNTIL and COUNT are applied
+function* candidates(rule: RecurrenceRule): Generator<Date> {
+  const { frequency, interval, startsAt } = rule
+
+  if (frequency === 'DAILY') {
+    for (let step = 0; ; step++) {
+      yield addDays(startsAt, step * interval)
+    }
+  }
+
+  if (frequency === 'MONTHLY') {
+    for (let step = 0; ; step++) {
+      const date = addMonths(startsAt, step * interval)
+      if (date) {
+        yield date
+      }
+    }
+  }
+
+  const byWeekday = [
+    ...new Set(rule.byWeekday.map((day) => WEEKDAYS.indexOf(day as Weekday))),
+  ]
+    .filter((day) => day >= 0)
+    .sort((a, b) => a - b)
+  const weekdays = byWeekday.length ? byWeekday : [weekdayIndex(startsAt)]
+  const weekStart = addDays(startsAt, -weekdayIndex(startsAt))
+
+  for (let step = 0; ; step++) {
+    const week = addDays(weekStart, step * interval * 7)
+    for (const day of weekdays) {
+      const date = addDays(week, day)
+      if (date >= startsAt) {
+        yield date
+      }
+    }
+  }
+}
+
+/**
+ * Iterate the occurrences of a rule in order, honouring UNTIL and COUNT
+ */
+export function* occurrences(rule: RecurrenceRule): Generator<Occurrence> {
+  let index = 0
+  let iterations = 0
+
+  for (const date of candidates(rule)) {
+    if (++iterations > MAX_ITERATIONS) {
+      return
+    }
+    if (rule.until && date > rule.until) {
+      return
+    }
+    if (rule.count !== null && index >= rule.count) {
+      return
+    }
+
+    yield { index, date }
+    index++
+  }
+}
+
+/**
+ * First occurrence strictly after the given date, or null when the series
+ * has ended
+ */
+export function nextOccurrence(
+  rule: RecurrenceRule,
+  after: Date,
+): Occurrence | null {
+  for (const occurrence of occurrences(rule)) {
+    if (occurrence.date > after) {
+      return occurrence
+    }
+  }
+  return null
+}
+
+/**
+ * Up to `limit` occurrences strictly after the given date
+ */
+export function occurrencesAfter(
+  rule: RecurrenceRule,
+  after: Date,
+  limit: number,
+): Occurrence[] {
+  const result: Occurrence[] = []
+  for (const occurrence of occurrences(rule)) {
+    if (result.length >= limit) {
+      break
+    }
+    if (occurrence.date > after) {
+      result.push(occurrence)
+    }
+  }
+  return result
+}
+
+/**
+ * Whether the date is one of the rule's occurrences
+ */
+export function isOccurrence(rule: RecurrenceRule, date: Date): boolean {
+  const occurrence = nextOccurrence(rule, new Date(date.getTime() - 1))
+  return occurrence?.date.getTime() === date.getTime()
+}
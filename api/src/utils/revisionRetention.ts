@@ -0,0 +1,61 @@
+/**
+ * Revision Retention Utility
+ *
+ * Decides which revisions to prune: every revision is kept for a while,
+ * then only the last one of each day, and optionally nothing past a
+ * maximum age. The newest revision of a record is always kept.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface RetentionPolicy {
+  // Days during which every revision is kept
+  keepAllDays: number
+  // Age in days after which daily snapshots go too; 0 keeps them forever
+  keepDailyDays: number
+}
+
+export interface RevisionStamp {
+  id: number
+  // The record the revision belongs to
+  recordId: number
+  createdAt: Date
+}
+
+export function revisionsToPrune(
+  revisions: RevisionStamp[],
+  policy: RetentionPolicy,
+  now: Date = new Date(),
+): number[] {
+  const byRecord = new Map<number, RevisionStamp[]>()
+  for (const revision of revisions) {
+    const history = byRecord.get(revision.recordId) ?? []
+    history.push(revision)
+    byRecord.set(revision.recordId, history)
+  }
+
+  const keepAllFrom = now.getTime() - policy.keepAllDays * DAY_MS
+  const keepDailyFrom =
+    policy.keepDailyDays > 0 ? now.getTime() - policy.keepDailyDays * DAY_MS : 0
+  const day = (date: Date) => date.toISOString().slice(0, 10)
+
+  const prune: number[] = []
+  for (const history of byRecord.values()) {
+    history.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+
+    history.forEach((revision, index) => {
+      const next = history[index + 1]
+      if (!next) return
+
+      const time = revision.createdAt.getTime()
+      if (time >= keepAllFrom) return
+
+      const lastOfDay = day(next.createdAt) !== day(revision.createdAt)
+      if (time < keepDailyFrom || !lastOfDay) {
+        prune.push(revision.id)
+      }
+    })
+  }
+
+  return prune
+}
@@ -0,0 +1,59 @@
+/**
+ * Timeline Utility
+ *
+ * Schedules tasks for a Gantt chart. A task is planned to start no earlier
+ * than it could on its own, nor before every task blocking it is planned
+ * to end.
+ */
+
+export interface ScheduledBlocker {
+  id: number
+  dueAt: Date | null
+}
+
+export interface ScheduledTask {
+  id: number
+  // Earliest the task could start without any blockers
+  earliestStart: Date
+  dueAt: Date | null
+  blockers: ScheduledBlocker[]
+}
+
+/**
+ * Planned start of each task, by task ID. A blocker is planned to end on
+ * its due date or, without one, when it is planned to start. Blockers not
+ * in the list count only with a due date.
+ */
+export function plannedStarts(tasks: ScheduledTask[]): Map<number, Date> {
+  const byId = new Map(tasks.map((task) => [task.id, task]))
+  const starts = new Map<number, Date>()
+  const visiting = new Set<number>()
+
+  const plannedEnd = (blocker: ScheduledBlocker): Date | null => {
+    if (blocker.dueAt) return blocker.dueAt
+    const task = byId.get(blocker.id)
+    return task ? startOf(task) : null
+  }
+
+  const startOf = (task: ScheduledTask): Date => {
+    const known = starts.get(task.id)
+    if (known) return known
+
+    // A dependency cycle leaves the task at its own earliest start
+    if (visiting.has(task.id)) return task.earliestStart
+    visiting.add(task.id)
+
+    let start = task.earliestStart
+    for (const blocker of task.blockers) {
+      const end = plannedEnd(blocker)
+      if (end && end > start) start = end
+    }
+
+    visiting.delete(task.id)
+    starts.set(task.id, start)
+    return start
+  }
+
+  tasks.forEach(startOf)
+  return starts
+}
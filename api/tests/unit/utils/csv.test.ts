@@ -0,0 +1,47 @@
+/**
+ * CSV Utility Tests
+ *
+ * Unit tests for reading and writing CSV rows.
+ */
+
+import { parseCsv, formatCsvRow } from '../../../src/utils/csv'
+
+describe('CSV Utility', () => {
+  it('should parse quoted fields with commas, quotes and line breaks', () => {
+    expect(
+      parseCsv('title,notes\r\n"Fix, then ship","Say ""hi""\ntwice"\n'),
+    ).toEqual([
+      ['title', 'notes'],
+      ['Fix, then ship', 'Say "hi"\ntwice'],
+    ])
+  })
+
+  it('should skip blank lines and a byte order mark', () => {
+    expect(parseCsv('\uFEFFa,b\n\n1,\n')).toEqual([
+      ['a', 'b'],
+      ['1', ''],
+    ])
+  })
+
+  it('should reject an unterminated quote', () => {
+    expect(() => parseCsv('a\n"open')).toThrow('Unterminated quoted field')
+  })
+
+  it('should format values and neutralise formulas', () => {
+    expect(
+      formatCsvRow([
+        'Plain',
+        'a,"b"',
+        '=SUM(A1)',
+        5,
+        null,
+        new Date('2026-01-02T03:04:05.000Z'),
+      ]),
+    ).toBe(`Plain,"a,""b""",'=SUM(A1),5,,2026-01-02T03:04:05.000Z\r\n`)
+  })
+
+  it('should read back what it writes', () => {
+    const values = ['multi\nline', 'quote "x"', '']
+    expect(parseCsv(formatCsvRow(['x', ...values]))).toEqual([['x', ...values]])
+  })
+})
@@ -0,0 +1,78 @@
+/**
+ * Currency Utility Tests
+ *
+ * Unit tests for converting amounts with dated exchange rates.
+ */
+
+import { Decimal } from '@prisma/client/runtime/library'
+import {
+  findEffectiveRate,
+  convertAmount,
+  ExchangeRateEntry,
+} from '../../../src/utils/currency'
+
+const rate = (
+  baseCurrency: string,
+  quoteCurrency: string,
+  value: number,
+  effectiveAt: string,
+): ExchangeRateEntry => ({
+  baseCurrency,
+  quoteCurrency,
+  rate: new Decimal(value),
+  effectiveAt: new Date(`${effectiveAt}T00:00:00.000Z`),
+})
+
+const rates = [
+  rate('USD', 'SGD', 1.3, '2026-01-01'),
+  rate('USD', 'SGD', 1.35, '2026-03-01'),
+  rate('EUR', 'USD', 1.1, '2026-01-01'),
+]
+
+describe('Currency Utility', () => {
+  it('should use the latest rate in effect on the date', () => {
+    expect(
+      findEffectiveRate(
+        rates,
+        'USD',
+        'SGD',
+        new Date('2026-02-15'),
+      )?.toNumber(),
+    ).toBe(1.3)
+    expect(
+      findEffectiveRate(
+        rates,
+        'USD',
+        'SGD',
+        new Date('2026-03-01'),
+      )?.toNumber(),
+    ).toBe(1.35)
+  })
+
+  it('should invert a pair quoted the other way round', () => {
+    expect(
+      convertAmount(
+        rates,
+        new Decimal(110),
+        'USD',
+        'EUR',
+        new Date('2026-02-01'),
+      )?.toNumber(),
+    ).toBe(100)
+  })
+
+  it('should not need a rate for the same currency', () => {
+    expect(
+      convertAmount([], new Decimal(12.5), 'SGD', 'SGD', new Date()),
+    ).toEqual(new Decimal(12.5))
+  })
+
+  it('should return null when no rate is in effect yet', () => {
+    expect(
+      findEffectiveRate(rates, 'USD', 'SGD', new Date('2025-12-31')),
+    ).toBeNull()
+    expect(
+      findEffectiveRate(rates, 'SGD', 'EUR', new Date('2026-02-01')),
+    ).toBeNull()
+  })
+})
@@ -0,0 +1,139 @@
+/**
+ * Flow Metrics Utility Tests
+ *
+ * Unit tests for rebuilding task status over time and measuring flow.
+ */
+
+import { TaskStatus } from '@prisma/client'
+import {
+  bucketStart,
+  bucketStarts,
+  statusAt,
+  completedAt,
+  workStartedAt,
+  durationStats,
+  FlowTask,
+} from '../../../src/utils/flowMetrics'
+
+const at = (date: string) => new Date(`${date}T00:00:00.000Z`)
+
+const task = (overrides: Partial<FlowTask> = {}): FlowTask => ({
+  status: TaskStatus.DONE,
+  createdAt: at('2026-03-02'),
+  deletedAt: null,
+  startedAt: null,
+  endedAt: null,
+  statusTransitions: [
+    {
+      fromStatus: null,
+      toStatus: TaskStatus.TODO,
+      createdAt: at('2026-03-02'),
+    },
+    {
+      fromStatus: TaskStatus.TODO,
+      toStatus: TaskStatus.WIP,
+      createdAt: at('2026-03-04'),
+    },
+    {
+      fromStatus: TaskStatus.WIP,
+      toStatus: TaskStatus.DONE,
+      createdAt: at('2026-03-07'),
+    },
+  ],
+  ...overrides,
+})
+
+describe('Flow Metrics Utility', () => {
+  describe('buckets', () => {
+    it('should start weeks on Monday and months on the first', () => {
+      // 2026-03-05 is a Thursday
+      expect(bucketStart(new Date('2026-03-05T15:00:00Z'), 'week')).toEqual(
+        at('2026-03-02'),
+      )
+      expect(bucketStart(new Date('2026-03-05T15:00:00Z'), 'month')).toEqual(
+        at('2026-03-01'),
+      )
+    })
+
+    it('should cover the range without the end', () => {
+      expect(bucketStarts(at('2026-03-01'), at('2026-03-04'), 'day')).toEqual([
+        at('2026-03-01'),
+        at('2026-03-02'),
+        at('2026-03-03'),
+      ])
+      expect(bucketStarts(at('2026-01-15'), at('2026-03-01'), 'month')).toEqual(
+        [at('2026-01-01'), at('2026-02-01')],
+      )
+    })
+  })
+
+  describe('statusAt', () => {
+    it('should replay the status history', () => {
+      expect(statusAt(task(), at('2026-03-01'))).toBeNull()
+      expect(statusAt(task(), at('2026-03-03'))).toBe(TaskStatus.TODO)
+      expect(statusAt(task(), at('2026-03-05'))).toBe(TaskStatus.WIP)
+      expect(statusAt(task(), at('2026-03-07'))).toBe(TaskStatus.DONE)
+    })
+
+    it('should use the current status for tasks without history', () => {
+      expect(statusAt(task({ statusTransitions: [] }), at('2026-03-03'))).toBe(
+        TaskStatus.DONE,
+      )
+    })
+
+    it('should start from the earlier status when history began later', () => {
+      const [, wip, done] = task().statusTransitions
+
+      expect(
+        statusAt(task({ statusTransitions: [wip, done] }), at('2026-03-03')),
+      ).toBe(TaskStatus.TODO)
+    })
+
+    it('should leave out deleted tasks', () => {
+      expect(
+        statusAt(task({ deletedAt: at('2026-03-05') }), at('2026-03-06')),
+      ).toBeNull()
+    })
+  })
+
+  describe('completedAt and workStartedAt', () => {
+    it('should read the history', () => {
+      expect(completedAt(task())).toEqual(at('2026-03-07'))
+      expect(workStartedAt(task())).toEqual(at('2026-03-04'))
+    })
+
+    it('should fall back to the task timestamps', () => {
+      const legacy = task({
+        statusTransitions: [],
+        startedAt: at('2026-03-03'),
+        endedAt: at('2026-03-06'),
+      })
+
+      expect(completedAt(legacy)).toEqual(at('2026-03-06'))
+      expect(workStartedAt(legacy)).toEqual(at('2026-03-03'))
+    })
+
+    it('should not count open tasks as completed', () => {
+      expect(completedAt(task({ status: TaskStatus.WIP }))).toBeNull()
+    })
+  })
+
+  describe('durationStats', () => {
+    const DAY_MS = 24 * 60 * 60 * 1000
+
+    it('should summarise durations in days', () => {
+      expect(durationStats([1, 2, 3, 10].map((days) => days * DAY_MS))).toEqual(
+        { count: 4, averageDays: 4, medianDays: 2.5, p85Days: 10 },
+      )
+    })
+
+    it('should report nothing without durations', () => {
+      expect(durationStats([])).toEqual({
+        count: 0,
+        averageDays: null,
+        medianDays: null,
+        p85Days: null,
+      })
+    })
+  })
+})
@@ -0,0 +1,61 @@
+/**
+ * Line Diff Utility Tests
+ *
+ * Unit tests for comparing two texts line by line.
+ */
+
+import { diffLines } from '../../../src/utils/lineDiff'
+
+const summary = (oldText: string | null, newText: string | null) =>
+  diffLines(oldText, newText).map(
+    (line) =>
+      `${line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}${line.text}`,
+  )
+
+describe('Line Diff Utility', () => {
+  describe('diffLines', () => {
+    it('should mark every line of identical texts unchanged', () => {
+      expect(diffLines('a\nb', 'a\nb')).toEqual([
+        { type: 'unchanged', text: 'a', oldLine: 1, newLine: 1 },
+        { type: 'unchanged', text: 'b', oldLine: 2, newLine: 2 },
+      ])
+    })
+
+    it('should list a replaced line as removed then added', () => {
+      expect(summary('a\nb\nc', 'a\nB\nc')).toEqual([' a', '-b', '+B', ' c'])
+    })
+
+    it('should number lines in both texts', () => {
+      const lines = diffLines('a\nc', 'a\nb\nc')
+
+      expect(lines[1]).toEqual({
+        type: 'added',
+        text: 'b',
+        oldLine: null,
+        newLine: 2,
+      })
+      expect(lines[2]).toEqual({
+        type: 'unchanged',
+        text: 'c',
+        oldLine: 2,
+        newLine: 3,
+      })
+    })
+
+    it('should keep the longest run of common lines', () => {
+      expect(summary('x\na\nb\ny', 'a\nb\nz')).toEqual([
+        '-x',
+        ' a',
+        ' b',
+        '-y',
+        '+z',
+      ])
+    })
+
+    it('should treat null and empty texts as having no lines', () => {
+      expect(summary(null, 'a')).toEqual(['+a'])
+      expect(summary('a\r\nb', '')).toEqual(['-a', '-b'])
+      expect(diffLines(null, null)).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,31 @@
+/**
+ * Mention Utility Tests
+ *
+ * Unit tests for extracting @mentions from comment text.
+ */
+
+import { parseMentions } from '../../../src/utils/mentions'
+
+describe('Mention Utility', () => {
+  it('should extract emails, single-word names and quoted names', () => {
+    expect(
+      parseMentions('Hi @jane, @"John Smith" and @Ops@Example.com please'),
+    ).toEqual({
+      emails: ['ops@example.com'],
+      names: ['john smith', 'jane'],
+    })
+  })
+
+  it('should ignore plain email addresses and de-duplicate mentions', () => {
+    expect(parseMentions('Mail bob@example.com or ping @Bob and @bob')).toEqual(
+      {
+        emails: [],
+        names: ['bob'],
+      },
+    )
+  })
+
+  it('should return nothing for text without mentions', () => {
+    expect(parseMentions('No mentions here')).toEqual({ emails: [], names: [] })
+  })
+})
@@ -0,0 +1,51 @@
+/**
+ * PDF Utility Tests
+ *
+ * Unit tests for writing text documents as PDF.
+ */
+
+import { renderPdf, escapePdfText } from '../../../src/utils/pdf'
+
+describe('PDF Utility', () => {
+  it('should write a well-formed document', () => {
+    const pdf = renderPdf([{ cells: [{ text: 'Invoice INV-0001' }] }])
+    const text = pdf.toString('latin1')
+
+    expect(text.startsWith('%PDF-1.4\n')).toBe(true)
+    expect(text.endsWith('%%EOF\n')).toBe(true)
+    expect(text).toContain('(Invoice INV-0001) Tj')
+
+    // The cross-reference table points at each object
+    const xrefAt = Number(text.match(/startxref\n(\d+)/)?.[1])
+    expect(text.slice(xrefAt, xrefAt + 4)).toBe('xref')
+    const offsets = [...text.matchAll(/^(\d{10}) 00000 n $/gm)].map((match) =>
+      Number(match[1]),
+    )
+    offsets.forEach((offset, index) => {
+      expect(text.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true)
+    })
+  })
+
+  it('should escape string delimiters and replace unsupported characters', () => {
+    expect(escapePdfText('Fix (a) \\ b')).toBe('Fix \\(a\\) \\\\ b')
+    expect(escapePdfText('Café ✓')).toBe('Café ?')
+  })
+
+  it('should start new pages when a page is full', () => {
+    const lines = Array.from({ length: 120 }, (_, index) => ({
+      cells: [{ text: `Line ${index}` }],
+    }))
+    const text = renderPdf(lines).toString('latin1')
+
+    expect(text).toMatch(/\/Type \/Pages \/Kids \[[^\]]+\] \/Count 3/)
+  })
+
+  it('should end right-aligned cells at their offset', () => {
+    const text = renderPdf([
+      { cells: [{ text: '12.50', x: 100, align: 'right' }], size: 10 },
+    ]).toString('latin1')
+
+    // Five Courier glyphs at 10pt are 30pt wide: 50 + 100 - 30
+    expect(text).toContain('/F3 10 Tf 120 ')
+  })
+})
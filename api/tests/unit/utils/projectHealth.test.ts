@@ -0,0 +1,103 @@
+/**
+ * Project Health Utility Tests
+ *
+ * Unit tests for scoring projects and explaining lost points.
+ */
+
+import {
+  scoreHealth,
+  DEFAULT_HEALTH_CONFIG,
+  HealthSignals,
+} from '../../../src/utils/projectHealth'
+
+const at = (date: string) => new Date(`${date}T00:00:00.000Z`)
+const now = at('2026-03-31')
+
+const signals = (overrides: Partial<HealthSignals> = {}): HealthSignals => ({
+  openTasks: 10,
+  doneTasks: 10,
+  overdueTasks: 0,
+  stuckTasks: 0,
+  budgetUsed: null,
+  lastActivityAt: at('2026-03-30'),
+  stageSince: at('2026-03-01'),
+  ...overrides,
+})
+
+describe('Project Health Utility', () => {
+  describe('scoreHealth', () => {
+    it('should score a healthy project 100', () => {
+      const health = scoreHealth(signals(), DEFAULT_HEALTH_CONFIG, now)
+
+      expect(health.score).toBe(100)
+      expect(health.atRisk).toBe(false)
+    })
+
+    it('should take off points for overdue and blocked tasks', () => {
+      const health = scoreHealth(
+        signals({ overdueTasks: 5, stuckTasks: 5 }),
+        DEFAULT_HEALTH_CONFIG,
+        now,
+      )
+
+      expect(health.score).toBe(75)
+      expect(health.factors.slice(0, 2)).toEqual([
+        expect.objectContaining({ factor: 'overdue', pointsLost: 15 }),
+        expect.objectContaining({ factor: 'blocked', pointsLost: 10 }),
+      ])
+    })
+
+    it('should only count budget spent ahead of progress', () => {
+      const onPace = scoreHealth(
+        signals({ budgetUsed: 50 }),
+        DEFAULT_HEALTH_CONFIG,
+        now,
+      )
+      const ahead = scoreHealth(
+        signals({ budgetUsed: 100 }),
+        DEFAULT_HEALTH_CONFIG,
+        now,
+      )
+
+      expect(onPace.score).toBe(100)
+      expect(ahead.factors[0]).toMatchObject({
+        factor: 'budget',
+        pointsLost: 10,
+        message: '100% of the budget used with 50% of tasks done',
+      })
+    })
+
+    it('should count stale activity and long stages past their limits', () => {
+      const health = scoreHealth(
+        signals({
+          lastActivityAt: at('2026-03-03'),
+          stageSince: at('2025-12-31'),
+        }),
+        DEFAULT_HEALTH_CONFIG,
+        now,
+      )
+
+      expect(health.factors.map((f) => [f.factor, f.pointsLost])).toEqual(
+        expect.arrayContaining([
+          ['stale', 15],
+          ['stage', 7.5],
+        ]),
+      )
+      expect(health.score).toBe(78)
+    })
+
+    it('should scale configured weights to 100 points', () => {
+      const health = scoreHealth(
+        signals({ overdueTasks: 10 }),
+        {
+          ...DEFAULT_HEALTH_CONFIG,
+          weights: { overdue: 1, blocked: 1, budget: 0, stale: 0, stage: 0 },
+        },
+        now,
+      )
+
+      expect(health.score).toBe(50)
+      expect(health.atRisk).toBe(true)
+    })
+  })
+})
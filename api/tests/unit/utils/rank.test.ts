@@ -0,0 +1,47 @@
+/**
+ * Rank Utility Tests
+ *
+ * Unit tests for fractional ranks used to order tasks manually.
+ */
+
+import { rankBetween } from '../../../src/utils/rank'
+
+describe('Rank Utility', () => {
+  it('should create a first rank and ranks around it', () => {
+    const first = rankBetween(null, null)
+    const before = rankBetween(null, first)
+    const after = rankBetween(first, null)
+
+    expect(before < first).toBe(true)
+    expect(after > first).toBe(true)
+  })
+
+  it('should keep finding ranks between close neighbours', () => {
+    let low = rankBetween(null, null)
+    const high = rankBetween(low, null)
+
+    for (let i = 0; i < 200; i++) {
+      const middle = rankBetween(low, high)
+      expect(middle > low && middle < high).toBe(true)
+      low = middle
+    }
+  })
+
+  it('should keep prepending and appending in order', () => {
+    const ranks = [rankBetween(null, null)]
+    for (let i = 0; i < 100; i++) {
+      ranks.unshift(rankBetween(null, ranks[0]))
+      ranks.push(rankBetween(ranks[ranks.length - 1], null))
+    }
+
+    expect([...ranks].sort()).toEqual(ranks)
+    expect(new Set(ranks).size).toBe(ranks.length)
+  })
+
+  it('should reject bounds that are out of order or malformed', () => {
+    expect(() => rankBetween('m', 'c')).toThrow('ascending')
+    expect(() => rankBetween('c', 'c')).toThrow('ascending')
+    expect(() => rankBetween('A', null)).toThrow('Invalid rank')
+    expect(() => rankBetween('a0', null)).toThrow('Invalid rank')
+  })
+})
@@ -0,0 +1,120 @@
+/**
+ * Recurrence Utility Tests
+ *
+ * Unit tests for expanding RRULE-style schedules into occurrence dates.
+ */
+
+import {
+  RecurrenceRule,
+  occurrences,
+  nextOccurrence,
+  occurrencesAfter,
+  isOccurrence,
+} from '../../../src/utils/recurrence'
+
+const rule = (overrides: Partial<RecurrenceRule>): RecurrenceRule => ({
+  frequency: 'DAILY',
+  interval: 1,
+  byWeekday: [],
+  startsAt: new Date('2026-01-31T09:00:00.000Z'),
+  until: null,
+  count: null,
+  ...overrides,
+})
+
+const dates = (r: RecurrenceRule, limit = 10): string[] => {
+  const result: string[] = []
+  for (const occurrence of occurrences(r)) {
+    if (result.length >= limit) break
+    result.push(occurrence.date.toISOString().slice(0, 10))
+  }
+  return result
+}
+
+describe('occurrences', () => {
+  it('should step daily rules by interval and stop at count', () => {
+    expect(dates(rule({ interval: 2, count: 3 }))).toEqual([
+      '2026-01-31',
+      '2026-02-02',
+      '2026-02-04',
+    ])
+  })
+
+  it('should skip months without the start day for monthly rules', () => {
+    expect(dates(rule({ frequency: 'MONTHLY' }), 4)).toEqual([
+      '2026-01-31',
+      '2026-03-31',
+      '2026-05-31',
+      '2026-07-31',
+    ])
+  })
+
+  it('should expand weekly rules by weekday and stop at until', () => {
+    expect(
+      dates(
+        rule({
+          frequency: 'WEEKLY',
+          interval: 2,
+          byWeekday: ['MO', 'FR'],
+          startsAt: new Date('2026-03-04T09:00:00.000Z'),
+          until: new Date('2026-04-10T00:00:00.000Z'),
+        }),
+      ),
+    ).toEqual([
+      '2026-03-06',
+      '2026-03-16',
+      '2026-03-20',
+      '2026-03-30',
+      '2026-04-03',
+    ])
+  })
+
+  it('should default weekly rules to the weekday of startsAt', () => {
+    expect(dates(rule({ frequency: 'WEEKLY' }), 3)).toEqual([
+      '2026-01-31',
+      '2026-02-07',
+      '2026-02-14',
+    ])
+  })
+
+  it('should keep the time of day of the first occurrence', () => {
+    const [first, second] = occurrencesAfter(
+      rule({}),
+      new Date('2026-01-31T00:00:00.000Z'),
+      2,
+    )
+    expect(first.date.toISOString()).toBe('2026-01-31T09:00:00.000Z')
+    expect(second.date.toISOString()).toBe('2026-02-01T09:00:00.000Z')
+  })
+})
+
+describe('nextOccurrence', () => {
+  it('should return the first occurrence after a date with its index', () => {
+    const next = nextOccurrence(
+      rule({ frequency: 'WEEKLY' }),
+      new Date('2026-01-31T09:00:00.000Z'),
+    )
+    expect(next).toEqual({
+      index: 1,
+      date: new Date('2026-02-07T09:00:00.000Z'),
+    })
+  })
+
+  it('should return null once the series has ended', () => {
+    expect(
+      nextOccurrence(rule({ count: 2 }), new Date('2026-02-01T09:00:00.000Z')),
+    ).toBeNull()
+  })
+})
+
+describe('isOccurrence', () => {
+  it('should only match dates on the schedule', () => {
+    const weekly = rule({ frequency: 'WEEKLY' })
+    expect(isOccurrence(weekly, new Date('2026-02-07T09:00:00.000Z'))).toBe(
+      true,
+    )
+    expect(isOccurrence(weekly, new Date('2026-02-08T09:00:00.000Z'))).toBe(
+      false,
+    )
+  })
+})
@@ -0,0 +1,73 @@
+/**
+ * Revision Retention Utility Tests
+ *
+ * Unit tests for choosing which revisions to prune.
+ */
+
+import {
+  revisionsToPrune,
+  RevisionStamp,
+} from '../../../src/utils/revisionRetention'
+
+const now = new Date('2026-06-30T12:00:00.000Z')
+
+const revision = (
+  id: number,
+  createdAt: string,
+  recordId = 1,
+): RevisionStamp => ({ id, recordId, createdAt: new Date(createdAt) })
+
+describe('Revision Retention Utility', () => {
+  describe('revisionsToPrune', () => {
+    const policy = { keepAllDays: 30, keepDailyDays: 0 }
+
+    it('should keep every recent revision', () => {
+      const revisions = [
+        revision(1, '2026-06-20T09:00:00Z'),
+        revision(2, '2026-06-20T10:00:00Z'),
+        revision(3, '2026-06-25T10:00:00Z'),
+      ]
+
+      expect(revisionsToPrune(revisions, policy, now)).toEqual([])
+    })
+
+    it('should keep the last revision of each day once they are older', () => {
+      const revisions = [
+        revision(1, '2026-04-01T09:00:00Z'),
+        revision(2, '2026-04-01T17:00:00Z'),
+        revision(3, '2026-04-02T09:00:00Z'),
+        revision(4, '2026-06-25T10:00:00Z'),
+      ]
+
+      expect(revisionsToPrune(revisions, policy, now)).toEqual([1])
+    })
+
+    it('should drop daily snapshots past the maximum age', () => {
+      const revisions = [
+        revision(1, '2025-01-01T09:00:00Z'),
+        revision(2, '2026-04-01T09:00:00Z'),
+        revision(3, '2026-06-25T10:00:00Z'),
+      ]
+
+      expect(
+        revisionsToPrune(
+          revisions,
+          { keepAllDays: 30, keepDailyDays: 365 },
+          now,
+        ),
+      ).toEqual([1])
+    })
+
+    it('should always keep the newest revision of each record', () => {
+      const revisions = [
+        revision(1, '2024-01-01T09:00:00Z', 1),
+        revision(2, '2024-01-01T09:00:00Z', 2),
+        revision(3, '2024-01-01T10:00:00Z', 2),
+      ]
+
+      expect(
+        revisionsToPrune(revisions, { keepAllDays: 1, keepDailyDays: 30 }, now),
+      ).toEqual([2])
+    })
+  })
+})
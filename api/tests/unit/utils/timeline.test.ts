@@ -0,0 +1,84 @@
+/**
+ * Timeline Utility Tests
+ *
+ * Unit tests for scheduling tasks after the tasks that block them.
+ */
+
+import { plannedStarts, ScheduledTask } from '../../../src/utils/timeline'
+
+const at = (date: string) => new Date(`${date}T00:00:00.000Z`)
+
+const task = (
+  id: number,
+  overrides: Partial<ScheduledTask> = {},
+): ScheduledTask => ({
+  id,
+  earliestStart: at('2026-03-02'),
+  dueAt: null,
+  blockers: [],
+  ...overrides,
+})
+
+describe('Timeline Utility', () => {
+  describe('plannedStarts', () => {
+    it('should start a task without blockers at its earliest start', () => {
+      const starts = plannedStarts([task(1)])
+
+      expect(starts.get(1)).toEqual(at('2026-03-02'))
+    })
+
+    it('should start a task once its blockers are due', () => {
+      const starts = plannedStarts([
+        task(2, {
+          blockers: [
+            { id: 1, dueAt: at('2026-03-10') },
+            { id: 3, dueAt: at('2026-03-06') },
+          ],
+        }),
+        task(1, { dueAt: at('2026-03-10') }),
+        task(3, { dueAt: at('2026-03-06') }),
+      ])
+
+      expect(starts.get(2)).toEqual(at('2026-03-10'))
+    })
+
+    it('should follow chains of blockers without due dates', () => {
+      const starts = plannedStarts([
+        task(1, { earliestStart: at('2026-03-05') }),
+        task(2, { blockers: [{ id: 1, dueAt: null }] }),
+        task(3, { blockers: [{ id: 2, dueAt: null }] }),
+      ])
+
+      expect(starts.get(3)).toEqual(at('2026-03-05'))
+    })
+
+    it('should not move a task earlier than its own earliest start', () => {
+      const starts = plannedStarts([
+        task(1, {
+          earliestStart: at('2026-03-20'),
+          blockers: [{ id: 9, dueAt: at('2026-03-10') }],
+        }),
+      ])
+
+      expect(starts.get(1)).toEqual(at('2026-03-20'))
+    })
+
+    it('should ignore blockers outside the list without a due date', () => {
+      const starts = plannedStarts([
+        task(1, { blockers: [{ id: 9, dueAt: null }] }),
+      ])
+
+      expect(starts.get(1)).toEqual(at('2026-03-02'))
+    })
+
+    it('should not loop on a dependency cycle', () => {
+      const starts = plannedStarts([
+        task(1, { blockers: [{ id: 2, dueAt: null }] }),
+        task(2, { blockers: [{ id: 1, dueAt: null }] }),
+      ])
+
+      expect(starts.get(1)).toEqual(at('2026-03-02'))
+      expect(starts.get(2)).toEqual(at('2026-03-02'))
+    })
+  })
+})
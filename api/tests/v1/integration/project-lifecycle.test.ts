@@ -246,7 +246,13 @@ describe('Project Lifecycle Integration Tests', () => {
         .send(subtaskData)
         .expect(201)
 
-      // 5. Complete subtask
+      // 5. Start and complete subtask
+      await request(app)
+        .put(`/api/v1/tasks/${subtaskResponse.body.data.id}`)
+        .set(headers)
+        .send({ status: TaskStatus.WIP })
+        .expect(200)
+
       await request(app)
         .put(`/api/v1/tasks/${subtaskResponse.body.data.id}`)
         .set(headers)
@@ -321,6 +327,12 @@ describe('Project Lifecycle Integration Tests', () => {
       const task2Id = task2Response.body.data.id
 
       // Complete tasks in order
+      await request(app)
+        .put(`/api/v1/tasks/${task1Id}`)
+        .set(headers)
+        .send({ status: TaskStatus.WIP })
+        .expect(200)
+
       await request(app)
         .put(`/api/v1/tasks/${task1Id}`)
         .set(headers)
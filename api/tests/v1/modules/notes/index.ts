@@ -23,6 +23,7 @@ export const testSuiteInfo = {
     'notes.edge-cases.test.ts',
     'notes.search.test.ts',
     'notes.management.test.ts',
+    'notes.revisions.test.ts',
   ],
   helpers: ['notes.helpers.ts'],
   coverage: {
@@ -31,6 +32,7 @@ export const testSuiteInfo = {
     edgeCases: 'Boundary testing and error scenarios',
     search: 'Search, filtering, and sorting functionality',
     management: 'Note restoration and soft delete management',
+    revisions: 'Revision history, diffs, revert and retention',
   },
 }
 
@@ -131,6 +133,22 @@ export const testDescriptions = {
     ],
   },
 
+  'notes.revisions.test.ts': {
+    purpose: 'Tests note version history',
+    coverage: [
+      'Recording a revision on every content change',
+      'Fetching and diffing revisions',
+      'Reverting to an earlier revision',
+      'Pruning old revisions to daily snapshots',
+    ],
+    keyTests: [
+      'HISTORY: Earlier content kept as the first revision',
+      'DIFF: Line-level changes between revisions',
+      'REVERT: Revert recorded as a new revision',
+      'RETENTION: Last revision of each older day kept',
+    ],
+  },
+
   'notes.helpers.ts': {
     purpose: 'Provides test utilities and helper functions',
     coverage: [
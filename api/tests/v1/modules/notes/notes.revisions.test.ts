@@ -0,0 +1,223 @@
+import request from 'supertest'
+import { createApp } from '../../../../src/app'
+import { noteRevisionService } from '../../../../src/modules/v1/notes/noteRevision.service'
+import { notesTestHelpers, prisma } from './notes.helpers'
+
+const app = createApp()
+
+describe('Note Revisions', () => {
+  let authToken: string
+  let userId: number
+  let noteUuid: string
+
+  const editNote = (data: Record<string, unknown>) =>
+    request(app)
+      .put(`/api/v1/notes/${noteUuid}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send(data)
+      .expect(200)
+
+  beforeEach(async () => {
+    await notesTestHelpers.cleanupDatabase()
+
+    const testData = await notesTestHelpers.setupTestData()
+    authToken = testData.authToken
+    userId = testData.user.id
+
+    const note = await notesTestHelpers.createTestNote(userId, {
+      title: 'Plan',
+      body: 'one\ntwo\nthree',
+    })
+    noteUuid = note.uuid
+  })
+
+  afterAll(async () => {
+    await notesTestHelpers.cleanupDatabase()
+    await notesTestHelpers.disconnectDatabase()
+  })
+
+  describe('GET /api/v1/notes/:uuid/revisions', () => {
+    it('should record the earlier content and the edit', async () => {
+      await editNote({ body: 'one\n2\nthree' })
+
+      const response = await request(app)
+        .get(`/api/v1/notes/${noteUuid}/revisions`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(response.body.data).toEqual([
+        expect.objectContaining({
+          version: 2,
+          changedFields: ['body'],
+          user: expect.objectContaining({ id: userId }),
+        }),
+        expect.objectContaining({ version: 1, changedFields: [] }),
+      ])
+    })
+
+    it('should not record edits that leave the content alone', async () => {
+      await editNote({ status: 'PUBLISHED', title: 'Plan' })
+
+      const count = await prisma.noteRevision.count()
+      expect(count).toBe(0)
+    })
+
+    it('should number concurrent edits one after the other', async () => {
+      await Promise.all([
+        editNote({ title: 'Plan A' }),
+        editNote({ body: 'rewritten' }),
+      ])
+
+      const revisions = await prisma.noteRevision.findMany({
+        orderBy: { version: 'asc' },
+      })
+      expect(revisions.map((revision) => revision.version)).toEqual([1, 2, 3])
+    })
+
+    it('should compare concurrent edits against the latest content', async () => {
+      await Promise.all([
+        editNote({ title: 'Plan A' }),
+        editNote({ title: 'Plan A' }),
+      ])
+
+      const revisions = await prisma.noteRevision.findMany({
+        orderBy: { version: 'asc' },
+      })
+      expect(revisions.map((revision) => revision.version)).toEqual([1, 2])
+    })
+
+    it("should not show revisions of other users' private notes", async () => {
+      const other = await notesTestHelpers.createTestUser()
+      const otherToken = notesTestHelpers.generateMockAuthToken({
+        uuid: other.uuid,
+        email: other.email,
+        role: other.role,
+      })
+
+      await request(app)
+        .get(`/api/v1/notes/${noteUuid}/revisions`)
+        .set('Authorization', `Bearer ${otherToken}`)
+        .expect(404)
+    })
+  })
+
+  describe('GET /api/v1/notes/:uuid/revisions/:version', () => {
+    it('should return the content of a revision', async () => {
+      await editNote({ title: 'Plan v2' })
+
+      const response = await request(app)
+        .get(`/api/v1/notes/${noteUuid}/revisions/1`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(response.body.data).toMatchObject({
+        version: 1,
+        title: 'Plan',
+        body: 'one\ntwo\nthree',
+      })
+    })
+
+    it('should return 404 for an unknown version', async () => {
+      await request(app)
+        .get(`/api/v1/notes/${noteUuid}/revisions/9`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(404)
+    })
+  })
+
+  describe('GET /api/v1/notes/:uuid/revisions/diff', () => {
+    it('should diff a revision against the latest line by line', async () => {
+      await editNote({ body: 'one\n2\nthree' })
+      await editNote({ title: 'Plan v2' })
+
+      const response = await request(app)
+        .get(`/api/v1/notes/${noteUuid}/revisions/diff?from=1`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(response.body.data.from).toBe(1)
+      expect(response.body.data.to).toBe(3)
+      const body = response.body.data.fields.find(
+        (field: { field: string }) => field.field === 'body',
+      )
+      expect(body.changed).toBe(true)
+      expect(
+        body.lines.map((line: { type: string; text: string }) => [
+          line.type,
+          line.text,
+        ]),
+      ).toEqual([
+        ['unchanged', 'one'],
+        ['removed', 'two'],
+        ['added', '2'],
+        ['unchanged', 'three'],
+      ])
+    })
+
+    it('should require the revision to compare from', async () => {
+      await request(app)
+        .get(`/api/v1/notes/${noteUuid}/revisions/diff`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(400)
+    })
+  })
+
+  describe('POST /api/v1/notes/:uuid/revisions/:version/revert', () => {
+    it('should restore a revision as a new revision', async () => {
+      await editNote({ title: 'Plan v2', body: 'rewritten' })
+
+      const response = await request(app)
+        .post(`/api/v1/notes/${noteUuid}/revisions/1/revert`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(response.body.message).toBe('Note reverted successfully')
+      expect(response.body.data).toMatchObject({
+        title: 'Plan',
+        body: 'one\ntwo\nthree',
+      })
+
+      const latest = await prisma.noteRevision.findFirst({
+        orderBy: { version: 'desc' },
+      })
+      expect(latest).toMatchObject({
+        version: 3,
+        revertedFromVersion: 1,
+        changedFields: ['title', 'body'],
+      })
+    })
+  })
+
+  describe('Retention', () => {
+    it('should keep only the last revision of each older day', async () => {
+      const note = await prisma.note.findFirstOrThrow({
+        where: { uuid: noteUuid },
+      })
+      // Same-day revisions sit at fixed UTC hours of that day
+      const daysAgo = (days: number, hour: number) => {
+        const date = new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+        date.setUTCHours(hour, 0, 0, 0)
+        return date
+      }
+      await prisma.noteRevision.createMany({
+        data: [1, 2, 3].map((version) => ({
+          noteId: note.id,
+          version,
+          userId,
+          title: `Plan ${version}`,
+          changedFields: ['title'],
+          createdAt: daysAgo(version === 3 ? 1 : 90, version),
+        })),
+      })
+
+      const pruned = await noteRevisionService.prune()
+
+      expect(pruned).toBe(1)
+      const versions = await prisma.noteRevision.findMany({
+        where: { noteId: note.id },
+        orderBy: { version: 'asc' },
+      })
+      expect(versions.map((revision) => revision.version)).toEqual([2, 3])
+    })
+  })
+})
@@ -23,6 +23,17 @@ export const testSuiteInfo = {
     'projects.management.test.ts',
     'projects.analytics.test.ts',
     'projects.admin.test.ts',
+    'projects.stages.test.ts',
+    'projects.invoices.test.ts',
+    'projects.currency.test.ts',
+    'projects.templates.test.ts',
+    'projects.milestones.test.ts',
+    'projects.flow.test.ts',
+    'projects.trash.test.ts',
+    'projects.budget.test.ts',
+    'projects.timeline.test.ts',
+    'projects.health.test.ts',
+    'projects.bundle.test.ts',
   ],
   helpers: ['projects.helpers.ts'],
   coverage: {
@@ -31,6 +42,17 @@ export const testSuiteInfo = {
     management: 'Project lifecycle and status management',
     analytics: 'Advanced analytics and reporting',
     admin: 'Administrative operations and oversight',
+    stages: 'Stage history, gates and approvals',
+    invoices: 'Invoice generation, numbering and rendering',
+    currency: 'Exchange rates and multi-currency financial reports',
+    templates: 'Project templates and deep cloning',
+    milestones: 'Milestones, progress and risk flags',
+    flow: 'Burndown, cycle time and throughput analytics',
+    trash: 'Trash listing, restore and purge',
+    budget: 'Project budgets, burn forecast and threshold alerts',
+    timeline: 'Dependency-aware Gantt timelines per project and portfolio',
+    health: 'Health scores, explanations and at-risk filtering',
+    bundle: 'Versioned bundle export and import with id remapping',
   },
 }
 
@@ -124,6 +146,181 @@ export const testDescriptions = {
     ],
   },
 
+  'projects.stages.test.ts': {
+    purpose: 'Tests stage history and gated stage changes',
+    coverage: [
+      'Stage transition history',
+      'Time spent in each stage',
+      'Task status gates',
+      'Approval gates',
+    ],
+    keyTests: [
+      'HISTORY: Who changed the stage, when and why',
+      'GATES: Blocking stage changes until gates are met',
+      'APPROVALS: Approvals used up by the stage change',
+    ],
+  },
+
+  'projects.invoices.test.ts': {
+    purpose: 'Tests invoicing billable project work',
+    coverage: [
+      'Invoices from DONE tasks and time entries',
+      'Tax, subtotal and per-user numbering',
+      'Draft, sent and paid states',
+      'HTML and PDF rendering',
+    ],
+    keyTests: [
+      'GENERATE: Line items from billable work',
+      'BILLED: Work is never invoiced twice',
+      'STATUS: Invoice state transitions',
+      'RENDER: HTML and PDF documents',
+    ],
+  },
+
+  'projects.currency.test.ts': {
+    purpose: 'Tests exchange rates and converted financial reports',
+    coverage: [
+      'Admin-managed exchange rates',
+      'CSV import of dated rates',
+      'Revenue and cost in a reporting currency',
+      'Amounts without a rate',
+    ],
+    keyTests: [
+      'RATES: Only admins manage rates, one per pair and day',
+      'IMPORT: Row-by-row results and dry runs',
+      'CONVERT: Rate in effect on each task date',
+      'MISSING: Unconverted amounts are flagged',
+    ],
+  },
+
+  'projects.templates.test.ts': {
+    purpose: 'Tests project templates and cloning live projects',
+    coverage: [
+      'Saving a project as a template',
+      'Projects from templates',
+      'Deep clones with subtasks, checklists and notes',
+      'Due dates shifted to a new start date',
+    ],
+    keyTests: [
+      'SAVE: Tasks, notes and billing defaults',
+      'INSTANTIATE: Tasks due relative to the start date',
+      'CLONE: Subtask structure and shifted dates',
+      'PRIVACY: Other users draft notes are not copied',
+    ],
+  },
+
+  'projects.milestones.test.ts': {
+    purpose: 'Tests project milestones and the tasks linked to them',
+    coverage: [
+      'Milestone CRUD within a project',
+      'Progress from linked task statuses',
+      'Late and at-risk flags',
+      'Linking tasks to milestones',
+    ],
+    keyTests: [
+      'PROGRESS: Share of linked tasks done',
+      'RISK: Late, near target and stalled milestones',
+      'LINK: Tasks join a milestone of their own project only',
+      'SECURITY: Viewers cannot manage milestones',
+    ],
+  },
+
+  'projects.flow.test.ts': {
+    purpose: 'Tests time-series analytics built from task status history',
+    coverage: [
+      'Burndown and burnup counts per bucket',
+      'Cycle time and lead time statistics',
+      'Weekly throughput',
+      'Recording status transitions',
+    ],
+    keyTests: [
+      'BURNDOWN: Open and done counts replayed from history',
+      'FLOW: Cycle time, lead time and throughput',
+      'VALIDATION: Bucket size and range limits',
+      'SECURITY: Other users projects are not visible',
+    ],
+  },
+
+  'projects.trash.test.ts': {
+    purpose: 'Tests the trash bin for projects, tasks and notes',
+    coverage: [
+      'Listing deleted projects, tasks and notes',
+      'Restoring projects with the tasks deleted along with them',
+      'Restoring tasks with their subtasks',
+      'Purging items past the retention period',
+    ],
+    keyTests: [
+      'LIST: Own deleted items with their purge date',
+      'RESTORE: Cascade to tasks deleted with the project',
+      'CONFLICT: Tasks wait for their project to be restored',
+      'PURGE: Admin only, older items removed for good',
+    ],
+  },
+
+  'projects.budget.test.ts': {
+    purpose: 'Tests project budgets in money or hours',
+    coverage: [
+      'Setting and removing a budget',
+      'Consumption from task cost and tracked time',
+      'Burn rate and exhaustion forecast',
+      'Threshold alerts and notifications',
+    ],
+    keyTests: [
+      'SET: Owners only, default thresholds',
+      'STATUS: Consumed, remaining and forecast',
+      'ALERTS: Raised once per threshold',
+      'RESET: Raising the budget re-arms thresholds',
+    ],
+  },
+
+  'projects.timeline.test.ts': {
+    purpose: 'Tests Gantt timelines for a project and the portfolio',
+    coverage: [
+      'Planned dates following task dependencies',
+      'Actual dates with open tasks running to today',
+      'Grouping by status, stage or assignee',
+      'Milestones on the timeline',
+    ],
+    keyTests: [
+      'PLANNED: Tasks start once their blockers are due',
+      'ACTUAL: Open tasks marked with today',
+      'PORTFOLIO: Only visible projects, grouped by stage',
+      'VALIDATION: Unknown grouping rejected',
+    ],
+  },
+
+  'projects.health.test.ts': {
+    purpose: 'Tests project health scores and at-risk detection',
+    coverage: [
+      'Scoring from overdue and blocked tasks',
+      'Explaining the factors that lowered a score',
+      'Weights configured through system settings',
+      'Sorting and filtering the project list by health',
+    ],
+    keyTests: [
+      'SCORE: Healthy projects score 100',
+      'FACTORS: Points lost per factor, largest first',
+      'SETTINGS: Weights read from system settings',
+      'LIST: Sorted and filtered by health',
+    ],
+  },
+
+  'projects.bundle.test.ts': {
+    purpose: 'Tests exporting and importing projects as bundles',
+    coverage: [
+      'Exporting tasks, notes, tags, comments and time entries',
+      'Importing with new ids and UUIDs',
+      'Reattaching users by email and reporting conflicts',
+      'Accepting older and rejecting newer bundle versions',
+    ],
+    keyTests: [
+      'EXPORT: Owners download a versioned bundle',
+      'IMPORT: References remapped to the new records',
+      'CONFLICTS: Unknown users, existing projects and tags',
+      'VERSION: Newer bundles rejected',
+    ],
+  },
+
   'projects.helpers.ts': {
     purpose: 'Provides test utilities and helper functions',
     coverage: [
@@ -0,0 +1,223 @@
+import request from 'supertest'
+import createApp from '../../../../src/app'
+import { projectBudgetService } from '../../../../src/modules/v1/projects/projectBudget.service'
+import { projectsTestHelpers, prisma } from './projects.helpers'
+
+const app = createApp()
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+describe('Project Budgets', () => {
+  let authToken: string
+  let userId: number
+  let projectId: number
+
+  const setBudget = (body: object) =>
+    request(app)
+      .put(`/api/v1/projects/${projectId}/budget`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send(body)
+
+  const updateTask = (id: number, body: object) =>
+    request(app)
+      .put(`/api/v1/tasks/${id}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send(body)
+      .expect(200)
+
+  beforeEach(async () => {
+    await projectsTestHelpers.cleanupDatabase()
+
+    const testData = await projectsTestHelpers.setupTestData()
+    authToken = testData.authToken
+    userId = testData.user.id
+    projectId = testData.project.id
+
+    await prisma.project.update({
+      where: { id: projectId },
+      data: { beganAt: new Date(Date.now() - 10 * DAY_MS) },
+    })
+  })
+
+  afterAll(async () => {
+    await projectsTestHelpers.cleanupDatabase()
+    await projectsTestHelpers.disconnectDatabase()
+  })
+
+  describe('PUT /api/v1/projects/:id/budget', () => {
+    it('should create an hours budget with default thresholds', async () => {
+      const response = await setBudget({ type: 'HOURS', amount: 100 }).expect(
+        200,
+      )
+
+      expect(response.body.data).toMatchObject({
+        type: 'HOURS',
+        amount: '100',
+        thresholds: [50, 80, 100],
+        unit: 'hours',
+        consumed: '0',
+        percentUsed: 0,
+        alerts: [],
+      })
+    })
+
+    it('should reject a budget that is not positive', async () => {
+      await setBudget({ type: 'MONEY', amount: 0 }).expect(400)
+    })
+
+    it('should only let project owners set the budget', async () => {
+      const other = await projectsTestHelpers.createTestUser()
+      await prisma.projectMember.create({
+        data: { projectId, userId: other.id, role: 'EDITOR' },
+      })
+      const otherToken = projectsTestHelpers.generateMockAuthToken({
+        uuid: other.uuid,
+        email: other.email,
+        role: other.role,
+      })
+
+      await request(app)
+        .put(`/api/v1/projects/${projectId}/budget`)
+        .set('Authorization', `Bearer ${otherToken}`)
+        .send({ type: 'HOURS', amount: 100 })
+        .expect(403)
+    })
+  })
+
+  describe('GET /api/v1/projects/:id/budget', () => {
+    it('should report burn and a forecast from task cost', async () => {
+      await projectsTestHelpers.createTestTask(projectId, userId, {
+        costInProjectCurrency: 200,
+      })
+      await setBudget({ type: 'MONEY', amount: 1000 }).expect(200)
+
+      const response = await request(app)
+        .get(`/api/v1/projects/${projectId}/budget`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(response.body.data).toMatchObject({
+        unit: 'SGD',
+        consumed: '200',
+        remaining: '800',
+        percentUsed: 20,
+        forecast: { dailyBurn: '20', daysRemaining: 40 },
+      })
+      expect(response.body.data.forecast.exhaustedAt).toEqual(
+        expect.any(String),
+      )
+    })
+
+    it('should return 404 when the project has no budget', async () => {
+      await request(app)
+        .get(`/api/v1/projects/${projectId}/budget`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(404)
+    })
+  })
+
+  describe('Threshold alerts', () => {
+    it('should alert once per threshold crossed', async () => {
+      const task = await projectsTestHelpers.createTestTask(projectId, userId)
+      await setBudget({ type: 'HOURS', amount: 10 }).expect(200)
+
+      await updateTask(task.id, { timeSpent: 6 })
+      await updateTask(task.id, { timeSpent: 7 })
+      await updateTask(task.id, { timeSpent: 9 })
+
+      const alerts = await prisma.projectBudgetAlert.findMany({
+        orderBy: { threshold: 'asc' },
+      })
+      expect(alerts.map((alert) => alert.threshold)).toEqual([50, 80])
+
+      const notifications = await prisma.notification.findMany({
+        where: { userId, type: 'BUDGET_THRESHOLD' },
+      })
+      expect(notifications).toHaveLength(2)
+    })
+
+    it('should raise a threshold again after the budget is raised', async () => {
+      const task = await projectsTestHelpers.createTestTask(projectId, userId, {
+        timeSpent: 6,
+      })
+      await setBudget({ type: 'HOURS', amount: 10 }).expect(200)
+      expect(await prisma.projectBudgetAlert.count()).toBe(1)
+
+      await setBudget({ type: 'HOURS', amount: 20 }).expect(200)
+      expect(await prisma.projectBudgetAlert.count()).toBe(0)
+
+      await updateTask(task.id, { timeSpent: 11 })
+      expect(await prisma.projectBudgetAlert.count()).toBe(1)
+    })
+
+    it('should alert on time imported with tasks', async () => {
+      await setBudget({ type: 'HOURS', amount: 10 }).expect(200)
+
+      await request(app)
+        .post(`/api/v1/projects/${projectId}/tasks/import`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ csv: 'title,timeSpent\nImported,6' })
+        .expect(200)
+
+      const alerts = await prisma.projectBudgetAlert.findMany()
+      expect(alerts.map((alert) => alert.threshold)).toEqual([50])
+    })
+
+    it('should alert on time brought in by a bulk move', async () => {
+      const other = await projectsTestHelpers.createTestProject(userId, {
+        title: 'Other Project',
+      })
+      const task = await projectsTestHelpers.createTestTask(other.id, userId, {
+        timeSpent: 6,
+      })
+      await setBudget({ type: 'HOURS', amount: 10 }).expect(200)
+
+      await request(app)
+        .post('/api/v1/tasks/bulk')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ taskIds: [task.id], operation: { type: 'move', projectId } })
+        .expect(200)
+
+      const alerts = await prisma.projectBudgetAlert.findMany()
+      expect(alerts.map((alert) => alert.threshold)).toEqual([50])
+    })
+
+    it('should save the task when the threshold check fails', async () => {
+      const task = await projectsTestHelpers.createTestTask(projectId, userId)
+      await setBudget({ type: 'HOURS', amount: 10 }).expect(200)
+      const check = jest
+        .spyOn(projectBudgetService, 'checkThresholds')
+        .mockRejectedValueOnce(new Error('Notification service down'))
+      const log = jest.spyOn(console, 'error').mockImplementation(() => {})
+
+      try {
+        await updateTask(task.id, { timeSpent: 6 })
+      } finally {
+        check.mockRestore()
+        log.mockRestore()
+      }
+
+      const saved = await prisma.task.findUniqueOrThrow({
+        where: { id: task.id },
+      })
+      expect(saved.timeSpent?.toString()).toBe('6')
+    })
+  })
+
+  describe('DELETE /api/v1/projects/:id/budget', () => {
+    it('should remove the budget and its alerts', async () => {
+      await projectsTestHelpers.createTestTask(projectId, userId, {
+        timeSpent: 6,
+      })
+      await setBudget({ type: 'HOURS', amount: 10 }).expect(200)
+
+      await request(app)
+        .delete(`/api/v1/projects/${projectId}/budget`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(await prisma.projectBudget.count()).toBe(0)
+      expect(await prisma.projectBudgetAlert.count()).toBe(0)
+    })
+  })
+})
@@ -0,0 +1,359 @@
+import request from 'supertest'
+import { ProjectRole, TaskStatus } from '@prisma/client'
+import createApp from '../../../../src/app'
+import { projectsTestHelpers, prisma } from './projects.helpers'
+
+const app = createApp()
+
+describe('Project Bundles', () => {
+  let authToken: string
+  let userId: number
+  let userEmail: string
+  let projectId: number
+  let otherToken: string
+  let otherUserId: number
+
+  const exportBundle = async () =>
+    (
+      await request(app)
+        .get(`/api/v1/projects/${projectId}/bundle`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+    ).body
+
+  beforeEach(async () => {
+    await projectsTestHelpers.cleanupDatabase()
+
+    const testData = await projectsTestHelpers.setupTestData()
+    authToken = testData.authToken
+    userId = testData.user.id
+    userEmail = testData.user.email
+    projectId = testData.project.id
+
+    const other = await projectsTestHelpers.createTestUser()
+    otherUserId = other.id
+    otherToken = projectsTestHelpers.generateMockAuthToken({
+      uuid: other.uuid,
+      email: other.email,
+      role: other.role,
+    })
+
+    // A parent with a subtask blocked by a second task, plus a tag,
+    // a comment thread, a time entry and a note
+    const tag = await prisma.tag.create({
+      data: { userId, name: 'backend', color: '#336699' },
+    })
+    const parent = await projectsTestHelpers.createTestTask(projectId, userId, {
+      uuid: 'bundle-parent',
+      title: 'Parent',
+      status: TaskStatus.WIP,
+    })
+    const blocker = await projectsTestHelpers.createTestTask(
+      projectId,
+      userId,
+      { uuid: 'bundle-blocker', title: 'Blocker' },
+    )
+    const subtask = await prisma.task.create({
+      data: {
+        uuid: 'bundle-subtask',
+        projectId,
+        parentTaskId: parent.id,
+        title: 'Subtask',
+        userId,
+        tags: { connect: { id: tag.id } },
+      },
+    })
+    await prisma.taskDependency.create({
+      data: { blockerTaskId: blocker.id, blockedTaskId: subtask.id },
+    })
+    const comment = await prisma.taskComment.create({
+      data: { taskId: parent.id, userId, body: 'First' },
+    })
+    await prisma.taskComment.create({
+      data: {
+        taskId: parent.id,
+        userId,
+        parentCommentId: comment.id,
+        body: 'Reply',
+      },
+    })
+    await prisma.timeEntry.create({
+      data: {
+        taskId: parent.id,
+        userId,
+        startedAt: new Date('2026-03-02T09:00:00Z'),
+        endedAt: new Date('2026-03-02T10:30:00Z'),
+        durationMinutes: 90,
+      },
+    })
+    await projectsTestHelpers.createTestNote(userId, projectId, {
+      uuid: 'bundle-note',
+      title: 'Kickoff',
+    })
+  })
+
+  afterAll(async () => {
+    await projectsTestHelpers.cleanupDatabase()
+    await projectsTestHelpers.disconnectDatabase()
+  })
+
+  describe('GET /api/v1/projects/:id/bundle', () => {
+    it('should export the project as a versioned bundle', async () => {
+      const response = await request(app)
+        .get(`/api/v1/projects/${projectId}/bundle`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(response.headers['content-disposition']).toContain(
+        `project-${projectId}-`,
+      )
+      const bundle = response.body
+      expect(bundle).toMatchObject({ format: 'project-bundle', version: 1 })
+      expect(bundle.project.owner).toBe(userEmail)
+      expect(bundle.tasks).toHaveLength(3)
+      expect(bundle.dependencies).toHaveLength(1)
+      expect(bundle.tags).toEqual([
+        expect.objectContaining({ name: 'backend', color: '#336699' }),
+      ])
+      expect(bundle.notes).toHaveLength(1)
+      expect(bundle.comments).toHaveLength(2)
+      expect(bundle.timeEntries).toEqual([
+        expect.objectContaining({ user: userEmail, durationMinutes: 90 }),
+      ])
+    })
+
+    it('should only let project owners export', async () => {
+      await prisma.projectMember.create({
+        data: { projectId, userId: otherUserId, role: ProjectRole.EDITOR },
+      })
+
+      await request(app)
+        .get(`/api/v1/projects/${projectId}/bundle`)
+        .set('Authorization', `Bearer ${otherToken}`)
+        .expect(403)
+    })
+  })
+
+  describe('POST /api/v1/projects/bundle', () => {
+    it('should import a bundle as a new project with new ids', async () => {
+      const bundle = await exportBundle()
+
+      const response = await request(app)
+        .post('/api/v1/projects/bundle')
+        .set('Authorization', `Bearer ${otherToken}`)
+        .send(bundle)
+        .expect(201)
+
+      const { project, imported, conflicts } = response.body.data
+      expect(project.id).not.toBe(projectId)
+      expect(project.uuid).not.toBe(bundle.project.uuid)
+      expect(imported).toMatchObject({
+        tasks: 3,
+        notes: 1,
+        comments: 2,
+        timeEntries: 1,
+        tags: 1,
+      })
+      expect(conflicts).toEqual([
+        expect.objectContaining({
+          type: 'project',
+          reference: bundle.project.uuid,
+        }),
+        expect.objectContaining({ type: 'member', reference: userEmail }),
+      ])
+
+      // The importer owns it; the original owner is not on the importer's
+      // projects, so gets no role in it
+      const created = await prisma.project.findUniqueOrThrow({
+        where: { id: project.id },
+        include: { members: true },
+      })
+      expect(created.userId).toBe(otherUserId)
+      expect(created.members).toEqual([])
+
+      // Subtasks and dependencies point at the new tasks
+      const subtask = await prisma.task.findFirstOrThrow({
+        where: { projectId: project.id, title: 'Subtask' },
+        include: { parentTask: true, blockedBy: true, tags: true },
+      })
+      expect(subtask.uuid).not.toBe('bundle-subtask')
+      expect(subtask.parentTask?.projectId).toBe(project.id)
+      expect(subtask.userId).toBe(userId)
+      expect(subtask.blockedBy).toHaveLength(1)
+      expect(subtask.tags).toEqual([
+        expect.objectContaining({ name: 'backend', userId: otherUserId }),
+      ])
+
+      const replies = await prisma.taskComment.findMany({
+        where: {
+          task: { projectId: project.id },
+          parentCommentId: { not: null },
+        },
+      })
+      expect(replies).toHaveLength(1)
+    })
+
+    it('should keep the roles of members on the importer projects', async () => {
+      const otherProject = await projectsTestHelpers.createTestProject(
+        otherUserId,
+        { title: 'Importer Project' },
+      )
+      await prisma.projectMember.create({
+        data: {
+          projectId: otherProject.id,
+          userId,
+          role: ProjectRole.VIEWER,
+        },
+      })
+      const bundle = await exportBundle()
+
+      const response = await request(app)
+        .post('/api/v1/projects/bundle')
+        .set('Authorization', `Bearer ${otherToken}`)
+        .send(bundle)
+        .expect(201)
+
+      expect(response.body.data.imported.members).toBe(1)
+      const members = await prisma.projectMember.findMany({
+        where: { projectId: response.body.data.project.id },
+      })
+      expect(members).toEqual([
+        expect.objectContaining({ userId, role: ProjectRole.OWNER }),
+      ])
+    })
+
+    it('should import tasks the way they are created', async () => {
+      const bundle = await exportBundle()
+      bundle.tasks[1].title = bundle.tasks[0].title
+
+      const response = await request(app)
+        .post('/api/v1/projects/bundle')
+        .set('Authorization', `Bearer ${otherToken}`)
+        .send(bundle)
+        .expect(201)
+
+      const tasks = await prisma.task.findMany({
+        where: { projectId: response.body.data.project.id },
+        include: { statusTransitions: true, assignments: true },
+        orderBy: { id: 'asc' },
+      })
+      expect(tasks.map((task) => task.title).sort()).toEqual([
+        bundle.tasks[0].title,
+        `${bundle.tasks[0].title} (2)`,
+        'Subtask',
+      ])
+      for (const task of tasks) {
+        expect(task.statusTransitions).toEqual([
+          expect.objectContaining({ fromStatus: null, toStatus: task.status }),
+        ])
+        expect(task.assignments).toEqual([
+          expect.objectContaining({ fromUserId: null, toUserId: task.userId }),
+        ])
+      }
+    })
+
+    it('should reject task priorities outside the task range', async () => {
+      const bundle = await exportBundle()
+      bundle.tasks[0].priority = 11
+
+      await request(app)
+        .post('/api/v1/projects/bundle')
+        .set('Authorization', `Bearer ${otherToken}`)
+        .send(bundle)
+        .expect(400)
+    })
+
+    it('should reattach records of unknown users to the importer', async () => {
+      const bundle = await exportBundle()
+      const missing = 'former-colleague@example.com'
+      bundle.project.owner = missing
+      bundle.timeEntries[0].user = missing
+      bundle.notes[0].author = missing
+
+      const response = await request(app)
+        .post('/api/v1/projects/bundle')
+        .set('Authorization', `Bearer ${otherToken}`)
+        .send(bundle)
+        .expect(201)
+
+      const userConflicts = response.body.data.conflicts.filter(
+        (conflict: { type: string }) => conflict.type === 'user',
+      )
+      expect(userConflicts).toEqual([
+        expect.objectContaining({ reference: missing }),
+      ])
+
+      const newProjectId = response.body.data.project.id
+      const entry = await prisma.timeEntry.findFirstOrThrow({
+        where: { task: { projectId: newProjectId } },
+      })
+      expect(entry.userId).toBe(otherUserId)
+      const note = await prisma.note.findFirstOrThrow({
+        where: { projectId: newProjectId },
+      })
+      expect(note.userId).toBe(otherUserId)
+    })
+
+    it('should merge tags into existing tags of the same name', async () => {
+      const existing = await prisma.tag.create({
+        data: { userId: otherUserId, name: 'backend' },
+      })
+      const bundle = await exportBundle()
+
+      const response = await request(app)
+        .post('/api/v1/projects/bundle')
+        .set('Authorization', `Bearer ${otherToken}`)
+        .send(bundle)
+        .expect(201)
+
+      expect(response.body.data.conflicts).toContainEqual(
+        expect.objectContaining({ type: 'tag', reference: 'backend' }),
+      )
+      const subtask = await prisma.task.findFirstOrThrow({
+        where: { projectId: response.body.data.project.id, title: 'Subtask' },
+        include: { tags: true },
+      })
+      expect(subtask.tags.map((tag) => tag.id)).toEqual([existing.id])
+    })
+
+    it('should import bundles without the optional sections', async () => {
+      const bundle = await exportBundle()
+
+      const response = await request(app)
+        .post('/api/v1/projects/bundle')
+        .set('Authorization', `Bearer ${otherToken}`)
+        .send({
+          format: bundle.format,
+          version: 1,
+          exportedAt: bundle.exportedAt,
+          project: { ...bundle.project, tagKeys: [] },
+        })
+        .expect(201)
+
+      expect(response.body.data.imported.tasks).toBe(0)
+    })
+
+    it('should reject bundles from a newer version', async () => {
+      const bundle = await exportBundle()
+
+      await request(app)
+        .post('/api/v1/projects/bundle')
+        .set('Authorization', `Bearer ${otherToken}`)
+        .send({ ...bundle, version: 2 })
+        .expect(400)
+    })
+
+    it('should reject bundles with dangling references', async () => {
+      const bundle = await exportBundle()
+      bundle.dependencies[0].blockerKey = -1
+
+      const response = await request(app)
+        .post('/api/v1/projects/bundle')
+        .set('Authorization', `Bearer ${otherToken}`)
+        .send(bundle)
+        .expect(400)
+
+      expect(response.body.message).toBe('Validation failed')
+    })
+  })
+})
@@ -0,0 +1,220 @@
+import request from 'supertest'
+import createApp from '../../../../src/app'
+import { TaskStatus } from '@prisma/client'
+import { projectsTestHelpers, prisma } from './projects.helpers'
+
+const app = createApp()
+
+describe('Exchange Rates and Financial Reports', () => {
+  let authToken: string
+  let adminToken: string
+  let userId: number
+
+  const addRate = (body: object, token = adminToken) =>
+    request(app)
+      .post('/api/v1/exchange-rates')
+      .set('Authorization', `Bearer ${token}`)
+      .send(body)
+
+  const report = (query: string) =>
+    request(app)
+      .get(`/api/v1/projects/financials?${query}`)
+      .set('Authorization', `Bearer ${authToken}`)
+
+  beforeEach(async () => {
+    await prisma.exchangeRate.deleteMany()
+    await projectsTestHelpers.cleanupDatabase()
+
+    const testData = await projectsTestHelpers.setupTestData()
+    authToken = testData.authToken
+    adminToken = testData.adminToken
+    userId = testData.user.id
+  })
+
+  afterAll(async () => {
+    await prisma.exchangeRate.deleteMany()
+    await projectsTestHelpers.cleanupDatabase()
+    await projectsTestHelpers.disconnectDatabase()
+  })
+
+  describe('POST /api/v1/exchange-rates', () => {
+    it('should let admins add a rate', async () => {
+      const response = await addRate({
+        baseCurrency: 'usd',
+        quoteCurrency: 'SGD',
+        rate: 1.35,
+        effectiveAt: '2026-01-01',
+      }).expect(201)
+
+      expect(response.body.data).toMatchObject({
+        baseCurrency: 'USD',
+        quoteCurrency: 'SGD',
+        rate: '1.35',
+      })
+    })
+
+    it('should reject users who are not admins', async () => {
+      await addRate(
+        {
+          baseCurrency: 'USD',
+          quoteCurrency: 'SGD',
+          rate: 1.35,
+          effectiveAt: '2026-01-01',
+        },
+        authToken,
+      ).expect(403)
+    })
+
+    it('should reject a second rate for the same pair and day', async () => {
+      const rate = {
+        baseCurrency: 'USD',
+        quoteCurrency: 'SGD',
+        rate: 1.35,
+        effectiveAt: '2026-01-01',
+      }
+      await addRate(rate).expect(201)
+      await addRate({ ...rate, rate: 1.4 }).expect(409)
+    })
+  })
+
+  describe('POST /api/v1/exchange-rates/import', () => {
+    const csv = [
+      'baseCurrency,quoteCurrency,rate,effectiveAt',
+      'USD,SGD,1.35,2026-01-01',
+      'EUR,SGD,1.45,2026-01-01',
+      'EUR,SGD,not-a-rate,2026-02-01',
+    ].join('\n')
+
+    it('should report each row and save the valid ones', async () => {
+      const response = await request(app)
+        .post('/api/v1/exchange-rates/import')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ csv })
+        .expect(200)
+
+      expect(response.body.data).toMatchObject({
+        total: 3,
+        created: 2,
+        updated: 0,
+        failed: 1,
+      })
+      expect(response.body.data.rows[2]).toMatchObject({
+        row: 4,
+        status: 'failed',
+      })
+      expect(await prisma.exchangeRate.count()).toBe(2)
+    })
+
+    it('should replace existing rates and save nothing on a dry run', async () => {
+      await addRate({
+        baseCurrency: 'USD',
+        quoteCurrency: 'SGD',
+        rate: 1.3,
+        effectiveAt: '2026-01-01',
+      }).expect(201)
+
+      const response = await request(app)
+        .post('/api/v1/exchange-rates/import')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ csv, dryRun: true })
+        .expect(200)
+
+      expect(response.body.data).toMatchObject({ created: 1, updated: 1 })
+      expect(await prisma.exchangeRate.count()).toBe(1)
+    })
+  })
+
+  describe('GET /api/v1/projects/financials', () => {
+    beforeEach(async () => {
+      const usdProject = await projectsTestHelpers.createTestProject(userId, {
+        title: 'USD Project',
+        currency: 'USD',
+      })
+      const sgdProject = await projectsTestHelpers.createTestProject(userId, {
+        title: 'SGD Project',
+        currency: 'SGD',
+      })
+
+      await projectsTestHelpers.createTestTask(usdProject.id, userId, {
+        uuid: 'usd-january-task',
+        status: TaskStatus.DONE,
+        endedAt: new Date('2026-01-15T12:00:00Z'),
+        costInProjectCurrency: 100,
+      })
+      await projectsTestHelpers.createTestTask(usdProject.id, userId, {
+        uuid: 'usd-march-task',
+        status: TaskStatus.DONE,
+        endedAt: new Date('2026-03-15T12:00:00Z'),
+        costInProjectCurrency: 100,
+      })
+      await projectsTestHelpers.createTestTask(sgdProject.id, userId, {
+        uuid: 'sgd-task',
+        status: TaskStatus.DONE,
+        endedAt: new Date('2026-01-20T12:00:00Z'),
+        costInProjectCurrency: 50,
+      })
+
+      await addRate({
+        baseCurrency: 'USD',
+        quoteCurrency: 'SGD',
+        rate: 1.3,
+        effectiveAt: '2026-01-01',
+      }).expect(201)
+      await addRate({
+        baseCurrency: 'USD',
+        quoteCurrency: 'SGD',
+        rate: 1.4,
+        effectiveAt: '2026-03-01',
+      }).expect(201)
+    })
+
+    it('should convert at the rate in effect on each task date', async () => {
+      const response = await report('currency=SGD').expect(200)
+
+      expect(response.body.data).toMatchObject({
+        currency: 'SGD',
+        complete: true,
+        missingRates: [],
+      })
+      // 100 USD at 1.3, 100 USD at 1.4 and 50 SGD
+      expect(response.body.data.totals.cost).toBe('320')
+    })
+
+    it('should invert a rate quoted the other way round', async () => {
+      const response = await report(
+        'currency=USD&from=2026-01-01&to=2026-01-31',
+      ).expect(200)
+
+      // 100 USD and 50 SGD at 1 / 1.3
+      expect(response.body.data.totals.cost).toBe('138.46')
+    })
+
+    it('should flag amounts without a rate', async () => {
+      const response = await report('currency=EUR').expect(200)
+
+      expect(response.body.data.complete).toBe(false)
+      expect(response.body.data.totals.cost).toBe('0')
+      expect(response.body.data.missingRates).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            currency: 'SGD',
+            date: '2026-01-20',
+            cost: '50',
+            count: 1,
+          }),
+        ]),
+      )
+    })
+
+    it('should require a valid reporting currency', async () => {
+      await report('currency=dollars').expect(400)
+    })
+
+    it('should not report on another user project', async () => {
+      const other = await projectsTestHelpers.createTestUser()
+      const otherProject = await projectsTestHelpers.createTestProject(other.id)
+
+      await report(`currency=SGD&projectId=${otherProject.id}`).expect(404)
+    })
+  })
+})
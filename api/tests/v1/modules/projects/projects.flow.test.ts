@@ -0,0 +1,162 @@
+import request from 'supertest'
+import createApp from '../../../../src/app'
+import { TaskStatus } from '@prisma/client'
+import { projectsTestHelpers, prisma } from './projects.helpers'
+
+const app = createApp()
+
+const at = (date: string) => new Date(`${date}T09:00:00.000Z`)
+
+describe('Project Flow Analytics', () => {
+  let authToken: string
+  let userId: number
+  let projectId: number
+
+  const analytics = (path: string, query: string) =>
+    request(app)
+      .get(`/api/v1/projects/${projectId}/analytics/${path}?${query}`)
+      .set('Authorization', `Bearer ${authToken}`)
+
+  // A task created on the first date that moves through the given statuses
+  const createTaskWithHistory = async (
+    uuid: string,
+    created: string,
+    changes: [TaskStatus, string][],
+  ) => {
+    const statuses = [TaskStatus.TODO, ...changes.map(([status]) => status)]
+    await prisma.task.create({
+      data: {
+        uuid,
+        projectId,
+        title: uuid,
+        status: statuses[statuses.length - 1],
+        userId,
+        createdAt: at(created),
+        statusTransitions: {
+          create: [
+            { toStatus: TaskStatus.TODO, createdAt: at(created) },
+            ...changes.map(([status, date], index) => ({
+              fromStatus: statuses[index],
+              toStatus: status,
+              createdAt: at(date),
+            })),
+          ],
+        },
+      },
+    })
+  }
+
+  beforeEach(async () => {
+    await projectsTestHelpers.cleanupDatabase()
+
+    const testData = await projectsTestHelpers.setupTestData()
+    authToken = testData.authToken
+    userId = testData.user.id
+    projectId = testData.project.id
+
+    await createTaskWithHistory('task-a', '2026-03-02', [
+      [TaskStatus.WIP, '2026-03-03'],
+      [TaskStatus.DONE, '2026-03-05'],
+    ])
+    await createTaskWithHistory('task-b', '2026-03-02', [
+      [TaskStatus.WIP, '2026-03-04'],
+    ])
+    await createTaskWithHistory('task-c', '2026-03-04', [
+      [TaskStatus.WIP, '2026-03-05'],
+      [TaskStatus.DONE, '2026-03-09'],
+    ])
+  })
+
+  afterAll(async () => {
+    await projectsTestHelpers.cleanupDatabase()
+    await projectsTestHelpers.disconnectDatabase()
+  })
+
+  describe('GET /api/v1/projects/:id/analytics/burndown', () => {
+    it('should count open and done tasks at the end of each day', async () => {
+      const response = await analytics(
+        'burndown',
+        'from=2026-03-02&to=2026-03-05',
+      ).expect(200)
+
+      expect(response.body.data.points).toEqual([
+        { date: '2026-03-02', open: 2, done: 0, total: 2 },
+        { date: '2026-03-03', open: 2, done: 0, total: 2 },
+        { date: '2026-03-04', open: 3, done: 0, total: 3 },
+        { date: '2026-03-05', open: 2, done: 1, total: 3 },
+      ])
+    })
+
+    it('should group by week', async () => {
+      const response = await analytics(
+        'burndown',
+        'from=2026-03-02&to=2026-03-15&bucket=week',
+      ).expect(200)
+
+      expect(response.body.data.points).toEqual([
+        { date: '2026-03-02', open: 2, done: 1, total: 3 },
+        { date: '2026-03-09', open: 1, done: 2, total: 3 },
+      ])
+    })
+
+    it('should reject an unknown bucket size', async () => {
+      await analytics('burndown', 'bucket=year').expect(400)
+    })
+
+    it('should reject a range with too many buckets', async () => {
+      await analytics('burndown', 'from=2020-01-01&to=2026-01-01').expect(400)
+    })
+  })
+
+  describe('GET /api/v1/projects/:id/analytics/flow', () => {
+    it('should measure cycle time, lead time and throughput', async () => {
+      const response = await analytics(
+        'flow',
+        'from=2026-03-02&to=2026-03-15',
+      ).expect(200)
+
+      expect(response.body.data).toMatchObject({
+        bucket: 'week',
+        cycleTime: { count: 2, averageDays: 3, medianDays: 3, p85Days: 4 },
+        leadTime: { count: 2, averageDays: 4, medianDays: 4, p85Days: 5 },
+        throughput: [
+          { date: '2026-03-02', completed: 1 },
+          { date: '2026-03-09', completed: 1 },
+        ],
+      })
+    })
+  })
+
+  describe('status history', () => {
+    it('should record status changes made through the API', async () => {
+      const task = await projectsTestHelpers.createTestTask(projectId, userId)
+
+      await request(app)
+        .put(`/api/v1/tasks/${task.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ status: TaskStatus.WIP })
+        .expect(200)
+
+      const transitions = await prisma.taskStatusTransition.findMany({
+        where: { taskId: task.id },
+      })
+      expect(transitions).toEqual([
+        expect.objectContaining({
+          fromStatus: TaskStatus.BACKLOG,
+          toStatus: TaskStatus.WIP,
+          userId,
+        }),
+      ])
+    })
+  })
+
+  it('should not show analytics of another user project', async () => {
+    const other = await projectsTestHelpers.createTestUser()
+    const otherProject = await projectsTestHelpers.createTestProject(other.id)
+
+    await request(app)
+      .get(`/api/v1/projects/${otherProject.id}/analytics/burndown`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(403)
+  })
+})
@@ -0,0 +1,164 @@
+import request from 'supertest'
+import { TaskStatus } from '@prisma/client'
+import createApp from '../../../../src/app'
+import { projectsTestHelpers, prisma } from './projects.helpers'
+
+const app = createApp()
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+describe('Project Health', () => {
+  let authToken: string
+  let userId: number
+  let projectId: number
+
+  const makeOverdue = async (
+    id: number,
+    uuid: string,
+    status: TaskStatus = TaskStatus.TODO,
+  ) => {
+    const task = await projectsTestHelpers.createTestTask(id, userId, {
+      uuid,
+      title: uuid,
+      status,
+    })
+    await prisma.task.update({
+      where: { id: task.id },
+      data: { dueAt: new Date(Date.now() - DAY_MS) },
+    })
+  }
+
+  beforeEach(async () => {
+    await projectsTestHelpers.cleanupDatabase()
+
+    const testData = await projectsTestHelpers.setupTestData()
+    authToken = testData.authToken
+    userId = testData.user.id
+    projectId = testData.project.id
+  })
+
+  afterAll(async () => {
+    await prisma.setting.deleteMany({
+      where: { key: { startsWith: 'project_health:' } },
+    })
+    await projectsTestHelpers.cleanupDatabase()
+    await projectsTestHelpers.disconnectDatabase()
+  })
+
+  describe('GET /api/v1/projects/:id/health', () => {
+    it('should score a project without problems 100', async () => {
+      const response = await request(app)
+        .get(`/api/v1/projects/${projectId}/health`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(response.body.data).toMatchObject({
+        projectId,
+        score: 100,
+        atRisk: false,
+      })
+    })
+
+    it('should explain which factors lowered the score', async () => {
+      await makeOverdue(projectId, 'overdue-task', TaskStatus.BLOCKED)
+
+      const response = await request(app)
+        .get(`/api/v1/projects/${projectId}/health`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(response.body.data.score).toBe(50)
+      expect(response.body.data.atRisk).toBe(true)
+      expect(response.body.data.factors.slice(0, 2)).toEqual([
+        expect.objectContaining({
+          factor: 'overdue',
+          pointsLost: 30,
+          message: '1 of 1 open tasks are overdue',
+        }),
+        expect.objectContaining({ factor: 'blocked', pointsLost: 20 }),
+      ])
+    })
+
+    it('should use weights from system settings', async () => {
+      await makeOverdue(projectId, 'overdue-task')
+      await prisma.setting.create({
+        data: {
+          key: 'project_health:overdue_weight',
+          value: '0',
+          visibility: 'SYSTEM',
+        },
+      })
+
+      const response = await request(app)
+        .get(`/api/v1/projects/${projectId}/health`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      await prisma.setting.deleteMany({
+        where: { key: { startsWith: 'project_health:' } },
+      })
+      expect(response.body.data.score).toBe(100)
+    })
+
+    it('should ignore health settings created by regular users', async () => {
+      await makeOverdue(projectId, 'overdue-task')
+      await request(app)
+        .post('/api/v1/settings')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ key: 'project_health:overdue_weight', value: '0' })
+        .expect(201)
+
+      const response = await request(app)
+        .get(`/api/v1/projects/${projectId}/health`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      await prisma.setting.deleteMany({
+        where: { key: { startsWith: 'project_health:' } },
+      })
+      expect(response.body.data.score).toBeLessThan(100)
+    })
+  })
+
+  describe('GET /api/v1/projects with health', () => {
+    it('should sort and filter projects by health', async () => {
+      const troubled = await projectsTestHelpers.createTestProject(userId, {
+        uuid: 'troubled-project-uuid',
+        title: 'Troubled Project',
+      })
+      await makeOverdue(troubled.id, 'troubled-task')
+
+      const sorted = await request(app)
+        .get('/api/v1/projects?sortBy=health&sortOrder=asc')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(
+        sorted.body.data.projects.map(
+          (project: { id: number; health: { score: number } }) => [
+            project.id,
+            project.health.score,
+          ],
+        ),
+      ).toEqual([
+        [troubled.id, 70],
+        [projectId, 100],
+      ])
+
+      const filtered = await request(app)
+        .get('/api/v1/projects?maxHealth=80')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(filtered.body.data.pagination.total).toBe(1)
+      expect(filtered.body.data.projects[0].id).toBe(troubled.id)
+    })
+
+    it('should reject a health outside 0-100', async () => {
+      await request(app)
+        .get('/api/v1/projects?minHealth=150')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(400)
+    })
+  })
+})
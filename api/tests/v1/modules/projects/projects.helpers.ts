@@ -111,6 +111,7 @@ export const projectsTestHelpers = {
       endedAt?: Date | null
       timeSpent?: number | null
       costInProjectCurrency?: number | null
+      milestoneId?: number | null
     },
   ) {
     return prisma.task.create({
@@ -125,6 +126,7 @@ export const projectsTestHelpers = {
         endedAt: overrides?.endedAt,
         timeSpent: overrides?.timeSpent,
         costInProjectCurrency: overrides?.costInProjectCurrency,
+        milestoneId: overrides?.milestoneId,
       },
     })
   },
@@ -0,0 +1,148 @@
+import request from 'supertest'
+import createApp from '../../../../src/app'
+import { TaskStatus } from '@prisma/client'
+import { projectsTestHelpers, prisma } from './projects.helpers'
+
+const app = createApp()
+
+describe('Project Invoices', () => {
+  let authToken: string
+  let userId: number
+  let projectId: number
+
+  const period = { from: '2026-03-01', to: '2026-03-31' }
+
+  const generate = (body: object = {}) =>
+    request(app)
+      .post('/api/v1/invoices')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ projectId, ...period, ...body })
+
+  beforeEach(async () => {
+    await projectsTestHelpers.cleanupDatabase()
+
+    const testData = await projectsTestHelpers.setupTestData()
+    authToken = testData.authToken
+    userId = testData.user.id
+
+    const project = await projectsTestHelpers.createTestProject(userId, {
+      rate: 100,
+      billingCycle: 'HOURLY',
+      currency: 'USD',
+    })
+    projectId = project.id
+
+    await projectsTestHelpers.createTestTask(projectId, userId, {
+      uuid: 'billed-task-uuid',
+      title: 'Build API',
+      status: TaskStatus.DONE,
+      endedAt: new Date('2026-03-10T12:00:00Z'),
+      timeSpent: 2.5,
+    })
+    await projectsTestHelpers.createTestTask(projectId, userId, {
+      uuid: 'open-task-uuid',
+      title: 'Still open',
+      status: TaskStatus.WIP,
+      timeSpent: 4,
+    })
+  })
+
+  afterAll(async () => {
+    await projectsTestHelpers.cleanupDatabase()
+    await projectsTestHelpers.disconnectDatabase()
+  })
+
+  describe('POST /api/v1/invoices', () => {
+    it('should bill DONE tasks with tax and number the invoice', async () => {
+      const response = await generate({ taxRate: 10 }).expect(201)
+
+      expect(response.body.data).toMatchObject({
+        number: 'INV-0001',
+        status: 'DRAFT',
+        currency: 'USD',
+        subtotal: '250',
+        taxAmount: '25',
+        total: '275',
+      })
+      expect(response.body.data.items).toHaveLength(1)
+      expect(response.body.data.items[0]).toMatchObject({
+        description: 'Build API',
+        quantity: '2.5',
+        unitPrice: '100',
+      })
+    })
+
+    it('should not invoice a task twice', async () => {
+      const first = await generate().expect(201)
+
+      const billed = await prisma.task.findUnique({
+        where: { uuid: 'billed-task-uuid' },
+      })
+      expect(billed?.invoiceId).toBe(first.body.data.id)
+
+      await generate().expect(400)
+    })
+
+    it('should free billed tasks when a draft is deleted', async () => {
+      const first = await generate().expect(201)
+
+      await request(app)
+        .delete(`/api/v1/invoices/${first.body.data.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      const second = await generate().expect(201)
+      expect(second.body.data.number).toBe('INV-0001')
+    })
+
+    it('should not invoice another user project', async () => {
+      const other = await projectsTestHelpers.createTestUser()
+      const otherProject = await projectsTestHelpers.createTestProject(other.id)
+
+      await generate({ projectId: otherProject.id }).expect(403)
+    })
+  })
+
+  describe('PUT /api/v1/invoices/:id', () => {
+    it('should move an invoice from draft to sent to paid only', async () => {
+      const invoice = await generate().expect(201)
+      const update = (body: object) =>
+        request(app)
+          .put(`/api/v1/invoices/${invoice.body.data.id}`)
+          .set('Authorization', `Bearer ${authToken}`)
+          .send(body)
+
+      await update({ status: 'PAID' }).expect(409)
+      const sent = await update({ status: 'SENT' }).expect(200)
+      expect(sent.body.data.sentAt).not.toBeNull()
+
+      await update({ notes: 'Too late' }).expect(409)
+      await update({ status: 'PAID' }).expect(200)
+
+      await request(app)
+        .delete(`/api/v1/invoices/${invoice.body.data.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(409)
+    })
+  })
+
+  describe('GET /api/v1/invoices/:id/document', () => {
+    it('should render the invoice as PDF and HTML', async () => {
+      const invoice = await generate().expect(201)
+
+      const pdf = await request(app)
+        .get(`/api/v1/invoices/${invoice.body.data.id}/document`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+      expect(pdf.headers['content-type']).toBe('application/pdf')
+      expect(pdf.headers['content-disposition']).toContain('INV-0001.pdf')
+
+      const html = await request(app)
+        .get(`/api/v1/invoices/${invoice.body.data.id}/document?format=html`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+      expect(html.text).toContain('Invoice INV-0001')
+      expect(html.text).toContain('Build API')
+    })
+  })
+})
@@ -0,0 +1,217 @@
+import request from 'supertest'
+import createApp from '../../../../src/app'
+import { MilestoneStatus, ProjectRole, TaskStatus } from '@prisma/client'
+import { projectsTestHelpers, prisma } from './projects.helpers'
+
+const app = createApp()
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const daysFromNow = (days: number) => new Date(Date.now() + days * DAY_MS)
+
+describe('Project Milestones', () => {
+  let authToken: string
+  let userId: number
+  let projectId: number
+
+  const createMilestone = (body: object, token = authToken) =>
+    request(app)
+      .post(`/api/v1/projects/${projectId}/milestones`)
+      .set('Authorization', `Bearer ${token}`)
+      .send(body)
+
+  beforeEach(async () => {
+    await projectsTestHelpers.cleanupDatabase()
+
+    const testData = await projectsTestHelpers.setupTestData()
+    authToken = testData.authToken
+    userId = testData.user.id
+    projectId = testData.project.id
+  })
+
+  afterAll(async () => {
+    await projectsTestHelpers.cleanupDatabase()
+    await projectsTestHelpers.disconnectDatabase()
+  })
+
+  describe('POST /api/v1/projects/:id/milestones', () => {
+    it('should create an open milestone', async () => {
+      const response = await createMilestone({
+        title: 'Beta release',
+        targetDate: daysFromNow(30).toISOString(),
+      }).expect(201)
+
+      expect(response.body.data).toMatchObject({
+        title: 'Beta release',
+        status: MilestoneStatus.OPEN,
+        progress: { total: 0, done: 0, percent: 0 },
+        isLate: false,
+        isAtRisk: false,
+      })
+    })
+
+    it('should not let viewers manage milestones', async () => {
+      const viewer = await projectsTestHelpers.createTestUser()
+      await prisma.projectMember.create({
+        data: { projectId, userId: viewer.id, role: ProjectRole.VIEWER },
+      })
+      const viewerToken = projectsTestHelpers.generateMockAuthToken({
+        uuid: viewer.uuid,
+        email: viewer.email,
+        role: viewer.role,
+      })
+
+      await createMilestone(
+        { title: 'Beta release', targetDate: daysFromNow(30).toISOString() },
+        viewerToken,
+      ).expect(403)
+    })
+  })
+
+  describe('GET /api/v1/projects/:id/milestones', () => {
+    it('should report progress from linked tasks', async () => {
+      const milestone = await prisma.milestone.create({
+        data: { projectId, title: 'Launch', targetDate: daysFromNow(30) },
+      })
+      await projectsTestHelpers.createTestTask(projectId, userId, {
+        uuid: 'done-task-uuid',
+        title: 'Done task',
+        status: TaskStatus.DONE,
+        milestoneId: milestone.id,
+      })
+      await projectsTestHelpers.createTestTask(projectId, userId, {
+        uuid: 'wip-task-uuid',
+        title: 'WIP task',
+        status: TaskStatus.WIP,
+        milestoneId: milestone.id,
+      })
+
+      const response = await request(app)
+        .get(`/api/v1/projects/${projectId}/milestones`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(response.body.data).toHaveLength(1)
+      expect(response.body.data[0].progress).toEqual({
+        total: 2,
+        done: 1,
+        percent: 50,
+      })
+      expect(response.body.data[0].tasks).toHaveLength(2)
+    })
+
+    it('should flag late and at-risk milestones', async () => {
+      await prisma.milestone.create({
+        data: { projectId, title: 'Overdue', targetDate: daysFromNow(-1) },
+      })
+      const nearby = await prisma.milestone.create({
+        data: { projectId, title: 'Nearby', targetDate: daysFromNow(3) },
+      })
+      await projectsTestHelpers.createTestTask(projectId, userId, {
+        uuid: 'nearby-task-uuid',
+        status: TaskStatus.TODO,
+        milestoneId: nearby.id,
+      })
+
+      const response = await request(app)
+        .get(`/api/v1/projects/${projectId}/milestones`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(
+        response.body.data.map(
+          (milestone: {
+            title: string
+            isLate: boolean
+            isAtRisk: boolean
+          }) => [milestone.title, milestone.isLate, milestone.isAtRisk],
+        ),
+      ).toEqual([
+        ['Overdue', true, false],
+        ['Nearby', false, true],
+      ])
+    })
+
+    it('should not count tasks that left the project', async () => {
+      const milestone = await prisma.milestone.create({
+        data: { projectId, title: 'Launch', targetDate: daysFromNow(30) },
+      })
+      const otherProject = await projectsTestHelpers.createTestProject(userId, {
+        title: 'Other Project',
+      })
+      await prisma.task.create({
+        data: {
+          title: 'Moved away',
+          projectId: otherProject.id,
+          userId,
+          milestoneId: milestone.id,
+        },
+      })
+
+      const response = await request(app)
+        .get(`/api/v1/projects/${projectId}/milestones`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(response.body.data[0].tasks).toEqual([])
+      expect(response.body.data[0].progress.total).toBe(0)
+    })
+  })
+
+  describe('PUT /api/v1/projects/:id/milestones/:milestoneId', () => {
+    it('should record when a milestone is completed', async () => {
+      const milestone = await prisma.milestone.create({
+        data: { projectId, title: 'Launch', targetDate: daysFromNow(-1) },
+      })
+
+      const response = await request(app)
+        .put(`/api/v1/projects/${projectId}/milestones/${milestone.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ status: MilestoneStatus.COMPLETED })
+        .expect(200)
+
+      expect(response.body.data.completedAt).not.toBeNull()
+      expect(response.body.data.isLate).toBe(false)
+    })
+  })
+
+  describe('Linking tasks', () => {
+    it('should link a task to a milestone of its project', async () => {
+      const milestone = await prisma.milestone.create({
+        data: { projectId, title: 'Launch', targetDate: daysFromNow(30) },
+      })
+      const task = await projectsTestHelpers.createTestTask(projectId, userId)
+
+      const response = await request(app)
+        .put(`/api/v1/tasks/${task.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ milestoneId: milestone.id })
+        .expect(200)
+
+      expect(response.body.data.milestone).toMatchObject({
+        id: milestone.id,
+        title: 'Launch',
+      })
+    })
+
+    it('should reject a milestone of another project', async () => {
+      const otherProject = await projectsTestHelpers.createTestProject(userId, {
+        title: 'Other Project',
+      })
+      const milestone = await prisma.milestone.create({
+        data: {
+          projectId: otherProject.id,
+          title: 'Elsewhere',
+          targetDate: daysFromNow(30),
+        },
+      })
+      const task = await projectsTestHelpers.createTestTask(projectId, userId)
+
+      await request(app)
+        .put(`/api/v1/tasks/${task.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ milestoneId: milestone.id })
+        .expect(400)
+    })
+  })
+})
@@ -0,0 +1,193 @@
+import request from 'supertest'
+import createApp from '../../../../src/app'
+import {
+  ProjectStage,
+  ProjectStageGateType,
+  TaskStatus,
+  UserRole,
+} from '@prisma/client'
+import { projectsTestHelpers, prisma } from './projects.helpers'
+
+const app = createApp()
+
+describe('Project Stages', () => {
+  let authToken: string
+  let managerToken: string
+  let adminToken: string
+  let userId: number
+  let projectId: number
+
+  const changeStage = (stage: ProjectStage, stageComment?: string) =>
+    request(app)
+      .put(`/api/v1/projects/${projectId}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ stage, stageComment })
+
+  const setGates = (gates: object[], token = authToken) =>
+    request(app)
+      .put(`/api/v1/projects/${projectId}/stage-gates`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ gates })
+
+  beforeEach(async () => {
+    await projectsTestHelpers.cleanupDatabase()
+
+    const testData = await projectsTestHelpers.setupTestData()
+    authToken = testData.authToken
+    managerToken = testData.managerToken
+    adminToken = testData.adminToken
+    userId = testData.user.id
+
+    const response = await request(app)
+      .post('/api/v1/projects')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ title: 'Staged Project' })
+      .expect(201)
+    projectId = response.body.data.id
+  })
+
+  afterAll(async () => {
+    await projectsTestHelpers.cleanupDatabase()
+    await projectsTestHelpers.disconnectDatabase()
+  })
+
+  describe('GET /api/v1/projects/:id/stage-history', () => {
+    it('should record who changed the stage, when and why', async () => {
+      await changeStage(
+        ProjectStage.ANALYSIS,
+        'Requirements signed off',
+      ).expect(200)
+      await changeStage(ProjectStage.DESIGN).expect(200)
+
+      const response = await request(app)
+        .get(`/api/v1/projects/${projectId}/stage-history`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      const { data } = response.body
+      expect(data.stage).toBe(ProjectStage.DESIGN)
+      expect(data.transitions).toHaveLength(3)
+      expect(data.transitions[0]).toMatchObject({
+        fromStage: null,
+        toStage: ProjectStage.PLANNING,
+      })
+      expect(data.transitions[1]).toMatchObject({
+        fromStage: ProjectStage.PLANNING,
+        toStage: ProjectStage.ANALYSIS,
+        comment: 'Requirements signed off',
+        user: expect.objectContaining({ id: userId }),
+      })
+      expect(Object.keys(data.timeInStage)).toEqual(Object.values(ProjectStage))
+    })
+
+    it('should not record updates that keep the stage', async () => {
+      await request(app)
+        .put(`/api/v1/projects/${projectId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ title: 'Renamed', stage: ProjectStage.PLANNING })
+        .expect(200)
+
+      const count = await prisma.projectStageTransition.count({
+        where: { projectId },
+      })
+      expect(count).toBe(1)
+    })
+
+    it("should not show another user's history", async () => {
+      const other = await projectsTestHelpers.createTestUser()
+      const otherProject = await projectsTestHelpers.createTestProject(other.id)
+
+      await request(app)
+        .get(`/api/v1/projects/${otherProject.id}/stage-history`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(403)
+    })
+  })
+
+  describe('stage gates', () => {
+    it('should block entering a stage while tasks are in the listed statuses', async () => {
+      await setGates([
+        {
+          stage: ProjectStage.TESTING,
+          type: ProjectStageGateType.TASK_STATUS,
+          taskStatuses: [TaskStatus.BACKLOG],
+        },
+      ]).expect(200)
+      const task = await projectsTestHelpers.createTestTask(projectId, userId)
+
+      const response = await changeStage(ProjectStage.TESTING).expect(409)
+      expect(response.body.message).toContain('BACKLOG')
+
+      await prisma.task.update({
+        where: { id: task.id },
+        data: { status: TaskStatus.DONE },
+      })
+      await changeStage(ProjectStage.TESTING).expect(200)
+    })
+
+    it('should require an approval that is used up by the change', async () => {
+      await setGates(
+        [
+          {
+            stage: ProjectStage.DEPLOYMENT,
+            type: ProjectStageGateType.APPROVAL,
+            approverRole: UserRole.MANAGER,
+          },
+        ],
+        adminToken,
+      ).expect(200)
+
+      await changeStage(ProjectStage.DEPLOYMENT).expect(409)
+
+      await request(app)
+        .post(`/api/v1/projects/${projectId}/stage-approvals`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ stage: ProjectStage.DEPLOYMENT })
+        .expect(403)
+
+      await request(app)
+        .post(`/api/v1/projects/${projectId}/stage-approvals`)
+        .set('Authorization', `Bearer ${managerToken}`)
+        .send({ stage: ProjectStage.DEPLOYMENT, comment: 'Go ahead' })
+        .expect(201)
+
+      await changeStage(ProjectStage.DEPLOYMENT).expect(200)
+      await changeStage(ProjectStage.TESTING).expect(200)
+      await changeStage(ProjectStage.DEPLOYMENT).expect(409)
+    })
+
+    it('should only let admins and approvers change approval gates', async () => {
+      const approvalGate = {
+        stage: ProjectStage.DEPLOYMENT,
+        type: ProjectStageGateType.APPROVAL,
+        approverRole: UserRole.MANAGER,
+      }
+
+      await setGates([approvalGate]).expect(403)
+      await setGates([approvalGate], adminToken).expect(200)
+
+      // Task status gates can still be changed around the approval gate
+      await setGates([
+        approvalGate,
+        {
+          stage: ProjectStage.TESTING,
+          type: ProjectStageGateType.TASK_STATUS,
+          taskStatuses: [TaskStatus.BACKLOG],
+        },
+      ]).expect(200)
+      await setGates([]).expect(403)
+
+      expect(
+        await prisma.projectStageGate.count({
+          where: { projectId, type: ProjectStageGateType.APPROVAL },
+        }),
+      ).toBe(1)
+    })
+
+    it('should reject incomplete gates', async () => {
+      await setGates([
+        { stage: ProjectStage.TESTING, type: ProjectStageGateType.APPROVAL },
+      ]).expect(400)
+    })
+  })
+})
@@ -0,0 +1,183 @@
+import request from 'supertest'
+import createApp from '../../../../src/app'
+import { NoteStatus, ProjectStage, TaskStatus } from '@prisma/client'
+import { projectsTestHelpers, prisma } from './projects.helpers'
+
+const app = createApp()
+
+describe('Project Templates and Cloning', () => {
+  let authToken: string
+  let userId: number
+  let projectId: number
+
+  const saveTemplate = (body: object = {}) =>
+    request(app)
+      .post(`/api/v1/projects/${projectId}/template`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ name: 'Client website', ...body })
+
+  beforeEach(async () => {
+    await prisma.projectTemplate.deleteMany()
+    await projectsTestHelpers.cleanupDatabase()
+
+    const testData = await projectsTestHelpers.setupTestData()
+    authToken = testData.authToken
+    userId = testData.user.id
+
+    const project = await projectsTestHelpers.createTestProject(userId, {
+      title: 'Acme website',
+      description: 'Marketing site',
+      stage: ProjectStage.IMPLEMENTATION,
+      beganAt: new Date('2026-01-01T00:00:00Z'),
+      billingCycle: 'HOURLY',
+      rate: 120,
+      currency: 'USD',
+    })
+    projectId = project.id
+
+    const parent = await projectsTestHelpers.createTestTask(projectId, userId, {
+      uuid: 'design-task-uuid',
+      title: 'Design',
+      definitionOfDone: '- [x] Wireframes\n- [ ] Mockups',
+      status: TaskStatus.DONE,
+    })
+    await prisma.task.update({
+      where: { id: parent.id },
+      data: { dueAt: new Date('2026-01-11T00:00:00Z') },
+    })
+    await prisma.task.create({
+      data: {
+        uuid: 'build-task-uuid',
+        projectId,
+        parentTaskId: parent.id,
+        title: 'Build',
+        status: TaskStatus.WIP,
+        userId,
+        dueAt: new Date('2026-01-21T00:00:00Z'),
+      },
+    })
+
+    await projectsTestHelpers.createTestNote(userId, projectId, {
+      uuid: 'kickoff-note-uuid',
+      title: 'Kickoff',
+      status: NoteStatus.PUBLISHED,
+    })
+    const other = await projectsTestHelpers.createTestUser()
+    await projectsTestHelpers.createTestNote(other.id, projectId, {
+      uuid: 'private-note-uuid',
+      title: 'Private draft',
+      status: NoteStatus.DRAFT,
+    })
+  })
+
+  afterAll(async () => {
+    await prisma.projectTemplate.deleteMany()
+    await projectsTestHelpers.cleanupDatabase()
+    await projectsTestHelpers.disconnectDatabase()
+  })
+
+  describe('POST /api/v1/projects/:id/template', () => {
+    it('should save tasks, notes and billing defaults', async () => {
+      const response = await saveTemplate({ includeStage: true }).expect(201)
+
+      expect(response.body.data).toMatchObject({
+        name: 'Client website',
+        projectDescription: 'Marketing site',
+        stage: ProjectStage.IMPLEMENTATION,
+        billingCycle: 'HOURLY',
+        rate: '120',
+        currency: 'USD',
+      })
+      expect(response.body.data.tasks).toEqual([
+        expect.objectContaining({ title: 'Design', dueOffsetDays: 10 }),
+        expect.objectContaining({ title: 'Build', dueOffsetDays: 20 }),
+      ])
+    })
+
+    it('should leave out other users draft notes', async () => {
+      const response = await saveTemplate().expect(201)
+
+      expect(
+        response.body.data.notes.map((note: { title: string }) => note.title),
+      ).toEqual(['Kickoff'])
+    })
+
+    it('should not save another user project', async () => {
+      const other = await projectsTestHelpers.createTestUser()
+      const otherProject = await projectsTestHelpers.createTestProject(other.id)
+
+      await request(app)
+        .post(`/api/v1/projects/${otherProject.id}/template`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ name: 'Stolen' })
+        .expect(403)
+    })
+  })
+
+  describe('POST /api/v1/projects/templates/:templateId/instantiate', () => {
+    it('should create a project with tasks due relative to the start', async () => {
+      const template = await saveTemplate().expect(201)
+
+      const response = await request(app)
+        .post(`/api/v1/projects/templates/${template.body.data.id}/instantiate`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ title: 'Globex website', startDate: '2026-06-01T00:00:00Z' })
+        .expect(201)
+
+      expect(response.body.data).toMatchObject({
+        title: 'Globex website',
+        stage: ProjectStage.PLANNING,
+        currency: 'USD',
+      })
+
+      const tasks = await prisma.task.findMany({
+        where: { projectId: response.body.data.id },
+        include: { checklistItems: { orderBy: { position: 'asc' } } },
+        orderBy: { title: 'asc' },
+      })
+      expect(tasks.map((task) => [task.title, task.status])).toEqual([
+        ['Build', TaskStatus.BACKLOG],
+        ['Design', TaskStatus.BACKLOG],
+      ])
+      expect(tasks[1].dueAt).toEqual(new Date('2026-06-11T00:00:00Z'))
+      expect(tasks[1].checklistItems.map((item) => item.isChecked)).toEqual([
+        false,
+        false,
+      ])
+    })
+  })
+
+  describe('POST /api/v1/projects/:id/clone', () => {
+    it('should copy subtasks and shift due dates', async () => {
+      const response = await request(app)
+        .post(`/api/v1/projects/${projectId}/clone`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ title: 'Acme website v2', startDate: '2026-02-01T00:00:00Z' })
+        .expect(201)
+
+      const tasks = await prisma.task.findMany({
+        where: { projectId: response.body.data.id },
+      })
+      const design = tasks.find((task) => task.title === 'Design')
+      const build = tasks.find((task) => task.title === 'Build')
+
+      expect(design?.dueAt).toEqual(new Date('2026-02-11T00:00:00Z'))
+      expect(build?.dueAt).toEqual(new Date('2026-02-21T00:00:00Z'))
+      expect(build?.parentTaskId).toBe(design?.id)
+      expect(build?.status).toBe(TaskStatus.BACKLOG)
+
+      const notes = await prisma.note.findMany({
+        where: { projectId: response.body.data.id },
+      })
+      expect(notes.map((note) => note.title)).toEqual(['Kickoff'])
+    })
+
+    it('should require a start date', async () => {
+      await request(app)
+        .post(`/api/v1/projects/${projectId}/clone`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ title: 'No start' })
+        .expect(400)
+    })
+  })
+})
@@ -0,0 +1,183 @@
+import request from 'supertest'
+import createApp from '../../../../src/app'
+import { projectsTestHelpers, prisma } from './projects.helpers'
+
+const app = createApp()
+
+const at = (date: string) => new Date(`${date}T00:00:00.000Z`)
+
+describe('Project Timeline', () => {
+  let authToken: string
+  let adminToken: string
+  let userId: number
+  let projectId: number
+
+  beforeEach(async () => {
+    await projectsTestHelpers.cleanupDatabase()
+
+    const testData = await projectsTestHelpers.setupTestData()
+    authToken = testData.authToken
+    adminToken = testData.adminToken
+    userId = testData.user.id
+    projectId = testData.project.id
+
+    await prisma.project.update({
+      where: { id: projectId },
+      data: { beganAt: at('2026-03-02') },
+    })
+  })
+
+  afterAll(async () => {
+    await projectsTestHelpers.cleanupDatabase()
+    await projectsTestHelpers.disconnectDatabase()
+  })
+
+  describe('GET /api/v1/projects/:id/timeline', () => {
+    it('should plan tasks after the tasks blocking them', async () => {
+      const design = await projectsTestHelpers.createTestTask(
+        projectId,
+        userId,
+        { uuid: 'design-task-uuid', title: 'Design' },
+      )
+      const build = await projectsTestHelpers.createTestTask(
+        projectId,
+        userId,
+        { uuid: 'build-task-uuid', title: 'Build' },
+      )
+      await prisma.task.update({
+        where: { id: design.id },
+        data: { dueAt: at('2030-03-10') },
+      })
+      await prisma.taskDependency.create({
+        data: { blockerTaskId: design.id, blockedTaskId: build.id },
+      })
+
+      const response = await request(app)
+        .get(`/api/v1/projects/${projectId}/timeline`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      const tasks = response.body.data.groups.flatMap(
+        (group: { tasks: unknown[] }) => group.tasks,
+      )
+      expect(
+        tasks.find((task: { id: number }) => task.id === build.id),
+      ).toMatchObject({
+        blockedBy: [design.id],
+        planned: { start: at('2030-03-10').toISOString(), end: null },
+      })
+    })
+
+    it('should run open tasks up to today', async () => {
+      await projectsTestHelpers.createTestTask(projectId, userId, {
+        uuid: 'open-task-uuid',
+        title: 'Open task',
+        status: 'WIP',
+        startedAt: at('2026-03-03'),
+      })
+      await projectsTestHelpers.createTestTask(projectId, userId, {
+        uuid: 'done-task-uuid',
+        title: 'Done task',
+        status: 'DONE',
+        startedAt: at('2026-03-03'),
+        endedAt: at('2026-03-05'),
+      })
+
+      const response = await request(app)
+        .get(`/api/v1/projects/${projectId}/timeline`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      const { today, groups } = response.body.data
+      expect(groups.map((group: { key: string }) => group.key)).toEqual([
+        'WIP',
+        'DONE',
+      ])
+      expect(groups[0].tasks[0]).toMatchObject({
+        open: true,
+        actual: { start: at('2026-03-03').toISOString(), end: today },
+      })
+      expect(groups[1].tasks[0]).toMatchObject({
+        open: false,
+        actual: { end: at('2026-03-05').toISOString() },
+      })
+    })
+
+    it('should group tasks by assignee with milestones', async () => {
+      await projectsTestHelpers.createTestTask(projectId, userId)
+      await prisma.milestone.create({
+        data: { projectId, title: 'Launch', targetDate: at('2026-06-01') },
+      })
+
+      const response = await request(app)
+        .get(`/api/v1/projects/${projectId}/timeline?groupBy=assignee`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(response.body.data.groups).toEqual([
+        expect.objectContaining({ key: String(userId) }),
+      ])
+      expect(response.body.data.milestones).toEqual([
+        expect.objectContaining({ title: 'Launch' }),
+      ])
+      expect(response.body.data.project.planned.end).toBe(
+        at('2026-06-01').toISOString(),
+      )
+    })
+
+    it('should reject an unknown grouping', async () => {
+      await request(app)
+        .get(`/api/v1/projects/${projectId}/timeline?groupBy=colour`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(400)
+    })
+  })
+
+  describe('GET /api/v1/projects/timeline', () => {
+    it('should only include projects the user can see', async () => {
+      const other = await projectsTestHelpers.createTestUser()
+      await projectsTestHelpers.createTestProject(other.id, {
+        title: 'Hidden Project',
+      })
+
+      const response = await request(app)
+        .get('/api/v1/projects/timeline')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(
+        response.body.data.projects.map(
+          (project: { id: number }) => project.id,
+        ),
+      ).toEqual([projectId])
+    })
+
+    it('should group tasks of every project by stage', async () => {
+      const other = await projectsTestHelpers.createTestProject(userId, {
+        title: 'Testing Project',
+        stage: 'TESTING',
+      })
+      await projectsTestHelpers.createTestTask(projectId, userId)
+      await projectsTestHelpers.createTestTask(other.id, userId, {
+        uuid: 'testing-task-uuid',
+      })
+
+      const response = await request(app)
+        .get('/api/v1/projects/timeline')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200)
+
+      expect(
+        response.body.data.groups.map(
+          (group: { key: string; tasks: unknown[] }) => [
+            group.key,
+            group.tasks.length,
+          ],
+        ),
+      ).toEqual([
+        ['PLANNING', 1],
+        ['TESTING', 1],
+      ])
+    })
+  })
+})
@@ -0,0 +1,257 @@
+import request from 'supertest'
+import createApp from '../../../../src/app'
+import { projectsTestHelpers, prisma } from './projects.helpers'
+
+const app = createApp()
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+describe('Trash Bin', () => {
+  let authToken: string
+  let adminToken: string
+  let userId: number
+  let projectId: number
+
+  const deleteProject = (id: number) =>
+    request(app)
+      .delete(`/api/v1/projects/${id}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200)
+
+  const deleteTask = (id: number) =>
+    request(app)
+      .delete(`/api/v1/tasks/${id}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200)
+
+  beforeEach(async () => {
+    await projectsTestHelpers.cleanupDatabase()
+
+    const testData = await projectsTestHelpers.setupTestData()
+    authToken = testData.authToken
+    adminToken = testData.adminToken
+    userId = testData.user.id
+    projectId = testData.project.id
+  })
+
+  afterAll(async () => {
+    await projectsTestHelpers.cleanupDatabase()
+    await projectsTestHelpers.disconnectDatabase()
+  })
+
+  describe('GET /api/v1/trash', () => {
+    it('should list deleted projects, tasks and notes', async () => {
+      const task = await projectsTestHelpers.createTestTask(projectId, userId)
+      await deleteTask(task.id)
+      const note = await projectsTestHelpers.createTestNote(userId, projectId)
+      await prisma.note.update({
+        where: { id: note.id },
+        data: { deletedAt: new Date() },
+      })
+      const other = await projectsTestHelpers.createTestProject(userId, {
+        title: 'Old Project',
+      })
+      await deleteProject(other.id)
+
+      const response = await request(app)
+        .get('/api/v1/trash')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(response.body.data.retentionDays).toEqual(expect.any(Number))
+      expect(response.body.data.projects).toEqual([
+        expect.objectContaining({ type: 'project', title: 'Old Project' }),
+      ])
+      expect(response.body.data.tasks).toEqual([
+        expect.objectContaining({ type: 'task', id: task.id }),
+      ])
+      expect(response.body.data.notes).toHaveLength(1)
+    })
+
+    it('should not list tasks deleted along with their project', async () => {
+      await projectsTestHelpers.createTestTask(projectId, userId)
+      await deleteProject(projectId)
+
+      const response = await request(app)
+        .get('/api/v1/trash?type=task')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(response.body.data.tasks).toEqual([])
+    })
+
+    it('should not show another user trash', async () => {
+      const other = await projectsTestHelpers.createTestUser()
+      const otherProject = await projectsTestHelpers.createTestProject(other.id)
+      await prisma.project.update({
+        where: { id: otherProject.id },
+        data: { deletedAt: new Date() },
+      })
+
+      const response = await request(app)
+        .get('/api/v1/trash')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(response.body.data.projects).toEqual([])
+    })
+
+    it('should show project owners what they can restore', async () => {
+      const other = await projectsTestHelpers.createTestUser()
+      const shared = await projectsTestHelpers.createTestProject(other.id, {
+        title: 'Shared Project',
+      })
+      await prisma.projectMember.create({
+        data: { projectId: shared.id, userId, role: 'OWNER' },
+      })
+      await prisma.project.update({
+        where: { id: shared.id },
+        data: { deletedAt: new Date() },
+      })
+
+      const response = await request(app)
+        .get('/api/v1/trash')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(response.body.data.projects).toEqual([
+        expect.objectContaining({ title: 'Shared Project' }),
+      ])
+    })
+
+    it('should list deleted tasks in projects the user owns', async () => {
+      const other = await projectsTestHelpers.createTestUser()
+      const shared = await projectsTestHelpers.createTestProject(other.id, {
+        title: 'Shared Project',
+      })
+      await prisma.projectMember.create({
+        data: { projectId: shared.id, userId, role: 'OWNER' },
+      })
+      const task = await projectsTestHelpers.createTestTask(shared.id, other.id)
+      await prisma.task.update({
+        where: { id: task.id },
+        data: { deletedAt: new Date() },
+      })
+
+      const response = await request(app)
+        .get('/api/v1/trash?type=task')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(response.body.data.tasks).toEqual([
+        expect.objectContaining({ id: task.id }),
+      ])
+    })
+  })
+
+  describe('POST /api/v1/projects/:id/restore', () => {
+    it('should restore the tasks deleted along with the project', async () => {
+      const earlier = await projectsTestHelpers.createTestTask(
+        projectId,
+        userId,
+        { uuid: 'earlier-task-uuid', title: 'Deleted earlier' },
+      )
+      await deleteTask(earlier.id)
+      await projectsTestHelpers.createTestTask(projectId, userId, {
+        uuid: 'live-task-uuid',
+        title: 'Live task',
+      })
+      await deleteProject(projectId)
+
+      await request(app)
+        .post(`/api/v1/projects/${projectId}/restore`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      const tasks = await prisma.task.findMany({
+        where: { projectId },
+        orderBy: { title: 'asc' },
+      })
+      expect(tasks.map((task) => [task.title, task.deletedAt])).toEqual([
+        ['Deleted earlier', expect.any(Date)],
+        ['Live task', null],
+      ])
+    })
+
+    it('should return 404 for a project that is not deleted', async () => {
+      await request(app)
+        .post(`/api/v1/projects/${projectId}/restore`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(404)
+    })
+  })
+
+  describe('POST /api/v1/tasks/:id/restore', () => {
+    it('should restore a task with its subtasks', async () => {
+      const parent = await projectsTestHelpers.createTestTask(projectId, userId)
+      await prisma.task.create({
+        data: {
+          uuid: 'subtask-uuid',
+          projectId,
+          parentTaskId: parent.id,
+          title: 'Subtask',
+          userId,
+        },
+      })
+      await deleteTask(parent.id)
+
+      await request(app)
+        .post(`/api/v1/tasks/${parent.id}/restore`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(
+        await prisma.task.count({ where: { projectId, deletedAt: null } }),
+      ).toBe(2)
+    })
+
+    it('should require the project to be restored first', async () => {
+      const task = await projectsTestHelpers.createTestTask(projectId, userId)
+      await deleteProject(projectId)
+
+      await request(app)
+        .post(`/api/v1/tasks/${task.id}/restore`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(409)
+    })
+  })
+
+  describe('POST /api/v1/trash/purge', () => {
+    it('should permanently delete items past the retention period', async () => {
+      const old = await projectsTestHelpers.createTestTask(projectId, userId, {
+        uuid: 'old-task-uuid',
+        title: 'Old task',
+      })
+      const recent = await projectsTestHelpers.createTestTask(
+        projectId,
+        userId,
+        { uuid: 'recent-task-uuid', title: 'Recent task' },
+      )
+      await prisma.task.update({
+        where: { id: old.id },
+        data: { deletedAt: new Date(Date.now() - 10 * DAY_MS) },
+      })
+      await deleteTask(recent.id)
+
+      const response = await request(app)
+        .post('/api/v1/trash/purge')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ olderThanDays: 7 })
+        .expect(200)
+
+      expect(response.body.data.tasks).toBe(1)
+      expect(await prisma.task.findUnique({ where: { id: old.id } })).toBeNull()
+      expect(
+        await prisma.task.findUnique({ where: { id: recent.id } }),
+      ).not.toBeNull()
+    })
+
+    it('should only let admins purge', async () => {
+      await request(app)
+        .post('/api/v1/trash/purge')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({})
+        .expect(403)
+    })
+  })
+})
@@ -22,6 +22,19 @@ export const testSuiteInfo = {
     'tasks.security.test.ts',
     'tasks.edge-cases.test.ts',
     'tasks.search.test.ts',
+    'tasks.dependencies.test.ts',
+    'tasks.workflow.test.ts',
+    'tasks.time-tracking.test.ts',
+    'tasks.scheduling.test.ts',
+    'tasks.checklist.test.ts',
+    'tasks.recurrence.test.ts',
+    'tasks.comments.test.ts',
+    'tasks.bulk.test.ts',
+    'tasks.assignment.test.ts',
+    'tasks.ranking.test.ts',
+    'tasks.tags.test.ts',
+    'tasks.transfer.test.ts',
+    'tasks.membership.test.ts',
   ],
   helpers: ['tasks.helpers.ts'],
   coverage: {
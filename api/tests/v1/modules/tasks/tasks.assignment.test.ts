@@ -0,0 +1,157 @@
+import request from 'supertest'
+import createApp from '../../../../src/app'
+import { TaskStatus } from '@prisma/client'
+import { tasksTestHelpers, prisma } from './tasks.helpers'
+
+const app = createApp()
+
+describe('Task Assignment', () => {
+  let authToken: string
+  let userId: number
+  let adminId: number
+  let projectId: number
+
+  beforeEach(async () => {
+    await tasksTestHelpers.cleanupDatabase()
+
+    const testData = await tasksTestHelpers.setupTestData()
+    authToken = testData.authToken
+    userId = testData.user.id
+    adminId = testData.admin.id
+    projectId = testData.project.id
+  })
+
+  afterAll(async () => {
+    await tasksTestHelpers.cleanupDatabase()
+    await tasksTestHelpers.disconnectDatabase()
+  })
+
+  describe('Creating tasks', () => {
+    it('should assign to another user and record the assignment', async () => {
+      const response = await request(app)
+        .post('/api/v1/tasks')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ title: 'Delegated', projectId, assigneeId: adminId })
+        .expect(201)
+
+      expect(response.body.data.userId).toBe(adminId)
+      expect(response.body.data.creatorId).toBe(userId)
+
+      const history = await request(app)
+        .get(`/api/v1/tasks/${response.body.data.id}/assignments`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(history.body.data).toHaveLength(1)
+      expect(history.body.data[0]).toMatchObject({
+        fromUserId: null,
+        toUserId: adminId,
+        assignedById: userId,
+      })
+    })
+
+    it('should create unassigned tasks and filter them', async () => {
+      const response = await request(app)
+        .post('/api/v1/tasks')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ title: 'Up for grabs', projectId, assigneeId: null })
+        .expect(201)
+
+      expect(response.body.data.userId).toBeNull()
+
+      const list = await request(app)
+        .get('/api/v1/tasks')
+        .query({ unassigned: 'true' })
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(
+        list.body.data.tasks.map((task: { id: number }) => task.id),
+      ).toEqual([response.body.data.id])
+    })
+
+    it('should reject assignees without access to the project', async () => {
+      const outsider = await tasksTestHelpers.createTestUser()
+
+      await request(app)
+        .post('/api/v1/tasks')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ title: 'Nope', projectId, assigneeId: outsider.id })
+        .expect(400)
+    })
+  })
+
+  describe('Assignees versus creators', () => {
+    let assigneeToken: string
+    let taskId: number
+
+    beforeEach(async () => {
+      const assignee = await tasksTestHelpers.createTestUser()
+      assigneeToken = tasksTestHelpers.generateAuthToken(assignee)
+
+      const task = await tasksTestHelpers.createTestTask(
+        projectId,
+        assignee.id,
+        { creatorId: userId, status: TaskStatus.TODO },
+      )
+      taskId = task.id
+    })
+
+    it('should let the assignee view and work on the task', async () => {
+      await request(app)
+        .get(`/api/v1/tasks/${taskId}`)
+        .set('Authorization', `Bearer ${assigneeToken}`)
+        .expect(200)
+
+      await request(app)
+        .put(`/api/v1/tasks/${taskId}`)
+        .set('Authorization', `Bearer ${assigneeToken}`)
+        .send({ status: TaskStatus.WIP })
+        .expect(200)
+    })
+
+    it('should leave reassigning and deleting to the creator', async () => {
+      await request(app)
+        .put(`/api/v1/tasks/${taskId}`)
+        .set('Authorization', `Bearer ${assigneeToken}`)
+        .send({ assigneeId: null })
+        .expect(403)
+
+      await request(app)
+        .delete(`/api/v1/tasks/${taskId}`)
+        .set('Authorization', `Bearer ${assigneeToken}`)
+        .expect(403)
+
+      await request(app)
+        .put(`/api/v1/tasks/${taskId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ assigneeId: userId })
+        .expect(200)
+
+      const history = await prisma.taskAssignment.findMany({
+        where: { taskId },
+      })
+      expect(history).toHaveLength(1)
+      expect(history[0].toUserId).toBe(userId)
+    })
+
+    it('should split user tasks into created and assigned', async () => {
+      const created = await request(app)
+        .get(`/api/v1/tasks/user/${userId}`)
+        .query({ relation: 'created' })
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      const assigned = await request(app)
+        .get(`/api/v1/tasks/user/${userId}`)
+        .query({ relation: 'assigned' })
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(
+        created.body.data.tasks.map((task: { id: number }) => task.id),
+      ).toEqual([taskId])
+      expect(assigned.body.data.tasks).toHaveLength(0)
+    })
+  })
+})
@@ -0,0 +1,186 @@
+import request from 'supertest'
+import createApp from '../../../../src/app'
+import { TaskStatus } from '@prisma/client'
+import { tasksTestHelpers, prisma } from './tasks.helpers'
+
+const app = createApp()
+
+describe('Bulk Task Operations', () => {
+  let authToken: string
+  let userId: number
+  let projectId: number
+
+  beforeEach(async () => {
+    await tasksTestHelpers.cleanupDatabase()
+
+    const testData = await tasksTestHelpers.setupTestData()
+    authToken = testData.authToken
+    userId = testData.user.id
+    projectId = testData.project.id
+  })
+
+  afterAll(async () => {
+    await tasksTestHelpers.cleanupDatabase()
+    await tasksTestHelpers.disconnectDatabase()
+  })
+
+  it('should change status by ids and report each task', async () => {
+    const first = await tasksTestHelpers.createTestTask(projectId, userId, {
+      title: 'First',
+      status: TaskStatus.TODO,
+    })
+    const second = await tasksTestHelpers.createTestTask(projectId, userId, {
+      title: 'Second',
+      status: TaskStatus.TODO,
+    })
+
+    const response = await request(app)
+      .post('/api/v1/tasks/bulk')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({
+        taskIds: [first.id, second.id, 999999],
+        operation: { type: 'status', status: TaskStatus.WIP },
+      })
+      .expect(200)
+
+    expect(response.body.data.succeeded).toBe(2)
+    expect(response.body.data.failed).toBe(1)
+    expect(response.body.data.results[2]).toMatchObject({
+      taskId: 999999,
+      success: false,
+      statusCode: 404,
+    })
+
+    const updated = await prisma.task.findMany({
+      where: { id: { in: [first.id, second.id] } },
+    })
+    expect(updated.every((task) => task.status === TaskStatus.WIP)).toBe(true)
+  })
+
+  it('should not change anything in a dry run', async () => {
+    const task = await tasksTestHelpers.createTestTask(projectId, userId)
+
+    const response = await request(app)
+      .post('/api/v1/tasks/bulk')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({
+        taskIds: [task.id],
+        operation: { type: 'delete' },
+        dryRun: true,
+      })
+      .expect(200)
+
+    expect(response.body.data.dryRun).toBe(true)
+    expect(response.body.data.succeeded).toBe(1)
+
+    const stored = await prisma.task.findUnique({ where: { id: task.id } })
+    expect(stored?.deletedAt).toBeNull()
+  })
+
+  it('should target tasks by filter', async () => {
+    await tasksTestHelpers.createTestTask(projectId, userId, {
+      title: 'Old backlog',
+      status: TaskStatus.BACKLOG,
+    })
+    const done = await tasksTestHelpers.createTestTask(projectId, userId, {
+      title: 'Finished',
+      status: TaskStatus.DONE,
+    })
+
+    const response = await request(app)
+      .post('/api/v1/tasks/bulk')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({
+        filter: { projectId, status: TaskStatus.BACKLOG },
+        operation: { type: 'delete' },
+      })
+      .expect(200)
+
+    expect(response.body.data.matched).toBe(1)
+
+    const remaining = await prisma.task.findMany({
+      where: { projectId, deletedAt: null },
+    })
+    expect(remaining.map((task) => task.id)).toEqual([done.id])
+  })
+
+  it('should reject tasks the user cannot modify', async () => {
+    const other = await tasksTestHelpers.createTestUser()
+    const otherProject = await tasksTestHelpers.createTestProject(other.id)
+    const task = await tasksTestHelpers.createTestTask(
+      otherProject.id,
+      other.id,
+    )
+
+    const response = await request(app)
+      .post('/api/v1/tasks/bulk')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ taskIds: [task.id], operation: { type: 'delete' } })
+      .expect(200)
+
+    expect(response.body.data.results[0]).toMatchObject({
+      success: false,
+      statusCode: 403,
+    })
+  })
+
+  it('should enforce WIP limits across the whole batch', async () => {
+    await prisma.projectWorkflow.create({
+      data: { projectId, wipLimit: 1 },
+    })
+    const tasks = await Promise.all(
+      ['One', 'Two'].map((title) =>
+        tasksTestHelpers.createTestTask(projectId, userId, {
+          title,
+          status: TaskStatus.TODO,
+        }),
+      ),
+    )
+
+    const response = await request(app)
+      .post('/api/v1/tasks/bulk')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({
+        taskIds: tasks.map((task) => task.id),
+        operation: { type: 'status', status: TaskStatus.WIP },
+      })
+      .expect(200)
+
+    expect(response.body.data.succeeded).toBe(1)
+    expect(response.body.data.results[1].statusCode).toBe(409)
+  })
+
+  it('should take moved tasks out of their milestone', async () => {
+    const milestone = await prisma.milestone.create({
+      data: { projectId, title: 'Launch', targetDate: new Date('2030-01-01') },
+    })
+    const task = await prisma.task.create({
+      data: { title: 'Planned', projectId, userId, milestoneId: milestone.id },
+    })
+    const target = await tasksTestHelpers.createTestProject(userId, {
+      title: 'Target Project',
+    })
+
+    await request(app)
+      .post('/api/v1/tasks/bulk')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({
+        taskIds: [task.id],
+        operation: { type: 'move', projectId: target.id },
+      })
+      .expect(200)
+
+    const moved = await prisma.task.findUniqueOrThrow({
+      where: { id: task.id },
+    })
+    expect(moved).toMatchObject({ projectId: target.id, milestoneId: null })
+  })
+
+  it('should require exactly one of taskIds or filter', async () => {
+    await request(app)
+      .post('/api/v1/tasks/bulk')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ operation: { type: 'delete' } })
+      .expect(400)
+  })
+})
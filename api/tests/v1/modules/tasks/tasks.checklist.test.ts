@@ -0,0 +1,195 @@
+import request from 'supertest'
+import createApp from '../../../../src/app'
+import { TaskStatus } from '@prisma/client'
+import { tasksTestHelpers, prisma } from './tasks.helpers'
+
+const app = createApp()
+
+describe('Tasks Checklists and Subtasks', () => {
+  let authToken: string
+  let userId: number
+  let projectId: number
+
+  beforeEach(async () => {
+    await tasksTestHelpers.cleanupDatabase()
+
+    const testData = await tasksTestHelpers.setupTestData()
+    authToken = testData.authToken
+    userId = testData.user.id
+    projectId = testData.project.id
+  })
+
+  afterAll(async () => {
+    await tasksTestHelpers.cleanupDatabase()
+    await tasksTestHelpers.disconnectDatabase()
+  })
+
+  describe('Checklist import', () => {
+    it('should import markdown checkboxes from definitionOfDone once', async () => {
+      const task = await tasksTestHelpers.createTestTask(projectId, userId, {
+        definitionOfDone: [
+          'Ship it when:',
+          '- [ ] Tests pass',
+          '- [x] Reviewed',
+          '* [ ] Docs updated',
+        ].join('\n'),
+      })
+
+      const first = await request(app)
+        .get(`/api/v1/tasks/${task.id}/checklist`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(
+        first.body.data.map((item: { title: string }) => item.title),
+      ).toEqual(['Tests pass', 'Reviewed', 'Docs updated'])
+      expect(first.body.data[1].isChecked).toBe(true)
+
+      await request(app)
+        .get(`/api/v1/tasks/${task.id}/checklist`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(
+        await prisma.taskChecklistItem.count({ where: { taskId: task.id } }),
+      ).toBe(3)
+    })
+
+    it('should report completion on task responses', async () => {
+      const response = await request(app)
+        .post('/api/v1/tasks')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          title: 'Checklist task',
+          projectId,
+          definitionOfDone: '- [x] Designed\n- [ ] Built',
+        })
+        .expect(201)
+
+      expect(response.body.data.completion).toBe(50)
+    })
+  })
+
+  describe('Checklist items', () => {
+    it('should block DONE until required items are checked', async () => {
+      const task = await tasksTestHelpers.createTestTask(projectId, userId, {
+        status: TaskStatus.WIP,
+      })
+
+      const required = await request(app)
+        .post(`/api/v1/tasks/${task.id}/checklist`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ title: 'Write tests' })
+        .expect(201)
+      await request(app)
+        .post(`/api/v1/tasks/${task.id}/checklist`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ title: 'Nice to have', isRequired: false })
+        .expect(201)
+
+      const blocked = await request(app)
+        .put(`/api/v1/tasks/${task.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ status: TaskStatus.DONE })
+        .expect(409)
+      expect(blocked.body.message).toContain('checklist')
+
+      await request(app)
+        .put(`/api/v1/tasks/${task.id}/checklist/${required.body.data.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ isChecked: true })
+        .expect(200)
+
+      await request(app)
+        .put(`/api/v1/tasks/${task.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ status: TaskStatus.DONE })
+        .expect(200)
+    })
+
+    it('should reorder items', async () => {
+      const task = await tasksTestHelpers.createTestTask(projectId, userId)
+      const ids: number[] = []
+      for (const title of ['First', 'Second', 'Third']) {
+        const response = await request(app)
+          .post(`/api/v1/tasks/${task.id}/checklist`)
+          .set('Authorization', `Bearer ${authToken}`)
+          .send({ title })
+          .expect(201)
+        ids.push(response.body.data.id)
+      }
+
+      const response = await request(app)
+        .put(`/api/v1/tasks/${task.id}/checklist/order`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ itemIds: [ids[2], ids[0], ids[1]] })
+        .expect(200)
+
+      expect(
+        response.body.data.map((item: { title: string }) => item.title),
+      ).toEqual(['Third', 'First', 'Second'])
+
+      await request(app)
+        .put(`/api/v1/tasks/${task.id}/checklist/order`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ itemIds: [ids[0]] })
+        .expect(400)
+    })
+  })
+
+  describe('Subtasks', () => {
+    it('should create subtasks one level deep', async () => {
+      const parent = await tasksTestHelpers.createTestTask(projectId, userId)
+
+      const subtask = await request(app)
+        .post(`/api/v1/tasks/${parent.id}/subtasks`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ title: 'Child task' })
+        .expect(201)
+
+      expect(subtask.body.data.parentTaskId).toBe(parent.id)
+      expect(subtask.body.data.projectId).toBe(projectId)
+
+      await request(app)
+        .post(`/api/v1/tasks/${subtask.body.data.id}/subtasks`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ title: 'Grandchild task' })
+        .expect(400)
+
+      const list = await request(app)
+        .get(`/api/v1/tasks/${parent.id}/subtasks`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(list.body.data.tasks).toHaveLength(1)
+    })
+
+    it('should count DONE subtasks towards parent completion', async () => {
+      const parent = await tasksTestHelpers.createTestTask(projectId, userId)
+      await prisma.task.create({
+        data: {
+          title: 'Done child',
+          status: TaskStatus.DONE,
+          projectId,
+          userId,
+          parentTaskId: parent.id,
+        },
+      })
+      await prisma.task.create({
+        data: {
+          title: 'Open child',
+          projectId,
+          userId,
+          parentTaskId: parent.id,
+        },
+      })
+
+      const response = await request(app)
+        .get(`/api/v1/tasks/${parent.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(response.body.data.completion).toBe(50)
+    })
+  })
+})
@@ -0,0 +1,216 @@
+import request from 'supertest'
+import createApp from '../../../../src/app'
+import { tasksTestHelpers, prisma } from './tasks.helpers'
+
+const app = createApp()
+
+describe('Task Comments', () => {
+  let authToken: string
+  let adminToken: string
+  let userId: number
+  let adminId: number
+  let projectId: number
+  let taskId: number
+
+  beforeEach(async () => {
+    await tasksTestHelpers.cleanupDatabase()
+
+    const testData = await tasksTestHelpers.setupTestData()
+    authToken = testData.authToken
+    adminToken = testData.adminToken
+    userId = testData.user.id
+    adminId = testData.admin.id
+    projectId = testData.project.id
+
+    const task = await tasksTestHelpers.createTestTask(projectId, userId)
+    taskId = task.id
+  })
+
+  afterAll(async () => {
+    await tasksTestHelpers.cleanupDatabase()
+    await tasksTestHelpers.disconnectDatabase()
+  })
+
+  describe('Threads', () => {
+    it('should nest replies under top-level comments', async () => {
+      const parent = await request(app)
+        .post(`/api/v1/tasks/${taskId}/comments`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ body: 'First!' })
+        .expect(201)
+
+      const reply = await request(app)
+        .post(`/api/v1/tasks/${taskId}/comments`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ body: 'Reply', parentCommentId: parent.body.data.id })
+        .expect(201)
+
+      await request(app)
+        .post(`/api/v1/tasks/${taskId}/comments`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ body: 'Too deep', parentCommentId: reply.body.data.id })
+        .expect(400)
+
+      const thread = await request(app)
+        .get(`/api/v1/tasks/${taskId}/comments`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(thread.body.data).toHaveLength(1)
+      expect(thread.body.data[0].replies).toHaveLength(1)
+      expect(thread.body.data[0].replies[0].body).toBe('Reply')
+    })
+
+    it('should reject comments from users who cannot access the task', async () => {
+      const outsider = await tasksTestHelpers.createTestUser()
+      const outsiderToken = tasksTestHelpers.generateAuthToken(outsider)
+
+      await request(app)
+        .post(`/api/v1/tasks/${taskId}/comments`)
+        .set('Authorization', `Bearer ${outsiderToken}`)
+        .send({ body: 'Let me in' })
+        .expect(403)
+    })
+
+    it('should include comment counts in task lists', async () => {
+      await request(app)
+        .post(`/api/v1/tasks/${taskId}/comments`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ body: 'One' })
+        .expect(201)
+
+      const response = await request(app)
+        .get('/api/v1/tasks')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(response.body.data.tasks[0].commentCount).toBe(1)
+    })
+  })
+
+  describe('Editing and deleting', () => {
+    it('should let only the author edit and stamp editedAt', async () => {
+      const comment = await request(app)
+        .post(`/api/v1/tasks/${taskId}/comments`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ body: 'Draft' })
+        .expect(201)
+
+      await request(app)
+        .put(`/api/v1/tasks/${taskId}/comments/${comment.body.data.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ body: 'Hijacked' })
+        .expect(403)
+
+      const edited = await request(app)
+        .put(`/api/v1/tasks/${taskId}/comments/${comment.body.data.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ body: 'Final' })
+        .expect(200)
+
+      expect(edited.body.data.body).toBe('Final')
+      expect(edited.body.data.editedAt).not.toBeNull()
+    })
+
+    it('should soft delete and keep a placeholder while replies remain', async () => {
+      const parent = await request(app)
+        .post(`/api/v1/tasks/${taskId}/comments`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ body: 'Parent' })
+        .expect(201)
+
+      await request(app)
+        .post(`/api/v1/tasks/${taskId}/comments`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ body: 'Child', parentCommentId: parent.body.data.id })
+        .expect(201)
+
+      await request(app)
+        .delete(`/api/v1/tasks/${taskId}/comments/${parent.body.data.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      const stored = await prisma.taskComment.findUnique({
+        where: { id: parent.body.data.id },
+      })
+      expect(stored?.deletedAt).not.toBeNull()
+
+      const thread = await request(app)
+        .get(`/api/v1/tasks/${taskId}/comments`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(thread.body.data[0].body).toBeNull()
+      expect(thread.body.data[0].replies[0].body).toBe('Child')
+    })
+  })
+
+  describe('Mentions', () => {
+    it('should notify mentioned users who can access the task', async () => {
+      const outsider = await tasksTestHelpers.createTestUser({
+        name: 'Outsider',
+      })
+
+      const response = await request(app)
+        .post(`/api/v1/tasks/${taskId}/comments`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ body: 'Ping @"admin user" and @Outsider' })
+        .expect(201)
+
+      expect(
+        response.body.data.mentions.map((user: { id: number }) => user.id),
+      ).toEqual([adminId])
+
+      const notifications = await request(app)
+        .get('/api/v1/notifications')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200)
+
+      expect(notifications.body.data.notifications).toHaveLength(1)
+      expect(notifications.body.data.notifications[0].type).toBe('MENTION')
+      expect(
+        await prisma.notification.count({ where: { userId: outsider.id } }),
+      ).toBe(0)
+    })
+
+    it('should respect disabled mention notifications', async () => {
+      await prisma.profile.create({
+        data: {
+          userId: adminId,
+          notifications: {
+            email: { mentions: false },
+            push: { mentions: false },
+          },
+        },
+      })
+
+      await request(app)
+        .post(`/api/v1/tasks/${taskId}/comments`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ body: 'Ping @"Admin User"' })
+        .expect(201)
+
+      expect(
+        await prisma.notification.count({ where: { userId: adminId } }),
+      ).toBe(0)
+    })
+
+    it('should only notify users newly mentioned by an edit', async () => {
+      const comment = await request(app)
+        .post(`/api/v1/tasks/${taskId}/comments`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ body: 'Ping @"Admin User"' })
+        .expect(201)
+
+      await request(app)
+        .put(`/api/v1/tasks/${taskId}/comments/${comment.body.data.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ body: 'Ping again @"Admin User"' })
+        .expect(200)
+
+      expect(
+        await prisma.notification.count({ where: { userId: adminId } }),
+      ).toBe(1)
+    })
+  })
+})
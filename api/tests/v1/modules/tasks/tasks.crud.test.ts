@@ -367,6 +367,12 @@ describe('Tasks CRUD Operations', () => {
     })
 
     it('should partially update task', async () => {
+      // The default workflow only allows DONE from WIP
+      await prisma.task.update({
+        where: { id: taskId },
+        data: { status: TaskStatus.WIP },
+      })
+
       const updateData = {
         status: TaskStatus.DONE,
         endedAt: new Date().toISOString(),
@@ -468,6 +474,28 @@ describe('Tasks CRUD Operations', () => {
       })
     })
 
+    it('should include tasks assigned to other members', async () => {
+      const member = await tasksTestHelpers.createTestUser()
+      await prisma.projectMember.create({
+        data: { projectId, userId: member.id, role: 'EDITOR' },
+      })
+      const delegated = await tasksTestHelpers.createTestTask(
+        projectId,
+        member.id,
+        { title: 'Delegated' },
+      )
+
+      const response = await request(app)
+        .get(`/api/v1/tasks/project/${projectId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(response.body.data.tasks).toHaveLength(4)
+      expect(
+        response.body.data.tasks.map((task: TaskResponse) => task.id),
+      ).toContain(delegated.id)
+    })
+
     it('should fail with invalid project ID', async () => {
       await request(app)
         .get('/api/v1/tasks/project/invalid')
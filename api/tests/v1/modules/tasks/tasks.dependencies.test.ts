@@ -0,0 +1,221 @@
+import request from 'supertest'
+import createApp from '../../../../src/app'
+import { TaskStatus } from '@prisma/client'
+import { tasksTestHelpers, prisma } from './tasks.helpers'
+
+const app = createApp()
+
+describe('Tasks Dependencies', () => {
+  let authToken: string
+  let userId: number
+  let projectId: number
+
+  beforeEach(async () => {
+    await tasksTestHelpers.cleanupDatabase()
+
+    const testData = await tasksTestHelpers.setupTestData()
+    authToken = testData.authToken
+    userId = testData.user.id
+    projectId = testData.project.id
+  })
+
+  afterAll(async () => {
+    await tasksTestHelpers.cleanupDatabase()
+    await tasksTestHelpers.disconnectDatabase()
+  })
+
+  const addBlocker = (taskId: number, blockerId: number) =>
+    request(app)
+      .post(`/api/v1/tasks/${taskId}/dependencies`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ taskId: blockerId, relation: 'BLOCKED_BY' })
+
+  describe('POST /api/v1/tasks/:id/dependencies', () => {
+    it('should record a blocked-by relation on both tasks', async () => {
+      const blocker = await tasksTestHelpers.createTestTask(projectId, userId, {
+        title: 'Blocker',
+      })
+      const blocked = await tasksTestHelpers.createTestTask(projectId, userId, {
+        title: 'Blocked',
+      })
+
+      const response = await addBlocker(blocked.id, blocker.id).expect(201)
+
+      expect(response.body.success).toBe(true)
+      expect(response.body.data.blockedBy).toEqual([
+        expect.objectContaining({ id: blocker.id }),
+      ])
+
+      const reverse = await request(app)
+        .get(`/api/v1/tasks/${blocker.id}/dependencies`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(reverse.body.data.blocks).toEqual([
+        expect.objectContaining({ id: blocked.id }),
+      ])
+    })
+
+    it('should reject a self dependency', async () => {
+      const task = await tasksTestHelpers.createTestTask(projectId, userId)
+
+      await addBlocker(task.id, task.id).expect(400)
+    })
+
+    it('should reject a dependency that closes a cycle', async () => {
+      const a = await tasksTestHelpers.createTestTask(projectId, userId, {
+        title: 'A',
+      })
+      const b = await tasksTestHelpers.createTestTask(projectId, userId, {
+        title: 'B',
+      })
+      const c = await tasksTestHelpers.createTestTask(projectId, userId, {
+        title: 'C',
+      })
+
+      await addBlocker(b.id, a.id).expect(201)
+      await addBlocker(c.id, b.id).expect(201)
+
+      const response = await addBlocker(a.id, c.id).expect(409)
+      expect(response.body.message).toContain('cycle')
+    })
+
+    it('should reject a duplicate dependency', async () => {
+      const blocker = await tasksTestHelpers.createTestTask(projectId, userId, {
+        title: 'Blocker',
+      })
+      const blocked = await tasksTestHelpers.createTestTask(projectId, userId, {
+        title: 'Blocked',
+      })
+
+      await addBlocker(blocked.id, blocker.id).expect(201)
+      await addBlocker(blocked.id, blocker.id).expect(409)
+    })
+  })
+
+  describe('DELETE /api/v1/tasks/:id/dependencies/:relatedTaskId', () => {
+    it('should remove an existing edge', async () => {
+      const blocker = await tasksTestHelpers.createTestTask(projectId, userId, {
+        title: 'Blocker',
+      })
+      const blocked = await tasksTestHelpers.createTestTask(projectId, userId, {
+        title: 'Blocked',
+      })
+      await addBlocker(blocked.id, blocker.id).expect(201)
+
+      const response = await request(app)
+        .delete(`/api/v1/tasks/${blocked.id}/dependencies/${blocker.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(response.body.data.blockedBy).toHaveLength(0)
+    })
+  })
+
+  describe('Automatic unblocking', () => {
+    it('should move a task out of BLOCKED when all blockers are DONE', async () => {
+      const first = await tasksTestHelpers.createTestTask(projectId, userId, {
+        title: 'First blocker',
+        status: TaskStatus.WIP,
+      })
+      const second = await tasksTestHelpers.createTestTask(projectId, userId, {
+        title: 'Second blocker',
+        status: TaskStatus.WIP,
+      })
+      const blocked = await tasksTestHelpers.createTestTask(projectId, userId, {
+        title: 'Blocked',
+        status: TaskStatus.BLOCKED,
+      })
+      await addBlocker(blocked.id, first.id).expect(201)
+      await addBlocker(blocked.id, second.id).expect(201)
+
+      await request(app)
+        .put(`/api/v1/tasks/${first.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ status: TaskStatus.DONE })
+        .expect(200)
+
+      let reloaded = await prisma.task.findUnique({ where: { id: blocked.id } })
+      expect(reloaded?.status).toBe(TaskStatus.BLOCKED)
+
+      await request(app)
+        .put(`/api/v1/tasks/${second.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ status: TaskStatus.DONE })
+        .expect(200)
+
+      reloaded = await prisma.task.findUnique({ where: { id: blocked.id } })
+      expect(reloaded?.status).toBe(TaskStatus.TODO)
+    })
+  })
+
+  describe('GET /api/v1/tasks/project/:projectId/dependency-graph', () => {
+    it('should return nodes, edges and the critical path', async () => {
+      const a = await tasksTestHelpers.createTestTask(projectId, userId, {
+        title: 'A',
+      })
+      const b = await tasksTestHelpers.createTestTask(projectId, userId, {
+        title: 'B',
+      })
+      const c = await tasksTestHelpers.createTestTask(projectId, userId, {
+        title: 'C',
+      })
+      await tasksTestHelpers.createTestTask(projectId, userId, { title: 'D' })
+
+      await addBlocker(b.id, a.id).expect(201)
+      await addBlocker(c.id, b.id).expect(201)
+
+      const response = await request(app)
+        .get(`/api/v1/tasks/project/${projectId}/dependency-graph`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(response.body.data.nodes).toHaveLength(4)
+      expect(response.body.data.edges).toHaveLength(2)
+      expect(response.body.data.criticalPath.taskIds).toEqual([
+        a.id,
+        b.id,
+        c.id,
+      ])
+    })
+
+    it('should only show external tasks the user can access by id', async () => {
+      const other = await tasksTestHelpers.createTestUser()
+      const hiddenProject = await tasksTestHelpers.createTestProject(other.id)
+      const hidden = await tasksTestHelpers.createTestTask(
+        hiddenProject.id,
+        other.id,
+        { title: 'Secret' },
+      )
+      const ownProject = await tasksTestHelpers.createTestProject(userId, {
+        title: 'Own Project',
+      })
+      const shared = await tasksTestHelpers.createTestTask(
+        ownProject.id,
+        userId,
+        { title: 'Shared' },
+      )
+      const task = await tasksTestHelpers.createTestTask(projectId, userId)
+      await prisma.taskDependency.createMany({
+        data: [
+          { blockerTaskId: hidden.id, blockedTaskId: task.id },
+          { blockerTaskId: shared.id, blockedTaskId: task.id },
+        ],
+      })
+
+      const response = await request(app)
+        .get(`/api/v1/tasks/project/${projectId}/dependency-graph`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      const nodes = response.body.data.nodes
+      expect(
+        nodes.find((node: { id: number }) => node.id === hidden.id),
+      ).toEqual({ id: hidden.id, external: true, redacted: true })
+      expect(
+        nodes.find((node: { id: number }) => node.id === shared.id),
+      ).toMatchObject({ title: 'Shared', external: true })
+      expect(response.body.data.edges).toHaveLength(2)
+    })
+  })
+})
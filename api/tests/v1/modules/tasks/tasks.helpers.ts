@@ -80,10 +80,13 @@ export const tasksTestHelpers = {
       title?: string
       definitionOfDone?: string
       status?: TaskStatus
+      priority?: number
+      dueAt?: Date
       startedAt?: Date
       endedAt?: Date
       timeSpent?: number
       costInProjectCurrency?: number
+      creatorId?: number
     },
   ) {
     return prisma.task.create({
@@ -92,6 +95,8 @@ export const tasksTestHelpers = {
         definitionOfDone:
           overrides?.definitionOfDone || 'Test task definition of done',
         status: overrides?.status || TaskStatus.BACKLOG,
+        priority: overrides?.priority,
+        dueAt: overrides?.dueAt,
         startedAt: overrides?.startedAt,
         endedAt: overrides?.endedAt,
         timeSpent: overrides?.timeSpent
@@ -102,6 +107,7 @@ export const tasksTestHelpers = {
           : null,
         projectId,
         userId,
+        creatorId: overrides?.creatorId,
       },
     })
   },
@@ -0,0 +1,176 @@
+import request from 'supertest'
+import createApp from '../../../../src/app'
+import { NoteStatus, ProjectRole } from '@prisma/client'
+import { tasksTestHelpers, prisma } from './tasks.helpers'
+
+const app = createApp()
+
+describe('Project Membership', () => {
+  let ownerToken: string
+  let ownerId: number
+  let projectId: number
+  let memberToken: string
+  let memberId: number
+  let memberEmail: string
+
+  const addMember = (role: ProjectRole) =>
+    request(app)
+      .post(`/api/v1/projects/${projectId}/members`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ email: memberEmail, role })
+
+  beforeEach(async () => {
+    await tasksTestHelpers.cleanupDatabase()
+
+    const testData = await tasksTestHelpers.setupTestData()
+    ownerToken = testData.authToken
+    ownerId = testData.user.id
+    projectId = testData.project.id
+
+    const member = await tasksTestHelpers.createTestUser()
+    memberToken = tasksTestHelpers.generateAuthToken(member)
+    memberId = member.id
+    memberEmail = member.email
+  })
+
+  afterAll(async () => {
+    await tasksTestHelpers.cleanupDatabase()
+    await tasksTestHelpers.disconnectDatabase()
+  })
+
+  describe('POST /api/v1/projects/:id/members', () => {
+    it('should add a member by email and notify them', async () => {
+      const response = await addMember(ProjectRole.EDITOR).expect(201)
+
+      expect(response.body.data).toMatchObject({
+        projectId,
+        userId: memberId,
+        role: ProjectRole.EDITOR,
+        invitedById: ownerId,
+      })
+
+      const notification = await prisma.notification.findFirst({
+        where: { userId: memberId, type: 'PROJECT_INVITE' },
+      })
+      expect(notification).not.toBeNull()
+    })
+
+    it('should reject a user who is already a member', async () => {
+      await addMember(ProjectRole.VIEWER).expect(201)
+      await addMember(ProjectRole.EDITOR).expect(409)
+    })
+
+    it('should not let members manage other members', async () => {
+      await addMember(ProjectRole.EDITOR).expect(201)
+      const other = await tasksTestHelpers.createTestUser()
+
+      await request(app)
+        .post(`/api/v1/projects/${projectId}/members`)
+        .set('Authorization', `Bearer ${memberToken}`)
+        .send({ userId: other.id })
+        .expect(403)
+    })
+  })
+
+  describe('member access', () => {
+    it('should list shared projects for members', async () => {
+      await addMember(ProjectRole.VIEWER).expect(201)
+
+      const response = await request(app)
+        .get('/api/v1/projects')
+        .set('Authorization', `Bearer ${memberToken}`)
+        .expect(200)
+
+      expect(response.body.data.projects.map((p: any) => p.id)).toContain(
+        projectId,
+      )
+    })
+
+    it('should let viewers read tasks but not change them', async () => {
+      await addMember(ProjectRole.VIEWER).expect(201)
+      const task = await tasksTestHelpers.createTestTask(projectId, ownerId)
+
+      await request(app)
+        .get(`/api/v1/tasks/${task.id}`)
+        .set('Authorization', `Bearer ${memberToken}`)
+        .expect(200)
+
+      await request(app)
+        .put(`/api/v1/tasks/${task.id}`)
+        .set('Authorization', `Bearer ${memberToken}`)
+        .send({ title: 'Renamed' })
+        .expect(403)
+
+      await request(app)
+        .post('/api/v1/tasks')
+        .set('Authorization', `Bearer ${memberToken}`)
+        .send(tasksTestHelpers.generateValidTaskData(projectId))
+        .expect(404)
+    })
+
+    it('should let editors create and update tasks', async () => {
+      await addMember(ProjectRole.EDITOR).expect(201)
+      const task = await tasksTestHelpers.createTestTask(projectId, ownerId)
+
+      await request(app)
+        .post('/api/v1/tasks')
+        .set('Authorization', `Bearer ${memberToken}`)
+        .send(tasksTestHelpers.generateValidTaskData(projectId))
+        .expect(201)
+
+      await request(app)
+        .put(`/api/v1/tasks/${task.id}`)
+        .set('Authorization', `Bearer ${memberToken}`)
+        .send({ title: 'Renamed' })
+        .expect(200)
+    })
+
+    it('should share published notes but not drafts', async () => {
+      await addMember(ProjectRole.VIEWER).expect(201)
+      const published = await tasksTestHelpers.createTestNote(
+        projectId,
+        ownerId,
+        { status: NoteStatus.PUBLISHED },
+      )
+      await tasksTestHelpers.createTestNote(projectId, ownerId)
+
+      const response = await request(app)
+        .get('/api/v1/notes')
+        .set('Authorization', `Bearer ${memberToken}`)
+        .expect(200)
+
+      expect(response.body.data.notes.map((n: any) => n.id)).toEqual([
+        published.id,
+      ])
+    })
+  })
+
+  describe('PUT and DELETE /api/v1/projects/:id/members/:userId', () => {
+    it('should change a member role', async () => {
+      await addMember(ProjectRole.VIEWER).expect(201)
+
+      const response = await request(app)
+        .put(`/api/v1/projects/${projectId}/members/${memberId}`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ role: ProjectRole.EDITOR })
+        .expect(200)
+
+      expect(response.body.data.role).toBe(ProjectRole.EDITOR)
+    })
+
+    it('should let a member leave and revoke their access', async () => {
+      await addMember(ProjectRole.VIEWER).expect(201)
+      const task = await tasksTestHelpers.createTestTask(projectId, ownerId)
+
+      await request(app)
+        .delete(`/api/v1/projects/${projectId}/members/${memberId}`)
+        .set('Authorization', `Bearer ${memberToken}`)
+        .expect(200)
+
+      await request(app)
+        .get(`/api/v1/tasks/${task.id}`)
+        .set('Authorization', `Bearer ${memberToken}`)
+        .expect(404)
+    })
+  })
+})
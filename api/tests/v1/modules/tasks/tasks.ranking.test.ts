@@ -0,0 +1,155 @@
+import request from 'supertest'
+import createApp from '../../../../src/app'
+import { TaskStatus } from '@prisma/client'
+import { tasksTestHelpers, prisma } from './tasks.helpers'
+
+const app = createApp()
+
+describe('Task Ranking', () => {
+  let authToken: string
+  let userId: number
+  let projectId: number
+  let taskIds: number[]
+
+  const columnTitles = async (status: TaskStatus) => {
+    const response = await request(app)
+      .get(`/api/v1/tasks/project/${projectId}`)
+      .query({ status, sortBy: 'rank', sortOrder: 'asc' })
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200)
+
+    return response.body.data.tasks.map((task: { title: string }) => task.title)
+  }
+
+  beforeEach(async () => {
+    await tasksTestHelpers.cleanupDatabase()
+
+    const testData = await tasksTestHelpers.setupTestData()
+    authToken = testData.authToken
+    userId = testData.user.id
+    projectId = testData.project.id
+
+    taskIds = []
+    for (const title of ['A', 'B', 'C']) {
+      const task = await tasksTestHelpers.createTestTask(projectId, userId, {
+        title,
+        status: TaskStatus.TODO,
+      })
+      taskIds.push(task.id)
+    }
+  })
+
+  afterAll(async () => {
+    await tasksTestHelpers.cleanupDatabase()
+    await tasksTestHelpers.disconnectDatabase()
+  })
+
+  it('should place a task between two others', async () => {
+    const [a, b, c] = taskIds
+
+    const response = await request(app)
+      .put(`/api/v1/tasks/${c}/move`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ afterTaskId: a, beforeTaskId: b })
+      .expect(200)
+
+    expect(response.body.data.rank).toEqual(expect.any(String))
+    expect(await columnTitles(TaskStatus.TODO)).toEqual(['A', 'C', 'B'])
+  })
+
+  it('should move a task into another status column', async () => {
+    const [a] = taskIds
+
+    await request(app)
+      .put(`/api/v1/tasks/${a}/move`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ status: TaskStatus.WIP })
+      .expect(200)
+
+    expect(await columnTitles(TaskStatus.WIP)).toEqual(['A'])
+    expect(await columnTitles(TaskStatus.TODO)).toEqual(['B', 'C'])
+  })
+
+  it('should reject neighbours from another column', async () => {
+    const [a, b] = taskIds
+    await prisma.task.update({
+      where: { id: b },
+      data: { status: TaskStatus.WIP },
+    })
+
+    await request(app)
+      .put(`/api/v1/tasks/${a}/move`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ afterTaskId: b })
+      .expect(400)
+  })
+
+  it('should keep the status when the task cannot be placed', async () => {
+    const [a, b, c] = taskIds
+    await prisma.task.updateMany({
+      where: { id: { in: [b, c] } },
+      data: { status: TaskStatus.WIP },
+    })
+
+    // C comes after B, so nothing fits after C and before B
+    await request(app)
+      .put(`/api/v1/tasks/${a}/move`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ status: TaskStatus.WIP, afterTaskId: c, beforeTaskId: b })
+      .expect(409)
+
+    const task = await prisma.task.findUniqueOrThrow({
+      where: { id: a },
+      include: { statusTransitions: true },
+    })
+    expect(task.status).toBe(TaskStatus.TODO)
+    expect(task.statusTransitions).toEqual([])
+  })
+
+  it('should reuse the rank of a task moved to the trash', async () => {
+    const [a, b] = taskIds
+
+    await request(app)
+      .put(`/api/v1/tasks/${a}/move`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ status: TaskStatus.WIP })
+      .expect(200)
+    await request(app)
+      .delete(`/api/v1/tasks/${a}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200)
+
+    // The empty column hands out the trashed task's rank again
+    await request(app)
+      .put(`/api/v1/tasks/${b}/move`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ status: TaskStatus.WIP })
+      .expect(200)
+
+    expect(await columnTitles(TaskStatus.WIP)).toEqual(['B'])
+    const trashed = await prisma.task.findUniqueOrThrow({ where: { id: a } })
+    expect(trashed.rank).toBeNull()
+  })
+
+  it('should not hand out duplicate ranks to concurrent moves', async () => {
+    const [a, b, c] = taskIds
+
+    await Promise.all([
+      request(app)
+        .put(`/api/v1/tasks/${b}/move`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ beforeTaskId: a }),
+      request(app)
+        .put(`/api/v1/tasks/${c}/move`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ beforeTaskId: a }),
+    ])
+
+    const tasks = await prisma.task.findMany({
+      where: { id: { in: taskIds } },
+    })
+    const ranks = tasks.map((task) => task.rank)
+    expect(ranks.every((rank) => rank !== null)).toBe(true)
+    expect(new Set(ranks).size).toBe(3)
+  })
+})
@@ -0,0 +1,180 @@
+import request from 'supertest'
+import createApp from '../../../../src/app'
+import { TaskStatus } from '@prisma/client'
+import { tasksTestHelpers, prisma } from './tasks.helpers'
+
+const app = createApp()
+
+describe('Tasks Recurrence', () => {
+  let authToken: string
+  let adminToken: string
+  let userId: number
+  let projectId: number
+
+  beforeEach(async () => {
+    await tasksTestHelpers.cleanupDatabase()
+
+    const testData = await tasksTestHelpers.setupTestData()
+    authToken = testData.authToken
+    adminToken = testData.adminToken
+    userId = testData.user.id
+    projectId = testData.project.id
+  })
+
+  afterAll(async () => {
+    await tasksTestHelpers.cleanupDatabase()
+    await tasksTestHelpers.disconnectDatabase()
+  })
+
+  const makeRecurring = async (startsAt: string) => {
+    const task = await tasksTestHelpers.createTestTask(projectId, userId, {
+      title: 'Rotate logs',
+      status: TaskStatus.WIP,
+    })
+
+    await request(app)
+      .post(`/api/v1/tasks/${task.id}/recurrence`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ frequency: 'WEEKLY', startsAt })
+      .expect(201)
+
+    return task
+  }
+
+  describe('POST /api/v1/tasks/:id/recurrence', () => {
+    it('should link the task as the first occurrence', async () => {
+      const task = await tasksTestHelpers.createTestTask(projectId, userId)
+
+      const response = await request(app)
+        .post(`/api/v1/tasks/${task.id}/recurrence`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          frequency: 'WEEKLY',
+          byWeekday: ['MO'],
+          startsAt: '2030-01-07T09:00:00.000Z',
+        })
+        .expect(201)
+
+      expect(response.body.data.nextOccurrences[0]).toBe(
+        '2030-01-07T09:00:00.000Z',
+      )
+
+      const linked = await prisma.task.findUnique({ where: { id: task.id } })
+      expect(linked?.recurrenceId).toBe(response.body.data.recurrence.id)
+
+      await request(app)
+        .post(`/api/v1/tasks/${task.id}/recurrence`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ frequency: 'DAILY' })
+        .expect(409)
+    })
+  })
+
+  describe('Generation', () => {
+    it('should create the next occurrence once when a task is completed', async () => {
+      const task = await makeRecurring('2030-01-07T09:00:00.000Z')
+
+      for (const status of [TaskStatus.DONE, TaskStatus.WIP]) {
+        await request(app)
+          .put(`/api/v1/tasks/${task.id}`)
+          .set('Authorization', `Bearer ${authToken}`)
+          .send({ status, statusReason: 'Rerun' })
+          .expect(200)
+      }
+      await request(app)
+        .put(`/api/v1/tasks/${task.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ status: TaskStatus.DONE })
+        .expect(200)
+
+      const generated = await prisma.task.findMany({
+        where: { title: { startsWith: 'Rotate logs (' } },
+      })
+      expect(generated).toHaveLength(1)
+      expect(generated[0].title).toBe('Rotate logs (2030-01-14)')
+      expect(generated[0].status).toBe(TaskStatus.TODO)
+    })
+
+    it('should catch up on due occurrences without duplicating', async () => {
+      const threeWeeksAgo = new Date(Date.now() - 20 * 24 * 60 * 60 * 1000)
+      const task = await makeRecurring(threeWeeksAgo.toISOString())
+
+      const first = await request(app)
+        .post('/api/v1/tasks/recurrences/generate')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200)
+      expect(first.body.data.generatedCount).toBe(2)
+
+      const second = await request(app)
+        .post('/api/v1/tasks/recurrences/generate')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200)
+      expect(second.body.data.generatedCount).toBe(0)
+
+      const linked = await prisma.task.findUnique({ where: { id: task.id } })
+      expect(
+        await prisma.task.count({
+          where: { recurrenceId: linked?.recurrenceId },
+        }),
+      ).toBe(3)
+
+      const transitions = await prisma.taskStatusTransition.findMany({
+        where: { task: { title: { startsWith: 'Rotate logs (' } } },
+      })
+      expect(transitions).toEqual([
+        expect.objectContaining({
+          fromStatus: null,
+          toStatus: TaskStatus.TODO,
+        }),
+        expect.objectContaining({
+          fromStatus: null,
+          toStatus: TaskStatus.TODO,
+        }),
+      ])
+    })
+
+    it('should restrict manual generation to admins', async () => {
+      await request(app)
+        .post('/api/v1/tasks/recurrences/generate')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(403)
+    })
+  })
+
+  describe('PUT /api/v1/tasks/:id/recurrence', () => {
+    it('should split the series for this and future occurrences', async () => {
+      const first = await makeRecurring('2030-01-07T09:00:00.000Z')
+      const firstTask = await prisma.task.findUnique({
+        where: { id: first.id },
+      })
+      const second = await prisma.task.create({
+        data: {
+          title: 'Rotate logs (2030-01-14)',
+          projectId,
+          userId,
+          recurrenceId: firstTask!.recurrenceId,
+          occurrenceAt: new Date('2030-01-14T09:00:00.000Z'),
+        },
+      })
+
+      const response = await request(app)
+        .put(`/api/v1/tasks/${second.id}/recurrence`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ title: 'Rotate and archive logs', frequency: 'DAILY' })
+        .expect(200)
+
+      const newSeries = response.body.data.recurrence
+      expect(newSeries.previousRecurrenceId).toBe(firstTask!.recurrenceId)
+      expect(newSeries.frequency).toBe('DAILY')
+
+      const [oldTask, movedTask] = await Promise.all([
+        prisma.task.findUnique({ where: { id: first.id } }),
+        prisma.task.findUnique({ where: { id: second.id } }),
+      ])
+      expect(oldTask?.recurrenceId).toBe(firstTask!.recurrenceId)
+      expect(oldTask?.title).toBe('Rotate logs')
+      expect(movedTask?.recurrenceId).toBe(newSeries.id)
+      expect(movedTask?.title).toBe('Rotate and archive logs (2030-01-14)')
+    })
+  })
+})
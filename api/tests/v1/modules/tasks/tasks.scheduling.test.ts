@@ -0,0 +1,169 @@
+import request from 'supertest'
+import createApp from '../../../../src/app'
+import { TaskStatus } from '@prisma/client'
+import { tasksTestHelpers } from './tasks.helpers'
+
+const app = createApp()
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+describe('Tasks Priority and Due Dates', () => {
+  let authToken: string
+  let userId: number
+  let projectId: number
+
+  beforeEach(async () => {
+    await tasksTestHelpers.cleanupDatabase()
+
+    const testData = await tasksTestHelpers.setupTestData()
+    authToken = testData.authToken
+    userId = testData.user.id
+    projectId = testData.project.id
+  })
+
+  afterAll(async () => {
+    await tasksTestHelpers.cleanupDatabase()
+    await tasksTestHelpers.disconnectDatabase()
+  })
+
+  describe('Create and update', () => {
+    it('should store priority and dueAt', async () => {
+      const dueAt = new Date(Date.now() + 3 * DAY_MS).toISOString()
+
+      const response = await request(app)
+        .post('/api/v1/tasks')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ title: 'Urgent task', projectId, priority: 1, dueAt })
+        .expect(201)
+
+      expect(response.body.data.priority).toBe(1)
+      expect(response.body.data.dueAt).toBe(dueAt)
+
+      const updated = await request(app)
+        .put(`/api/v1/tasks/${response.body.data.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ priority: 7, dueAt: null })
+        .expect(200)
+
+      expect(updated.body.data.priority).toBe(7)
+      expect(updated.body.data.dueAt).toBeNull()
+    })
+
+    it('should default priority to 5', async () => {
+      const response = await request(app)
+        .post('/api/v1/tasks')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ title: 'Normal task', projectId })
+        .expect(201)
+
+      expect(response.body.data.priority).toBe(5)
+    })
+  })
+
+  describe('GET /api/v1/tasks filters', () => {
+    beforeEach(async () => {
+      await tasksTestHelpers.createTestTask(projectId, userId, {
+        title: 'Late task',
+        priority: 2,
+        dueAt: new Date(Date.now() - DAY_MS),
+      })
+      await tasksTestHelpers.createTestTask(projectId, userId, {
+        title: 'Late but done',
+        priority: 2,
+        status: TaskStatus.DONE,
+        dueAt: new Date(Date.now() - DAY_MS),
+      })
+      await tasksTestHelpers.createTestTask(projectId, userId, {
+        title: 'Future task',
+        priority: 8,
+        dueAt: new Date(Date.now() + 10 * DAY_MS),
+      })
+    })
+
+    it('should filter by priority', async () => {
+      const response = await request(app)
+        .get('/api/v1/tasks?priority=8')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(response.body.data.tasks).toHaveLength(1)
+      expect(response.body.data.tasks[0].title).toBe('Future task')
+    })
+
+    it('should only list open past-due tasks as overdue', async () => {
+      const response = await request(app)
+        .get('/api/v1/tasks?overdue=true')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(response.body.data.tasks).toHaveLength(1)
+      expect(response.body.data.tasks[0].title).toBe('Late task')
+    })
+
+    it('should sort by dueAt', async () => {
+      const response = await request(app)
+        .get('/api/v1/tasks?sortBy=dueAt&sortOrder=desc')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(response.body.data.tasks[0].title).toBe('Future task')
+    })
+  })
+
+  describe('GET /api/v1/tasks/user/:userId/stats', () => {
+    it('should count tasks by priority and real overdue tasks', async () => {
+      await tasksTestHelpers.createTestTask(projectId, userId, {
+        title: 'Late task',
+        priority: 1,
+        dueAt: new Date(Date.now() - DAY_MS),
+      })
+      await tasksTestHelpers.createTestTask(projectId, userId, {
+        title: 'No deadline',
+        priority: 1,
+      })
+      await tasksTestHelpers.createTestTask(projectId, userId, {
+        title: 'Someday',
+        priority: 9,
+      })
+
+      const response = await request(app)
+        .get(`/api/v1/tasks/user/${userId}/stats`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(response.body.data.byPriority).toEqual({ '1': 2, '9': 1 })
+      expect(response.body.data.overdueTasks).toBe(1)
+    })
+  })
+
+  describe('GET /api/v1/tasks/upcoming', () => {
+    it('should list open tasks due within the window, soonest first', async () => {
+      await tasksTestHelpers.createTestTask(projectId, userId, {
+        title: 'In two days',
+        dueAt: new Date(Date.now() + 2 * DAY_MS),
+      })
+      await tasksTestHelpers.createTestTask(projectId, userId, {
+        title: 'Tomorrow',
+        dueAt: new Date(Date.now() + DAY_MS),
+      })
+      await tasksTestHelpers.createTestTask(projectId, userId, {
+        title: 'Next month',
+        dueAt: new Date(Date.now() + 30 * DAY_MS),
+      })
+      await tasksTestHelpers.createTestTask(projectId, userId, {
+        title: 'Already done',
+        status: TaskStatus.DONE,
+        dueAt: new Date(Date.now() + DAY_MS),
+      })
+
+      const response = await request(app)
+        .get('/api/v1/tasks/upcoming?days=7')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(
+        response.body.data.map((task: { title: string }) => task.title),
+      ).toEqual(['Tomorrow', 'In two days'])
+    })
+  })
+})
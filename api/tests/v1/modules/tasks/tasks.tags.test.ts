@@ -0,0 +1,162 @@
+import request from 'supertest'
+import createApp from '../../../../src/app'
+import { tasksTestHelpers, prisma } from './tasks.helpers'
+
+const app = createApp()
+
+describe('Task Tags', () => {
+  let authToken: string
+  let userId: number
+  let projectId: number
+
+  const createTag = async (name: string, color?: string) => {
+    const response = await request(app)
+      .post('/api/v1/tags')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ name, color })
+      .expect(201)
+    return response.body.data
+  }
+
+  const tagTask = (taskId: number, tagIds: number[]) =>
+    request(app)
+      .put(`/api/v1/tasks/${taskId}/tags`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ tagIds })
+
+  beforeEach(async () => {
+    await tasksTestHelpers.cleanupDatabase()
+
+    const testData = await tasksTestHelpers.setupTestData()
+    authToken = testData.authToken
+    userId = testData.user.id
+    projectId = testData.project.id
+  })
+
+  afterAll(async () => {
+    await tasksTestHelpers.cleanupDatabase()
+    await tasksTestHelpers.disconnectDatabase()
+  })
+
+  it('should attach tags to a task and return them with it', async () => {
+    const task = await tasksTestHelpers.createTestTask(projectId, userId)
+    const urgent = await createTag('Urgent', '#DC2626')
+
+    const response = await tagTask(task.id, [urgent.id]).expect(200)
+    expect(response.body.data).toEqual([
+      { id: urgent.id, name: 'Urgent', color: '#dc2626' },
+    ])
+
+    const fetched = await request(app)
+      .get(`/api/v1/tasks/${task.id}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200)
+    expect(fetched.body.data.tags.map((tag: any) => tag.name)).toEqual([
+      'Urgent',
+    ])
+  })
+
+  it('should reject duplicate names regardless of case', async () => {
+    await createTag('Backend')
+
+    await request(app)
+      .post('/api/v1/tags')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ name: 'backend' })
+      .expect(409)
+  })
+
+  it('should filter tasks by any or all tags', async () => {
+    const both = await tasksTestHelpers.createTestTask(projectId, userId, {
+      title: 'Both',
+    })
+    const one = await tasksTestHelpers.createTestTask(projectId, userId, {
+      title: 'One',
+    })
+    await tasksTestHelpers.createTestTask(projectId, userId, {
+      title: 'None',
+    })
+    const api = await createTag('api')
+    const bug = await createTag('bug')
+    await tagTask(both.id, [api.id, bug.id]).expect(200)
+    await tagTask(one.id, [api.id]).expect(200)
+
+    const any = await request(app)
+      .get('/api/v1/tasks?tag=API,bug')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200)
+    expect(any.body.data.tasks).toHaveLength(2)
+
+    const all = await request(app)
+      .get('/api/v1/tasks?tag=api&tag=bug&tagMode=all')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200)
+    expect(all.body.data.tasks.map((task: any) => task.id)).toEqual([both.id])
+  })
+
+  it('should move attachments when merging tags', async () => {
+    const first = await tasksTestHelpers.createTestTask(projectId, userId, {
+      title: 'First',
+    })
+    const second = await tasksTestHelpers.createTestTask(projectId, userId, {
+      title: 'Second',
+    })
+    const source = await createTag('frontend')
+    const target = await createTag('ui')
+    await tagTask(first.id, [source.id]).expect(200)
+    await tagTask(second.id, [source.id, target.id]).expect(200)
+
+    const response = await request(app)
+      .post(`/api/v1/tags/${source.id}/merge`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ targetTagId: target.id })
+      .expect(200)
+
+    expect(response.body.data._count.tasks).toBe(2)
+    expect(await prisma.tag.findUnique({ where: { id: source.id } })).toBeNull()
+  })
+
+  it('should keep rename conflicts from creating duplicates', async () => {
+    await createTag('docs')
+    const other = await createTag('documentation')
+
+    await request(app)
+      .put(`/api/v1/tags/${other.id}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ name: 'Docs' })
+      .expect(409)
+  })
+
+  it("should not attach another user's tags", async () => {
+    const task = await tasksTestHelpers.createTestTask(projectId, userId)
+    const other = await tasksTestHelpers.createTestUser()
+    const foreign = await prisma.tag.create({
+      data: { userId: other.id, name: 'private' },
+    })
+
+    await tagTask(task.id, [foreign.id]).expect(404)
+  })
+  it("should neither show nor filter by other users' tags", async () => {
+    const task = await tasksTestHelpers.createTestTask(projectId, userId)
+    const other = await tasksTestHelpers.createTestUser()
+    await prisma.tag.create({
+      data: {
+        userId: other.id,
+        name: 'private',
+        tasks: { connect: { id: task.id } },
+      },
+    })
+
+    const fetched = await request(app)
+      .get(`/api/v1/tasks/${task.id}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200)
+    expect(fetched.body.data.tags).toEqual([])
+
+    const filtered = await request(app)
+      .get('/api/v1/tasks?tag=private')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200)
+    expect(filtered.body.data.tasks).toHaveLength(0)
+  })
+})
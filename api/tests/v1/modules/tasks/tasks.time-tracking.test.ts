@@ -0,0 +1,194 @@
+import request from 'supertest'
+import createApp from '../../../../src/app'
+import { tasksTestHelpers, prisma } from './tasks.helpers'
+
+const app = createApp()
+
+describe('Tasks Time Tracking', () => {
+  let authToken: string
+  let adminToken: string
+  let userId: number
+  let projectId: number
+
+  beforeEach(async () => {
+    await tasksTestHelpers.cleanupDatabase()
+
+    const testData = await tasksTestHelpers.setupTestData()
+    authToken = testData.authToken
+    adminToken = testData.adminToken
+    userId = testData.user.id
+
+    const project = await tasksTestHelpers.createTestProject(userId, {
+      title: 'Billable Project',
+      rate: 80,
+      billingCycle: 'HOURLY',
+      currency: 'USD',
+    })
+    projectId = project.id
+  })
+
+  afterAll(async () => {
+    await tasksTestHelpers.cleanupDatabase()
+    await tasksTestHelpers.disconnectDatabase()
+  })
+
+  describe('Timers', () => {
+    it('should start and stop a timer on a task', async () => {
+      const task = await tasksTestHelpers.createTestTask(projectId, userId)
+
+      const started = await request(app)
+        .post('/api/v1/time-entries/start')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ taskId: task.id })
+        .expect(201)
+
+      expect(started.body.data.endedAt).toBeNull()
+
+      const running = await request(app)
+        .get('/api/v1/time-entries/running')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+      expect(running.body.data.id).toBe(started.body.data.id)
+
+      const stopped = await request(app)
+        .post('/api/v1/time-entries/stop')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ notes: 'Investigated the bug' })
+        .expect(200)
+
+      expect(stopped.body.data.endedAt).not.toBeNull()
+      expect(stopped.body.data.durationMinutes).toBe(0)
+      expect(stopped.body.data.notes).toBe('Investigated the bug')
+    })
+
+    it('should refuse a second running timer', async () => {
+      const task = await tasksTestHelpers.createTestTask(projectId, userId)
+
+      await request(app)
+        .post('/api/v1/time-entries/start')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ taskId: task.id })
+        .expect(201)
+
+      const response = await request(app)
+        .post('/api/v1/time-entries/start')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ taskId: task.id })
+        .expect(409)
+
+      expect(response.body.message).toContain('already running')
+    })
+
+    it('should return 404 when stopping without a running timer', async () => {
+      await request(app)
+        .post('/api/v1/time-entries/stop')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({})
+        .expect(404)
+    })
+  })
+
+  describe('Manual entries', () => {
+    it('should roll logged time up into task timeSpent and cost', async () => {
+      const task = await tasksTestHelpers.createTestTask(projectId, userId)
+
+      await request(app)
+        .post('/api/v1/time-entries')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          taskId: task.id,
+          startedAt: '2026-03-02T09:00:00.000Z',
+          durationMinutes: 90,
+        })
+        .expect(201)
+
+      const updated = await prisma.task.findUnique({ where: { id: task.id } })
+      expect(Number(updated?.timeSpent)).toBe(1.5)
+      expect(Number(updated?.costInProjectCurrency)).toBe(120)
+    })
+
+    it('should recalculate totals when an entry is edited or deleted', async () => {
+      const task = await tasksTestHelpers.createTestTask(projectId, userId)
+
+      const created = await request(app)
+        .post('/api/v1/time-entries')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          taskId: task.id,
+          startedAt: '2026-03-02T09:00:00.000Z',
+          endedAt: '2026-03-02T10:00:00.000Z',
+        })
+        .expect(201)
+
+      await request(app)
+        .put(`/api/v1/time-entries/${created.body.data.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ durationMinutes: 30 })
+        .expect(200)
+
+      let updated = await prisma.task.findUnique({ where: { id: task.id } })
+      expect(Number(updated?.timeSpent)).toBe(0.5)
+
+      await request(app)
+        .delete(`/api/v1/time-entries/${created.body.data.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      updated = await prisma.task.findUnique({ where: { id: task.id } })
+      expect(updated?.timeSpent).toBeNull()
+    })
+
+    it('should reject entries without an end or duration', async () => {
+      const task = await tasksTestHelpers.createTestTask(projectId, userId)
+
+      await request(app)
+        .post('/api/v1/time-entries')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ taskId: task.id, startedAt: '2026-03-02T09:00:00.000Z' })
+        .expect(400)
+    })
+  })
+
+  describe('GET /api/v1/time-entries/timesheet', () => {
+    it('should group a week of entries by day', async () => {
+      const task = await tasksTestHelpers.createTestTask(projectId, userId)
+
+      for (const startedAt of [
+        '2026-03-02T09:00:00.000Z',
+        '2026-03-02T14:00:00.000Z',
+        '2026-03-04T09:00:00.000Z',
+        '2026-03-10T09:00:00.000Z',
+      ]) {
+        await request(app)
+          .post('/api/v1/time-entries')
+          .set('Authorization', `Bearer ${authToken}`)
+          .send({ taskId: task.id, startedAt, durationMinutes: 60 })
+          .expect(201)
+      }
+
+      const response = await request(app)
+        .get('/api/v1/time-entries/timesheet?period=week&date=2026-03-04')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(response.body.data.days).toHaveLength(7)
+      expect(response.body.data.days[0].date).toBe('2026-03-02')
+      expect(response.body.data.days[0].totalMinutes).toBe(120)
+      expect(response.body.data.totalMinutes).toBe(180)
+    })
+
+    it("should not expose another user's timesheet to regular users", async () => {
+      const other = await tasksTestHelpers.createTestUser()
+
+      await request(app)
+        .get(`/api/v1/time-entries/timesheet?userId=${other.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(403)
+
+      await request(app)
+        .get(`/api/v1/time-entries/timesheet?userId=${other.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200)
+    })
+  })
+})
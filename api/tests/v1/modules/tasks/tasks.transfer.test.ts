@@ -0,0 +1,197 @@
+import request from 'supertest'
+import createApp from '../../../../src/app'
+import { TaskStatus } from '@prisma/client'
+import { tasksTestHelpers, prisma } from './tasks.helpers'
+
+const app = createApp()
+
+describe('Task Import and Export', () => {
+  let authToken: string
+  let userId: number
+  let projectId: number
+
+  beforeEach(async () => {
+    await tasksTestHelpers.cleanupDatabase()
+
+    const testData = await tasksTestHelpers.setupTestData()
+    authToken = testData.authToken
+    userId = testData.user.id
+    projectId = testData.project.id
+  })
+
+  afterAll(async () => {
+    await tasksTestHelpers.cleanupDatabase()
+    await tasksTestHelpers.disconnectDatabase()
+  })
+
+  describe('GET /api/v1/tasks/export', () => {
+    it('should export filtered tasks as CSV', async () => {
+      await tasksTestHelpers.createTestTask(projectId, userId, {
+        title: 'Write, then ship',
+        status: TaskStatus.TODO,
+      })
+      await tasksTestHelpers.createTestTask(projectId, userId, {
+        title: 'Already done',
+        status: TaskStatus.DONE,
+      })
+
+      const response = await request(app)
+        .get(`/api/v1/tasks/export?format=csv&status=${TaskStatus.TODO}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(response.headers['content-type']).toContain('text/csv')
+      expect(response.headers['content-disposition']).toContain('attachment')
+
+      const lines = response.text.trim().split('\r\n')
+      expect(lines[0]).toMatch(/^id,uuid,title,status,/)
+      expect(lines).toHaveLength(2)
+      expect(lines[1]).toContain('"Write, then ship",TODO')
+    })
+
+    it('should export tasks as a JSON array', async () => {
+      const task = await tasksTestHelpers.createTestTask(projectId, userId)
+
+      const response = await request(app)
+        .get('/api/v1/tasks/export?format=json')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(response.body.map((item: any) => item.id)).toEqual([task.id])
+    })
+
+    it('should leave out tasks the user is not involved in', async () => {
+      const other = await tasksTestHelpers.createTestUser()
+      const otherProject = await tasksTestHelpers.createTestProject(other.id)
+      await tasksTestHelpers.createTestTask(otherProject.id, other.id)
+
+      const response = await request(app)
+        .get('/api/v1/tasks/export?format=json')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(response.body).toEqual([])
+    })
+  })
+
+  describe('POST /api/v1/projects/:id/tasks/import', () => {
+    const csv = [
+      'Task Name,State,Priority,Due',
+      'Design schema,todo,2,2026-03-01',
+      'Bad priority,todo,99,',
+      ',todo,3,',
+    ].join('\n')
+    const mapping = {
+      title: 'Task Name',
+      status: 'State',
+      priority: 'Priority',
+      dueAt: 'Due',
+    }
+
+    it('should report row errors without creating anything in a dry run', async () => {
+      const response = await request(app)
+        .post(`/api/v1/projects/${projectId}/tasks/import`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ csv, mapping, dryRun: true })
+        .expect(200)
+
+      expect(response.body.data).toMatchObject({
+        dryRun: true,
+        total: 3,
+        created: 1,
+        failed: 2,
+      })
+      expect(response.body.data.rows[1]).toMatchObject({
+        row: 3,
+        status: 'failed',
+        errors: [expect.objectContaining({ field: 'priority' })],
+      })
+
+      const count = await prisma.task.count({ where: { projectId } })
+      expect(count).toBe(0)
+    })
+
+    it('should create the valid rows', async () => {
+      const response = await request(app)
+        .post(`/api/v1/projects/${projectId}/tasks/import`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ csv, mapping })
+        .expect(200)
+
+      const created = await prisma.task.findUnique({
+        where: { id: response.body.data.rows[0].taskId },
+      })
+      expect(created).toMatchObject({
+        title: 'Design schema',
+        status: TaskStatus.TODO,
+        priority: 2,
+        creatorId: userId,
+      })
+      expect(created?.dueAt?.toISOString()).toBe('2026-03-01T00:00:00.000Z')
+    })
+
+    it.each([
+      ['skip', 'skipped', 'Existing'],
+      ['rename', 'created', 'Existing (2)'],
+      ['fail', 'failed', 'Existing'],
+    ])(
+      'should handle duplicate titles with %s',
+      async (onDuplicate, status, title) => {
+        await tasksTestHelpers.createTestTask(projectId, userId, {
+          title: 'Existing',
+        })
+
+        const response = await request(app)
+          .post(`/api/v1/projects/${projectId}/tasks/import`)
+          .set('Authorization', `Bearer ${authToken}`)
+          .send({ csv: 'title\nExisting', onDuplicate })
+          .expect(200)
+
+        expect(response.body.data.rows[0]).toMatchObject({ status, title })
+      },
+    )
+
+    it('should accept a full import well past the default body limit', async () => {
+      const rows = (count: number) =>
+        [
+          'title,definitionOfDone',
+          ...Array.from(
+            { length: count },
+            (_, index) => `Task ${index} ${'x'.repeat(150)},${'y'.repeat(300)}`,
+          ),
+        ].join('\n')
+
+      const response = await request(app)
+        .post(`/api/v1/projects/${projectId}/tasks/import`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ csv: rows(1000), dryRun: true })
+        .expect(200)
+      expect(response.body.data).toMatchObject({ total: 1000, created: 1000 })
+
+      await request(app)
+        .post(`/api/v1/projects/${projectId}/tasks/import`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ csv: rows(1001), dryRun: true })
+        .expect(400)
+    })
+
+    it('should reject a mapping to a missing column', async () => {
+      await request(app)
+        .post(`/api/v1/projects/${projectId}/tasks/import`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ csv: 'title\nOne', mapping: { status: 'State' } })
+        .expect(400)
+    })
+
+    it("should not import into another user's project", async () => {
+      const other = await tasksTestHelpers.createTestUser()
+      const otherProject = await tasksTestHelpers.createTestProject(other.id)
+
+      await request(app)
+        .post(`/api/v1/projects/${otherProject.id}/tasks/import`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ csv: 'title\nOne' })
+        .expect(404)
+    })
+  })
+})
@@ -0,0 +1,185 @@
+import request from 'supertest'
+import createApp from '../../../../src/app'
+import { TaskStatus } from '@prisma/client'
+import { tasksTestHelpers, prisma } from './tasks.helpers'
+
+const app = createApp()
+
+describe('Tasks Workflow', () => {
+  let authToken: string
+  let userId: number
+  let projectId: number
+
+  beforeEach(async () => {
+    await tasksTestHelpers.cleanupDatabase()
+
+    const testData = await tasksTestHelpers.setupTestData()
+    authToken = testData.authToken
+    userId = testData.user.id
+    projectId = testData.project.id
+  })
+
+  afterAll(async () => {
+    await tasksTestHelpers.cleanupDatabase()
+    await tasksTestHelpers.disconnectDatabase()
+  })
+
+  const updateTask = (taskId: number, data: Record<string, unknown>) =>
+    request(app)
+      .put(`/api/v1/tasks/${taskId}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send(data)
+
+  describe('Default workflow', () => {
+    it('should reject jumping from BACKLOG straight to DONE', async () => {
+      const task = await tasksTestHelpers.createTestTask(projectId, userId)
+
+      const response = await updateTask(task.id, {
+        status: TaskStatus.DONE,
+      }).expect(409)
+
+      expect(response.body.message).toContain('not allowed')
+    })
+
+    it('should require a reason to reopen a DONE task', async () => {
+      const task = await tasksTestHelpers.createTestTask(projectId, userId, {
+        status: TaskStatus.DONE,
+      })
+
+      await updateTask(task.id, { status: TaskStatus.WIP }).expect(409)
+
+      const response = await updateTask(task.id, {
+        status: TaskStatus.WIP,
+        statusReason: 'Regression found in review',
+      }).expect(200)
+
+      expect(response.body.data.status).toBe(TaskStatus.WIP)
+      expect(response.body.data.endedAt).toBeNull()
+    })
+
+    it('should stamp startedAt and endedAt automatically', async () => {
+      const task = await tasksTestHelpers.createTestTask(projectId, userId, {
+        status: TaskStatus.TODO,
+      })
+
+      const started = await updateTask(task.id, {
+        status: TaskStatus.WIP,
+      }).expect(200)
+      expect(started.body.data.startedAt).not.toBeNull()
+
+      const finished = await updateTask(task.id, {
+        status: TaskStatus.DONE,
+      }).expect(200)
+      expect(finished.body.data.endedAt).not.toBeNull()
+      expect(finished.body.data.startedAt).toBe(started.body.data.startedAt)
+    })
+  })
+
+  describe('PUT /api/v1/tasks/project/:projectId/workflow', () => {
+    it('should apply project transition overrides', async () => {
+      await request(app)
+        .put(`/api/v1/tasks/project/${projectId}/workflow`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          transitions: [{ from: TaskStatus.BACKLOG, to: TaskStatus.DONE }],
+        })
+        .expect(200)
+
+      const task = await tasksTestHelpers.createTestTask(projectId, userId)
+
+      await updateTask(task.id, { status: TaskStatus.DONE }).expect(200)
+    })
+
+    it('should enforce the project WIP limit', async () => {
+      await request(app)
+        .put(`/api/v1/tasks/project/${projectId}/workflow`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ wipLimit: 1 })
+        .expect(200)
+
+      await tasksTestHelpers.createTestTask(projectId, userId, {
+        title: 'Already in progress',
+        status: TaskStatus.WIP,
+      })
+      const task = await tasksTestHelpers.createTestTask(projectId, userId, {
+        title: 'Waiting',
+        status: TaskStatus.TODO,
+      })
+
+      const response = await updateTask(task.id, {
+        status: TaskStatus.WIP,
+      }).expect(409)
+
+      expect(response.body.message).toContain('WIP limit')
+    })
+
+    it('should hold the WIP limit under concurrent updates', async () => {
+      await request(app)
+        .put(`/api/v1/tasks/project/${projectId}/workflow`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ wipLimit: 1 })
+        .expect(200)
+
+      const tasks = []
+      for (const title of ['First', 'Second', 'Third']) {
+        tasks.push(
+          await tasksTestHelpers.createTestTask(projectId, userId, {
+            title,
+            status: TaskStatus.TODO,
+          }),
+        )
+      }
+
+      const responses = await Promise.all(
+        tasks.map((task) => updateTask(task.id, { status: TaskStatus.WIP })),
+      )
+
+      expect(responses.map((response) => response.status).sort()).toEqual([
+        200, 409, 409,
+      ])
+      expect(
+        await prisma.task.count({
+          where: { projectId, status: TaskStatus.WIP },
+        }),
+      ).toBe(1)
+    })
+
+    it('should enforce the per-assignee WIP limit', async () => {
+      await request(app)
+        .put(`/api/v1/tasks/project/${projectId}/workflow`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ wipLimitPerAssignee: 1 })
+        .expect(200)
+
+      await tasksTestHelpers.createTestTask(projectId, userId, {
+        title: 'Already in progress',
+        status: TaskStatus.WIP,
+      })
+      const task = await tasksTestHelpers.createTestTask(projectId, userId, {
+        title: 'Waiting',
+        status: TaskStatus.TODO,
+      })
+
+      await updateTask(task.id, { status: TaskStatus.WIP }).expect(409)
+    })
+
+    it('should fall back to the default workflow after a reset', async () => {
+      await request(app)
+        .put(`/api/v1/tasks/project/${projectId}/workflow`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ wipLimit: 1 })
+        .expect(200)
+
+      const response = await request(app)
+        .delete(`/api/v1/tasks/project/${projectId}/workflow`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200)
+
+      expect(response.body.data.isDefault).toBe(true)
+      expect(response.body.data.wipLimit).toBeNull()
+      expect(await prisma.projectWorkflow.count({ where: { projectId } })).toBe(
+        0,
+      )
+    })
+  })
+})